@@ -2,8 +2,10 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "./oracles/IPriceOracle.sol";
 
 contract LendingPoolTest is Ownable, ReentrancyGuard {
     struct Collateral {
@@ -15,50 +17,206 @@ contract LendingPoolTest is Ownable, ReentrancyGuard {
         bool isActive;
     }
 
-    address public constant NATIVE_BNB = address(0);
-    address public constant WBNB = 0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c;
-    address public constant USDT = 0x55d398326f99059fF775485246999027B3197955;
-    address public constant USDC = 0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d;
-    address public constant WETH = 0x2170Ed0880ac9A755fd29B2688956BD959F933F8;
-    address public constant CDT = 0x0cBD6fAdcF8096cC9A43d90B45F65826102e3eCE;
+    /// @notice Where a token's USD price comes from, and the circuit breakers applied to it. A price
+    /// older than `maxStaleness` seconds (0 disables the check) is rejected, and so is one more than
+    /// `maxDeviationBps` away from the optional `referenceOracle`'s, which has to be fresh too.
+    struct PriceFeed {
+        IPriceOracle oracle;
+        IPriceOracle referenceOracle;
+        uint256 maxStaleness;
+        uint256 maxDeviationBps;
+    }
+
+    /// @notice Kinked borrow rate curve, all 1e18-scaled yearly rates. Below the `kink` utilization
+    /// the rate climbs from `baseRate` by `slope1` over the whole range up to the kink; past it,
+    /// `slope2` more over the rest, so a market running dry gets expensive quickly.
+    struct RateModel {
+        uint256 baseRate;
+        uint256 slope1;
+        uint256 slope2;
+        uint256 kink;
+    }
+
+    /// @notice Borrowing state of one token. `borrowIndex` starts at 1e18 and grows by the borrow
+    /// rate; every debt grows in proportion to it from the index at the borrower's last update.
+    struct MarketState {
+        uint256 totalBorrows;
+        uint256 borrowIndex;
+        uint256 lastAccrual;
+    }
+
+    struct BorrowSnapshot {
+        uint256 principal;
+        uint256 index;
+    }
 
-    address public constant WBNB_USDT_PAIR = 0x4c2B1F4de009B58498B8b66e10A231A1B233277E;
-    address public constant WETH_USDT_PAIR = 0xBe141893E4c6AD9272e8C04BAB7E6a10604501a5;
-    address public constant CDT_WBNB_PAIR = 0xf8104aAa719D31ea25dC494576593c10a8f929E6;
+    /// @notice A token to list at deployment, as `_addToken` takes it
+    struct TokenInit {
+        address token;
+        uint256 weight;
+        PriceFeed priceFeed;
+        RateModel rateModel;
+    }
+
+    struct AccountData {
+        address[] tokens;
+        uint256[] collateral;
+        uint256[] debt;
+        uint256[] prices;
+        uint256[] priceUpdatedAt;
+        // Why each price would be rejected by `getTokenPrice`, or empty when it's usable
+        string[] priceErrors;
+        uint256[] reserves;
+        uint256[] borrowRates;
+        uint256[] supplyRates;
+        uint256[] lpShares;
+        // What `lpShares` would redeem for, reserves permitting
+        uint256[] lpBalances;
+        uint256 totalCollateralUSD;
+        uint256 borrowCapacity;
+        uint256 totalDebtUSD;
+        uint256 indebtedness;
+    }
+
+    struct MarketData {
+        address[] tokens;
+        uint256[] weights;
+        bool[] active;
+        uint256[] reserves;
+        uint256[] prices;
+        uint256[] priceUpdatedAt;
+        string[] priceSources;
+        // Why each price would be rejected by `getTokenPrice`, or empty when it's usable
+        string[] priceErrors;
+        uint256[] totalBorrows;
+        uint256[] borrowRates;
+        uint256[] supplyRates;
+        uint256[] totalShares;
+        uint256[] liquidity;
+        uint256[] treasury;
+        uint256[] deficits;
+    }
+
+    address public constant NATIVE_BNB = address(0);
 
     uint256 public constant MAX_BORROW_RATIO = 80;
     uint256 public constant LIQUIDATION_THRESHOLD = 80;
     uint256 private constant PRECISION = 1e18;
+    uint256 private constant BPS = 10000;
+    uint256 private constant SECONDS_PER_YEAR = 365 days;
 
     mapping(address => mapping(address => Collateral)) public userCollateral;
-    mapping(address => mapping(address => uint256)) public userDebt;
+    mapping(address => mapping(address => BorrowSnapshot)) private borrowSnapshots;
     mapping(address => TokenConfig) public tokenConfigs;
     mapping(address => uint256) public reserves;
+    mapping(address => PriceFeed) public priceFeeds;
+    mapping(address => RateModel) public rateModels;
+    mapping(address => MarketState) public marketStates;
+    /// @notice Liquidity provider shares, user => token => shares. A token's shares split its
+    /// reserves plus everything lent out of them, so they appreciate as borrow interest accrues.
+    mapping(address => mapping(address => uint256)) public lpShares;
+    mapping(address => uint256) public totalShares;
+    /// @notice The protocol's cut of each token's borrow interest. It stays lent out and in the
+    /// reserves like the providers' liquidity, and backs the deficits bad debt leaves.
+    mapping(address => uint256) public treasuryReserves;
+    /// @notice Debt written off with no collateral left to seize that the treasury hasn't covered
+    /// yet. The providers' liquidity leaves it out from the start, and gets back whatever the
+    /// treasury covers later, so nobody escapes the loss by redeeming first.
+    mapping(address => uint256) public deficits;
     address[] public supportedTokens;
 
+    /// @notice Most of one debt a single liquidation may repay, in basis points of that debt
+    uint256 public closeFactorBps = 5000;
+    /// @notice Premium on the repaid value that the liquidator seizes in collateral, in basis points
+    uint256 public liquidationBonusBps = 500;
+    /// @notice Share of borrow interest that goes to the treasury instead of liquidity providers
+    uint256 public reserveFactorBps = 1000;
+
     event Deposited(address indexed user, address indexed token, uint256 amount);
     event Withdrawn(address indexed user, address indexed token, uint256 amount);
     event Borrowed(address indexed user, address indexed token, uint256 amount);
     event Repaid(address indexed user, address indexed token, uint256 amount);
-    event Liquidated(address indexed user, uint256 totalDebtUSD, address[] tokens, uint256[] amounts);
+    event Liquidated(
+        address indexed user,
+        address indexed liquidator,
+        address debtToken,
+        uint256 repaidAmount,
+        address collateralToken,
+        uint256 seizedAmount
+    );
     event TokenAdded(address indexed token, uint256 weight);
-    event PoolFunded(address indexed user, address indexed token, uint256 amount);
-    event PoolFundsWithdrawn(address indexed owner, address indexed token, uint256 amount);
-
-    constructor() Ownable() {
-        _addToken(USDT, 100);
-        _addToken(NATIVE_BNB, 70);
-        _addToken(USDC, 100);
-        _addToken(WETH, 70);
-        _addToken(CDT, 50);
+    event PoolFunded(address indexed user, address indexed token, uint256 amount, uint256 shares);
+    event LiquidityRedeemed(address indexed user, address indexed token, uint256 shares, uint256 amount);
+    event PriceFeedSet(
+        address indexed token,
+        address oracle,
+        address referenceOracle,
+        uint256 maxStaleness,
+        uint256 maxDeviationBps
+    );
+    event RateModelSet(address indexed token, uint256 baseRate, uint256 slope1, uint256 slope2, uint256 kink);
+    event InterestAccrued(address indexed token, uint256 interest, uint256 borrowIndex, uint256 totalBorrows);
+    event LiquidationParamsSet(uint256 closeFactorBps, uint256 liquidationBonusBps);
+    event ReserveFactorSet(uint256 reserveFactorBps);
+    event BadDebtRecorded(address indexed user, address indexed token, uint256 amount);
+    event DeficitCovered(address indexed token, uint256 amount, uint256 remaining);
+    event DeficitSocialized(address indexed token, uint256 amount);
+    event TreasuryWithdrawn(address indexed token, address indexed to, uint256 amount);
+
+    constructor(TokenInit[] memory tokens) Ownable() {
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _addToken(tokens[i].token, tokens[i].weight, tokens[i].priceFeed, tokens[i].rateModel);
+        }
     }
 
-    function _addToken(address token, uint256 weight) public onlyOwner {
+    function _addToken(
+        address token,
+        uint256 weight,
+        PriceFeed memory priceFeed,
+        RateModel memory rateModel
+    ) public onlyOwner {
         require(weight > 0 && weight <= 100, "Invalid weight");
         require(tokenConfigs[token].weight == 0, "Token exists");
         tokenConfigs[token] = TokenConfig(weight, true);
+        marketStates[token] = MarketState(0, PRECISION, block.timestamp);
         supportedTokens.push(token);
         emit TokenAdded(token, weight);
+        _setPriceFeed(token, priceFeed);
+        _setRateModel(token, rateModel);
+    }
+
+    /// @notice Changes `token`'s rate curve. Interest up to now accrues at the old one.
+    function setRateModel(address token, RateModel memory rateModel) external onlyOwner {
+        _ensureTokenSupported(token);
+        _accrue(token);
+        _setRateModel(token, rateModel);
+    }
+
+    function _setRateModel(address token, RateModel memory rateModel) internal {
+        require(rateModel.kink > 0 && rateModel.kink <= PRECISION, "Invalid rate model");
+        rateModels[token] = rateModel;
+        emit RateModelSet(token, rateModel.baseRate, rateModel.slope1, rateModel.slope2, rateModel.kink);
+    }
+
+    /// @notice Moves `token` to another oracle, or changes its circuit breakers
+    function setPriceFeed(address token, PriceFeed memory priceFeed) external onlyOwner {
+        _ensureTokenSupported(token);
+        _setPriceFeed(token, priceFeed);
+    }
+
+    function _setPriceFeed(address token, PriceFeed memory priceFeed) internal {
+        require(address(priceFeed.oracle) != address(0), "Invalid price feed");
+        if (address(priceFeed.referenceOracle) != address(0)) {
+            require(priceFeed.maxDeviationBps > 0 && priceFeed.maxDeviationBps < BPS, "Invalid price feed");
+        }
+        priceFeeds[token] = priceFeed;
+        emit PriceFeedSet(
+            token,
+            address(priceFeed.oracle),
+            address(priceFeed.referenceOracle),
+            priceFeed.maxStaleness,
+            priceFeed.maxDeviationBps
+        );
     }
 
     function deposit(address token, uint256 amount) external payable nonReentrant {
@@ -76,7 +234,7 @@ contract LendingPoolTest is Ownable, ReentrancyGuard {
         require(amount > 0, "Amount = 0");
         require(userCollateral[msg.sender][token].amount >= amount, "Low collateral");
 
-        uint256 withdrawUSD = (amount * getTokenPrice(token)) / PRECISION;
+        uint256 withdrawUSD = _toUSD(token, amount);
         uint256 totalDebt = getTotalDebtUSD(msg.sender);
         uint256 capacity = getBorrowCapacity(msg.sender);
         require(capacity >= withdrawUSD, "Exceeds capacity");
@@ -92,117 +250,270 @@ contract LendingPoolTest is Ownable, ReentrancyGuard {
         _ensureTokenSupported(token);
         require(amount > 0, "Amount = 0");
         require(reserves[token] >= amount, "Low reserve");
+        _accrue(token);
 
-        uint256 borrowUSD = (amount * getTokenPrice(token)) / PRECISION;
+        uint256 borrowUSD = _toUSD(token, amount);
         uint256 userCapacity = getBorrowCapacity(msg.sender);
         uint256 currentDebt = getTotalDebtUSD(msg.sender);
 
         require(currentDebt + borrowUSD <= (userCapacity * MAX_BORROW_RATIO) / 100, "Exceeds limit");
 
-        userDebt[msg.sender][token] += amount;
+        _setDebt(msg.sender, token, userDebt(msg.sender, token) + amount);
+        marketStates[token].totalBorrows += amount;
         reserves[token] -= amount;
         _transferOut(token, msg.sender, amount);
 
         emit Borrowed(msg.sender, token, amount);
     }
 
+    /// @notice Repays `amount` of the sender's `token` debt, or all of it for `type(uint256).max`.
+    /// Debt keeps accruing until the transaction lands, so a full native repayment should send a
+    /// little more than the current debt; the excess is refunded.
     function repay(address token, uint256 amount) external payable nonReentrant {
         _ensureTokenSupported(token);
         require(amount > 0, "Amount = 0");
-        require(userDebt[msg.sender][token] >= amount, "Too much");
-
-        _transferIn(token, msg.sender, amount);
-        userDebt[msg.sender][token] -= amount;
+        _accrue(token);
+        uint256 debt = userDebt(msg.sender, token);
+        bool repayAll = amount == type(uint256).max;
+        if (repayAll) amount = debt;
+        require(amount > 0, "No debt");
+        require(debt >= amount, "Too much");
+
+        if (repayAll && token == NATIVE_BNB) {
+            require(msg.value >= amount, "Invalid BNB");
+        } else {
+            _transferIn(token, msg.sender, amount);
+        }
+        _setDebt(msg.sender, token, debt - amount);
+        _reduceTotalBorrows(token, amount);
         reserves[token] += amount;
+        if (repayAll && token == NATIVE_BNB && msg.value > amount) {
+            _transferOut(NATIVE_BNB, msg.sender, msg.value - amount);
+        }
 
         emit Repaid(msg.sender, token, amount);
     }
 
-    function liquidate(address user) external nonReentrant {
-        uint256 totalDebtUSD = getTotalDebtUSD(user);
-        require(totalDebtUSD > 0, "No debt");
-        require(getIndebtedness(user) > LIQUIDATION_THRESHOLD, "Healthy");
-
-        address[] memory tokens = new address[](supportedTokens.length);
-        uint256[] memory amounts = new uint256[](supportedTokens.length);
-        uint256 totalCollateralUSD = 0;
-        uint256 count = 0;
+    /// @notice Repays up to `closeFactorBps` of `user`'s `debtToken` debt (all of that for
+    /// `type(uint256).max`) once their indebtedness passes LIQUIDATION_THRESHOLD, and sends the
+    /// sender `collateralToken` collateral worth the repaid value plus `liquidationBonusBps`. When
+    /// that collateral can't cover it all, the repayment shrinks to what it does cover. Once what
+    /// collateral remains backs no borrowing at all, the sender takes it too and the user's remaining
+    /// debt is written off as bad debt; a position already there is written off without repaying
+    /// anything. Native repayments may send more than needed; the excess is refunded.
+    function liquidate(
+        address user,
+        address debtToken,
+        uint256 repayAmount,
+        address collateralToken
+    ) external payable nonReentrant {
+        _ensureTokenSupported(debtToken);
+        _ensureTokenSupported(collateralToken);
+        require(repayAmount > 0, "Amount = 0");
+        _accrue(debtToken);
+        uint256 totalDebt = getTotalDebtUSD(user);
+        require(totalDebt > 0, "No debt");
+        // Debt with no borrow capacity behind it at all is past any threshold
+        uint256 cap = getBorrowCapacity(user);
+        require(cap == 0 || (totalDebt * 100) / cap > LIQUIDATION_THRESHOLD, "Healthy");
+
+        uint256 debt = userDebt(user, debtToken);
+        require(debt > 0, "No debt");
+        // Nothing left is worth seizing for value (it may have no price at all), so the sender
+        // takes it for nothing and the debt is written off
+        if (cap == 0) {
+            if (msg.value > 0) _transferOut(NATIVE_BNB, msg.sender, msg.value);
+            _writeOffBadDebt(user, debtToken);
+            return;
+        }
+        uint256 maxRepay = (debt * closeFactorBps) / BPS;
+        if (repayAmount == type(uint256).max) repayAmount = maxRepay;
+        require(repayAmount <= maxRepay, "Exceeds close factor");
+
+        uint256 collateral = userCollateral[user][collateralToken].amount;
+        require(collateral > 0, "No collateral");
+        uint256 seizeAmount = getSeizeAmount(debtToken, repayAmount, collateralToken);
+        if (seizeAmount > collateral) {
+            repayAmount = (repayAmount * collateral) / seizeAmount;
+            seizeAmount = collateral;
+        }
+        // Dust collateral can shrink the repayment to nothing; seizing it still clears the way to
+        // writing the debt off
+        require(seizeAmount > 0, "Amount = 0");
 
-        for (uint256 i = 0; i < supportedTokens.length; i++) {
-            address token = supportedTokens[i];
-            uint256 amt = userCollateral[user][token].amount;
-            if (amt > 0) {
-                totalCollateralUSD += (amt * getTokenPrice(token)) / PRECISION;
-                reserves[token] += amt;
-                userCollateral[user][token].amount = 0;
-                tokens[count] = token;
-                amounts[count] = amt;
-                count++;
-            }
-            userDebt[user][token] = 0;
+        if (debtToken == NATIVE_BNB) {
+            require(msg.value >= repayAmount, "Invalid BNB");
+        } else {
+            _transferIn(debtToken, msg.sender, repayAmount);
+        }
+        _setDebt(user, debtToken, debt - repayAmount);
+        _reduceTotalBorrows(debtToken, repayAmount);
+        reserves[debtToken] += repayAmount;
+        userCollateral[user][collateralToken].amount = collateral - seizeAmount;
+
+        _transferOut(collateralToken, msg.sender, seizeAmount);
+        if (debtToken == NATIVE_BNB && msg.value > repayAmount) {
+            _transferOut(NATIVE_BNB, msg.sender, msg.value - repayAmount);
         }
 
-        require(totalCollateralUSD >= totalDebtUSD, "Shortfall");
+        emit Liquidated(user, msg.sender, debtToken, repayAmount, collateralToken, seizeAmount);
+        if (getBorrowCapacity(user) == 0) _writeOffBadDebt(user, debtToken);
+    }
 
-        uint256 surplus = totalCollateralUSD - totalDebtUSD;
-        if (surplus > 0) {
-            uint256 cdtPrice = getTokenPrice(CDT);
-            uint256 cdtAmt = (surplus * PRECISION) / cdtPrice;
-            if (reserves[CDT] >= cdtAmt) {
-                userCollateral[user][CDT].amount += cdtAmt;
-                reserves[CDT] -= cdtAmt;
+    /// @dev Closes out `user`, whose collateral no longer backs any borrowing: the liquidator seizes
+    /// whatever is left (dust worth nothing once weighted) without repaying anything for it, and
+    /// every debt moves into the deficits
+    function _writeOffBadDebt(address user, address debtToken) internal {
+        for (uint256 i = 0; i < supportedTokens.length; i++) {
+            address t = supportedTokens[i];
+            uint256 leftover = userCollateral[user][t].amount;
+            if (leftover > 0) {
+                userCollateral[user][t].amount = 0;
+                _transferOut(t, msg.sender, leftover);
+                emit Liquidated(user, msg.sender, debtToken, 0, t, leftover);
             }
         }
 
-        assembly {
-            mstore(tokens, count)
-            mstore(amounts, count)
+        for (uint256 i = 0; i < supportedTokens.length; i++) {
+            address t = supportedTokens[i];
+            _accrue(t);
+            uint256 debt = userDebt(user, t);
+            if (debt == 0) continue;
+            _setDebt(user, t, 0);
+            _reduceTotalBorrows(t, debt);
+            deficits[t] += debt;
+            emit BadDebtRecorded(user, t, debt);
+            _coverDeficit(t);
         }
+    }
 
-        emit Liquidated(user, totalDebtUSD, tokens, amounts);
+    /// @dev Pays down `token`'s deficit from its treasury, as far as the treasury goes
+    function _coverDeficit(address token) internal {
+        uint256 amount = deficits[token] < treasuryReserves[token] ? deficits[token] : treasuryReserves[token];
+        if (amount == 0) return;
+        treasuryReserves[token] -= amount;
+        deficits[token] -= amount;
+        emit DeficitCovered(token, amount, deficits[token]);
     }
 
-    function getTokenPrice(address token) public view returns (uint256) {
-        if (block.chainid == 97 || block.chainid == 11155111) {
-            // On BSC Testnet or Sepolia, return a fixed price for any token to avoid dependency on mainnet pairs
-            return 1e18; // 1 USD
-        }
+    /// @notice Writes `token`'s outstanding deficit off for good: the treasury stops covering it, and
+    /// the liquidity providers, whose shares already leave it out, keep the loss
+    function socializeDeficit(address token) external onlyOwner {
+        _ensureTokenSupported(token);
+        _accrue(token);
+        uint256 amount = deficits[token];
+        require(amount > 0, "No deficit");
+        deficits[token] = 0;
+        emit DeficitSocialized(token, amount);
+    }
+
+    /// @notice Pays `amount` of `token`'s treasury out to the owner. Only what isn't lent out can
+    /// leave, and the providers' liquidity is untouched since the treasury is left out of it.
+    function withdrawTreasury(address token, uint256 amount) external onlyOwner nonReentrant {
         _ensureTokenSupported(token);
+        require(amount > 0, "Amount = 0");
+        _accrue(token);
+        require(treasuryReserves[token] >= amount, "Low treasury");
+        require(reserves[token] >= amount, "Low reserve");
 
-        if (token == USDT || token == USDC) return PRECISION;
+        treasuryReserves[token] -= amount;
+        reserves[token] -= amount;
+        _transferOut(token, msg.sender, amount);
+
+        emit TreasuryWithdrawn(token, msg.sender, amount);
+    }
 
-        if (token == NATIVE_BNB || token == WBNB) {
-            return _getPairPrice(WBNB_USDT_PAIR, USDT, WBNB);
+    /// @notice Changes the treasury's cut of interest. Interest up to now is split at the old one.
+    function setReserveFactor(uint256 reserveFactorBps_) external onlyOwner {
+        require(reserveFactorBps_ < BPS, "Invalid reserve factor");
+        for (uint256 i = 0; i < supportedTokens.length; i++) {
+            _accrue(supportedTokens[i]);
         }
+        reserveFactorBps = reserveFactorBps_;
+        emit ReserveFactorSet(reserveFactorBps_);
+    }
+
+    /// @notice `collateralToken` a liquidation repaying `repayAmount` of `debtToken` seizes:
+    /// the repaid value plus the liquidation bonus
+    function getSeizeAmount(address debtToken, uint256 repayAmount, address collateralToken) public view returns (uint256) {
+        uint256 seizeUSD = (_toUSD(debtToken, repayAmount) * (BPS + liquidationBonusBps)) / BPS;
+        return (seizeUSD * 10 ** _tokenDecimals(collateralToken)) / getTokenPrice(collateralToken);
+    }
 
-        if (token == WETH) {
-            return _getPairPrice(WETH_USDT_PAIR, USDT, WETH);
+    function setLiquidationParams(uint256 closeFactorBps_, uint256 liquidationBonusBps_) external onlyOwner {
+        require(closeFactorBps_ > 0 && closeFactorBps_ <= BPS && liquidationBonusBps_ < BPS, "Invalid liquidation params");
+        closeFactorBps = closeFactorBps_;
+        liquidationBonusBps = liquidationBonusBps_;
+        emit LiquidationParamsSet(closeFactorBps_, liquidationBonusBps_);
+    }
+
+    /// @notice 1e18-scaled USD price of one whole `token`; reverts when the feed fails its checks
+    function getTokenPrice(address token) public view returns (uint256) {
+        _ensureTokenSupported(token);
+        (uint256 price, , string memory error) = _readPrice(token);
+        require(bytes(error).length == 0, error);
+        return price;
+    }
+
+    /// @dev The feed's latest price and its timestamp, plus the revert reason `getTokenPrice`
+    /// would give for it (empty when the price passes every check)
+    function _readPrice(address token) internal view returns (uint256 price, uint256 updatedAt, string memory error) {
+        PriceFeed memory feed = priceFeeds[token];
+        (price, updatedAt) = _latestPrice(feed.oracle);
+        if (price == 0) return (price, updatedAt, "No price");
+        if (_isStale(updatedAt, feed.maxStaleness)) return (price, updatedAt, "Stale price");
+
+        if (address(feed.referenceOracle) != address(0)) {
+            (uint256 referencePrice, uint256 referenceUpdatedAt) = _latestPrice(feed.referenceOracle);
+            if (referencePrice == 0 || _isStale(referenceUpdatedAt, feed.maxStaleness)) {
+                return (price, updatedAt, "No reference price");
+            }
+            uint256 deviation = price > referencePrice ? price - referencePrice : referencePrice - price;
+            if (deviation * BPS > referencePrice * feed.maxDeviationBps) return (price, updatedAt, "Price deviation");
         }
+    }
 
-        if (token == CDT) {
-            uint256 wbnbPrice = getTokenPrice(WBNB);
-            uint256 wbnbBal = IERC20(WETH).balanceOf(CDT_WBNB_PAIR);
-            uint256 cdtBal = IERC20(CDT).balanceOf(CDT_WBNB_PAIR);
-            require(cdtBal > 0, "Zero CDT");
-            return (wbnbPrice * wbnbBal) / cdtBal;
+    /// @dev Whether `token`'s feed is up and reporting a price of zero. Collateral priced at zero
+    /// backs nothing instead of making the position unpriceable, so it can still be written off.
+    function _isWorthless(address token) internal view returns (bool) {
+        PriceFeed memory feed = priceFeeds[token];
+        (uint256 price, uint256 updatedAt) = _latestPrice(feed.oracle);
+        return price == 0 && updatedAt != 0 && !_isStale(updatedAt, feed.maxStaleness);
+    }
+
+    /// @dev A reverting oracle reads as no price, so one broken feed can't take down the views
+    function _latestPrice(IPriceOracle oracle) private view returns (uint256, uint256) {
+        try oracle.latestPrice() returns (uint256 price, uint256 updatedAt) {
+            return (price, updatedAt);
+        } catch {
+            return (0, 0);
         }
+    }
+
+    function _isStale(uint256 updatedAt, uint256 maxStaleness) private view returns (bool) {
+        return maxStaleness != 0 && updatedAt + maxStaleness < block.timestamp;
+    }
 
-        revert("No price");
+    /// @dev ERC20 decimals, or 18 for the native token. Addresses without a `decimals()` (no code on
+    /// this chain) also count as 18 so testnet deployments keep working.
+    function _tokenDecimals(address token) internal view returns (uint8) {
+        if (token == NATIVE_BNB) return 18;
+        (bool ok, bytes memory data) = token.staticcall(abi.encodeWithSelector(IERC20Metadata.decimals.selector));
+        return ok && data.length >= 32 ? abi.decode(data, (uint8)) : 18;
     }
 
-    function _getPairPrice(address pair, address base, address quote) internal view returns (uint256) {
-        uint256 baseAmt = IERC20(base).balanceOf(pair);
-        uint256 quoteAmt = IERC20(quote).balanceOf(pair);
-        require(quoteAmt > 0, "Zero quote");
-        return (baseAmt * PRECISION) / quoteAmt;
+    /// @dev USD value (1e18-scaled) of `amount` raw units of `token`. `getTokenPrice` is per whole
+    /// token, so the amount is normalised by the token's decimals rather than by PRECISION.
+    function _toUSD(address token, uint256 amount) internal view returns (uint256) {
+        return (amount * getTokenPrice(token)) / 10 ** _tokenDecimals(token);
     }
 
     function getBorrowCapacity(address user) public view returns (uint256 cap) {
         for (uint i = 0; i < supportedTokens.length; i++) {
             address t = supportedTokens[i];
             uint256 a = userCollateral[user][t].amount;
-            if (a > 0) {
-                uint256 val = (a * getTokenPrice(t)) / PRECISION;
+            if (a > 0 && !_isWorthless(t)) {
+                uint256 val = _toUSD(t, a);
                 cap += (val * tokenConfigs[t].weight) / 100;
             }
         }
@@ -211,9 +522,9 @@ contract LendingPoolTest is Ownable, ReentrancyGuard {
     function getTotalDebtUSD(address user) public view returns (uint256 total) {
         for (uint i = 0; i < supportedTokens.length; i++) {
             address t = supportedTokens[i];
-            uint256 d = userDebt[user][t];
+            uint256 d = userDebt(user, t);
             if (d > 0) {
-                total += (d * getTokenPrice(t)) / PRECISION;
+                total += _toUSD(t, d);
             }
         }
     }
@@ -223,24 +534,227 @@ contract LendingPoolTest is Ownable, ReentrancyGuard {
         return cap == 0 ? 0 : (getTotalDebtUSD(user) * 100) / cap;
     }
 
+    /// @notice Full position snapshot for `user`, indexed like `supportedTokens`. The aggregates are
+    /// the same values `borrow`, `withdraw` and `liquidate` check against. Like `getMarketsData` it
+    /// doesn't revert on a rejected price: the aggregates use the feed's price as it is, and
+    /// `priceErrors` says which prices those functions would refuse.
+    function getUserAccountData(address user) external view returns (AccountData memory data) {
+        uint256 length = supportedTokens.length;
+        data.tokens = supportedTokens;
+        data.collateral = new uint256[](length);
+        data.debt = new uint256[](length);
+        data.prices = new uint256[](length);
+        data.priceUpdatedAt = new uint256[](length);
+        data.priceErrors = new string[](length);
+        data.reserves = new uint256[](length);
+        data.borrowRates = new uint256[](length);
+        data.supplyRates = new uint256[](length);
+        data.lpShares = new uint256[](length);
+        data.lpBalances = new uint256[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            address t = supportedTokens[i];
+            data.collateral[i] = userCollateral[user][t].amount;
+            data.debt[i] = userDebt(user, t);
+            (data.prices[i], data.priceUpdatedAt[i], data.priceErrors[i]) = _readPrice(t);
+            data.reserves[i] = reserves[t];
+            data.borrowRates[i] = getBorrowRate(t);
+            data.supplyRates[i] = getSupplyRate(t);
+            data.lpShares[i] = lpShares[user][t];
+            data.lpBalances[i] = sharesToAmount(t, data.lpShares[i]);
+
+            // As getBorrowCapacity and getTotalDebtUSD compute them, at the price read above
+            uint256 unit = 10 ** _tokenDecimals(t);
+            uint256 collateralUSD = (data.collateral[i] * data.prices[i]) / unit;
+            data.totalCollateralUSD += collateralUSD;
+            data.borrowCapacity += (collateralUSD * tokenConfigs[t].weight) / 100;
+            data.totalDebtUSD += (data.debt[i] * data.prices[i]) / unit;
+        }
+
+        data.indebtedness = data.borrowCapacity == 0 ? 0 : (data.totalDebtUSD * 100) / data.borrowCapacity;
+    }
+
+    /// @notice Configuration, available liquidity and price of every supported token, indexed like
+    /// `supportedTokens`. Independent of any user so markets can render before a wallet connects.
+    /// Prices are reported even when a circuit breaker rejects them, with the reason alongside.
+    function getMarketsData() external view returns (MarketData memory data) {
+        uint256 length = supportedTokens.length;
+        data.tokens = supportedTokens;
+        data.weights = new uint256[](length);
+        data.active = new bool[](length);
+        data.reserves = new uint256[](length);
+        data.prices = new uint256[](length);
+        data.priceUpdatedAt = new uint256[](length);
+        data.priceSources = new string[](length);
+        data.priceErrors = new string[](length);
+        data.totalBorrows = new uint256[](length);
+        data.borrowRates = new uint256[](length);
+        data.supplyRates = new uint256[](length);
+        data.totalShares = new uint256[](length);
+        data.liquidity = new uint256[](length);
+        data.treasury = new uint256[](length);
+        data.deficits = new uint256[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            address t = supportedTokens[i];
+            data.weights[i] = tokenConfigs[t].weight;
+            data.active[i] = tokenConfigs[t].isActive;
+            data.reserves[i] = reserves[t];
+            (data.prices[i], data.priceUpdatedAt[i], data.priceErrors[i]) = _readPrice(t);
+            data.priceSources[i] = _priceSource(priceFeeds[t].oracle);
+            (, data.totalBorrows[i]) = _accruedState(t);
+            data.borrowRates[i] = getBorrowRate(t);
+            data.supplyRates[i] = getSupplyRate(t);
+            data.totalShares[i] = totalShares[t];
+            data.liquidity[i] = getLiquidity(t);
+            (data.treasury[i], data.deficits[i]) = _accruedTreasury(t);
+        }
+    }
+
+    function _priceSource(IPriceOracle oracle) private view returns (string memory) {
+        try oracle.source() returns (string memory label) {
+            return label;
+        } catch {
+            return "";
+        }
+    }
+
+    /// @notice `user`'s `token` debt including interest accrued up to this block
+    function userDebt(address user, address token) public view returns (uint256) {
+        BorrowSnapshot memory snapshot = borrowSnapshots[user][token];
+        if (snapshot.principal == 0) return 0;
+        (uint256 index, ) = _accruedState(token);
+        return (snapshot.principal * index) / snapshot.index;
+    }
+
+    /// @notice Share of `token`'s lendable liquidity that is out on loan, 1e18-scaled
+    function getUtilization(address token) public view returns (uint256) {
+        uint256 borrows = marketStates[token].totalBorrows;
+        if (borrows == 0) return 0;
+        return (borrows * PRECISION) / (borrows + reserves[token]);
+    }
+
+    /// @notice Current yearly borrow rate for `token`, 1e18-scaled
+    function getBorrowRate(address token) public view returns (uint256) {
+        RateModel memory model = rateModels[token];
+        uint256 utilization = getUtilization(token);
+        if (utilization <= model.kink) {
+            return model.baseRate + (model.slope1 * utilization) / model.kink;
+        }
+        return model.baseRate + model.slope1 + (model.slope2 * (utilization - model.kink)) / (PRECISION - model.kink);
+    }
+
+    /// @notice Current yearly rate liquidity providers earn: the borrow rate spread over all the
+    /// liquidity, less the treasury's cut
+    function getSupplyRate(address token) public view returns (uint256) {
+        return (getBorrowRate(token) * getUtilization(token) * (BPS - reserveFactorBps)) / (PRECISION * BPS);
+    }
+
+    /// @dev `token`'s borrow index and total borrows as they'd be if accrued in this block.
+    /// Interest is simple between accruals, at the rate the stored totals give.
+    function _accruedState(address token) internal view returns (uint256 index, uint256 totalBorrows) {
+        MarketState memory market = marketStates[token];
+        uint256 elapsed = block.timestamp - market.lastAccrual;
+        if (elapsed == 0 || market.totalBorrows == 0) return (market.borrowIndex, market.totalBorrows);
+
+        uint256 factor = (getBorrowRate(token) * elapsed) / SECONDS_PER_YEAR;
+        index = market.borrowIndex + (market.borrowIndex * factor) / PRECISION;
+        totalBorrows = market.totalBorrows + (market.totalBorrows * factor) / PRECISION;
+    }
+
+    /// @dev `token`'s treasury and deficit as they'd be if accrued in this block: the treasury takes
+    /// its cut of the pending interest and covers what it can of the deficit with it
+    function _accruedTreasury(address token) internal view returns (uint256 treasury, uint256 deficit) {
+        (, uint256 totalBorrows) = _accruedState(token);
+        treasury = treasuryReserves[token] + ((totalBorrows - marketStates[token].totalBorrows) * reserveFactorBps) / BPS;
+        deficit = deficits[token];
+        uint256 covered = deficit < treasury ? deficit : treasury;
+        return (treasury - covered, deficit - covered);
+    }
+
+    function _accrue(address token) internal {
+        MarketState storage market = marketStates[token];
+        if (market.lastAccrual == block.timestamp) return;
+        (uint256 index, uint256 totalBorrows) = _accruedState(token);
+        uint256 interest = totalBorrows - market.totalBorrows;
+        market.borrowIndex = index;
+        market.totalBorrows = totalBorrows;
+        market.lastAccrual = block.timestamp;
+        if (interest > 0) {
+            treasuryReserves[token] += (interest * reserveFactorBps) / BPS;
+            emit InterestAccrued(token, interest, index, totalBorrows);
+            _coverDeficit(token);
+        }
+    }
+
+    function _setDebt(address user, address token, uint256 debt) internal {
+        borrowSnapshots[user][token] = BorrowSnapshot(debt, marketStates[token].borrowIndex);
+    }
+
+    /// @dev Debts round down individually, so their sum can fall a few units short of the total
+    function _reduceTotalBorrows(address token, uint256 amount) internal {
+        MarketState storage market = marketStates[token];
+        market.totalBorrows = market.totalBorrows > amount ? market.totalBorrows - amount : 0;
+    }
+
+    /// @notice `token` the liquidity providers' shares are worth: the reserves plus outstanding
+    /// borrows with interest up to this block, less the treasury. A deficit the treasury can't cover
+    /// is already lost to them.
+    function getLiquidity(address token) public view returns (uint256) {
+        (, uint256 totalBorrows) = _accruedState(token);
+        (uint256 treasury, ) = _accruedTreasury(token);
+        return reserves[token] + totalBorrows - treasury;
+    }
+
+    /// @notice Shares `amount` of `token` liquidity buys now. The virtual share and unit keep the
+    /// first provider from inflating the share price against later ones.
+    function amountToShares(address token, uint256 amount) public view returns (uint256) {
+        return (amount * (totalShares[token] + 1)) / (getLiquidity(token) + 1);
+    }
+
+    /// @notice `token` that `shares` redeem for now
+    function sharesToAmount(address token, uint256 shares) public view returns (uint256) {
+        return (shares * (getLiquidity(token) + 1)) / (totalShares[token] + 1);
+    }
+
+    /// @notice Adds `amount` to `token`'s lendable reserves, minting the sender liquidity shares
     function fundPool(address token, uint256 amount) external payable nonReentrant {
         _ensureTokenSupported(token);
         require(amount > 0, "Amount = 0");
-
         _transferIn(token, msg.sender, amount);
-        reserves[token] += amount;
-
-        emit PoolFunded(msg.sender, token, amount);
+        _provideLiquidity(msg.sender, token, amount);
     }
 
-    function withdrawPoolFunds(address token, uint256 amount) external onlyOwner nonReentrant {
+    /// @notice Burns `shares` of the sender's `token` liquidity, or all of it for
+    /// `type(uint256).max`, for their current value. Only liquidity that isn't lent out can leave.
+    function redeem(address token, uint256 shares) external nonReentrant {
         _ensureTokenSupported(token);
-        require(amount > 0 && reserves[token] >= amount, "Invalid");
+        require(shares > 0, "Amount = 0");
+        _accrue(token);
+        if (shares == type(uint256).max) shares = lpShares[msg.sender][token];
+        require(shares > 0 && lpShares[msg.sender][token] >= shares, "Low shares");
+        uint256 amount = sharesToAmount(token, shares);
+        require(amount > 0, "Amount = 0");
+        require(reserves[token] >= amount, "Low reserve");
 
+        lpShares[msg.sender][token] -= shares;
+        totalShares[token] -= shares;
         reserves[token] -= amount;
-        _transferOut(token, owner(), amount);
+        _transferOut(token, msg.sender, amount);
+
+        emit LiquidityRedeemed(msg.sender, token, shares, amount);
+    }
+
+    function _provideLiquidity(address provider, address token, uint256 amount) internal {
+        _accrue(token);
+        uint256 shares = amountToShares(token, amount);
+        require(shares > 0, "Amount = 0");
+
+        lpShares[provider][token] += shares;
+        totalShares[token] += shares;
+        reserves[token] += amount;
 
-        emit PoolFundsWithdrawn(owner(), token, amount);
+        emit PoolFunded(provider, token, amount, shares);
     }
 
     function _transferIn(address token, address from, uint256 amount) internal {
@@ -265,10 +779,10 @@ contract LendingPoolTest is Ownable, ReentrancyGuard {
         require(tokenConfigs[token].isActive, "Unsupported token");
     }
 
+    /// @notice Plain transfers fund the native reserves, as `fundPool` would
     receive() external payable nonReentrant {
         _ensureTokenSupported(NATIVE_BNB);
-        reserves[NATIVE_BNB] += msg.value;
-        emit PoolFunded(msg.sender, NATIVE_BNB, msg.value);
+        _provideLiquidity(msg.sender, NATIVE_BNB, msg.value);
     }
 
     function getSupportedTokens() external view returns (address[] memory) {
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+import "../oracles/ChainlinkOracle.sol";
+
+/// @notice Chainlink-style aggregator whose rounds are set directly, for tests and local chains
+contract MockAggregatorV3 is AggregatorV3Interface {
+    uint8 public immutable decimals;
+
+    uint80 private roundId;
+    int256 private answer;
+    uint256 private updatedAt;
+
+    constructor(uint8 decimals_, int256 answer_) {
+        decimals = decimals_;
+        setAnswer(answer_);
+    }
+
+    /// @notice Starts a new round at the current block's timestamp
+    function setAnswer(int256 answer_) public {
+        setRoundData(answer_, block.timestamp);
+    }
+
+    function setRoundData(int256 answer_, uint256 updatedAt_) public {
+        roundId++;
+        answer = answer_;
+        updatedAt = updatedAt_;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, answer, updatedAt, updatedAt, roundId);
+    }
+}
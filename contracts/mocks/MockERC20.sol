@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice Freely mintable ERC20 for tests and local chains, with configurable decimals
+contract MockERC20 is ERC20 {
+    uint8 private immutable _decimals;
+
+    /// @notice When set, `transfer` and `transferFrom` return false instead of moving funds,
+    /// like the non-reverting tokens the pool's "ERC20 failed" checks guard against
+    bool public failTransfers;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function burn(address from, uint256 amount) external {
+        _burn(from, amount);
+    }
+
+    function setFailTransfers(bool fail) external {
+        failTransfers = fail;
+    }
+
+    function transfer(address to, uint256 amount) public override returns (bool) {
+        if (failTransfers) return false;
+        return super.transfer(to, amount);
+    }
+
+    function transferFrom(address from, address to, uint256 amount) public override returns (bool) {
+        if (failTransfers) return false;
+        return super.transferFrom(from, to, amount);
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./MockERC20.sol";
+
+/// @notice Minimal UniswapV2-style pair for tests. `setReserves` mints or burns the pair's token
+/// balances to exact values and `sync` picks up balances changed directly; both accumulate the
+/// previous reserves into the cumulative prices exactly like the real pair's `_update`.
+contract MockUniswapV2Pair {
+    address public immutable token0;
+    address public immutable token1;
+
+    uint112 private reserve0;
+    uint112 private reserve1;
+    uint32 private blockTimestampLast;
+
+    uint256 public price0CumulativeLast;
+    uint256 public price1CumulativeLast;
+
+    constructor(address tokenA, address tokenB) {
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+    }
+
+    function getReserves() external view returns (uint112, uint112, uint32) {
+        return (reserve0, reserve1, blockTimestampLast);
+    }
+
+    function setReserves(uint256 reserve0_, uint256 reserve1_) external {
+        _setBalance(token0, reserve0_);
+        _setBalance(token1, reserve1_);
+        sync();
+    }
+
+    function sync() public {
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint32 timestamp = uint32(block.timestamp);
+        unchecked {
+            uint32 elapsed = timestamp - blockTimestampLast;
+            if (elapsed > 0 && reserve0 != 0 && reserve1 != 0) {
+                price0CumulativeLast += ((uint256(reserve1) << 112) / reserve0) * elapsed;
+                price1CumulativeLast += ((uint256(reserve0) << 112) / reserve1) * elapsed;
+            }
+        }
+        reserve0 = uint112(balance0);
+        reserve1 = uint112(balance1);
+        blockTimestampLast = timestamp;
+    }
+
+    function _setBalance(address token, uint256 target) internal {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        if (target > balance) {
+            MockERC20(token).mint(address(this), target - balance);
+        } else if (balance > target) {
+            MockERC20(token).burn(address(this), balance - target);
+        }
+    }
+}
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+import "../LendingPoolTest.sol";
+
+/// @notice Pool user whose handling of incoming native transfers is configurable, to exercise
+/// `_transferOut`'s "BNB fail" path and the pool's reentrancy guard.
+contract NativeReceiver {
+    enum Mode {
+        Accept,
+        Reject,
+        Reenter
+    }
+
+    LendingPoolTest public immutable pool;
+    Mode public mode;
+
+    constructor(LendingPoolTest pool_) {
+        pool = pool_;
+    }
+
+    function setMode(Mode mode_) external {
+        mode = mode_;
+    }
+
+    function deposit() external payable {
+        pool.deposit{value: msg.value}(address(0), msg.value);
+    }
+
+    function withdraw(uint256 amount) external {
+        pool.withdraw(address(0), amount);
+    }
+
+    function borrow(uint256 amount) external {
+        pool.borrow(address(0), amount);
+    }
+
+    receive() external payable {
+        if (mode == Mode.Reject) revert("Rejected");
+        if (mode == Mode.Reenter) pool.withdraw(address(0), msg.value);
+    }
+}
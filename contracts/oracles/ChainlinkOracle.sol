@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+import "./IPriceOracle.sol";
+
+/// @notice The subset of Chainlink's aggregator interface the adapter reads
+interface AggregatorV3Interface {
+    function decimals() external view returns (uint8);
+
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+}
+
+/// @notice Adapts a Chainlink-style USD aggregator. Answers are rescaled from the feed's decimals
+/// to 18; a non-positive answer reports no price.
+contract ChainlinkOracle is IPriceOracle {
+    AggregatorV3Interface public immutable feed;
+    uint8 private immutable _feedDecimals;
+
+    constructor(AggregatorV3Interface feed_) {
+        feed = feed_;
+        _feedDecimals = feed_.decimals();
+    }
+
+    function latestPrice() external view returns (uint256, uint256) {
+        (, int256 answer, , uint256 updatedAt, ) = feed.latestRoundData();
+        if (answer <= 0) return (0, updatedAt);
+        if (_feedDecimals <= 18) return (uint256(answer) * 10 ** (18 - _feedDecimals), updatedAt);
+        return (uint256(answer) / 10 ** (_feedDecimals - 18), updatedAt);
+    }
+
+    function source() external pure returns (string memory) {
+        return "Chainlink";
+    }
+}
@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./IPriceOracle.sol";
+
+/// @notice Owner-set price. Used for stablecoins pegged at $1 and as the mock feed in tests.
+contract FixedPriceOracle is IPriceOracle, Ownable {
+    uint256 public price;
+    uint256 public updatedAt;
+
+    event PriceSet(uint256 price);
+
+    constructor(uint256 price_) Ownable() {
+        setPrice(price_);
+    }
+
+    function setPrice(uint256 price_) public onlyOwner {
+        price = price_;
+        updatedAt = block.timestamp;
+        emit PriceSet(price_);
+    }
+
+    function latestPrice() external view returns (uint256, uint256) {
+        return (price, updatedAt);
+    }
+
+    function source() external pure returns (string memory) {
+        return "Fixed";
+    }
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+/// @notice A USD price feed for a single token, as the pool consumes it
+interface IPriceOracle {
+    /// @return price 1e18-scaled USD price of one whole token, or 0 when there is none
+    /// @return updatedAt Timestamp of the data the price comes from
+    function latestPrice() external view returns (uint256 price, uint256 updatedAt);
+
+    /// @notice Short label for the UI, e.g. "Chainlink"
+    function source() external view returns (string memory);
+}
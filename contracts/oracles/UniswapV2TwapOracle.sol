@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./IPriceOracle.sol";
+
+/// @notice The subset of a Uniswap V2 pair the TWAP reads
+interface IUniswapV2Pair {
+    function token0() external view returns (address);
+
+    function token1() external view returns (address);
+
+    function price0CumulativeLast() external view returns (uint256);
+
+    function price1CumulativeLast() external view returns (uint256);
+
+    function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast);
+}
+
+/// @notice Time-weighted average price of `token` in a Uniswap V2 pair, valued in USD through the
+/// other side's own oracle. Unlike pair balances, the average can't be moved within one
+/// transaction. Someone has to call `update` at least once per `period`; until the first update
+/// there is no price, and afterwards `updatedAt` is the end of the last averaged window.
+contract UniswapV2TwapOracle is IPriceOracle {
+    uint256 private constant Q112 = 2 ** 112;
+
+    IUniswapV2Pair public immutable pair;
+    address public immutable token;
+    /// @notice USD price of the pair's other token
+    IPriceOracle public immutable baseOracle;
+    /// @notice Minimum window, in seconds, an average is taken over
+    uint32 public immutable period;
+
+    bool private immutable _tokenIs0;
+    uint256 private immutable _tokenUnit;
+    uint256 private immutable _baseUnit;
+
+    uint256 public priceCumulativeLast;
+    uint32 public blockTimestampLast;
+    /// @notice UQ112x112 average of base token units per `token` unit over the last window
+    uint224 public priceAverage;
+
+    event Updated(uint224 priceAverage, uint32 timestamp);
+
+    constructor(IUniswapV2Pair pair_, address token_, IPriceOracle baseOracle_, uint32 period_) {
+        address token0 = pair_.token0();
+        address token1 = pair_.token1();
+        require(token_ == token0 || token_ == token1, "Token not in pair");
+        require(period_ > 0, "Invalid period");
+
+        pair = pair_;
+        token = token_;
+        baseOracle = baseOracle_;
+        period = period_;
+        _tokenIs0 = token_ == token0;
+        _tokenUnit = 10 ** IERC20Metadata(token_).decimals();
+        _baseUnit = 10 ** IERC20Metadata(token_ == token0 ? token1 : token0).decimals();
+
+        (priceCumulativeLast, blockTimestampLast) = _currentCumulativePrice();
+    }
+
+    /// @notice Closes the current window once it spans at least `period`
+    function update() external {
+        (uint256 priceCumulative, uint32 timestamp) = _currentCumulativePrice();
+        uint32 elapsed;
+        // Timestamps and cumulative prices wrap by design, as in the pair itself
+        unchecked {
+            elapsed = timestamp - blockTimestampLast;
+        }
+        require(elapsed >= period, "Period not elapsed");
+        unchecked {
+            priceAverage = uint224((priceCumulative - priceCumulativeLast) / elapsed);
+        }
+        priceCumulativeLast = priceCumulative;
+        blockTimestampLast = timestamp;
+        emit Updated(priceAverage, timestamp);
+    }
+
+    function latestPrice() external view returns (uint256, uint256) {
+        if (priceAverage == 0) return (0, 0);
+        (uint256 basePrice, uint256 baseUpdatedAt) = baseOracle.latestPrice();
+        // Base units per token unit, rescaled to whole tokens and valued at the base's USD price
+        uint256 price = Math.mulDiv(priceAverage, basePrice * _tokenUnit, Q112 * _baseUnit);
+        return (price, Math.min(blockTimestampLast, baseUpdatedAt));
+    }
+
+    function source() external pure returns (string memory) {
+        return "Uniswap V2 TWAP";
+    }
+
+    /// @dev The pair's cumulative price for `token`, extended to the current block when the pair
+    /// hasn't been touched in it yet (UniswapV2OracleLibrary.currentCumulativePrices)
+    function _currentCumulativePrice() private view returns (uint256 priceCumulative, uint32 timestamp) {
+        timestamp = uint32(block.timestamp);
+        priceCumulative = _tokenIs0 ? pair.price0CumulativeLast() : pair.price1CumulativeLast();
+
+        (uint112 reserve0, uint112 reserve1, uint32 pairTimestamp) = pair.getReserves();
+        if (pairTimestamp != timestamp && reserve0 != 0 && reserve1 != 0) {
+            unchecked {
+                uint32 elapsed = timestamp - pairTimestamp;
+                uint256 spot = _tokenIs0 ? (uint256(reserve1) * Q112) / reserve0 : (uint256(reserve0) * Q112) / reserve1;
+                priceCumulative += spot * elapsed;
+            }
+        }
+    }
+}
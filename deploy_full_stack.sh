@@ -10,8 +10,9 @@
 #  • Makes sure @openzeppelin + hardhat deps are installed
 #  • Compiles contracts (hardhat)  ➜  artifacts/
 #  • Deploys `LendingPoolTest` via `hardhat run` to BSC Testnet (default) or
-#    Mainnet (pass `--mainnet`)
-#  • Writes NEXT_PUBLIC_LENDING_POOL_ADDRESS to .env.local for the frontend
+#    Mainnet (pass `--mainnet`), listing the tokens in config/networks/<network>.json
+#  • Records the deployment in deployments/<chainId>.json, which the frontend
+#    reads for the contract address and token set (commit it before deploying)
 #  • Prints final next / vercel build-&-deploy hints
 #
 # Usage:
@@ -82,15 +83,27 @@ npm install
 print "Compiling contracts..."
 npm run compile
 
+# Chain id of the target network – also names the deployment manifest
+if [ "$NETWORK" == "sepolia" ]; then
+  CHAIN_ID_VAR=11155111
+elif [ "$NETWORK" == "mainnet" ]; then
+  CHAIN_ID_VAR=1
+elif [ "$NETWORK" == "bscTestnet" ]; then
+  CHAIN_ID_VAR=97
+else
+  CHAIN_ID_VAR=56
+fi
+MANIFEST_FILE="deployments/$CHAIN_ID_VAR.json"
+
 # Step 4: Deploy to the specified network
 print "Deploying to $NETWORK... (this may take ~30s)"
 DEPLOY_OUTPUT=$(npm run deploy -- --network "$NETWORK")
 
-# Extract the *last* 0x-prefixed 40-byte address printed by Hardhat – works regardless of wording.
-CONTRACT_ADDRESS=$(echo "$DEPLOY_OUTPUT" | grep -Eo "0x[a-fA-F0-9]{40}" | tail -n 1)
+# scripts/deploy.ts records the deployment in deployments/<chainId>.json
+CONTRACT_ADDRESS=$(node -p "require('./$MANIFEST_FILE').lendingPool.address" 2>/dev/null || true)
 
 if [ -z "$CONTRACT_ADDRESS" ]; then
-    print "Error: Failed to get contract address from deployment output."
+    print "Error: Failed to read contract address from $MANIFEST_FILE."
     echo "$DEPLOY_OUTPUT"
     exit 1
 fi
@@ -114,16 +127,6 @@ vercel env rm "$VERCEL_ENV_VAR" production --yes $VC_FLAG || true
 echo "$CONTRACT_ADDRESS" | vercel env add "$VERCEL_ENV_VAR" production $VC_FLAG
 
 # Also push the chain id that the frontend should connect to
-if [ "$NETWORK" == "sepolia" ]; then
-  CHAIN_ID_VAR=11155111
-elif [ "$NETWORK" == "mainnet" ]; then
-  CHAIN_ID_VAR=1
-elif [ "$NETWORK" == "bscTestnet" ]; then
-  CHAIN_ID_VAR=97
-else
-  CHAIN_ID_VAR=56
-fi
-
 vercel env rm "NEXT_PUBLIC_CHAIN_ID" production --yes $VC_FLAG || true
 echo "$CHAIN_ID_VAR" | vercel env add "NEXT_PUBLIC_CHAIN_ID" production $VC_FLAG
 
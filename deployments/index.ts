@@ -0,0 +1,5 @@
+// Generated by scripts/deploy.ts – do not edit by hand.
+// Maps chain id to the manifest written for that chain's latest deployment.
+
+export const MANIFESTS = {
+};
@@ -1,5 +1,6 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomiclabs/hardhat-ethers";
+import "@typechain/hardhat";
 import * as dotenv from "dotenv";
 
 dotenv.config();
@@ -22,7 +23,24 @@ const buildInfuraUrl = (network: string): string => {
 };
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.20",
+  solidity: {
+    version: "0.8.20",
+    // Unoptimized, the pool outgrows the 24KB contract size limit
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+    },
+  },
+  // `hardhat compile` regenerates typed ethers bindings for every artifact; the frontend
+  // imports them from @/types/contracts, so an ABI change breaks the TypeScript build
+  typechain: {
+    outDir: "src/types/contracts",
+    target: "ethers-v5",
+  },
+  // `hardhat test` runs on the in-process network; test/fixtures.ts deploys mock tokens and
+  // price feeds for the pool to list, so no RPC or fork is needed
+  mocha: {
+    timeout: 120000,
+  },
   networks: {
     bsc: {
       url: "https://bsc-dataseed.binance.org/",
@@ -33,19 +51,19 @@ const config: HardhatUserConfig = {
       url: process.env.BSC_TESTNET_RPC_URL || "https://rpc.ankr.com/bsc_testnet_chapel",
       chainId: 97,
       gasPrice: 3000000000,
-      accounts: [process.env.DEPLOYER_PRIVATE_KEY || '']
+      accounts: PRIVATE_KEY ? [PRIVATE_KEY] : [],
     },
     sepolia: {
       url: process.env.SEPOLIA_RPC_URL || buildInfuraUrl("sepolia"),
       chainId: 11155111,
       timeout: 120000,
-      accounts: [process.env.DEPLOYER_PRIVATE_KEY || ""],
+      accounts: PRIVATE_KEY ? [PRIVATE_KEY] : [],
     },
     mainnet: {
       url: process.env.MAINNET_RPC_URL || buildInfuraUrl("mainnet"),
       chainId: 1,
       timeout: 120000,
-      accounts: [process.env.DEPLOYER_PRIVATE_KEY || ""],
+      accounts: PRIVATE_KEY ? [PRIVATE_KEY] : [],
     }
   },
 };
@@ -1,13 +0,0 @@
-const { ethers } = require("hardhat");
-
-async function main() {
-  const LendingPool = await ethers.getContractFactory("LendingPoolTest");
-  const pool = await LendingPool.deploy();
-  await pool.deployed();
-  console.log("LendingPool deployed to:", pool.address);
-}
-
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-}); 
\ No newline at end of file
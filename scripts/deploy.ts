@@ -1,13 +1,17 @@
-import { ethers } from "hardhat";
+import { network } from "hardhat";
+import { deployPool, writeManifest, loadNetworkConfig } from "./deployment";
 
 async function main() {
-  const LendingPool = await ethers.getContractFactory("LendingPoolTest");
-  const pool = await LendingPool.deploy();
-  await pool.deployed();
-  console.log("LendingPool deployed to:", pool.address);
+  // Token set, weights and price sources for this network come from config/networks/<network>.json
+  const deployment = await deployPool(loadNetworkConfig(network.name));
+
+  // The in-process network disappears when this script exits – nothing worth recording
+  if (network.name === "hardhat") return;
+
+  await writeManifest(deployment);
 }
 
 main().catch((error) => {
   console.error(error);
   process.exitCode = 1;
-}); 
\ No newline at end of file
+});
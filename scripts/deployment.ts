@@ -0,0 +1,224 @@
+import fs from "fs";
+import path from "path";
+import { ethers, network, artifacts } from "hardhat";
+import type { LendingPoolTest } from "../src/types/contracts";
+import type { DeploymentManifest } from "../src/lib/deployments";
+
+// Hardhat chains have no canonical Multicall3, so the frontend needs its own copy there
+export const LOCAL_CHAIN_IDS = [31337, 1337];
+
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+const NETWORK_CONFIG_DIR = path.join(__dirname, "..", "config", "networks");
+
+// Stands in for address(0) in network configs
+export const NATIVE_TOKEN = "native";
+
+// An oracle adapter to deploy. "fixed" takes a USD price as a decimal string (e.g. "1"),
+// "chainlink" a USD aggregator, and "twap" a Uniswap V2 pair holding `pairToken` (the token
+// itself, or its wrapped form for "native") whose other side is valued through the oracle of the
+// listed token `baseAsset`. A TWAP has no price until its `update()` is first called `period`
+// seconds after deployment, and needs calling at least that often afterwards.
+export type OracleConfig =
+  | { type: "fixed"; price: string }
+  | { type: "chainlink"; feed: string }
+  | { type: "twap"; pair: string; pairToken: string; baseAsset: string; period: number };
+
+// A kinked borrow rate curve, as yearly percentages (e.g. "4" for 4%); `kink` is the utilization
+// percentage past which `slope2` applies. See RateModel in LendingPoolTest.sol.
+export interface RateModelConfig {
+  baseRate: string;
+  slope1: string;
+  slope2: string;
+  kink: string;
+}
+
+// Used for tokens whose config has no rateModel
+export const DEFAULT_RATE_MODEL: RateModelConfig = { baseRate: "0", slope1: "4", slope2: "75", kink: "80" };
+
+export interface TokenConfig {
+  symbol: string;
+  // Token address, or "native"
+  address: string;
+  // Collateral weight, 1-100
+  weight: number;
+  oracle: OracleConfig;
+  // Optional second opinion: prices further than `maxDeviationBps` from it are rejected
+  referenceOracle?: OracleConfig;
+  // Seconds after which a price is rejected as stale; omitted or 0 never expires
+  maxStaleness?: number;
+  maxDeviationBps?: number;
+  rateModel?: RateModelConfig;
+}
+
+// The contents of config/networks/<network>.json: the chain, its public RPCs and everything the
+// pool's constructor takes
+export interface NetworkConfig {
+  // The chain the config is for; deploying it anywhere else is refused
+  chainId?: number;
+  // Public JSON-RPC endpoints the frontend reads the chain through when no wallet is connected
+  rpcUrls?: string[];
+  // Listed in order, so a TWAP-priced token's base asset must come before it
+  tokens: TokenConfig[];
+}
+
+export interface PoolDeployment {
+  pool: LendingPoolTest;
+  deployBlock: number;
+  multicall?: string;
+}
+
+// Regenerates deployments/index.ts so the frontend statically imports every manifest
+function writeManifestIndex() {
+  const chainIds = fs
+    .readdirSync(DEPLOYMENTS_DIR)
+    .filter((file) => /^\d+\.json$/.test(file))
+    .map((file) => file.replace(".json", ""))
+    .sort((a, b) => Number(a) - Number(b));
+
+  const lines = [
+    "// Generated by scripts/deploy.ts – do not edit by hand.",
+    "// Maps chain id to the manifest written for that chain's latest deployment.",
+    ...chainIds.map((id) => `import manifest${id} from './${id}.json';`),
+    "",
+    "export const MANIFESTS = {",
+    ...chainIds.map((id) => `    ${id}: manifest${id},`),
+    "};",
+    "",
+  ];
+  if (chainIds.length > 0) lines.splice(2, 0, "");
+  fs.writeFileSync(path.join(DEPLOYMENTS_DIR, "index.ts"), lines.join("\n"));
+}
+
+// Reads config/networks/<name>.json
+export function loadNetworkConfig(name: string): NetworkConfig {
+  const file = path.join(NETWORK_CONFIG_DIR, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No token config for network "${name}" at ${path.relative(process.cwd(), file)}. ` +
+        "Add one, or use `npm run deploy:local` for a local chain with mock tokens."
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function tokenAddress(config: NetworkConfig, symbol: string): string {
+  const token = config.tokens.find((t) => t.symbol === symbol);
+  if (!token) throw new Error(`Network config lists no token "${symbol}"`);
+  return token.address === NATIVE_TOKEN ? ethers.constants.AddressZero : token.address;
+}
+
+async function deployOracle(oracle: OracleConfig, deployed: { [symbol: string]: string }): Promise<string> {
+  let contract;
+  switch (oracle.type) {
+    case "fixed":
+      contract = await (await ethers.getContractFactory("FixedPriceOracle")).deploy(ethers.utils.parseEther(oracle.price));
+      break;
+    case "chainlink":
+      contract = await (await ethers.getContractFactory("ChainlinkOracle")).deploy(oracle.feed);
+      break;
+    case "twap": {
+      const baseOracle = deployed[oracle.baseAsset];
+      if (!baseOracle) throw new Error(`TWAP base asset "${oracle.baseAsset}" must be listed before the tokens priced through it`);
+      const Twap = await ethers.getContractFactory("UniswapV2TwapOracle");
+      contract = await Twap.deploy(oracle.pair, oracle.pairToken, baseOracle, oracle.period);
+      break;
+    }
+  }
+  await contract.deployed();
+  return contract.address;
+}
+
+// Percentages as the pool's 1e18-scaled fractions
+function rateModelStruct(model: RateModelConfig): LendingPoolTest.RateModelStruct {
+  const fraction = (percent: string) => ethers.utils.parseUnits(percent, 16);
+  return {
+    baseRate: fraction(model.baseRate),
+    slope1: fraction(model.slope1),
+    slope2: fraction(model.slope2),
+    kink: fraction(model.kink),
+  };
+}
+
+// Deploys an oracle adapter (and reference adapter) for each of `config`'s tokens, returning the
+// pool's constructor arguments
+export async function deployConstructorArgs(config: NetworkConfig): Promise<[LendingPoolTest.TokenInitStruct[]]> {
+  const oracles: { [symbol: string]: string } = {};
+  const tokens: LendingPoolTest.TokenInitStruct[] = [];
+  for (const token of config.tokens) {
+    oracles[token.symbol] = await deployOracle(token.oracle, oracles);
+    tokens.push({
+      token: tokenAddress(config, token.symbol),
+      weight: token.weight,
+      priceFeed: {
+        oracle: oracles[token.symbol],
+        referenceOracle: token.referenceOracle ? await deployOracle(token.referenceOracle, oracles) : ethers.constants.AddressZero,
+        maxStaleness: token.maxStaleness || 0,
+        maxDeviationBps: token.maxDeviationBps || 0,
+      },
+      rateModel: rateModelStruct(token.rateModel || DEFAULT_RATE_MODEL),
+    });
+  }
+  return [tokens];
+}
+
+// Deploys the pool listing `config`'s tokens, plus a Multicall3 on local chains
+export async function deployPool(config: NetworkConfig): Promise<PoolDeployment> {
+  const { chainId } = await ethers.provider.getNetwork();
+  if (config.chainId !== undefined && config.chainId !== chainId) {
+    throw new Error(`Network config is for chain ${config.chainId}, but the provider is on chain ${chainId}`);
+  }
+
+  let multicall: string | undefined;
+  if (LOCAL_CHAIN_IDS.includes(chainId)) {
+    const Multicall = await ethers.getContractFactory("Multicall3");
+    const multicallContract = await Multicall.deploy();
+    await multicallContract.deployed();
+    multicall = multicallContract.address;
+    console.log("Multicall3 deployed to:", multicall);
+  }
+
+  const [tokens] = await deployConstructorArgs(config);
+  config.tokens.forEach((token, i) => console.log(`${token.symbol} ${token.oracle.type} oracle deployed to:`, tokens[i].priceFeed.oracle));
+
+  const LendingPool = await ethers.getContractFactory("LendingPoolTest");
+  const pool = await LendingPool.deploy(tokens);
+  const receipt = await pool.deployTransaction.wait();
+  console.log("LendingPool deployed to:", pool.address);
+
+  return { pool, deployBlock: receipt.blockNumber, multicall };
+}
+
+// Records `deployment` in deployments/<chainId>.json, which the frontend reads for the pool
+// address, deploy block and token set. Returns the manifest's path.
+export async function writeManifest({ pool, deployBlock, multicall }: PoolDeployment): Promise<string> {
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const tokenAddresses: string[] = await pool.getSupportedTokens();
+  const tokens = await Promise.all(
+    tokenAddresses.map(async (address) => ({
+      address,
+      weight: (await pool.tokenConfigs(address)).weight.toNumber(),
+    }))
+  );
+
+  const { abi } = await artifacts.readArtifact("LendingPoolTest");
+  const manifest: DeploymentManifest = {
+    chainId,
+    network: network.name,
+    lendingPool: {
+      address: pool.address,
+      deployBlock,
+      abiHash: ethers.utils.keccak256(ethers.utils.toUtf8Bytes(JSON.stringify(abi))),
+    },
+    ...(multicall ? { multicall } : {}),
+    tokens,
+    deployedAt: new Date().toISOString(),
+  };
+
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const manifestPath = path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+  writeManifestIndex();
+  console.log("Deployment manifest written to:", path.relative(process.cwd(), manifestPath));
+  return manifestPath;
+}
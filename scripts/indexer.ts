@@ -0,0 +1,51 @@
+import { ethers } from "hardhat";
+import type { LendingPoolTest } from "../src/types/contracts";
+import { getDeployment } from "../src/lib/deployments";
+import { syncIndex } from "../src/lib/indexer/indexer";
+import { jsonFileStore } from "../src/lib/indexer/store";
+import { indexFile, confirmationsFor } from "../src/lib/indexer/server";
+
+// Follows the deployed pool's events into the index the API routes serve:
+//   npm run index:local
+// Runs until stopped, syncing every INDEXER_POLL_MS (2s by default); INDEXER_ONCE=1 syncs once
+// and exits.
+
+const DEFAULT_POLL_MS = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  const deployment = getDeployment(chainId);
+  if (!deployment) {
+    throw new Error(`No deployment manifest for chain ${chainId}; deploy the pool first`);
+  }
+
+  const pool = (await ethers.getContractAt("LendingPoolTest", deployment.lendingPool.address)) as LendingPoolTest;
+  const file = indexFile(chainId);
+  const store = jsonFileStore(file);
+  const pollMs = parseInt(process.env.INDEXER_POLL_MS || "") || DEFAULT_POLL_MS;
+  console.log(`Indexing pool ${pool.address} on chain ${chainId} from block ${deployment.lendingPool.deployBlock} into ${file}`);
+
+  for (;;) {
+    try {
+      const { state, added, removed } = await syncIndex(pool, store, {
+        deployBlock: deployment.lendingPool.deployBlock,
+        confirmations: confirmationsFor(chainId),
+      });
+      if (added || removed) {
+        console.log(`Block ${state.lastBlock}: ${added} events added, ${removed} removed (${state.events.length} total)`);
+      }
+    } catch (error) {
+      if (process.env.INDEXER_ONCE) throw error;
+      console.error("Sync failed, retrying:", error);
+    }
+    if (process.env.INDEXER_ONCE) break;
+    await sleep(pollMs);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { BigNumber } from "ethers";
+import { deployPool, writeManifest, LOCAL_CHAIN_IDS } from "./deployment";
+import { deployMockMarket, MOCK_TWAP_PERIOD } from "./mocks";
+import type { MockERC20 } from "../src/types/contracts";
+
+// Sets up a fully offline dev environment on a `hardhat node`:
+//   npm run chain          (terminal 1)
+//   npm run deploy:local   (terminal 2)
+//   npm run index:local    (terminal 3, optional: event history for the API routes)
+//   npm run dev
+// Mock tokens, Chainlink-style feeds and a priced mock pair are deployed first and the pool lists
+// them with the BSC weights, so prices go through the same oracle adapters as on a live network.
+
+const NATIVE = ethers.constants.AddressZero;
+const LOCAL_RPC_URL = "http://127.0.0.1:8545";
+const ENV_FILE = path.join(__dirname, "..", ".env.local");
+
+// Liquidity the deployer adds to each reserve, and the wallet balance each dev account starts with
+const POOL_FUNDING_USD = 1_000_000;
+const NATIVE_POOL_FUNDING = ethers.utils.parseEther("1000");
+const ACCOUNT_BALANCE_USD = 100_000;
+const DEV_ACCOUNTS = 5;
+
+// Upserts `values` into .env.local, keeping whatever else is there
+function writeEnv(values: { [key: string]: string }) {
+  const existing = fs.existsSync(ENV_FILE) ? fs.readFileSync(ENV_FILE, "utf8").split("\n") : [];
+  const lines = existing.filter((line) => line.trim() && !Object.keys(values).some((key) => line.startsWith(`${key}=`)));
+  for (const [key, value] of Object.entries(values)) {
+    lines.push(`${key}=${value}`);
+  }
+  fs.writeFileSync(ENV_FILE, lines.join("\n") + "\n");
+}
+
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  if (!LOCAL_CHAIN_IDS.includes(chainId)) {
+    throw new Error(`scripts/localChain.ts only targets local Hardhat chains, got chain ${chainId}`);
+  }
+
+  const { tokens, config } = await deployMockMarket();
+  console.log("Mock tokens, feeds and pairs deployed");
+  const deployment = await deployPool(config);
+  const { pool } = deployment;
+
+  // A TWAP has no price until a full window has passed, so fast-forward through the first one
+  await network.provider.send("evm_increaseTime", [MOCK_TWAP_PERIOD]);
+  await network.provider.send("evm_mine", []);
+  const Twap = await ethers.getContractFactory("UniswapV2TwapOracle");
+  for (const token of config.tokens.filter((t) => t.oracle.type === "twap")) {
+    const { oracle } = await pool.priceFeeds(tokens[token.symbol].address);
+    await (await Twap.attach(oracle).update()).wait();
+    console.log(`${token.symbol} TWAP initialised`);
+  }
+
+  const [deployer, ...accounts] = await ethers.getSigners();
+  const devAccounts = [deployer, ...accounts].slice(0, DEV_ACCOUNTS);
+
+  // `usd` whole dollars of an ERC20 at its mock price
+  const worth = async (erc20: MockERC20, usd: number): Promise<BigNumber> => {
+    const unit = BigNumber.from(10).pow(await erc20.decimals());
+    return unit.mul(usd).mul(ethers.constants.WeiPerEther).div(await pool.getTokenPrice(erc20.address));
+  };
+
+  for (const token of await pool.getSupportedTokens()) {
+    if (token === NATIVE) {
+      await (await pool.connect(deployer).fundPool(NATIVE, NATIVE_POOL_FUNDING, { value: NATIVE_POOL_FUNDING })).wait();
+      console.log("Native reserves funded");
+      continue;
+    }
+    const erc20 = Object.values(tokens).find((t) => t.address === token)!;
+    const funding = await worth(erc20, POOL_FUNDING_USD);
+    await (await erc20.mint(deployer.address, funding)).wait();
+    await (await erc20.connect(deployer).approve(pool.address, funding)).wait();
+    await (await pool.connect(deployer).fundPool(token, funding)).wait();
+
+    const balance = await worth(erc20, ACCOUNT_BALANCE_USD);
+    for (const account of devAccounts) {
+      await (await erc20.mint(account.address, balance)).wait();
+    }
+    console.log(`${await erc20.symbol()}: reserves funded, ${DEV_ACCOUNTS} dev accounts credited`);
+  }
+
+  await writeManifest(deployment);
+  writeEnv({
+    NEXT_PUBLIC_CHAIN_ID: String(chainId),
+    NEXT_PUBLIC_RPC_URL: LOCAL_RPC_URL,
+    NEXT_PUBLIC_MULTICALL_ADDRESS: deployment.multicall!,
+  });
+  console.log("Frontend config written to:", path.relative(process.cwd(), ENV_FILE));
+
+  console.log("\nDev accounts (import a private key from the `hardhat node` output into your wallet):");
+  for (const account of devAccounts) {
+    console.log(`  ${account.address}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
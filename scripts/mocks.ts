@@ -0,0 +1,118 @@
+import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { MockAggregatorV3, MockERC20, MockUniswapV2Pair } from "../src/types/contracts";
+import { NATIVE_TOKEN, NetworkConfig, OracleConfig, RateModelConfig } from "./deployment";
+
+const WAD = ethers.constants.WeiPerEther;
+
+// USD prices the mocks start at. USDT and USDC use 6 decimals and the rest 18, so both paths
+// get exercised; the aggregators use Chainlink's 8 decimals for USD feeds.
+export const STABLE_DECIMALS = 6;
+const AGGREGATOR_DECIMALS = 8;
+export const MOCK_PRICES: { [symbol: string]: string } = {
+  USDT: "1",
+  USDC: "1",
+  BNB: "612.3456789",
+  WETH: "3456.78901234",
+  CDT: "7.53",
+};
+// CDT's pair with WBNB, seeded to match MOCK_PRICES.CDT at the BNB price
+const CDT_PAIR_WBNB = WAD.mul(123);
+const CDT_PAIR_CDT = WAD.mul(10000).add(7);
+// TWAP window on local chains; short so the first update can follow the deployment closely
+export const MOCK_TWAP_PERIOD = 60;
+
+// Pool weights the mock market is listed with, as on BSC
+const WEIGHTS: { [symbol: string]: number } = { USDT: 100, BNB: 70, USDC: 100, WETH: 70, CDT: 50 };
+
+export interface MockMarket {
+  // Keyed by symbol: USDT, USDC, WBNB, WETH, CDT
+  tokens: { [symbol: string]: MockERC20 };
+  // Keyed by the priced token and its base
+  pairs: { CDT_WBNB: MockUniswapV2Pair };
+  // Chainlink-style USD feeds, keyed by symbol
+  aggregators: { BNB: MockAggregatorV3; WETH: MockAggregatorV3 };
+  // The BSC token set pointed at the mocks: fixed stablecoins, BNB and WETH through the
+  // aggregators and CDT through a TWAP of its pair
+  config: NetworkConfig;
+}
+
+async function deployToken(name: string, symbol: string, decimals = 18): Promise<MockERC20> {
+  const MockToken = await ethers.getContractFactory("MockERC20");
+  const token = await MockToken.deploy(name, symbol, decimals);
+  await token.deployed();
+  return token;
+}
+
+async function deployPair(tokenA: MockERC20, tokenB: MockERC20): Promise<MockUniswapV2Pair> {
+  const MockPair = await ethers.getContractFactory("MockUniswapV2Pair");
+  const pair = await MockPair.deploy(tokenA.address, tokenB.address);
+  await pair.deployed();
+  return pair;
+}
+
+async function deployAggregator(price: string): Promise<MockAggregatorV3> {
+  const MockAggregator = await ethers.getContractFactory("MockAggregatorV3");
+  const aggregator = await MockAggregator.deploy(AGGREGATOR_DECIMALS, ethers.utils.parseUnits(price, AGGREGATOR_DECIMALS));
+  await aggregator.deployed();
+  return aggregator;
+}
+
+// Sets `pair`'s balances of the two tokens exactly, in either order
+export async function setPairReserves(
+  pair: MockUniswapV2Pair,
+  tokenA: MockERC20,
+  amountA: BigNumber,
+  tokenB: MockERC20,
+  amountB: BigNumber
+) {
+  const aIsToken0 = (await pair.token0()).toLowerCase() === tokenA.address.toLowerCase();
+  return pair.setReserves(aIsToken0 ? amountA : amountB, aIsToken0 ? amountB : amountA);
+}
+
+// The mock market's token set, in the BSC order and weights, priced by `oracles` (keyed by
+// symbol; BNB is the native token). Every token borrows at `rateModel`, or the deployment default.
+export function mockNetworkConfig(
+  tokens: { [symbol: string]: MockERC20 },
+  oracles: { [symbol: string]: OracleConfig },
+  rateModel?: RateModelConfig
+): NetworkConfig {
+  return {
+    tokens: Object.entries(WEIGHTS).map(([symbol, weight]) => ({
+      symbol,
+      address: symbol === "BNB" ? NATIVE_TOKEN : tokens[symbol].address,
+      weight,
+      oracle: oracles[symbol],
+      ...(rateModel ? { rateModel } : {}),
+    })),
+  };
+}
+
+// Deploys mock tokens, price feeds and pairs, and a network config that lists them like the BSC deployment
+export async function deployMockMarket(): Promise<MockMarket> {
+  const tokens: { [symbol: string]: MockERC20 } = {
+    USDT: await deployToken("Tether USD", "USDT", STABLE_DECIMALS),
+    USDC: await deployToken("USD Coin", "USDC", STABLE_DECIMALS),
+    WBNB: await deployToken("Wrapped BNB", "WBNB"),
+    WETH: await deployToken("Wrapped Ether", "WETH"),
+    CDT: await deployToken("CDT", "CDT"),
+  };
+
+  const pairs = { CDT_WBNB: await deployPair(tokens.CDT, tokens.WBNB) };
+  await setPairReserves(pairs.CDT_WBNB, tokens.WBNB, CDT_PAIR_WBNB, tokens.CDT, CDT_PAIR_CDT);
+
+  const aggregators = {
+    BNB: await deployAggregator(MOCK_PRICES.BNB),
+    WETH: await deployAggregator(MOCK_PRICES.WETH),
+  };
+
+  const config = mockNetworkConfig(tokens, {
+    USDT: { type: "fixed", price: MOCK_PRICES.USDT },
+    USDC: { type: "fixed", price: MOCK_PRICES.USDC },
+    BNB: { type: "chainlink", feed: aggregators.BNB.address },
+    WETH: { type: "chainlink", feed: aggregators.WETH.address },
+    CDT: { type: "twap", pair: pairs.CDT_WBNB.address, pairToken: tokens.CDT.address, baseAsset: "BNB", period: MOCK_TWAP_PERIOD },
+  });
+
+  return { tokens, pairs, aggregators, config };
+}
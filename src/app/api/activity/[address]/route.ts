@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getIndex, requestedChainId } from '@/lib/indexer/server';
+import { getAccountActivity } from '@/lib/indexer/queries';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/activity/<address>?chainId=: the account's pool events, newest first
+export async function GET(request: NextRequest, { params }: { params: { address: string } }) {
+    const chainId = requestedChainId(request.nextUrl);
+    if (chainId === null) return NextResponse.json({ error: 'Invalid chainId' }, { status: 400 });
+    if (!ethers.utils.isAddress(params.address)) return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+
+    try {
+        const index = await getIndex(chainId);
+        return NextResponse.json({
+            chainId,
+            lastBlock: index.lastBlock,
+            activity: getAccountActivity(index, params.address),
+        });
+    } catch (error) {
+        console.error('[api/activity] Failed to read the index:', error);
+        return NextResponse.json({ error: 'Event index unavailable' }, { status: 503 });
+    }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getIndex, requestedChainId } from '@/lib/indexer/server';
+import { getLiquidations } from '@/lib/indexer/queries';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/liquidations?chainId=&account=: liquidations, newest first, optionally only those of
+// or by `account`
+export async function GET(request: NextRequest) {
+    const chainId = requestedChainId(request.nextUrl);
+    if (chainId === null) return NextResponse.json({ error: 'Invalid chainId' }, { status: 400 });
+    const account = request.nextUrl.searchParams.get('account') || undefined;
+    if (account && !ethers.utils.isAddress(account)) return NextResponse.json({ error: 'Invalid account' }, { status: 400 });
+
+    try {
+        const index = await getIndex(chainId);
+        return NextResponse.json({ chainId, lastBlock: index.lastBlock, liquidations: getLiquidations(index, account) });
+    } catch (error) {
+        console.error('[api/liquidations] Failed to read the index:', error);
+        return NextResponse.json({ error: 'Event index unavailable' }, { status: 503 });
+    }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIndex, requestedChainId } from '@/lib/indexer/server';
+import { getTokenTotals } from '@/lib/indexer/queries';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/tokens?chainId=: each token's totals deposited, borrowed, liquidated etc. since deployment
+export async function GET(request: NextRequest) {
+    const chainId = requestedChainId(request.nextUrl);
+    if (chainId === null) return NextResponse.json({ error: 'Invalid chainId' }, { status: 400 });
+
+    try {
+        const index = await getIndex(chainId);
+        return NextResponse.json({ chainId, lastBlock: index.lastBlock, tokens: getTokenTotals(index) });
+    } catch (error) {
+        console.error('[api/tokens] Failed to read the index:', error);
+        return NextResponse.json({ error: 'Event index unavailable' }, { status: 503 });
+    }
+}
@@ -1,44 +1,74 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useWalletContext } from '@/contexts/WalletContext';
-import { TOKENS, Token } from '@/constants/tokens';
+import { Token } from '@/constants/tokens';
+import { useTokenRegistry } from '@/contexts/TokenContext';
 import {
     getUserData,
     IUserData,
+    IMarketData,
     deposit,
     withdraw,
     borrow,
     repay,
+    provideLiquidity,
+    redeemLiquidity,
     approve,
     getAllowance,
+    getRepayFunds,
     verifyContractExists,
     SUPPORTED_CHAIN_IDS,
-    liquidate
+    liquidate,
+    getReadProvider,
+    getPoolOwner,
+    socializeDeficit,
+    simulateTransaction,
+    PoolAction
 } from '@/lib/contract';
+import { decodePoolError, poolErrorForReason } from '@/lib/poolErrors';
 import { ethers } from 'ethers';
 import { toast } from 'react-hot-toast';
 import SupplyModal from '@/components/SupplyModal';
 import BorrowModal from '@/components/BorrowModal';
+import LiquidityModal from '@/components/LiquidityModal';
+import LiquidationForm from '@/components/LiquidationForm';
+import DeficitsPanel from '@/components/DeficitsPanel';
 import UserDashboard from '@/components/UserDashboard';
+import { useMarketsData } from '@/hooks/useMarketsData';
+import { useAtRiskAccounts } from '@/hooks/useAtRiskAccounts';
+import { usePoolUpdates, PoolUpdate } from '@/hooks/usePoolUpdates';
+import { BestLiquidation } from '@/lib/riskAccounts';
+import { positionTokensOf } from '@/lib/liveUpdates';
 
 // Main application component for the Lending Pool
 export default function AppPage() {
     const { isConnected, provider, address, signer, chainId, isInitializing, connectWallet } = useWalletContext();
+    const { tokens } = useTokenRegistry();
     const [userData, setUserData] = useState<IUserData | null>(null);
-    const [marketData, setMarketData] = useState<Token[]>(TOKENS);
     const [isLoading, setIsLoading] = useState(true);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [selectedToken, setSelectedToken] = useState<Token | null>(null);
-    const [modalType, setModalType] = useState<'supply' | 'withdraw' | 'borrow' | 'repay' | null>(null);
+    const [modalType, setModalType] = useState<PoolAction | null>(null);
     const [isProcessingTransaction, setIsProcessingTransaction] = useState(false);
     const [contractError, setContractError] = useState<string | null>(null);
-    const [dataFetchInProgress, setDataFetchInProgress] = useState(false);
+    const [userDataError, setUserDataError] = useState<string | null>(null);
+    // Id of the latest fetch: only its result is shown, so a slow earlier response can't overwrite
+    // a newer one
+    const fetchIdRef = useRef(0);
+    const fetchInProgressRef = useRef(false);
+    const refreshQueuedRef = useRef(false);
     const [liquidationAddress, setLiquidationAddress] = useState<string>('');
     const [liquidationInProgress, setLiquidationInProgress] = useState<boolean>(false);
     const [showLiquidationTool, setShowLiquidationTool] = useState<boolean>(false);
-    const [riskAddresses, setRiskAddresses] = useState<{address: string, indebtedness: number}[]>([]);
-    const [isLoadingRiskAddresses, setIsLoadingRiskAddresses] = useState<boolean>(false);
+    const [liquidationCount, setLiquidationCount] = useState<number>(0);
+    const [poolOwner, setPoolOwner] = useState<string | null>(null);
+    // The pair the risk list found most profitable for the selected account, preselected in the form
+    const [suggestedLiquidation, setSuggestedLiquidation] = useState<BestLiquidation | null>(null);
+    // Visitors without a wallet still see live markets through a JSON-RPC read provider
+    const { marketsByAddress, refresh: refreshMarkets } = useMarketsData(provider || getReadProvider());
+    const { accounts: riskAccounts, isLoading: isLoadingRiskAccounts, error: riskAccountsError } =
+        useAtRiskAccounts(provider, tokens, showLiquidationTool);
 
     // Function to check if the contract is deployed
     const checkContractDeployment = useCallback(async () => {
@@ -70,74 +100,85 @@ export default function AppPage() {
         }
     }, [provider, chainId]);
 
-    // Simplified function to fetch all required data from the blockchain
-    const fetchData = useCallback(async () => {
+    // Simplified function to fetch all required data from the blockchain.  Background refreshes
+    // (from new blocks) keep showing the current data instead of the loading screen.
+    const fetchData = useCallback(async (background: boolean = false) => {
         console.log('[AppPage] fetchData triggered.');
         
-        // Only fetch if we have required wallet state
-        if (!isConnected || !provider || !address) {
-            console.log('[AppPage] fetchData aborted: wallet not ready.');
+        // Only fetch if we have required wallet state and the token registry has loaded
+        if (!isConnected || !provider || !address || tokens.length === 0) {
+            console.log('[AppPage] fetchData aborted: wallet or token list not ready.');
             setIsLoading(false);
             return;
         }
         
         console.log(`[AppPage] State before fetching: isConnected=${isConnected}, chainId=${chainId}`);
 
-        // Prevent multiple simultaneous fetches
-        if (dataFetchInProgress) {
-            console.log('[AppPage] A data fetch is already in progress, skipping.');
+        // Block refreshes arriving mid-fetch run once it's done rather than alongside it
+        if (background && fetchInProgressRef.current) {
+            console.log('[AppPage] A data fetch is already in progress, queueing a refresh.');
+            refreshQueuedRef.current = true;
             return;
         }
         
-        setDataFetchInProgress(true);
-        setIsLoading(true);
-        
-        // Check if contract is deployed first
-        const contractValid = await checkContractDeployment();
-        if (!contractValid) {
-            setIsLoading(false);
-            setDataFetchInProgress(false);
-            return;
-        }
+        const fetchId = ++fetchIdRef.current;
+        fetchInProgressRef.current = true;
+        if (!background) setIsLoading(true);
         
         try {
+            // Check if contract is deployed first; block refreshes rely on the fetch that loaded the data
+            if (!background && !(await checkContractDeployment())) return;
+
             console.log('[AppPage] Starting data fetch...');
             console.log('[AppPage] Provider ready:', !!provider);
             console.log('[AppPage] Address:', address);
             
-            const data = await getUserData(provider, address);
-            setUserData(data);
-
-            // Update market data with user-specific balances
-            const updatedMarketData = TOKENS.map(token => {
-                const supplied = data.collateral[token.address] 
-                    ? ethers.utils.formatUnits(data.collateral[token.address], token.decimals) 
-                    : '0';
-                const borrowed = data.debt[token.address] 
-                    ? ethers.utils.formatUnits(data.debt[token.address], token.decimals) 
-                    : '0';
-                return { ...token, supplied, borrowed };
-            });
-            setMarketData(updatedMarketData);
+            do {
+                refreshQueuedRef.current = false;
+                const data = await getUserData(provider, address, tokens);
+                // A fetch started since (another account or chain, or after a transaction) supersedes this one
+                if (fetchId !== fetchIdRef.current) return;
+                setUserData(data);
+                setUserDataError(null);
+            } while (refreshQueuedRef.current);
             
             console.log('[AppPage] Data fetch completed successfully');
         } catch (error) {
+            if (fetchId !== fetchIdRef.current) return;
             console.error("[AppPage] Error fetching user data:", error);
+            setUserDataError("Could not load your position from the network. It will be retried on the next block.");
             // Only show toast if we're not in the initial loading state
             if (!isLoading) {
                 toast.error("Could not fetch your data from the network.");
             }
         } finally {
-            setIsLoading(false);
-            setDataFetchInProgress(false);
+            if (fetchId === fetchIdRef.current) {
+                setIsLoading(false);
+                fetchInProgressRef.current = false;
+            }
         }
-    }, [provider, address, isConnected, chainId]); // Simplified dependencies
+    }, [provider, address, isConnected, chainId, tokens]); // Simplified dependencies
+
+    // Registry tokens decorated with the connected user's supplied and borrowed amounts
+    const marketData = useMemo<Token[]>(() => tokens.map(token => {
+        if (!userData) return token;
+        const supplied = userData.collateral[token.address] 
+            ? ethers.utils.formatUnits(userData.collateral[token.address], token.decimals) 
+            : '0';
+        const borrowed = userData.debt[token.address] 
+            ? ethers.utils.formatUnits(userData.debt[token.address], token.decimals) 
+            : '0';
+        return { ...token, supplied, borrowed };
+    }), [tokens, userData]);
 
     // Effect to handle data fetching when wallet state changes
     useEffect(() => {
-        // Clear data if wallet disconnected
+        // Clear data if wallet disconnected, dropping any fetch still in flight for the old account
         if (!isConnected || !address) {
+            fetchIdRef.current += 1;
+            fetchInProgressRef.current = false;
             setUserData(null);
+            setUserDataError(null);
             setIsLoading(false);
             return;
         }
@@ -149,26 +190,71 @@ export default function AppPage() {
 
         // Debounce data fetching to prevent excessive calls
         const fetchTimeout = setTimeout(() => {
-            if (isConnected && provider && address && !dataFetchInProgress) {
+            if (isConnected && provider && address) {
                 fetchData();
             }
         }, 1000); // 1 second debounce
 
-        // Set up interval to refresh data every 60 seconds
-        const intervalId = setInterval(() => {
-            if (isConnected && provider && address && !dataFetchInProgress) {
-                fetchData();
-            }
-        }, 60000);
-        
         return () => {
             clearTimeout(fetchTimeout);
-            clearInterval(intervalId);
         };
-    }, [isConnected, provider, address, isInitializing]); // Simplified dependencies
+    }, [isConnected, provider, address, isInitializing, tokens]); // Simplified dependencies
+
+    // After that, new blocks refresh whatever their events and price moves made stale
+    const positionTokens = useMemo(() => (userData ? positionTokensOf(userData) : []), [userData]);
+    usePoolUpdates(provider || getReadProvider(), tokens, isConnected ? address : null, positionTokens, ({ slices }: PoolUpdate) => {
+        if (slices.includes('markets')) refreshMarkets();
+        if (slices.includes('account') && isConnected && address && !isInitializing) fetchData(true);
+    });
+
+    // Format a 1e18-scaled USD price for the markets tables
+    const formatPrice = (market: IMarketData | undefined): string => {
+        if (!market) return '-';
+        return `$${parseFloat(ethers.utils.formatEther(market.price)).toFixed(2)}`;
+    };
+
+    // A 1e18-scaled USD value, e.g. an account's total debt
+    const formatUSDValue = (value: ethers.BigNumber): string => `$${parseFloat(ethers.utils.formatEther(value)).toFixed(2)}`;
+
+    // How long ago a unix timestamp was, e.g. "5m ago"
+    const formatAge = (timestamp: number): string => {
+        if (!timestamp) return 'never updated';
+        const seconds = Math.max(0, Math.floor(Date.now() / 1000) - timestamp);
+        if (seconds < 60) return `${seconds}s ago`;
+        if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+        if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+        return `${Math.floor(seconds / 86400)}d ago`;
+    };
+
+    // Price plus where it comes from and how old it is; a price the contract currently rejects
+    // is flagged, since supplying, borrowing and withdrawing against it will revert
+    const renderPriceCell = (market: IMarketData | undefined) => (
+        <td className="p-4 text-right">
+            <p className="text-white">{formatPrice(market)}</p>
+            {market && (
+                <p
+                    className={`text-xs ${market.priceError ? 'text-yellow-400' : 'text-gray-500'}`}
+                    title={market.priceError ? poolErrorForReason(market.priceError).message : undefined}
+                >
+                    {market.priceSource || 'Unknown source'} · {formatAge(market.priceUpdatedAt)}
+                    {market.priceError && ` · ${market.priceError}`}
+                </p>
+            )}
+        </td>
+    );
+
+    // A token's yearly yield, preferring the connected account's snapshot (fresher after its own
+    // actions) over the markets data
+    const formatAPY = (token: Token, side: 'supply' | 'borrow'): string => {
+        const market = marketsByAddress[token.address.toLowerCase()];
+        const apy = side === 'supply'
+            ? userData?.supplyAPY[token.address] ?? market?.supplyAPY
+            : userData?.borrowAPY[token.address] ?? market?.borrowAPY;
+        return apy === undefined ? '-' : `${(apy * 100).toFixed(2)}%`;
+    };
 
     // Handlers to open different types of modals
-    const openModal = (token: Token, type: 'supply' | 'withdraw' | 'borrow' | 'repay') => {
+    const openModal = (token: Token, type: PoolAction) => {
         setSelectedToken(token);
         setModalType(type);
         setIsModalOpen(true);
@@ -180,8 +266,33 @@ export default function AppPage() {
         setModalType(null);
     };
 
+    // Read through a ref so the simulation callback doesn't change (and re-simulate) on every refresh
+    const userDataRef = useRef(userData);
+    userDataRef.current = userData;
+
+    // Repaying the whole debt as last loaded (what MAX fills in) repays all of it, including the
+    // interest accrued since, so no dust is left behind
+    const toPoolAmount = (amountWei: ethers.BigNumber, token: Token, type: PoolAction) => {
+        const debt = userDataRef.current?.debt[token.address];
+        const repayAll = type === 'repay' && debt !== undefined && debt.gt(0) && amountWei.gte(debt);
+        return repayAll ? ethers.constants.MaxUint256 : amountWei;
+    };
+
+    // Lets the modals check an amount against the contract before they allow submission
+    const handleSimulate = useCallback(async (amount: string, token: Token, type: PoolAction) => {
+        if (!signer) return null;
+        let amountWei;
+        try {
+            amountWei = ethers.utils.parseUnits(amount, token.decimals);
+        } catch (error) {
+            // Too many decimals etc. – parseUnits in handleTransaction reports it on submit
+            return null;
+        }
+        return simulateTransaction(signer, type, token.address, toPoolAmount(amountWei, token, type));
+    }, [signer]);
+
     // Main transaction handler
-    const handleTransaction = async (amount: string, token: Token, type: 'supply' | 'withdraw' | 'borrow' | 'repay') => {
+    const handleTransaction = async (amount: string, token: Token, type: PoolAction) => {
         // Check wallet connection first
         if (!isConnected || !signer || !address) {
             toast.error("Please connect your wallet to proceed");
@@ -203,16 +314,17 @@ export default function AppPage() {
         const toastId = toast.loading(`Processing ${type} transaction...`);
 
         try {
-            const amountWei = ethers.utils.parseUnits(amount, token.decimals);
+            const amountWei = toPoolAmount(ethers.utils.parseUnits(amount, token.decimals), token, type);
             let tx;
             
             // For non-native tokens, check allowance and approve if necessary
             if (token.address !== '0x0000000000000000000000000000000000000000') {
-                if (type === 'supply' || type === 'repay') {
+                if (type === 'supply' || type === 'repay' || type === 'provide') {
+                    const needed = type === 'repay' ? await getRepayFunds(signer, token.address, amountWei) : amountWei;
                     const allowance = await getAllowance(provider!, token.address, address);
-                    if (allowance.lt(amountWei)) {
+                    if (allowance.lt(needed)) {
                         toast.loading("Approval required...", { id: toastId });
-                        const approveTx = await approve(signer, token.address, amountWei);
+                        const approveTx = await approve(signer, token.address, needed);
                         await approveTx.wait();
                         toast.loading("Approval successful! Continuing transaction...", { id: toastId });
                     }
@@ -234,42 +346,36 @@ export default function AppPage() {
                 case 'repay':
                     tx = await repay(signer, token.address, amountWei);
                     break;
+                case 'provide':
+                    tx = await provideLiquidity(signer, token.address, amountWei);
+                    break;
+                case 'redeem':
+                    tx = await redeemLiquidity(signer, token.address, amountWei);
+                    break;
             }
 
             await tx.wait();
             toast.success("Transaction successful!", { id: toastId });
             fetchData(); // Refresh data after transaction
+            refreshMarkets();
             closeModal();
         } catch (error: any) {
             console.error(error);
-            let errorMessage = "Transaction failed.";
-            
-            if (error?.reason) {
-                errorMessage = error.reason;
-            } else if (error?.message) {
-                // Clean up common MetaMask errors
-                const message = error.message;
-                if (message.includes("user rejected transaction")) {
-                    errorMessage = "Transaction rejected by user.";
-                } else if (message.includes("insufficient funds")) {
-                    errorMessage = "Insufficient funds for transaction.";
-                }
-            }
-            
-            toast.error(errorMessage, { id: toastId });
+            // Preflight failures arrive already decoded; wallet and RPC errors are decoded here
+            toast.error(decodePoolError(error).message, { id: toastId });
         } finally {
             setIsProcessingTransaction(false);
         }
     };
 
     // Handle liquidation
-    const handleLiquidation = async () => {
+    const handleLiquidation = async (user: string, debtToken: Token, amount: string, collateralToken: Token) => {
         if (!signer || !address) {
             toast.error("Wallet not connected");
             return;
         }
         
-        if (!liquidationAddress || !ethers.utils.isAddress(liquidationAddress)) {
+        if (!user || !ethers.utils.isAddress(user)) {
             toast.error("Please enter a valid address to liquidate");
             return;
         }
@@ -289,73 +395,62 @@ export default function AppPage() {
         const toastId = toast.loading(`Processing liquidation...`);
 
         try {
-            const tx = await liquidate(signer, liquidationAddress);
+            const amountWei = ethers.utils.parseUnits(amount, debtToken.decimals);
+
+            // The liquidator pays the debt token in, just like a repay
+            if (debtToken.address !== '0x0000000000000000000000000000000000000000') {
+                const allowance = await getAllowance(provider!, debtToken.address, address);
+                if (allowance.lt(amountWei)) {
+                    toast.loading("Approval required...", { id: toastId });
+                    const approveTx = await approve(signer, debtToken.address, amountWei);
+                    await approveTx.wait();
+                    toast.loading("Approval successful! Continuing liquidation...", { id: toastId });
+                }
+            }
+
+            toast.loading("Confirm liquidation transaction...", { id: toastId });
+            const tx = await liquidate(signer, user, debtToken.address, amountWei, collateralToken.address);
             await tx.wait();
-            toast.success("Liquidation successful!", { id: toastId });
+            toast.success(`Liquidation successful! ${collateralToken.symbol} was sent to your wallet.`, { id: toastId });
             fetchData(); // Refresh data after transaction
-            setLiquidationAddress('');
+            refreshMarkets();
+            setLiquidationCount((count) => count + 1);
         } catch (error: any) {
             console.error(error);
-            let errorMessage = "Liquidation failed.";
-            
-            if (error?.reason) {
-                errorMessage = error.reason;
-            } else if (error?.message) {
-                // Clean up common MetaMask errors
-                const message = error.message;
-                if (message.includes("user rejected transaction")) {
-                    errorMessage = "Transaction rejected by user.";
-                } else if (message.includes("insufficient funds")) {
-                    errorMessage = "Insufficient funds for transaction.";
-                } else if (message.includes("Healthy")) {
-                    errorMessage = "Position is healthy and cannot be liquidated.";
-                } else if (message.includes("No debt")) {
-                    errorMessage = "Address has no debt to liquidate.";
-                }
-            }
-            
-            toast.error(errorMessage, { id: toastId });
+            toast.error(decodePoolError(error).message, { id: toastId });
         } finally {
             setLiquidationInProgress(false);
         }
     };
 
-    // Function to fetch accounts at risk of liquidation (mock function for demo)
-    // In a real application, this would query an indexer or subgraph
-    const fetchRiskAddresses = useCallback(async () => {
+    // The deficits panel is only for the pool owner, who alone can socialise a deficit
+    useEffect(() => {
         if (!provider) return;
-        
-        setIsLoadingRiskAddresses(true);
-        
+        getPoolOwner(provider)
+            .then(setPoolOwner)
+            .catch((error) => console.error('[AppPage] Error reading the pool owner:', error));
+    }, [provider, chainId]);
+
+    const isPoolOwner = !!address && !!poolOwner && address.toLowerCase() === poolOwner.toLowerCase();
+
+    const handleSocializeDeficit = async (token: Token) => {
+        if (!signer || isProcessingTransaction) return;
+        setIsProcessingTransaction(true);
+        const toastId = toast.loading(`Socialising the ${token.symbol} deficit...`);
+
         try {
-            // This is a mock implementation
-            // In a real application, you would query an indexer or subgraph
-            // For demo purposes, we'll just use the current user if they have debt
-            if (userData && userData.indebtedness > 50) {
-                setRiskAddresses([{
-                    address: address!,
-                    indebtedness: userData.indebtedness
-                }]);
-            } else {
-                // Mock data for demonstration
-                setRiskAddresses([
-                    {address: '0x1234567890123456789012345678901234567890', indebtedness: 78},
-                    {address: '0x0987654321098765432109876543210987654321', indebtedness: 92}
-                ]);
-            }
-        } catch (error) {
-            console.error("Error fetching risk addresses:", error);
+            const tx = await socializeDeficit(signer, token.address);
+            await tx.wait();
+            toast.success(`The ${token.symbol} deficit was written off; its liquidity providers keep the loss.`, { id: toastId });
+            fetchData();
+            refreshMarkets();
+        } catch (error: any) {
+            console.error(error);
+            toast.error(decodePoolError(error).message, { id: toastId });
         } finally {
-            setIsLoadingRiskAddresses(false);
-        }
-    }, [provider, userData, address]);
-
-    // Fetch risk addresses when liquidation tool is shown
-    useEffect(() => {
-        if (showLiquidationTool) {
-            fetchRiskAddresses();
+            setIsProcessingTransaction(false);
         }
-    }, [showLiquidationTool, fetchRiskAddresses]);
+    };
 
     // If wallet is initializing, show a loading state
     if (isInitializing) {
@@ -367,22 +462,6 @@ export default function AppPage() {
         );
     }
 
-    // If wallet is not connected, show a connection prompt
-    if (!isConnected) {
-        return (
-            <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] text-center">
-                <h1 className="text-4xl font-bold text-white mb-4">Welcome to the Lending Pool</h1>
-                <p className="text-xl text-gray-400 mb-6">Please connect your wallet to manage your assets.</p>
-                <button 
-                    onClick={connectWallet}
-                    className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-lg text-lg font-medium transition-colors"
-                >
-                    Connect Wallet
-                </button>
-            </div>
-        );
-    }
-    
     // If there's a contract error, show the error
     if (contractError) {
         return (
@@ -398,7 +477,7 @@ export default function AppPage() {
     }
 
     // If data is loading, show a loading indicator
-    if (isLoading) {
+    if (isConnected && isLoading) {
         return (
             <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)]">
                 <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500 mb-4"></div>
@@ -409,6 +488,29 @@ export default function AppPage() {
 
     return (
         <div className="px-4 max-w-7xl mx-auto">
+            {/* Read-only mode: markets are live, actions need a wallet */}
+            {!isConnected && (
+                <div className="my-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4 bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
+                    <div>
+                        <h1 className="text-2xl font-bold text-white mb-1">Welcome to the Lending Pool</h1>
+                        <p className="text-gray-400">You are viewing live market data. Connect your wallet to supply or borrow.</p>
+                    </div>
+                    <button 
+                        onClick={connectWallet}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-lg text-lg font-medium transition-colors"
+                    >
+                        Connect Wallet
+                    </button>
+                </div>
+            )}
+
+            {/* Without a position to show, say so rather than leaving the dashboard out */}
+            {isConnected && !userData && userDataError && (
+                <div className="my-8 bg-red-900/30 p-6 rounded-xl border border-red-700 text-red-300">
+                    {userDataError}
+                </div>
+            )}
+
             {userData && (
                 <div className="my-8">
                     <UserDashboard userData={userData} isLoading={isLoading} />
@@ -423,8 +525,9 @@ export default function AppPage() {
                         <thead>
                             <tr className="border-b border-gray-700">
                                 <th className="text-left p-4 text-gray-400">Asset</th>
+                                <th className="text-right p-4 text-gray-400">Price</th>
+                                <th className="text-right p-4 text-gray-400">Collateral Weight</th>
                                 <th className="text-right p-4 text-gray-400">Wallet Balance</th>
-                                <th className="text-right p-4 text-gray-400">APY</th>
                                 <th className="text-right p-4 text-gray-400">Total Supplied</th>
                                 <th className="text-right p-4 text-gray-400"></th>
                             </tr>
@@ -434,6 +537,7 @@ export default function AppPage() {
                                 const walletBalance = userData && userData.walletBalances[token.address] 
                                     ? ethers.utils.formatUnits(userData.walletBalances[token.address], token.decimals)
                                     : '0';
+                                const market = marketsByAddress[token.address.toLowerCase()];
 
                                 return (
                                     <tr key={token.address} className="border-b border-gray-800 hover:bg-gray-800/50 transition-colors">
@@ -446,24 +550,36 @@ export default function AppPage() {
                                                 </div>
                                             </div>
                                         </td>
-                                        <td className="p-4 text-right text-white">{parseFloat(walletBalance).toFixed(4)}</td>
-                                        <td className="p-4 text-right text-green-400">3.5%</td>
+                                        {renderPriceCell(market)}
+                                        <td className="p-4 text-right text-white">{market ? `${market.weight}%` : '-'}</td>
+                                        <td className="p-4 text-right text-white">{isConnected ? parseFloat(walletBalance).toFixed(4) : '-'}</td>
                                         <td className="p-4 text-right text-white">{token.supplied || '0.00'}</td>
                                         <td className="p-4 text-right">
                                             <div className="flex justify-end space-x-2">
-                                                <button 
-                                                    onClick={() => openModal(token, 'supply')}
-                                                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1 rounded-md transition-colors"
-                                                >
-                                                    Supply
-                                                </button>
-                                                {token.supplied && parseFloat(token.supplied) > 0 && (
+                                                {!isConnected ? (
                                                     <button 
-                                                        onClick={() => openModal(token, 'withdraw')}
+                                                        onClick={connectWallet}
                                                         className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded-md transition-colors"
                                                     >
-                                                        Withdraw
+                                                        Connect to Supply
                                                     </button>
+                                                ) : (
+                                                    <>
+                                                        <button 
+                                                            onClick={() => openModal(token, 'supply')}
+                                                            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1 rounded-md transition-colors"
+                                                        >
+                                                            Supply
+                                                        </button>
+                                                        {token.supplied && parseFloat(token.supplied) > 0 && (
+                                                            <button 
+                                                                onClick={() => openModal(token, 'withdraw')}
+                                                                className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded-md transition-colors"
+                                                            >
+                                                                Withdraw
+                                                            </button>
+                                                        )}
+                                                    </>
                                                 )}
                                             </div>
                                         </td>
@@ -483,6 +599,7 @@ export default function AppPage() {
                         <thead>
                             <tr className="border-b border-gray-700">
                                 <th className="text-left p-4 text-gray-400">Asset</th>
+                                <th className="text-right p-4 text-gray-400">Price</th>
                                 <th className="text-right p-4 text-gray-400">Available</th>
                                 <th className="text-right p-4 text-gray-400">APY</th>
                                 <th className="text-right p-4 text-gray-400">Total Borrowed</th>
@@ -491,8 +608,9 @@ export default function AppPage() {
                         </thead>
                         <tbody>
                             {marketData.map(token => {
-                                const available = userData && userData.reserves && userData.reserves[token.address]
-                                    ? ethers.utils.formatUnits(userData.reserves[token.address], token.decimals)
+                                const market = marketsByAddress[token.address.toLowerCase()];
+                                const available = market
+                                    ? ethers.utils.formatUnits(market.reserves, token.decimals)
                                     : '0';
                                 
                                 return (
@@ -506,25 +624,37 @@ export default function AppPage() {
                                                 </div>
                                             </div>
                                         </td>
+                                        {renderPriceCell(market)}
                                         <td className="p-4 text-right text-white">{parseFloat(available).toFixed(4)}</td>
-                                        <td className="p-4 text-right text-red-400">5.2%</td>
+                                        <td className="p-4 text-right text-red-400">{formatAPY(token, 'borrow')}</td>
                                         <td className="p-4 text-right text-white">{token.borrowed || '0.00'}</td>
                                         <td className="p-4 text-right">
                                             <div className="flex justify-end space-x-2">
-                                                <button 
-                                                    onClick={() => openModal(token, 'borrow')}
-                                                    disabled={parseFloat(available) <= 0}
-                                                    className={`${parseFloat(available) > 0 ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-600 cursor-not-allowed'} text-white px-4 py-1 rounded-md transition-colors`}
-                                                >
-                                                    Borrow
-                                                </button>
-                                                {token.borrowed && parseFloat(token.borrowed) > 0 && (
+                                                {!isConnected ? (
                                                     <button 
-                                                        onClick={() => openModal(token, 'repay')}
+                                                        onClick={connectWallet}
                                                         className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded-md transition-colors"
                                                     >
-                                                        Repay
+                                                        Connect to Borrow
                                                     </button>
+                                                ) : (
+                                                    <>
+                                                        <button 
+                                                            onClick={() => openModal(token, 'borrow')}
+                                                            disabled={parseFloat(available) <= 0}
+                                                            className={`${parseFloat(available) > 0 ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-600 cursor-not-allowed'} text-white px-4 py-1 rounded-md transition-colors`}
+                                                        >
+                                                            Borrow
+                                                        </button>
+                                                        {token.borrowed && parseFloat(token.borrowed) > 0 && (
+                                                            <button 
+                                                                onClick={() => openModal(token, 'repay')}
+                                                                className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded-md transition-colors"
+                                                            >
+                                                                Repay
+                                                            </button>
+                                                        )}
+                                                    </>
                                                 )}
                                             </div>
                                         </td>
@@ -536,106 +666,222 @@ export default function AppPage() {
                 </div>
             </div>
 
-            {/* Liquidation Tool for Advanced Users */}
+            {/* Earn: liquidity providers fund the reserves borrowers draw on and earn their interest */}
             <div className="my-12">
-                <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-2xl font-bold text-white">Advanced Tools</h2>
-                    <button 
-                        onClick={() => setShowLiquidationTool(!showLiquidationTool)}
-                        className="text-sm bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-md transition-colors"
-                    >
-                        {showLiquidationTool ? 'Hide Liquidation Tool' : 'Show Liquidation Tool'}
-                    </button>
+                <h2 className="text-2xl font-bold text-white mb-2">Earn</h2>
+                <p className="text-gray-400 mb-6">
+                    Provide liquidity for borrowers and earn the interest they pay. Liquidity is not collateral,
+                    and only the part that isn&apos;t lent out can be redeemed at any moment.
+                </p>
+                <div className="overflow-x-auto">
+                    <table className="w-full bg-gray-900/50 backdrop-blur-sm rounded-xl border border-gray-700">
+                        <thead>
+                            <tr className="border-b border-gray-700">
+                                <th className="text-left p-4 text-gray-400">Asset</th>
+                                <th className="text-right p-4 text-gray-400">Total Liquidity</th>
+                                <th className="text-right p-4 text-gray-400">Utilization</th>
+                                <th className="text-right p-4 text-gray-400">Supply APY</th>
+                                <th className="text-right p-4 text-gray-400">Your Liquidity</th>
+                                <th className="text-right p-4 text-gray-400"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {marketData.map(token => {
+                                const market = marketsByAddress[token.address.toLowerCase()];
+                                const liquidity = market ? ethers.utils.formatUnits(market.liquidity, token.decimals) : '0';
+                                // The contract's getUtilization: borrows over borrows plus reserves
+                                const lent = market ? market.totalBorrows.add(market.reserves) : null;
+                                const utilization = market && lent && !lent.isZero()
+                                    ? `${(market.totalBorrows.mul(10000).div(lent).toNumber() / 100).toFixed(2)}%`
+                                    : '-';
+                                const provided = userData && userData.lpBalances[token.address]
+                                    ? ethers.utils.formatUnits(userData.lpBalances[token.address], token.decimals)
+                                    : '0';
+
+                                return (
+                                    <tr key={token.address} className="border-b border-gray-800 hover:bg-gray-800/50 transition-colors">
+                                        <td className="p-4">
+                                            <div className="flex items-center">
+                                                <img src={token.logo} alt={token.name} className="w-8 h-8 mr-3" />
+                                                <div>
+                                                    <p className="text-white font-medium">{token.symbol}</p>
+                                                    <p className="text-gray-400 text-sm">{token.name}</p>
+                                                </div>
+                                            </div>
+                                        </td>
+                                        <td className="p-4 text-right text-white">{parseFloat(liquidity).toFixed(4)}</td>
+                                        <td className="p-4 text-right text-white">{utilization}</td>
+                                        <td className="p-4 text-right text-green-400">{formatAPY(token, 'supply')}</td>
+                                        <td className="p-4 text-right text-white">{isConnected ? parseFloat(provided).toFixed(4) : '-'}</td>
+                                        <td className="p-4 text-right">
+                                            <div className="flex justify-end space-x-2">
+                                                {!isConnected ? (
+                                                    <button 
+                                                        onClick={connectWallet}
+                                                        className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded-md transition-colors"
+                                                    >
+                                                        Connect to Earn
+                                                    </button>
+                                                ) : (
+                                                    <>
+                                                        <button 
+                                                            onClick={() => openModal(token, 'provide')}
+                                                            className="bg-green-600 hover:bg-green-700 text-white px-4 py-1 rounded-md transition-colors"
+                                                        >
+                                                            Provide
+                                                        </button>
+                                                        {parseFloat(provided) > 0 && (
+                                                            <button 
+                                                                onClick={() => openModal(token, 'redeem')}
+                                                                className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded-md transition-colors"
+                                                            >
+                                                                Redeem
+                                                            </button>
+                                                        )}
+                                                    </>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
                 </div>
+            </div>
+
+            {/* Liquidation Tool for Advanced Users */}
+            {isConnected && (
+                <div className="my-12">
+                    <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-white">Advanced Tools</h2>
+                        <button 
+                            onClick={() => setShowLiquidationTool(!showLiquidationTool)}
+                            className="text-sm bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-md transition-colors"
+                        >
+                            {showLiquidationTool ? 'Hide Liquidation Tool' : 'Show Liquidation Tool'}
+                        </button>
+                    </div>
                 
-                {showLiquidationTool && (
-                    <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
-                        <h3 className="text-xl font-bold text-white mb-4">Liquidation Tool</h3>
-                        <p className="text-gray-400 mb-6">
-                            This tool allows you to liquidate undercollateralized positions. 
-                            You will receive the collateral of the liquidated position.
-                        </p>
+                    {showLiquidationTool && (
+                        <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
+                            <h3 className="text-xl font-bold text-white mb-4">Liquidation Tool</h3>
+                            <p className="text-gray-400 mb-6">
+                                This tool allows you to liquidate undercollateralized positions. 
+                                Repay part of one of the account&apos;s debts and receive that value plus a bonus in a collateral token of your choice.
+                            </p>
                         
-                        <div className="flex flex-col md:flex-row gap-4 mb-8">
-                            <input 
-                                type="text" 
-                                placeholder="Address to liquidate (0x...)" 
-                                value={liquidationAddress}
-                                onChange={(e) => setLiquidationAddress(e.target.value)}
-                                className="flex-grow bg-gray-800 text-white border border-gray-700 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            <LiquidationForm
+                                provider={provider}
+                                address={liquidationAddress}
+                                onAddressChange={(value) => {
+                                    setLiquidationAddress(value);
+                                    setSuggestedLiquidation(null);
+                                }}
+                                suggestedLiquidation={suggestedLiquidation}
+                                onSubmit={handleLiquidation}
+                                isProcessing={liquidationInProgress}
+                                refreshKey={liquidationCount}
                             />
-                            <button 
-                                onClick={handleLiquidation}
-                                disabled={liquidationInProgress || !liquidationAddress}
-                                className={`${liquidationInProgress || !liquidationAddress ? 'bg-gray-600 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700'} text-white px-6 py-2 rounded-md transition-colors`}
-                            >
-                                {liquidationInProgress ? 'Processing...' : 'Liquidate Position'}
-                            </button>
-                        </div>
                         
-                        <div>
-                            <h4 className="text-lg font-semibold text-white mb-3">Accounts at Risk</h4>
+                            <div>
+                                <h4 className="text-lg font-semibold text-white mb-3">Accounts at Risk</h4>
                             
-                            {isLoadingRiskAddresses ? (
-                                <div className="flex items-center justify-center py-4">
-                                    <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
-                                    <span className="ml-2 text-gray-400">Loading accounts at risk...</span>
-                                </div>
-                            ) : riskAddresses.length > 0 ? (
-                                <div className="overflow-x-auto">
-                                    <table className="w-full">
-                                        <thead>
-                                            <tr className="border-b border-gray-700">
-                                                <th className="text-left p-2 text-gray-400">Address</th>
-                                                <th className="text-right p-2 text-gray-400">Health</th>
-                                                <th className="text-right p-2 text-gray-400">Action</th>
-                                            </tr>
-                                        </thead>
-                                        <tbody>
-                                            {riskAddresses.map((item) => (
-                                                <tr key={item.address} className="border-b border-gray-800">
-                                                    <td className="p-2 text-white">
-                                                        {item.address.substring(0, 6)}...{item.address.substring(38)}
-                                                    </td>
-                                                    <td className="p-2 text-right">
-                                                        <span className={`px-2 py-1 rounded text-xs ${
-                                                            item.indebtedness > 90 ? 'bg-red-900/50 text-red-300' : 
-                                                            item.indebtedness > 70 ? 'bg-yellow-900/50 text-yellow-300' : 
-                                                            'bg-green-900/50 text-green-300'
-                                                        }`}>
-                                                            {item.indebtedness}%
-                                                        </span>
-                                                    </td>
-                                                    <td className="p-2 text-right">
-                                                        <button
-                                                            onClick={() => setLiquidationAddress(item.address)}
-                                                            className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded-md text-sm transition-colors"
-                                                        >
-                                                            Select
-                                                        </button>
-                                                    </td>
+                                {isLoadingRiskAccounts ? (
+                                    <div className="flex items-center justify-center py-4">
+                                        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+                                        <span className="ml-2 text-gray-400">Loading accounts at risk...</span>
+                                    </div>
+                                ) : riskAccountsError ? (
+                                    <p className="text-red-400">{riskAccountsError}</p>
+                                ) : riskAccounts.length > 0 ? (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full">
+                                            <thead>
+                                                <tr className="border-b border-gray-700">
+                                                    <th className="text-left p-2 text-gray-400">Address</th>
+                                                    <th className="text-right p-2 text-gray-400">Indebtedness</th>
+                                                    <th className="text-right p-2 text-gray-400">Debt</th>
+                                                    <th className="text-right p-2 text-gray-400">Collateral</th>
+                                                    <th className="text-right p-2 text-gray-400">Est. Profit</th>
+                                                    <th className="text-right p-2 text-gray-400">Action</th>
                                                 </tr>
-                                            ))}
-                                        </tbody>
-                                    </table>
-                                </div>
-                            ) : (
-                                <p className="text-gray-400">No accounts currently at risk of liquidation.</p>
-                            )}
+                                            </thead>
+                                            <tbody>
+                                                {riskAccounts.map((item) => (
+                                                    <tr key={item.address} className="border-b border-gray-800">
+                                                        <td className="p-2 text-white">
+                                                            {item.address.substring(0, 6)}...{item.address.substring(38)}
+                                                        </td>
+                                                        <td className="p-2 text-right">
+                                                            <span className={`px-2 py-1 rounded text-xs ${
+                                                                item.bestLiquidation ? 'bg-red-900/50 text-red-300' : 
+                                                                item.indebtedness > 70 ? 'bg-yellow-900/50 text-yellow-300' : 
+                                                                'bg-green-900/50 text-green-300'
+                                                            }`}>
+                                                                {item.indebtedness}%
+                                                            </span>
+                                                        </td>
+                                                        <td className="p-2 text-right text-white">{formatUSDValue(item.totalDebtUSD)}</td>
+                                                        <td className="p-2 text-right text-white">{formatUSDValue(item.totalCollateralUSD)}</td>
+                                                        <td className="p-2 text-right text-green-400">
+                                                            {item.bestLiquidation ? formatUSDValue(item.bestLiquidation.profitUSD) : '-'}
+                                                        </td>
+                                                        <td className="p-2 text-right">
+                                                            <button
+                                                                onClick={() => {
+                                                                    setLiquidationAddress(item.address);
+                                                                    setSuggestedLiquidation(item.bestLiquidation);
+                                                                }}
+                                                                className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded-md text-sm transition-colors"
+                                                            >
+                                                                Select
+                                                            </button>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                ) : (
+                                    <p className="text-gray-400">No open borrow positions found.</p>
+                                )}
+                            </div>
                         </div>
-                    </div>
-                )}
-            </div>
+                    )}
+
+                    {isPoolOwner && (
+                        <DeficitsPanel
+                            tokens={tokens}
+                            marketsByAddress={marketsByAddress}
+                            onSocialize={handleSocializeDeficit}
+                            isProcessing={isProcessingTransaction}
+                        />
+                    )}
+                </div>
+            )}
 
             {/* Modal */}
             {isModalOpen && selectedToken && modalType && (
-                modalType === 'supply' || modalType === 'withdraw' ?
+                modalType === 'provide' || modalType === 'redeem' ?
+                <LiquidityModal
+                    isOpen={isModalOpen}
+                    onClose={closeModal}
+                    token={selectedToken}
+                    type={modalType}
+                    onSubmit={handleTransaction}
+                    onSimulate={handleSimulate}
+                    userData={userData}
+                    market={marketsByAddress[selectedToken.address.toLowerCase()]}
+                />
+                : modalType === 'supply' || modalType === 'withdraw' ?
                 <SupplyModal
                     isOpen={isModalOpen}
                     onClose={closeModal}
                     token={selectedToken}
                     type={modalType}
                     onSubmit={handleTransaction}
+                    onSimulate={handleSimulate}
                     userData={userData}
                 />
                 :
@@ -645,6 +891,7 @@ export default function AppPage() {
                     token={selectedToken}
                     type={modalType}
                     onSubmit={handleTransaction}
+                    onSimulate={handleSimulate}
                     userData={userData}
                 />
             )}
@@ -3,6 +3,7 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import Navbar from "@/components/Navbar";
 import { WalletProvider } from "@/contexts/WalletContext";
+import { TokenProvider } from "@/contexts/TokenContext";
 import { Toaster } from 'react-hot-toast';
 
 const inter = Inter({ subsets: ["latin"] });
@@ -25,20 +26,22 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <WalletProvider>
-          <Toaster
-            position="top-center"
-            reverseOrder={false}
-            toastOptions={{
-              className: '',
-              style: {
-                background: '#1f2937',
-                color: '#fff',
-                border: '1px solid #4b5563',
-              },
-            }}
-          />
-          <Navbar />
-          <main className="pt-20">{children}</main>
+          <TokenProvider>
+            <Toaster
+              position="top-center"
+              reverseOrder={false}
+              toastOptions={{
+                className: '',
+                style: {
+                  background: '#1f2937',
+                  color: '#fff',
+                  border: '1px solid #4b5563',
+                },
+              }}
+            />
+            <Navbar />
+            <main className="pt-20">{children}</main>
+          </TokenProvider>
         </WalletProvider>
       </body>
     </html>
@@ -1,20 +1,31 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useWalletContext } from '@/contexts/WalletContext';
-import { TOKENS, Token } from '@/constants/tokens';
+import { useTokenRegistry } from '@/contexts/TokenContext';
 import { getUserData, IUserData, verifyContractExists, SUPPORTED_CHAIN_IDS } from '@/lib/contract';
+import { toUSD } from '@/lib/risk';
+import { positionTokensOf } from '@/lib/liveUpdates';
 import { ethers } from 'ethers';
 import { toast } from 'react-hot-toast';
 import UserDashboard from '@/components/UserDashboard';
+import ActivityHistory from '@/components/ActivityHistory';
+import { useActivity } from '@/hooks/useActivity';
+import { usePoolUpdates, PoolUpdate } from '@/hooks/usePoolUpdates';
 
 // Profile page to display a detailed view of the user's assets
 export default function ProfilePage() {
     const { isConnected, provider, address, chainId, isInitializing, connectWallet } = useWalletContext();
+    const { tokens } = useTokenRegistry();
     const [userData, setUserData] = useState<IUserData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [contractError, setContractError] = useState<string | null>(null);
-    const [dataFetchInProgress, setDataFetchInProgress] = useState(false);
+    // Id of the latest fetch: only its result is shown, so a slow earlier response can't overwrite
+    // a newer one
+    const fetchIdRef = useRef(0);
+    const fetchInProgressRef = useRef(false);
+    const refreshQueuedRef = useRef(false);
+    const activity = useActivity(isConnected ? address : null, chainId);
 
     // Function to check if the contract is deployed
     const checkContractDeployment = useCallback(async () => {
@@ -46,56 +57,64 @@ export default function ProfilePage() {
         }
     }, [provider, chainId]);
 
-    const fetchData = useCallback(async () => {
+    // Background refreshes (from new blocks) keep showing the current data instead of the loading screen
+    const fetchData = useCallback(async (background: boolean = false) => {
         console.log('[ProfilePage] fetchData triggered.');
         
-        // Only fetch if we have required wallet state
-        if (!isConnected || !provider || !address) {
-            console.log('[ProfilePage] fetchData aborted: wallet not ready.');
+        // Only fetch if we have required wallet state and the token registry has loaded
+        if (!isConnected || !provider || !address || tokens.length === 0) {
+            console.log('[ProfilePage] fetchData aborted: wallet or token list not ready.');
             setIsLoading(false);
             return;
         }
         
         console.log(`[ProfilePage] State before fetching: isConnected=${isConnected}, chainId=${chainId}`);
         
-        // Prevent multiple simultaneous fetches
-        if (dataFetchInProgress) {
-            console.log('[ProfilePage] A data fetch is already in progress, skipping.');
+        // Block refreshes arriving mid-fetch run once it's done rather than alongside it
+        if (background && fetchInProgressRef.current) {
+            console.log('[ProfilePage] A data fetch is already in progress, queueing a refresh.');
+            refreshQueuedRef.current = true;
             return;
         }
         
-        setDataFetchInProgress(true);
-        setIsLoading(true);
-        
-        // Check if contract is deployed first
-        const contractValid = await checkContractDeployment();
-        if (!contractValid) {
-            setIsLoading(false);
-            setDataFetchInProgress(false);
-            return;
-        }
+        const fetchId = ++fetchIdRef.current;
+        fetchInProgressRef.current = true;
+        if (!background) setIsLoading(true);
         
         try {
+            // Check if contract is deployed first; block refreshes rely on the fetch that loaded the data
+            if (!background && !(await checkContractDeployment())) return;
+
             console.log('[ProfilePage] Starting data fetch...');
             console.log('[ProfilePage] Provider ready:', !!provider);
             console.log('[ProfilePage] Address:', address);
             
-            const data = await getUserData(provider, address);
-            setUserData(data);
+            do {
+                refreshQueuedRef.current = false;
+                const data = await getUserData(provider, address, tokens);
+                // A fetch started since (another account or chain) supersedes this one
+                if (fetchId !== fetchIdRef.current) return;
+                setUserData(data);
+            } while (refreshQueuedRef.current);
             
             console.log('[ProfilePage] Data fetch completed successfully');
         } catch (error) {
+            if (fetchId !== fetchIdRef.current) return;
             console.error("[ProfilePage] Error fetching user data:", error);
             toast.error("Could not fetch your data from the network.");
         } finally {
-            setIsLoading(false);
-            setDataFetchInProgress(false);
+            if (fetchId === fetchIdRef.current) {
+                setIsLoading(false);
+                fetchInProgressRef.current = false;
+            }
         }
-    }, [provider, address, isConnected, chainId]); // Simplified dependencies
+    }, [provider, address, isConnected, chainId, tokens]); // Simplified dependencies
 
     useEffect(() => {
-        // Clear data if wallet disconnected
+        // Clear data if wallet disconnected, dropping any fetch still in flight for the old account
         if (!isConnected || !address) {
+            fetchIdRef.current += 1;
+            fetchInProgressRef.current = false;
             setUserData(null);
             setIsLoading(false);
             return;
@@ -108,23 +127,22 @@ export default function ProfilePage() {
 
         // Debounce data fetching to prevent excessive calls
         const fetchTimeout = setTimeout(() => {
-            if (isConnected && provider && address && !dataFetchInProgress) {
+            if (isConnected && provider && address) {
                 fetchData();
             }
         }, 1000); // 1 second debounce
 
-        // Set up interval to refresh data every 60 seconds
-        const intervalId = setInterval(() => {
-            if (isConnected && provider && address && !dataFetchInProgress) {
-                fetchData();
-            }
-        }, 60000);
-        
         return () => {
             clearTimeout(fetchTimeout);
-            clearInterval(intervalId);
         };
-    }, [isConnected, provider, address, isInitializing]); // Simplified dependencies
+    }, [isConnected, provider, address, isInitializing, tokens]); // Simplified dependencies
+
+    // After that, new blocks refresh the position and history when their events or price moves touch them
+    const positionTokens = useMemo(() => (userData ? positionTokensOf(userData) : []), [userData]);
+    usePoolUpdates(isConnected ? provider : null, tokens, address, positionTokens, ({ slices, blockNumber }: PoolUpdate) => {
+        if (slices.includes('account') && !isInitializing) fetchData(true);
+        if (slices.includes('activity')) activity.refresh(blockNumber);
+    });
 
     // If wallet is initializing, show a loading state
     if (isInitializing) {
@@ -197,11 +215,11 @@ export default function ProfilePage() {
                                 </tr>
                             </thead>
                             <tbody>
-                                {TOKENS.map(token => {
+                                {tokens.map(token => {
                                     const amount = assets[token.address];
                                     if (!amount || amount.isZero()) return null;
                                     const price = userData.prices[token.address] || ethers.BigNumber.from(0);
-                                    const value = amount.mul(price).div(ethers.utils.parseEther('1'));
+                                    const value = toUSD(amount, price, token.decimals);
 
                                     return (
                                         <tr key={token.address} className="border-b border-gray-800">
@@ -232,6 +250,16 @@ export default function ProfilePage() {
                 {renderAssetTable("Supplied Assets", userData.collateral)}
                 {renderAssetTable("Borrowed Assets", userData.debt)}
             </div>
+
+            {address && chainId && (
+                <ActivityHistory
+                    address={address}
+                    chainId={chainId}
+                    events={activity.events}
+                    isLoading={activity.isLoading}
+                    error={activity.error}
+                />
+            )}
         </div>
     );
 }
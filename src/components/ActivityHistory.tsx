@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { ethers } from 'ethers';
+import { useTokenRegistry } from '@/contexts/TokenContext';
+import type { IndexedEvent } from '@/lib/indexer/store';
+import {
+    ACTIVITY_TYPES,
+    ActivityFilter,
+    filterActivity,
+    toActivityCSV,
+    toActivityEntries,
+    toActivityRecords,
+} from '@/lib/activity';
+
+interface ActivityHistoryProps {
+    address: string;
+    chainId: number;
+    // The account's indexed events, newest first
+    events: IndexedEvent[];
+    isLoading: boolean;
+    error: string | null;
+}
+
+const TYPE_LABELS: { [type: string]: string } = {
+    deposit: 'Deposit',
+    withdraw: 'Withdrawal',
+    borrow: 'Borrow',
+    repay: 'Repay',
+    liquidation: 'Liquidation',
+};
+
+const download = (contents: string, type: string, filename: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Some browsers start the download after click() returns; revoking now would cancel it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// The account's deposits, withdrawals, borrows, repayments and liquidations with their value at
+// the time, filterable by token and type and exportable for accounting
+const ActivityHistory: React.FC<ActivityHistoryProps> = ({ address, chainId, events, isLoading, error }) => {
+    const { tokens, getToken } = useTokenRegistry();
+    const [filter, setFilter] = useState<ActivityFilter>({ token: 'all', type: 'all' });
+
+    const entries = useMemo(() => toActivityEntries(events, address, tokens), [events, address, tokens]);
+    const shown = useMemo(() => filterActivity(entries, filter), [entries, filter]);
+
+    // Exports what the filters show
+    const handleExport = (format: 'csv' | 'json') => {
+        const records = toActivityRecords(shown, tokens);
+        const filename = `activity-${address.slice(0, 8)}-${chainId}.${format}`;
+        if (format === 'csv') {
+            download(toActivityCSV(records), 'text/csv', filename);
+        } else {
+            download(JSON.stringify(records, null, 2), 'application/json', filename);
+        }
+    };
+
+    const selectClass = 'bg-gray-800 text-white border border-gray-700 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+    const exportClass = `${shown.length > 0 ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-800 text-gray-500 cursor-not-allowed'} text-white px-3 py-2 rounded-md text-sm transition-colors`;
+
+    return (
+        <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700 mt-8">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+                <h3 className="text-2xl font-bold text-white">Activity</h3>
+                <div className="flex flex-wrap gap-2">
+                    <select
+                        aria-label="Filter by token"
+                        value={filter.token}
+                        onChange={(e) => setFilter({ ...filter, token: e.target.value })}
+                        className={selectClass}
+                    >
+                        <option value="all">All tokens</option>
+                        {tokens.map((token) => (
+                            <option key={token.address} value={token.address}>{token.symbol}</option>
+                        ))}
+                    </select>
+                    <select
+                        aria-label="Filter by type"
+                        value={filter.type}
+                        onChange={(e) => setFilter({ ...filter, type: e.target.value as ActivityFilter['type'] })}
+                        className={selectClass}
+                    >
+                        <option value="all">All types</option>
+                        {ACTIVITY_TYPES.map((type) => (
+                            <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                        ))}
+                    </select>
+                    <button onClick={() => handleExport('csv')} disabled={shown.length === 0} className={exportClass}>Export CSV</button>
+                    <button onClick={() => handleExport('json')} disabled={shown.length === 0} className={exportClass}>Export JSON</button>
+                </div>
+            </div>
+
+            {error ? (
+                <p className="text-red-400">{error}</p>
+            ) : isLoading && entries.length === 0 ? (
+                <p className="text-gray-400">Loading your activity...</p>
+            ) : shown.length === 0 ? (
+                <p className="text-gray-400">{entries.length === 0 ? 'No activity yet.' : 'No activity matches these filters.'}</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="border-b border-gray-700">
+                                <th className="p-3 text-gray-400">Time</th>
+                                <th className="p-3 text-gray-400">Type</th>
+                                <th className="p-3 text-gray-400">Asset</th>
+                                <th className="p-3 text-gray-400 text-right">Amount</th>
+                                <th className="p-3 text-gray-400 text-right">Value (USD)</th>
+                                <th className="p-3 text-gray-400">Transaction</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {shown.map((entry) => {
+                                const token = getToken(entry.token);
+                                return (
+                                    <tr key={entry.id} className="border-b border-gray-800">
+                                        <td className="p-3 text-white whitespace-nowrap">{new Date(entry.timestamp * 1000).toLocaleString()}</td>
+                                        <td className="p-3">
+                                            <span className="text-white">{TYPE_LABELS[entry.type]}</span>
+                                            {entry.type === 'liquidation' && (
+                                                <span className="block text-xs text-gray-400">{entry.description}</span>
+                                            )}
+                                        </td>
+                                        <td className="p-3 text-white">{token?.symbol ?? `${entry.token.slice(0, 8)}…`}</td>
+                                        <td className="p-3 text-right text-white">
+                                            {parseFloat(ethers.utils.formatUnits(entry.amount, token?.decimals ?? 18)).toFixed(4)}
+                                        </td>
+                                        <td className="p-3 text-right text-white">
+                                            {entry.valueUSD ? `$${parseFloat(ethers.utils.formatEther(entry.valueUSD)).toFixed(2)}` : '-'}
+                                        </td>
+                                        <td className="p-3 font-mono text-sm text-gray-300" title={entry.transactionHash}>
+                                            {`${entry.transactionHash.slice(0, 10)}…${entry.transactionHash.slice(-6)}`}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ActivityHistory;
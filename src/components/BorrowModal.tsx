@@ -1,7 +1,13 @@
 import React, { useState, useMemo } from 'react';
-import { ethers } from 'ethers';
+import { ethers, BigNumber } from 'ethers';
 import { Token } from '@/constants/tokens';
 import { IUserData } from '@/lib/contract';
+import { poolErrorForCode } from '@/lib/poolErrors';
+import { toRiskPosition, previewAction, getMaxBorrow, getHealthFactor, formatHealthFactor, getRiskLevel } from '@/lib/risk';
+import { useTokenRegistry } from '@/contexts/TokenContext';
+import { useRiskParams } from '@/hooks/useRiskParams';
+import { useTransactionPreflight, SimulateTransaction } from '@/hooks/useTransactionPreflight';
+import PositionPreview from './PositionPreview';
 
 interface BorrowModalProps {
     isOpen: boolean;
@@ -9,38 +15,61 @@ interface BorrowModalProps {
     token: Token;
     type: 'borrow' | 'repay';
     onSubmit: (amount: string, token: Token, type: 'borrow' | 'repay') => void;
+    // Dry-runs the action so reverts are caught before the wallet opens
+    onSimulate?: SimulateTransaction<'borrow' | 'repay'>;
     userData: IUserData | null;
 }
 
-const BorrowModal: React.FC<BorrowModalProps> = ({ isOpen, onClose, token, type, onSubmit, userData }) => {
+const BorrowModal: React.FC<BorrowModalProps> = ({ isOpen, onClose, token, type, onSubmit, onSimulate, userData }) => {
     const [amount, setAmount] = useState('');
+    const { error: preflightError, isChecking } = useTransactionPreflight(amount, token, type, onSimulate);
 
+    const { tokens } = useTokenRegistry();
+    const riskParams = useRiskParams();
+
+    // Exactly what `borrow` would accept: the borrow limit and the pool's reserve
     const maxBorrowable = useMemo(() => {
-        if (!userData) return '0';
-        const capacityUSD = parseFloat(ethers.utils.formatEther(userData.borrowCapacity));
-        const debtUSD = parseFloat(ethers.utils.formatEther(userData.totalDebtUSD));
-        const tokenPrice = parseFloat(ethers.utils.formatEther(userData.prices[token.address] || '0'));
-        if(tokenPrice === 0) return '0';
-        
-        const availableBorrowUSD = (capacityUSD * 0.8) - debtUSD;
-        return (availableBorrowUSD / tokenPrice).toFixed(6);
-    }, [userData, token]);
+        if (!userData || !riskParams) return '0';
+        const position = toRiskPosition(userData, tokens);
+        const reserve = userData.reserves[token.address] || BigNumber.from(0);
+        return ethers.utils.formatUnits(getMaxBorrow(position, token.address, reserve, riskParams), token.decimals);
+    }, [userData, token, tokens, riskParams]);
 
     const borrowedAmount = useMemo(() => {
         if (!userData || !userData.debt[token.address]) return '0';
         return ethers.utils.formatUnits(userData.debt[token.address], token.decimals);
     }, [userData, token]);
 
+    // Projected position for the entered amount, using the same math the contract runs
+    const preview = useMemo(() => {
+        if (!userData || !riskParams || !amount) return null;
+        let amountWei: BigNumber;
+        try {
+            amountWei = ethers.utils.parseUnits(amount, token.decimals);
+        } catch (e) {
+            return null;
+        }
+        if (amountWei.lte(0)) return null;
+        const reserve = userData.reserves[token.address] || BigNumber.from(0);
+        return previewAction(toRiskPosition(userData, tokens), type, token.address, amountWei, reserve, riskParams);
+    }, [userData, riskParams, amount, token, tokens, type]);
+
+    // Local checks catch "Exceeds LTV" / "Exceeds limit" instantly; the simulation covers the rest
+    const blockingError = preview?.error ? poolErrorForCode(preview.error) : preflightError;
+
     if (!isOpen) return null;
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        if (blockingError || isChecking) return;
         onSubmit(amount, token, type);
     };
 
     const title = type === 'borrow' ? `Borrow ${token.symbol}` : `Repay ${token.symbol}`;
     const buttonText = type === 'borrow' ? 'Borrow' : 'Repay';
     const maxAmount = type === 'borrow' ? maxBorrowable : borrowedAmount;
+    const indebtedness = BigNumber.from(userData ? userData.indebtedness : 0);
+    const riskLevel = riskParams ? getRiskLevel(indebtedness, riskParams) : 'safe';
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50">
@@ -70,15 +99,29 @@ const BorrowModal: React.FC<BorrowModalProps> = ({ isOpen, onClose, token, type,
                         </div>
                     </div>
                     
-                    {/* Display user stats */}
-                    <div className="space-y-2 text-sm mb-6">
-                        <div className="flex justify-between"><span className="text-gray-400">Borrow Capacity</span> <span className="text-white">${userData ? parseFloat(ethers.utils.formatEther(userData.borrowCapacity)).toFixed(2) : '0.00'}</span></div>
-                        <div className="flex justify-between"><span className="text-gray-400">Total Debt</span> <span className="text-white">${userData ? parseFloat(ethers.utils.formatEther(userData.totalDebtUSD)).toFixed(2) : '0.00'}</span></div>
-                        <div className="flex justify-between"><span className="text-gray-400">Health Factor</span> <span className="text-green-400">{userData ? `${(100 - userData.indebtedness).toFixed(2)}%` : '100.00%'}</span></div>
-                    </div>
+                    {/* Display user stats until an amount is entered, then the projection */}
+                    {!preview && (
+                        <div className="space-y-2 text-sm mb-6">
+                            <div className="flex justify-between"><span className="text-gray-400">Borrow Capacity</span> <span className="text-white">${userData ? parseFloat(ethers.utils.formatEther(userData.borrowCapacity)).toFixed(2) : '0.00'}</span></div>
+                            <div className="flex justify-between"><span className="text-gray-400">Total Debt</span> <span className="text-white">${userData ? parseFloat(ethers.utils.formatEther(userData.totalDebtUSD)).toFixed(2) : '0.00'}</span></div>
+                            <div className="flex justify-between"><span className="text-gray-400">Health Factor</span> <span className={riskLevel === 'danger' ? 'text-red-400' : riskLevel === 'warning' ? 'text-yellow-400' : 'text-green-400'}>{riskParams ? formatHealthFactor(getHealthFactor(indebtedness, riskParams)) : '-'}</span></div>
+                        </div>
+                    )}
+
+                    {preview && <PositionPreview preview={preview} />}
+
+                    {blockingError && (
+                        <div className="bg-red-900/40 border border-red-700 rounded-lg p-3 mb-4 text-sm text-red-300">
+                            {blockingError.message}
+                        </div>
+                    )}
 
-                    <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-lg transition-colors">
-                        {buttonText}
+                    <button
+                        type="submit"
+                        disabled={!!blockingError || isChecking}
+                        className={`w-full ${blockingError || isChecking ? 'bg-gray-600 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'} text-white font-bold py-3 rounded-lg transition-colors`}
+                    >
+                        {isChecking ? 'Checking...' : buttonText}
                     </button>
                 </form>
             </div>
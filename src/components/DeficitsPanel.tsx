@@ -0,0 +1,67 @@
+import React from 'react';
+import { ethers, BigNumber } from 'ethers';
+import { Token } from '@/constants/tokens';
+import { IMarketData } from '@/lib/contract';
+
+interface DeficitsPanelProps {
+    tokens: Token[];
+    marketsByAddress: { [address: string]: IMarketData };
+    onSocialize: (token: Token) => void;
+    isProcessing: boolean;
+}
+
+const formatAmount = (amount: BigNumber, token: Token): string =>
+    parseFloat(ethers.utils.formatUnits(amount, token.decimals)).toFixed(4);
+
+// Owner view of bad debt: each token's treasury, and the deficit it hasn't been able to cover.
+// Liquidity providers' shares leave an uncovered deficit out, and get back what the treasury covers
+// of it as interest comes in; socialising one gives up on that and leaves the loss with them.
+const DeficitsPanel: React.FC<DeficitsPanelProps> = ({ tokens, marketsByAddress, onSocialize, isProcessing }) => {
+    return (
+        <div className="bg-gray-900/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700 mt-6">
+            <h3 className="text-xl font-bold text-white mb-4">Protocol Deficits</h3>
+            <p className="text-gray-400 mb-6">
+                Debt left behind by liquidated positions with no collateral remaining. The treasury&apos;s share of
+                interest pays it down; until then it still counts towards the liquidity providers&apos; balances.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full">
+                    <thead>
+                        <tr className="border-b border-gray-700">
+                            <th className="text-left p-2 text-gray-400">Asset</th>
+                            <th className="text-right p-2 text-gray-400">Treasury</th>
+                            <th className="text-right p-2 text-gray-400">Outstanding Deficit</th>
+                            <th className="text-right p-2 text-gray-400">Action</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {tokens.map((token) => {
+                            const market = marketsByAddress[token.address.toLowerCase()];
+                            const hasDeficit = !!market && market.deficit.gt(0);
+                            return (
+                                <tr key={token.address} className="border-b border-gray-800">
+                                    <td className="p-2 text-white">{token.symbol}</td>
+                                    <td className="p-2 text-right text-white">{market ? formatAmount(market.treasury, token) : '-'}</td>
+                                    <td className={`p-2 text-right ${hasDeficit ? 'text-red-400' : 'text-white'}`}>
+                                        {market ? formatAmount(market.deficit, token) : '-'}
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        <button
+                                            onClick={() => onSocialize(token)}
+                                            disabled={!hasDeficit || isProcessing}
+                                            className={`${hasDeficit && !isProcessing ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-600 cursor-not-allowed'} text-white px-3 py-1 rounded-md text-sm transition-colors`}
+                                        >
+                                            Socialise
+                                        </button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default DeficitsPanel;
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ethers, BigNumber } from 'ethers';
+import { Token } from '@/constants/tokens';
+import { IUserData, getUserData, getLiquidationParams } from '@/lib/contract';
+import { poolErrorForCode } from '@/lib/poolErrors';
+import { toRiskPosition, previewLiquidation, getMaxLiquidationRepay, LiquidationParams } from '@/lib/risk';
+import { useTokenRegistry } from '@/contexts/TokenContext';
+import { useRiskParams } from '@/hooks/useRiskParams';
+import { BestLiquidation } from '@/lib/riskAccounts';
+
+interface LiquidationFormProps {
+    provider: ethers.providers.Provider | null;
+    address: string;
+    onAddressChange: (address: string) => void;
+    onSubmit: (user: string, debtToken: Token, amount: string, collateralToken: Token) => void;
+    isProcessing: boolean;
+    // Debt and collateral to preselect, e.g. the most profitable pair found for the account
+    suggestedLiquidation?: BestLiquidation | null;
+    // Bumped by the page after a liquidation so the target's position is read again
+    refreshKey?: number;
+}
+
+const formatUSD = (value: BigNumber): string => `$${parseFloat(ethers.utils.formatEther(value)).toFixed(2)}`;
+
+// Picks which debt to repay and which collateral to seize, previewing the liquidator's profit
+const LiquidationForm: React.FC<LiquidationFormProps> = ({ provider, address, onAddressChange, onSubmit, isProcessing, suggestedLiquidation, refreshKey = 0 }) => {
+    const { tokens } = useTokenRegistry();
+    const riskParams = useRiskParams();
+    const [target, setTarget] = useState<IUserData | null>(null);
+    const [liquidationParams, setLiquidationParams] = useState<LiquidationParams | null>(null);
+    const [debtAddress, setDebtAddress] = useState('');
+    const [collateralAddress, setCollateralAddress] = useState('');
+    const [amount, setAmount] = useState('');
+
+    const isValidAddress = ethers.utils.isAddress(address);
+
+    useEffect(() => {
+        let mounted = true;
+        setTarget(null);
+        if (!provider || !isValidAddress || tokens.length === 0) return;
+
+        Promise.all([getUserData(provider, address, tokens), getLiquidationParams(provider)])
+            .then(([data, params]) => {
+                if (!mounted) return;
+                setTarget(data);
+                setLiquidationParams(params);
+            })
+            .catch((err) => {
+                console.error('[LiquidationForm] Failed to load the position:', err);
+            });
+
+        return () => {
+            mounted = false;
+        };
+    }, [provider, address, isValidAddress, tokens, refreshKey]);
+
+    const debtTokens = useMemo(
+        () => (target ? tokens.filter((t) => target.debt[t.address]?.gt(0)) : []),
+        [target, tokens]
+    );
+    const collateralTokens = useMemo(
+        () => (target ? tokens.filter((t) => target.collateral[t.address]?.gt(0)) : []),
+        [target, tokens]
+    );
+
+    // Default to the suggested pair, or the first debt and collateral, whenever the target changes
+    useEffect(() => {
+        const pick = (candidates: Token[], suggested: string | undefined) =>
+            candidates.find((t) => t.address === suggested)?.address ?? candidates[0]?.address ?? '';
+        setDebtAddress(pick(debtTokens, suggestedLiquidation?.debtToken));
+        setCollateralAddress(pick(collateralTokens, suggestedLiquidation?.collateralToken));
+        setAmount('');
+    }, [debtTokens, collateralTokens, suggestedLiquidation]);
+
+    const debtToken = debtTokens.find((t) => t.address === debtAddress);
+    const collateralToken = collateralTokens.find((t) => t.address === collateralAddress);
+
+    const maxRepay = useMemo(() => {
+        if (!target || !liquidationParams || !debtToken) return '0';
+        const max = getMaxLiquidationRepay(toRiskPosition(target, tokens), debtToken.address, liquidationParams);
+        return ethers.utils.formatUnits(max, debtToken.decimals);
+    }, [target, liquidationParams, debtToken, tokens]);
+
+    // Runs the same checks and shrinking `liquidate` does, so the preview is what would execute
+    const preview = useMemo(() => {
+        if (!target || !riskParams || !liquidationParams || !debtToken || !collateralToken || !amount) return null;
+        let amountWei: BigNumber;
+        try {
+            amountWei = ethers.utils.parseUnits(amount, debtToken.decimals);
+        } catch (e) {
+            return null;
+        }
+        return previewLiquidation(toRiskPosition(target, tokens), debtToken.address, amountWei, collateralToken.address, riskParams, liquidationParams);
+    }, [target, riskParams, liquidationParams, debtToken, collateralToken, amount, tokens]);
+
+    const blockingError = preview?.error ? poolErrorForCode(preview.error) : null;
+    const canSubmit = !!preview && !blockingError && !isProcessing;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit || !debtToken || !collateralToken) return;
+        onSubmit(address, debtToken, amount, collateralToken);
+    };
+
+    const selectClass = 'w-full bg-gray-800 text-white border border-gray-700 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+    return (
+        <form onSubmit={handleSubmit} className="mb-8 space-y-4">
+            <input
+                type="text"
+                placeholder="Address to liquidate (0x...)"
+                value={address}
+                onChange={(e) => onAddressChange(e.target.value)}
+                className="w-full bg-gray-800 text-white border border-gray-700 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            {isValidAddress && target && (debtTokens.length === 0 ? (
+                <p className="text-gray-400">This account has no debt to liquidate.</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label htmlFor="debtToken" className="block text-sm text-gray-400 mb-2">Repay</label>
+                            <select id="debtToken" value={debtAddress} onChange={(e) => setDebtAddress(e.target.value)} className={selectClass}>
+                                {debtTokens.map((t) => (
+                                    <option key={t.address} value={t.address}>
+                                        {t.symbol} ({parseFloat(ethers.utils.formatUnits(target.debt[t.address], t.decimals)).toFixed(4)} owed)
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="collateralToken" className="block text-sm text-gray-400 mb-2">Seize</label>
+                            <select id="collateralToken" value={collateralAddress} onChange={(e) => setCollateralAddress(e.target.value)} className={selectClass}>
+                                {collateralTokens.map((t) => (
+                                    <option key={t.address} value={t.address}>
+                                        {t.symbol} ({parseFloat(ethers.utils.formatUnits(target.collateral[t.address], t.decimals)).toFixed(4)} supplied)
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <div className="flex justify-between items-baseline mb-2">
+                                <label htmlFor="repayAmount" className="text-sm text-gray-400">Amount</label>
+                                <span className="text-xs text-gray-400">Max: {parseFloat(maxRepay).toFixed(4)} {debtToken?.symbol}</span>
+                            </div>
+                            <div className="relative">
+                                <input
+                                    type="number"
+                                    id="repayAmount"
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                    placeholder="0.0"
+                                    className={selectClass}
+                                />
+                                <button type="button" onClick={() => setAmount(maxRepay)} className="absolute right-3 top-1/2 -translate-y-1/2 text-indigo-400 font-bold text-sm">MAX</button>
+                            </div>
+                        </div>
+                    </div>
+
+                    {preview && !blockingError && debtToken && collateralToken && (
+                        <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4 space-y-2 text-sm">
+                            <div className="flex justify-between">
+                                <span className="text-gray-400">You Repay</span>
+                                <span className="text-white">
+                                    {parseFloat(ethers.utils.formatUnits(preview.repayAmount, debtToken.decimals)).toFixed(4)} {debtToken.symbol} ({formatUSD(preview.repayUSD)})
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-gray-400">You Receive</span>
+                                <span className="text-white">
+                                    {parseFloat(ethers.utils.formatUnits(preview.seizeAmount, collateralToken.decimals)).toFixed(4)} {collateralToken.symbol} ({formatUSD(preview.seizeUSD)})
+                                </span>
+                            </div>
+                            {preview.writesOff && (
+                                <>
+                                    {tokens.filter((t) => preview.sweptCollateral[t.address]).map((t) => (
+                                        <div key={t.address} className="flex justify-between">
+                                            <span className="text-gray-400">Plus Leftover</span>
+                                            <span className="text-white">
+                                                {parseFloat(ethers.utils.formatUnits(preview.sweptCollateral[t.address], t.decimals)).toFixed(4)} {t.symbol}
+                                            </span>
+                                        </div>
+                                    ))}
+                                    <p className="text-xs text-yellow-400">
+                                        No borrowing capacity is left after this, so you take the rest of the collateral ({formatUSD(preview.sweptUSD)}) and the remaining debt is written off as bad debt.
+                                    </p>
+                                </>
+                            )}
+                            <div className="flex justify-between">
+                                <span className="text-gray-400">Profit (before gas)</span>
+                                <span className="text-green-400">{formatUSD(preview.profitUSD)}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {blockingError && (
+                        <div className="bg-red-900/40 border border-red-700 rounded-lg p-3 text-sm text-red-300">
+                            {blockingError.message}
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={!canSubmit}
+                        className={`${canSubmit ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-600 cursor-not-allowed'} text-white px-6 py-2 rounded-md transition-colors`}
+                    >
+                        {isProcessing ? 'Processing...' : 'Liquidate Position'}
+                    </button>
+                </>
+            ))}
+        </form>
+    );
+};
+
+export default LiquidationForm;
@@ -0,0 +1,107 @@
+import React, { useState, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { Token } from '@/constants/tokens';
+import { IUserData, IMarketData } from '@/lib/contract';
+import { useTransactionPreflight, SimulateTransaction } from '@/hooks/useTransactionPreflight';
+
+interface LiquidityModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    token: Token;
+    type: 'provide' | 'redeem';
+    onSubmit: (amount: string, token: Token, type: 'provide' | 'redeem') => void;
+    // Dry-runs the action so reverts are caught before the wallet opens
+    onSimulate?: SimulateTransaction<'provide' | 'redeem'>;
+    userData: IUserData | null;
+    market: IMarketData | undefined;
+}
+
+// Liquidity is not collateral, so unlike the supply and borrow modals there is no position to preview
+const LiquidityModal: React.FC<LiquidityModalProps> = ({ isOpen, onClose, token, type, onSubmit, onSimulate, userData, market }) => {
+    const [amount, setAmount] = useState('');
+    const { error: preflightError, isChecking } = useTransactionPreflight(amount, token, type, onSimulate);
+
+    const walletBalance = useMemo(() => {
+        if (!userData || !userData.walletBalances[token.address]) return '0';
+        return ethers.utils.formatUnits(userData.walletBalances[token.address], token.decimals);
+    }, [userData, token]);
+
+    const providedAmount = useMemo(() => {
+        if (!userData || !userData.lpBalances[token.address]) return '0';
+        return ethers.utils.formatUnits(userData.lpBalances[token.address], token.decimals);
+    }, [userData, token]);
+
+    // Only what isn't lent out can be redeemed right now
+    const redeemableAmount = useMemo(() => {
+        if (!userData || !userData.lpBalances[token.address]) return '0';
+        const reserve = userData.reserves[token.address];
+        const balance = userData.lpBalances[token.address];
+        return ethers.utils.formatUnits(reserve && reserve.lt(balance) ? reserve : balance, token.decimals);
+    }, [userData, token]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (preflightError || isChecking) return;
+        onSubmit(amount, token, type);
+    };
+
+    const title = type === 'provide' ? `Provide ${token.symbol} Liquidity` : `Redeem ${token.symbol} Liquidity`;
+    const buttonText = type === 'provide' ? 'Provide' : 'Redeem';
+    const maxAmount = type === 'provide' ? walletBalance : redeemableAmount;
+    const supplyAPY = userData?.supplyAPY[token.address] ?? market?.supplyAPY;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50">
+            <div className="bg-gray-800 rounded-xl p-8 w-full max-w-md border border-gray-700">
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-white">{title}</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white">&times;</button>
+                </div>
+                <form onSubmit={handleSubmit}>
+                    <div className="mb-4">
+                        <div className="flex justify-between items-baseline mb-2">
+                            <label htmlFor="amount" className="text-sm text-gray-400">Amount</label>
+                            <span className="text-xs text-gray-400">
+                                {type === 'provide' ? 'Wallet Balance' : 'Redeemable'}: {parseFloat(maxAmount).toFixed(4)} {token.symbol}
+                            </span>
+                        </div>
+                        <div className="relative">
+                            <input
+                                type="number"
+                                id="amount"
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                placeholder="0.0"
+                                className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                            />
+                            <button type="button" onClick={() => setAmount(maxAmount)} className="absolute right-3 top-1/2 -translate-y-1/2 text-indigo-400 font-bold text-sm">MAX</button>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2 text-sm mb-6">
+                        <div className="flex justify-between"><span className="text-gray-400">Currently Providing</span> <span className="text-white">{parseFloat(providedAmount).toFixed(4)} {token.symbol}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-400">Supply APY</span> <span className="text-green-400">{supplyAPY === undefined ? '-' : `${(supplyAPY * 100).toFixed(2)}%`}</span></div>
+                    </div>
+
+                    {preflightError && (
+                        <div className="bg-red-900/40 border border-red-700 rounded-lg p-3 mb-4 text-sm text-red-300">
+                            {preflightError.message}
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={!!preflightError || isChecking}
+                        className={`w-full ${preflightError || isChecking ? 'bg-gray-600 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'} text-white font-bold py-3 rounded-lg transition-colors`}
+                    >
+                        {isChecking ? 'Checking...' : buttonText}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default LiquidityModal;
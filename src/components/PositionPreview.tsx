@@ -0,0 +1,48 @@
+import React from 'react';
+import { ethers, BigNumber } from 'ethers';
+import { ActionPreview, formatHealthFactor } from '@/lib/risk';
+
+interface PositionPreviewProps {
+    preview: ActionPreview;
+}
+
+const formatUSD = (value: BigNumber): string => `$${parseFloat(ethers.utils.formatEther(value)).toFixed(2)}`;
+
+const PreviewRow = ({ label, before, after, highlight = false }: { label: string, before: string, after: string, highlight?: boolean }) => (
+    <div className="flex justify-between">
+        <span className="text-gray-400">{label}</span>
+        <span className="text-white">
+            {before}
+            {after !== before && (
+                <>
+                    <span className="text-gray-500 mx-1">&rarr;</span>
+                    <span className={highlight ? 'text-red-400' : 'text-indigo-300'}>{after}</span>
+                </>
+            )}
+        </span>
+    </div>
+);
+
+// Current vs projected position for the amount typed into a modal
+const PositionPreview = ({ preview }: PositionPreviewProps) => {
+    const { before, after } = preview;
+    const worsens = after.indebtedness.gt(before.indebtedness);
+
+    // Without borrow capacity the position can't be liquidated, so there's no distance to show
+    const formatDistance = (summary: ActionPreview['after']) => {
+        if (summary.borrowCapacity.isZero()) return '-';
+        return formatUSD(summary.liquidationDistanceUSD);
+    };
+
+    return (
+        <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4 space-y-2 text-sm mb-6">
+            <PreviewRow label="Borrow Capacity" before={formatUSD(before.borrowCapacity)} after={formatUSD(after.borrowCapacity)} />
+            <PreviewRow label="Total Debt" before={formatUSD(before.totalDebtUSD)} after={formatUSD(after.totalDebtUSD)} />
+            <PreviewRow label="Indebtedness" before={`${before.indebtedness.toString()}%`} after={`${after.indebtedness.toString()}%`} highlight={worsens} />
+            <PreviewRow label="Health Factor" before={formatHealthFactor(before.healthFactor)} after={formatHealthFactor(after.healthFactor)} highlight={worsens} />
+            <PreviewRow label="Distance to Liquidation" before={formatDistance(before)} after={formatDistance(after)} highlight={worsens} />
+        </div>
+    );
+};
+
+export default PositionPreview;
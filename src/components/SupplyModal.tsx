@@ -1,7 +1,13 @@
 import React, { useState, useMemo } from 'react';
-import { ethers } from 'ethers';
+import { ethers, BigNumber } from 'ethers';
 import { Token } from '@/constants/tokens';
 import { IUserData } from '@/lib/contract';
+import { poolErrorForCode } from '@/lib/poolErrors';
+import { toRiskPosition, previewAction, getMaxWithdraw, getHealthFactor, formatHealthFactor, getRiskLevel } from '@/lib/risk';
+import { useTokenRegistry } from '@/contexts/TokenContext';
+import { useRiskParams } from '@/hooks/useRiskParams';
+import { useTransactionPreflight, SimulateTransaction } from '@/hooks/useTransactionPreflight';
+import PositionPreview from './PositionPreview';
 
 interface SupplyModalProps {
     isOpen: boolean;
@@ -9,11 +15,14 @@ interface SupplyModalProps {
     token: Token;
     type: 'supply' | 'withdraw';
     onSubmit: (amount: string, token: Token, type: 'supply' | 'withdraw') => void;
+    // Dry-runs the action so reverts are caught before the wallet opens
+    onSimulate?: SimulateTransaction<'supply' | 'withdraw'>;
     userData: IUserData | null;
 }
 
-const SupplyModal: React.FC<SupplyModalProps> = ({ isOpen, onClose, token, type, onSubmit, userData }) => {
+const SupplyModal: React.FC<SupplyModalProps> = ({ isOpen, onClose, token, type, onSubmit, onSimulate, userData }) => {
     const [amount, setAmount] = useState('');
+    const { error: preflightError, isChecking } = useTransactionPreflight(amount, token, type, onSimulate);
 
     const walletBalance = useMemo(() => {
         if (!userData || !userData.walletBalances[token.address]) return '0';
@@ -25,16 +34,46 @@ const SupplyModal: React.FC<SupplyModalProps> = ({ isOpen, onClose, token, type,
         return ethers.utils.formatUnits(userData.collateral[token.address], token.decimals);
     }, [userData, token]);
 
+    const { tokens } = useTokenRegistry();
+    const riskParams = useRiskParams();
+
+    // Exactly what `withdraw` would accept given the outstanding debt (the LTV check)
+    const withdrawableAmount = useMemo(() => {
+        if (!userData || !riskParams) return '0';
+        const position = toRiskPosition(userData, tokens);
+        return ethers.utils.formatUnits(getMaxWithdraw(position, token.address, riskParams), token.decimals);
+    }, [userData, token, tokens, riskParams]);
+
+    // Projected position for the entered amount, using the same math the contract runs
+    const preview = useMemo(() => {
+        if (!userData || !riskParams || !amount) return null;
+        let amountWei: BigNumber;
+        try {
+            amountWei = ethers.utils.parseUnits(amount, token.decimals);
+        } catch (e) {
+            return null;
+        }
+        if (amountWei.lte(0)) return null;
+        const reserve = userData.reserves[token.address] || BigNumber.from(0);
+        return previewAction(toRiskPosition(userData, tokens), type, token.address, amountWei, reserve, riskParams);
+    }, [userData, riskParams, amount, token, tokens, type]);
+
+    // Local checks catch "Exceeds LTV" / "Exceeds limit" instantly; the simulation covers the rest
+    const blockingError = preview?.error ? poolErrorForCode(preview.error) : preflightError;
+
     if (!isOpen) return null;
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        if (blockingError || isChecking) return;
         onSubmit(amount, token, type);
     };
 
     const title = type === 'supply' ? `Supply ${token.symbol}` : `Withdraw ${token.symbol}`;
     const buttonText = type === 'supply' ? 'Supply' : 'Withdraw';
-    const maxAmount = type === 'supply' ? walletBalance : suppliedAmount;
+    const maxAmount = type === 'supply' ? walletBalance : withdrawableAmount;
+    const indebtedness = BigNumber.from(userData ? userData.indebtedness : 0);
+    const riskLevel = riskParams ? getRiskLevel(indebtedness, riskParams) : 'safe';
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50">
@@ -48,7 +87,7 @@ const SupplyModal: React.FC<SupplyModalProps> = ({ isOpen, onClose, token, type,
                         <div className="flex justify-between items-baseline mb-2">
                             <label htmlFor="amount" className="text-sm text-gray-400">Amount</label>
                             <span className="text-xs text-gray-400">
-                                {type === 'supply' ? 'Wallet Balance' : 'Supplied'}: {parseFloat(maxAmount).toFixed(4)} {token.symbol}
+                                {type === 'supply' ? 'Wallet Balance' : 'Withdrawable'}: {parseFloat(maxAmount).toFixed(4)} {token.symbol}
                             </span>
                         </div>
                         <div className="relative">
@@ -66,11 +105,25 @@ const SupplyModal: React.FC<SupplyModalProps> = ({ isOpen, onClose, token, type,
                     
                     <div className="space-y-2 text-sm mb-6">
                          <div className="flex justify-between"><span className="text-gray-400">Currently Supplying</span> <span className="text-white">{parseFloat(suppliedAmount).toFixed(4)} {token.symbol}</span></div>
-                         <div className="flex justify-between"><span className="text-gray-400">Health Factor</span> <span className="text-green-400">{userData ? `${(100 - userData.indebtedness).toFixed(2)}%` : '100.00%'}</span></div>
+                         {!preview && (
+                             <div className="flex justify-between"><span className="text-gray-400">Health Factor</span> <span className={riskLevel === 'danger' ? 'text-red-400' : riskLevel === 'warning' ? 'text-yellow-400' : 'text-green-400'}>{riskParams ? formatHealthFactor(getHealthFactor(indebtedness, riskParams)) : '-'}</span></div>
+                         )}
                     </div>
 
-                    <button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 rounded-lg transition-colors">
-                        {buttonText}
+                    {preview && <PositionPreview preview={preview} />}
+
+                    {blockingError && (
+                        <div className="bg-red-900/40 border border-red-700 rounded-lg p-3 mb-4 text-sm text-red-300">
+                            {blockingError.message}
+                        </div>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={!!blockingError || isChecking}
+                        className={`w-full ${blockingError || isChecking ? 'bg-gray-600 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'} text-white font-bold py-3 rounded-lg transition-colors`}
+                    >
+                        {isChecking ? 'Checking...' : buttonText}
                     </button>
                 </form>
             </div>
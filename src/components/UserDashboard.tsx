@@ -1,7 +1,19 @@
 import React from 'react';
 import { IUserData } from '@/lib/contract';
-import { ethers } from 'ethers';
-import { TOKENS } from '@/constants/tokens';
+import { ethers, BigNumber } from 'ethers';
+import { useTokenRegistry } from '@/contexts/TokenContext';
+import { useRiskParams } from '@/hooks/useRiskParams';
+import {
+    toRiskPosition,
+    getBorrowLimit,
+    getAvailableToBorrowUSD,
+    getHealthFactor,
+    formatHealthFactor,
+    getRiskLevel,
+    RiskLevel,
+    toUSD,
+} from '@/lib/risk';
+import { poolErrorForReason } from '@/lib/poolErrors';
 
 interface UserDashboardProps {
     userData: IUserData | null;
@@ -23,7 +35,22 @@ const LoadingStatCard = ({ label }: { label: string }) => (
     </div>
 );
 
+const RISK_BORDER_COLORS: { [level in RiskLevel]: string } = {
+    safe: 'border-l-green-500',
+    warning: 'border-l-yellow-500',
+    danger: 'border-l-red-500',
+};
+
+const RISK_BAR_COLORS: { [level in RiskLevel]: string } = {
+    safe: 'bg-green-500',
+    warning: 'bg-yellow-500',
+    danger: 'bg-red-500',
+};
+
 const UserDashboard = ({ userData, isLoading = false }: UserDashboardProps) => {
+    const { tokens, getToken } = useTokenRegistry();
+    const riskParams = useRiskParams();
+
     // Format USD values for display
     const formatUSD = (value: ethers.BigNumber | undefined): string => {
         if (!value) return '$0.00';
@@ -41,37 +68,8 @@ const UserDashboard = ({ userData, isLoading = false }: UserDashboardProps) => {
         return `${value}%`;
     };
 
-    // Calculate health factor
-    const calculateHealthFactor = (indebtedness: number | undefined): string => {
-        if (!indebtedness || indebtedness === 0) return '∞';
-        const healthFactor = 100 / indebtedness;
-        return healthFactor > 10 ? '> 10' : healthFactor.toFixed(2);
-    };
-
-    // Calculate liquidation threshold
-    const calculateLiquidationThreshold = (userData: IUserData | null): string => {
-        if (!userData || !userData.borrowCapacity || userData.borrowCapacity.isZero()) return '0%';
-        // In the contract, liquidation happens at 80% indebtedness
-        return '80%';
-    };
-
-    // Calculate available to borrow
-    const calculateAvailableToBorrow = (userData: IUserData | null): string => {
-        if (!userData || !userData.borrowCapacity || userData.borrowCapacity.isZero()) return '$0.00';
-        
-        // Max borrow is 80% of capacity
-        const maxBorrow = userData.borrowCapacity.mul(80).div(100);
-        
-        // If already borrowed more than max, return 0
-        if (userData.totalDebtUSD.gte(maxBorrow)) return '$0.00';
-        
-        // Otherwise, calculate remaining capacity
-        const available = maxBorrow.sub(userData.totalDebtUSD);
-        return formatUSD(available);
-    };
-
     // If loading or no data, show skeleton
-    if (isLoading || !userData) {
+    if (isLoading || !userData || !riskParams) {
         return (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <LoadingStatCard label="Total Supplied" />
@@ -82,9 +80,35 @@ const UserDashboard = ({ userData, isLoading = false }: UserDashboardProps) => {
         );
     }
 
+    const indebtedness = BigNumber.from(userData.indebtedness);
+    const riskLevel = getRiskLevel(indebtedness, riskParams);
+    const borrowLimit = getBorrowLimit(userData.borrowCapacity, riskParams);
+    const availableToBorrow = getAvailableToBorrowUSD(toRiskPosition(userData, tokens), riskParams);
+    // Share of the borrow limit in use (the contract's indebtedness is relative to full capacity)
+    const limitUsed = borrowLimit.isZero() ? 0 : userData.totalDebtUSD.mul(100).div(borrowLimit).toNumber();
+    // Tokens in the position whose price the pool is rejecting; the figures above use it anyway
+    const rejectedPrices = tokens.filter((token) =>
+        userData.priceErrors[token.address] &&
+        (userData.collateral[token.address]?.gt(0) || userData.debt[token.address]?.gt(0))
+    );
+
     return (
         <div className="space-y-6">
             <h2 className="text-2xl font-bold text-white">Your Dashboard</h2>
+
+            {rejectedPrices.length > 0 && (
+                <div className="bg-yellow-900/30 p-4 rounded-xl border border-yellow-700 text-sm text-yellow-300 space-y-1">
+                    <p className="font-medium">
+                        These figures use prices the pool is currently rejecting, so they may be off. Borrowing,
+                        withdrawing and liquidations are paused until the prices recover.
+                    </p>
+                    {rejectedPrices.map((token) => (
+                        <p key={token.address}>
+                            {token.symbol}: {poolErrorForReason(userData.priceErrors[token.address]!).message}
+                        </p>
+                    ))}
+                </div>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <StatCard 
@@ -99,19 +123,15 @@ const UserDashboard = ({ userData, isLoading = false }: UserDashboardProps) => {
                 />
                 <StatCard 
                     label="Available to Borrow" 
-                    value={calculateAvailableToBorrow(userData)}
+                    value={formatUSD(availableToBorrow)}
                     className="border-l-4 border-l-green-500"
-                    subtext={`Borrow Limit: ${formatUSD(userData.borrowCapacity.mul(80).div(100))}`}
+                    subtext={`Borrow Limit: ${formatUSD(borrowLimit)}`}
                 />
                 <StatCard 
                     label="Health Factor" 
-                    value={calculateHealthFactor(userData.indebtedness)}
-                    className={`border-l-4 ${
-                        userData.indebtedness > 70 ? 'border-l-red-500' : 
-                        userData.indebtedness > 50 ? 'border-l-yellow-500' : 
-                        'border-l-green-500'
-                    }`}
-                    subtext={`Liquidation at ${calculateLiquidationThreshold(userData)}`}
+                    value={formatHealthFactor(getHealthFactor(indebtedness, riskParams))}
+                    className={`border-l-4 ${RISK_BORDER_COLORS[riskLevel]}`}
+                    subtext={`Liquidation above ${riskParams.liquidationThreshold}% indebtedness`}
                 />
             </div>
             
@@ -119,20 +139,16 @@ const UserDashboard = ({ userData, isLoading = false }: UserDashboardProps) => {
                 <h3 className="text-xl font-bold text-white mb-4">Borrow Limit</h3>
                 <div className="w-full bg-gray-700 rounded-full h-4 mb-2">
                     <div 
-                        className={`h-4 rounded-full ${
-                            userData.indebtedness > 70 ? 'bg-red-500' : 
-                            userData.indebtedness > 50 ? 'bg-yellow-500' : 
-                            'bg-green-500'
-                        }`} 
-                        style={{ width: `${Math.min(userData.indebtedness, 100)}%` }}
+                        className={`h-4 rounded-full ${RISK_BAR_COLORS[riskLevel]}`} 
+                        style={{ width: `${Math.min(limitUsed, 100)}%` }}
                     ></div>
                 </div>
                 <div className="flex justify-between text-sm">
                     <span className="text-gray-400">
-                        {formatPercentage(userData.indebtedness)} used
+                        {formatPercentage(limitUsed)} used
                     </span>
                     <span className="text-gray-400">
-                        {formatUSD(userData.totalDebtUSD)} of {formatUSD(userData.borrowCapacity.mul(80).div(100))}
+                        {formatUSD(userData.totalDebtUSD)} of {formatUSD(borrowLimit)}
                     </span>
                 </div>
             </div>
@@ -144,13 +160,10 @@ const UserDashboard = ({ userData, isLoading = false }: UserDashboardProps) => {
                         <div className="space-y-3">
                             {Object.entries(userData.collateral).map(([tokenAddress, amount]) => {
                                 if (amount.isZero()) return null;
-                                const token = TOKENS.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase()) || 
-                                    (tokenAddress === '0x0000000000000000000000000000000000000000' ? 
-                                    { symbol: 'ETH', decimals: 18, logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/1027.png' } : 
-                                    { symbol: 'Unknown', decimals: 18, logo: '' });
+                                const token = getToken(tokenAddress) || { symbol: 'Unknown', decimals: 18, logo: '' };
                                 
                                 const price = userData.prices[tokenAddress] || ethers.BigNumber.from(0);
-                                const value = amount.mul(price).div(ethers.utils.parseEther('1'));
+                                const value = toUSD(amount, price, token.decimals);
                                 const percentage = userData.totalCollateralUSD.isZero() ? 
                                     0 : 
                                     value.mul(100).div(userData.totalCollateralUSD).toNumber();
@@ -183,13 +196,10 @@ const UserDashboard = ({ userData, isLoading = false }: UserDashboardProps) => {
                         <div className="space-y-3">
                             {Object.entries(userData.debt).map(([tokenAddress, amount]) => {
                                 if (amount.isZero()) return null;
-                                const token = TOKENS.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase()) || 
-                                    (tokenAddress === '0x0000000000000000000000000000000000000000' ? 
-                                    { symbol: 'ETH', decimals: 18, logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/1027.png' } : 
-                                    { symbol: 'Unknown', decimals: 18, logo: '' });
+                                const token = getToken(tokenAddress) || { symbol: 'Unknown', decimals: 18, logo: '' };
                                 
                                 const price = userData.prices[tokenAddress] || ethers.BigNumber.from(0);
-                                const value = amount.mul(price).div(ethers.utils.parseEther('1'));
+                                const value = toUSD(amount, price, token.decimals);
                                 const percentage = userData.totalDebtUSD.isZero() ? 
                                     0 : 
                                     value.mul(100).div(userData.totalDebtUSD).toNumber();
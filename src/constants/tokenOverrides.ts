@@ -0,0 +1,47 @@
+// Display metadata the chain can't provide.  The token list itself comes from the pool
+// (see lib/tokenRegistry.ts); entries here only decorate it.
+
+export interface TokenOverride {
+    name?: string;
+    logo?: string;
+}
+
+// Keyed by lower-cased token address – use for tokens that need chain-specific treatment
+export const TOKEN_OVERRIDES_BY_ADDRESS: { [address: string]: TokenOverride } = {};
+
+// Keyed by on-chain symbol so one entry covers the same asset on every network
+export const TOKEN_OVERRIDES_BY_SYMBOL: { [symbol: string]: TokenOverride } = {
+    ETH: {
+        name: 'Ethereum',
+        logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/1027.png',
+    },
+    WETH: {
+        name: 'Wrapped Ether',
+        logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/1027.png',
+    },
+    BNB: {
+        name: 'BNB',
+        logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/1839.png',
+    },
+    WBNB: {
+        name: 'Wrapped BNB',
+        logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/1839.png',
+    },
+    USDT: {
+        name: 'Tether',
+        logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/825.png',
+    },
+    USDC: {
+        name: 'USD Coin',
+        logo: 'https://s2.coinmarketcap.com/static/img/coins/64x64/3408.png',
+    },
+};
+
+// The native currency has no ERC20 metadata to read
+export const NATIVE_CURRENCIES: { [chainId: number]: { symbol: string; name: string } } = {
+    1: { symbol: 'ETH', name: 'Ethereum' },
+    11155111: { symbol: 'ETH', name: 'Sepolia Ether' },
+    56: { symbol: 'BNB', name: 'BNB' },
+    97: { symbol: 'BNB', name: 'Test BNB' },
+    31337: { symbol: 'ETH', name: 'Ethereum' },
+};
@@ -0,0 +1,82 @@
+"use client";
+
+import React, { createContext, useState, useEffect, useContext, useCallback } from 'react';
+import { Token } from '@/constants/tokens';
+import { getReadProvider } from '@/lib/contract';
+import { getTokenRegistry, watchTokenRegistry } from '@/lib/tokenRegistry';
+import { useWalletContext } from './WalletContext';
+
+// Define the shape of the context state
+interface ITokenContext {
+    tokens: Token[];
+    isLoading: boolean;
+    error: string | null;
+    getToken: (address: string) => Token | undefined;
+}
+
+const TokenContext = createContext<ITokenContext>({
+    tokens: [],
+    isLoading: true,
+    error: null,
+    getToken: () => undefined,
+});
+
+// Loads the pool's token registry once per chain (again when the owner lists a token) and
+// shares it with every page
+export const TokenProvider = ({ children }: { children: React.ReactNode }) => {
+    const { provider, chainId } = useWalletContext();
+    const [tokens, setTokens] = useState<Token[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let mounted = true;
+        let unwatch: (() => void) | null = null;
+
+        const loadTokens = async () => {
+            setIsLoading(true);
+            try {
+                // Visitors without a wallet read the registry through the JSON-RPC read provider
+                const readProvider = provider || getReadProvider();
+                const registry = await getTokenRegistry(readProvider);
+                if (!mounted) return;
+                setTokens(registry);
+                setError(null);
+
+                // Tokens the owner lists later appear without a reload
+                const network = await readProvider.getNetwork();
+                if (!mounted) return;
+                unwatch = watchTokenRegistry(readProvider, network.chainId, (updated) => {
+                    if (mounted) setTokens(updated);
+                });
+            } catch (err) {
+                console.error('[TokenContext] Failed to load token registry:', err);
+                if (mounted) setError('Could not load the list of supported tokens.');
+            } finally {
+                if (mounted) setIsLoading(false);
+            }
+        };
+
+        loadTokens();
+
+        return () => {
+            mounted = false;
+            unwatch?.();
+        };
+    }, [provider, chainId]);
+
+    const getToken = useCallback((address: string) => {
+        return tokens.find((t) => t.address.toLowerCase() === address.toLowerCase());
+    }, [tokens]);
+
+    return (
+        <TokenContext.Provider value={{ tokens, isLoading, error, getToken }}>
+            {children}
+        </TokenContext.Provider>
+    );
+};
+
+// Custom hook to use the token registry
+export const useTokenRegistry = () => {
+    return useContext(TokenContext);
+};
@@ -3,6 +3,7 @@
 import React, { createContext, useState, useEffect, useContext, useCallback, useRef } from 'react';
 import { ethers } from 'ethers';
 import { toast } from 'react-hot-toast';
+import { DEFAULT_CHAIN_ID, SUPPORTED_CHAIN_IDS } from '@/lib/deployments';
 
 // Define the shape of the context state
 interface IWalletContext {
@@ -76,15 +77,8 @@ const saveWalletState = (state: GlobalWalletState) => {
 // Global state that persists between page navigations (and refreshed from storage)
 let globalWalletState: GlobalWalletState = loadStoredState();
 
-// Determine the chain the frontend expects – injected via NEXT_PUBLIC_CHAIN_ID
-const DEFAULT_CHAIN_ID = parseInt(process.env.NEXT_PUBLIC_CHAIN_ID || '11155111');
-
-// Backwards-compat: keep the old variable name but point it at DEFAULT_CHAIN_ID so
-// existing references continue to work until we finish the refactor.
-const BSC_TESTNET_CHAIN_ID = DEFAULT_CHAIN_ID;
-
-// Limit support to the configured chain for now (extend as needed)
-const SUPPORTED_CHAIN_IDS = [DEFAULT_CHAIN_ID];
+// The expected chain and the set of usable chains come from the deployment manifests
+// (lib/deployments.ts); wallets on any other chain are asked to switch to DEFAULT_CHAIN_ID.
 
 const NETWORKS: Record<number, any> = {
   11155111: {
@@ -100,6 +94,15 @@ const NETWORKS: Record<number, any> = {
     nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
     rpcUrls: ['https://cloudflare-eth.com'],
     blockExplorerUrls: ['https://etherscan.io']
+  },
+  // `npm run chain` + `npm run deploy:local` (scripts/localChain.ts)
+  31337: {
+    chainIdHex: '0x7a69',
+    chainName: 'Hardhat Localhost',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: ['http://127.0.0.1:8545'],
+    // Wallets reject an empty list; null means no explorer
+    blockExplorerUrls: null
   }
 };
 
@@ -312,7 +315,7 @@ export const WalletProvider = ({ children }: { children: React.ReactNode }) => {
                     const web3Provider = new ethers.providers.Web3Provider(ethereum, 'any');
                     const network = await web3Provider.getNetwork();
                     
-                    if (network.chainId !== BSC_TESTNET_CHAIN_ID) {
+                    if (!SUPPORTED_CHAIN_IDS.includes(network.chainId)) {
                         console.log(`[WalletContext] Wrong network: ${network.chainId}, requesting switch`);
                         const switched = await switchToCorrectNetwork();
                         if (!switched) {
@@ -391,8 +394,8 @@ export const WalletProvider = ({ children }: { children: React.ReactNode }) => {
             const web3Provider = new ethers.providers.Web3Provider(baseProvider, 'any');
             const network = await web3Provider.getNetwork();
 
-            if (network.chainId !== BSC_TESTNET_CHAIN_ID) {
-                console.log(`[WalletContext] Wrong network detected: ${network.chainId}. Requesting switch to ${BSC_TESTNET_CHAIN_ID}`);
+            if (!SUPPORTED_CHAIN_IDS.includes(network.chainId)) {
+                console.log(`[WalletContext] Wrong network detected: ${network.chainId}. Requesting switch to ${DEFAULT_CHAIN_ID}`);
                 const switched = await switchToCorrectNetwork();
                 if (!switched) {
                     toast.error(`Please switch to ${networkParams.chainName} to proceed.`);
@@ -499,7 +502,7 @@ export const WalletProvider = ({ children }: { children: React.ReactNode }) => {
         const newChainId = parseInt(chainIdHex, 16);
         setChainId(newChainId);
         
-        if (newChainId !== BSC_TESTNET_CHAIN_ID) {
+        if (!SUPPORTED_CHAIN_IDS.includes(newChainId)) {
             toast.error(`Please switch to ${networkParams.chainName}`);
             await switchToCorrectNetwork();
         } else {
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { IndexedEvent } from '@/lib/indexer/store';
+
+interface IActivityState {
+    // The account's pool events, newest first
+    events: IndexedEvent[];
+    // Last block the index had read
+    lastBlock: number | null;
+    isLoading: boolean;
+    error: string | null;
+    // With `minBlock`, keeps re-reading until the index has caught up to that block
+    refresh: (minBlock?: number) => Promise<void>;
+}
+
+// The index trails the chain by its confirmations; how often to check whether it has caught up
+const CATCH_UP_RETRY_MS = 10000;
+
+// The account's history from the event index behind /api/activity
+export const useActivity = (address: string | null, chainId: number | null): IActivityState => {
+    const [events, setEvents] = useState<IndexedEvent[]>([]);
+    const [lastBlock, setLastBlock] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    // Bumped by every fetch and by every account or chain switch; a response only lands if no
+    // newer fetch or switch happened while it was in flight
+    const requestRef = useRef(0);
+    const retryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Highest block a refresh asked to wait for, kept across fetches that supersede it
+    const catchUpRef = useRef<number | null>(null);
+
+    // History belongs to one account on one chain
+    useEffect(() => {
+        requestRef.current++;
+        catchUpRef.current = null;
+        setEvents([]);
+        setLastBlock(null);
+        setError(null);
+        setIsLoading(false);
+        return () => {
+            if (retryRef.current) clearTimeout(retryRef.current);
+            retryRef.current = null;
+        };
+    }, [address, chainId]);
+
+    const refresh = useCallback(async (minBlock?: number) => {
+        if (!address || !chainId) return;
+
+        const request = ++requestRef.current;
+        const isCurrent = () => request === requestRef.current;
+        if (minBlock !== undefined) catchUpRef.current = Math.max(catchUpRef.current ?? minBlock, minBlock);
+        setIsLoading(true);
+
+        try {
+            const response = await fetch(`/api/activity/${address}?chainId=${chainId}`);
+            const body = await response.json();
+            if (!isCurrent()) return;
+            if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+            setEvents(body.activity);
+            setLastBlock(body.lastBlock);
+            setError(null);
+
+            const target = catchUpRef.current;
+            if (target !== null && body.lastBlock < target) {
+                if (retryRef.current) clearTimeout(retryRef.current);
+                retryRef.current = setTimeout(() => {
+                    retryRef.current = null;
+                    refresh(target);
+                }, CATCH_UP_RETRY_MS);
+            } else {
+                catchUpRef.current = null;
+            }
+        } catch (err) {
+            if (!isCurrent()) return;
+            console.error('[useActivity] Error fetching activity:', err);
+            setError('Could not load your transaction history.');
+        } finally {
+            if (isCurrent()) setIsLoading(false);
+        }
+    }, [address, chainId]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return { events, lastBlock, isLoading, error, refresh };
+};
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ethers } from 'ethers';
+import { Token } from '@/constants/tokens';
+import { getAtRiskAccounts } from '@/lib/contract';
+import { AccountScan, AtRiskAccount } from '@/lib/riskAccounts';
+
+// Ranking reads every known position, so it reruns on a new block at most this often
+const RERANK_INTERVAL_MS = 30_000;
+
+interface IAtRiskAccountsState {
+    accounts: AtRiskAccount[];
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+// Borrowers found in the pool's logs, re-ranked on new blocks (throttled) while `enabled`
+export const useAtRiskAccounts = (
+    provider: ethers.providers.Provider | null,
+    tokens: Token[],
+    enabled: boolean
+): IAtRiskAccountsState => {
+    const [accounts, setAccounts] = useState<AtRiskAccount[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const scanRef = useRef<AccountScan | null>(null);
+    // Bumped when the provider changes, so a refresh still running against the old chain's pool
+    // can't land its results on the new one
+    const generationRef = useRef(0);
+    // Generation of the refresh in flight, if any
+    const inFlightRef = useRef<number | null>(null);
+    const lastRefreshRef = useRef(0);
+
+    // The logs read so far belong to one chain's pool
+    useEffect(() => {
+        generationRef.current += 1;
+        scanRef.current = null;
+        lastRefreshRef.current = 0;
+        setAccounts([]);
+    }, [provider]);
+
+    const refresh = useCallback(async () => {
+        if (!provider || tokens.length === 0) return;
+        const generation = generationRef.current;
+
+        // Blocks can arrive faster than a refresh completes; skip them rather than queue
+        if (inFlightRef.current === generation) return;
+        inFlightRef.current = generation;
+        lastRefreshRef.current = Date.now();
+        setIsLoading(scanRef.current === null);
+
+        try {
+            const result = await getAtRiskAccounts(provider, tokens, scanRef.current);
+            if (generation !== generationRef.current) return;
+            scanRef.current = result.scan;
+            setAccounts(result.accounts);
+            setError(null);
+        } catch (err) {
+            if (generation !== generationRef.current) return;
+            console.error('[useAtRiskAccounts] Error finding accounts at risk:', err);
+            setError('Could not load accounts at risk from the network.');
+        } finally {
+            if (inFlightRef.current === generation) inFlightRef.current = null;
+            if (generation === generationRef.current) setIsLoading(false);
+        }
+    }, [provider, tokens]);
+
+    useEffect(() => {
+        if (!enabled || !provider) return;
+        refresh();
+
+        const onBlock = () => {
+            if (Date.now() - lastRefreshRef.current < RERANK_INTERVAL_MS) return;
+            refresh();
+        };
+        provider.on('block', onBlock);
+        return () => {
+            provider.off('block', onBlock);
+        };
+    }, [enabled, provider, refresh]);
+
+    return { accounts, isLoading, error, refresh };
+};
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ethers } from 'ethers';
+import { getMarkets, IMarketData } from '@/lib/contract';
+
+interface IMarketsState {
+    markets: IMarketData[];
+    // Lookup by lower-cased token address
+    marketsByAddress: { [address: string]: IMarketData };
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+// Market data (token configs, reserves and prices) kept apart from per-user data so the
+// markets tables don't depend on a connected wallet or on getUserData succeeding.  Read once per
+// provider; after that the page calls `refresh` when a block changes a market (see usePoolUpdates).
+export const useMarketsData = (provider: ethers.providers.Provider | null): IMarketsState => {
+    const [markets, setMarkets] = useState<IMarketData[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | null>(null);
+    const fetchInProgressRef = useRef(false);
+    const refreshQueuedRef = useRef(false);
+
+    const refresh = useCallback(async () => {
+        if (!provider) {
+            setIsLoading(false);
+            return;
+        }
+
+        // Refreshes asked for mid-fetch may be for a block the fetch read too early, so rather
+        // than overlap they run once more when it's done
+        if (fetchInProgressRef.current) {
+            refreshQueuedRef.current = true;
+            return;
+        }
+        fetchInProgressRef.current = true;
+
+        try {
+            do {
+                refreshQueuedRef.current = false;
+                const data = await getMarkets(provider);
+                setMarkets(data);
+                setError(null);
+            } while (refreshQueuedRef.current);
+        } catch (err) {
+            console.error('[useMarketsData] Error fetching markets:', err);
+            setError('Could not fetch market data from the network.');
+        } finally {
+            setIsLoading(false);
+            fetchInProgressRef.current = false;
+        }
+    }, [provider]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const marketsByAddress: { [address: string]: IMarketData } = {};
+    for (const market of markets) {
+        marketsByAddress[market.address.toLowerCase()] = market;
+    }
+
+    return { markets, marketsByAddress, isLoading, error, refresh };
+};
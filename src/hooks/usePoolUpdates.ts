@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { Token } from '@/constants/tokens';
+import { getPoolChanges } from '@/lib/contract';
+import { ALL_SLICES, UpdateSlice, affectedSlices, movedPrices, watchBlocks } from '@/lib/liveUpdates';
+
+export interface PoolUpdate {
+    slices: UpdateSlice[];
+    // Block the update was read at
+    blockNumber: number;
+}
+
+// Widest gap between blocks whose events are read one by one; after a longer one (e.g. a tab
+// that slept) everything is refreshed instead
+const MAX_BLOCK_GAP = 1000;
+// How long a block subscription may stay silent before it's taken as not delivering, and how
+// often the block number is polled after that
+const FIRST_BLOCK_TIMEOUT_MS = 30000;
+const POLL_INTERVAL_MS = 15000;
+
+// Calls `onUpdate` with the slices each new block made stale for `account`, whose position
+// holds `positionTokens`.  Blocks that change nothing call nothing, and no blocks (an idle chain)
+// means no calls.  If the provider's block subscription delivers nothing, it polls the block
+// number instead and reads each new block the same way.
+export const usePoolUpdates = (
+    provider: ethers.providers.Provider | null,
+    tokens: Token[],
+    account: string | null,
+    positionTokens: string[],
+    onUpdate: (update: PoolUpdate) => void
+) => {
+    // Read on every block without resubscribing when they change
+    const accountRef = useRef(account);
+    const positionTokensRef = useRef(positionTokens);
+    const onUpdateRef = useRef(onUpdate);
+    accountRef.current = account;
+    positionTokensRef.current = positionTokens;
+    onUpdateRef.current = onUpdate;
+
+    useEffect(() => {
+        if (!provider || tokens.length === 0) return;
+
+        let cancelled = false;
+        let lastBlock: number | null = null;
+        let prices: { [token: string]: string | null } | null = null;
+        let running = false;
+        let queuedBlock: number | null = null;
+
+        const emit = (slices: UpdateSlice[], blockNumber: number) => {
+            if (!cancelled && slices.length > 0) onUpdateRef.current({ slices, blockNumber });
+        };
+
+        const readBlock = async (blockNumber: number) => {
+            if (blockNumber === lastBlock) return;
+            // First block, a reorg to a lower height, or a long gap: nothing to compare against
+            if (lastBlock === null || blockNumber < lastBlock || blockNumber - lastBlock > MAX_BLOCK_GAP) {
+                const baseline = await getPoolChanges(provider, blockNumber, blockNumber, tokens);
+                const isFirst = lastBlock === null && prices === null;
+                prices = baseline.prices;
+                lastBlock = blockNumber;
+                if (!isFirst) emit(ALL_SLICES, blockNumber);
+                return;
+            }
+
+            const changes = await getPoolChanges(provider, lastBlock + 1, blockNumber, tokens);
+            const moved = prices ? movedPrices(prices, changes.prices) : [];
+            prices = changes.prices;
+            lastBlock = blockNumber;
+            emit(affectedSlices(changes.events, moved, accountRef.current, positionTokensRef.current), blockNumber);
+        };
+
+        // Blocks can arrive faster than they're read; only the newest one waiting is read next,
+        // and its range covers the ones skipped
+        const onBlock = async (blockNumber: number) => {
+            if (running) {
+                queuedBlock = Math.max(queuedBlock ?? 0, blockNumber);
+                return;
+            }
+            running = true;
+            let next: number | null = blockNumber;
+            while (next !== null && !cancelled) {
+                queuedBlock = null;
+                try {
+                    await readBlock(next);
+                } catch (error) {
+                    // lastBlock stays put, so the next block reads this range again
+                    console.warn(`[usePoolUpdates] Could not read block ${next}:`, error);
+                }
+                next = queuedBlock;
+            }
+            running = false;
+        };
+
+        const stopWatching = watchBlocks(provider, onBlock, FIRST_BLOCK_TIMEOUT_MS, POLL_INTERVAL_MS);
+
+        return () => {
+            cancelled = true;
+            stopWatching();
+        };
+    }, [provider, tokens]);
+};
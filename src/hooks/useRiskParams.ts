@@ -0,0 +1,30 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useWalletContext } from '@/contexts/WalletContext';
+import { getRiskParams, getReadProvider } from '@/lib/contract';
+import { RiskParams } from '@/lib/risk';
+
+// MAX_BORROW_RATIO and LIQUIDATION_THRESHOLD as deployed on the current chain; null until loaded
+export const useRiskParams = (): RiskParams | null => {
+    const { provider, chainId } = useWalletContext();
+    const [params, setParams] = useState<RiskParams | null>(null);
+
+    useEffect(() => {
+        let mounted = true;
+
+        getRiskParams(provider || getReadProvider())
+            .then((result) => {
+                if (mounted) setParams(result);
+            })
+            .catch((err) => {
+                console.error('[useRiskParams] Failed to read risk parameters:', err);
+            });
+
+        return () => {
+            mounted = false;
+        };
+    }, [provider, chainId]);
+
+    return params;
+};
@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Token } from '@/constants/tokens';
+import { PoolError } from '@/lib/poolErrors';
+
+// Wait for the user to stop typing before simulating
+const SIMULATION_DEBOUNCE_MS = 400;
+
+export type SimulateTransaction<T extends string> = (amount: string, token: Token, type: T) => Promise<PoolError | null>;
+
+interface IPreflightState {
+    // Why the contract would reject the current amount, if it would
+    error: PoolError | null;
+    isChecking: boolean;
+}
+
+// Dry-runs the modal's action for the entered amount so the modal can block submission
+// before the wallet pops up
+export const useTransactionPreflight = <T extends string>(
+    amount: string,
+    token: Token,
+    type: T,
+    simulate?: SimulateTransaction<T>
+): IPreflightState => {
+    const [error, setError] = useState<PoolError | null>(null);
+    const [isChecking, setIsChecking] = useState<boolean>(false);
+
+    useEffect(() => {
+        setError(null);
+        if (!simulate || !amount || !(parseFloat(amount) > 0)) {
+            setIsChecking(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsChecking(true);
+        const timeoutId = setTimeout(async () => {
+            try {
+                const result = await simulate(amount, token, type);
+                if (!cancelled) setError(result);
+            } catch (err) {
+                // A failed simulation shouldn't block the user – the write wrappers check again
+                console.warn('[useTransactionPreflight] Simulation failed:', err);
+            } finally {
+                if (!cancelled) setIsChecking(false);
+            }
+        }, SIMULATION_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeoutId);
+        };
+    }, [amount, token, type, simulate]);
+
+    return { error, isChecking };
+};
@@ -0,0 +1,126 @@
+import { BigNumber, utils } from 'ethers';
+import type { IndexedEvent } from './indexer/store';
+import { toUSD } from './risk';
+
+export type ActivityType = 'deposit' | 'withdraw' | 'borrow' | 'repay' | 'liquidation';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['deposit', 'withdraw', 'borrow', 'repay', 'liquidation'];
+
+// One movement of one token in an account's history.  A liquidation moves two, the debt repaid
+// and the collateral seized, so it makes two entries with the same transaction; collateral taken
+// with a write-off repays nothing and makes only the second.
+export interface ActivityEntry {
+    id: string;
+    type: ActivityType;
+    // What happened, from the account's side, e.g. "Collateral seized by 0x12…cdef"
+    description: string;
+    timestamp: number;
+    blockNumber: number;
+    transactionHash: string;
+    token: string;
+    amount: BigNumber;
+    // At the token's price in the event's block; null if the index couldn't read it
+    valueUSD: BigNumber | null;
+}
+
+export interface ActivityFilter {
+    // Token address or 'all'
+    token: string;
+    type: ActivityType | 'all';
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const OWN_ACTIONS: { [event: string]: { type: ActivityType; description: string } } = {
+    Deposited: { type: 'deposit', description: 'Collateral deposited' },
+    Withdrawn: { type: 'withdraw', description: 'Collateral withdrawn' },
+    Borrowed: { type: 'borrow', description: 'Borrowed' },
+    Repaid: { type: 'repay', description: 'Debt repaid' },
+};
+
+// The account's deposits, withdrawals, borrows, repayments and liquidations (of it or by it) from
+// its indexed events, in the events' order
+export const toActivityEntries = (
+    events: IndexedEvent[],
+    account: string,
+    tokens: { address: string; decimals: number }[]
+): ActivityEntry[] => {
+    const decimalsOf = (token: string) =>
+        tokens.find((t) => t.address.toLowerCase() === token.toLowerCase())?.decimals ?? 18;
+    const entry = (event: IndexedEvent, suffix: string, type: ActivityType, description: string, token: string, amount: string): ActivityEntry => {
+        const price = event.prices[token];
+        return {
+            id: `${event.id}${suffix}`,
+            type,
+            description,
+            timestamp: event.timestamp,
+            blockNumber: event.blockNumber,
+            transactionHash: event.transactionHash,
+            token,
+            amount: BigNumber.from(amount),
+            valueUSD: price === undefined ? null : toUSD(BigNumber.from(amount), BigNumber.from(price), decimalsOf(token)),
+        };
+    };
+
+    const self = account.toLowerCase();
+    const entries: ActivityEntry[] = [];
+    for (const event of events) {
+        const { args } = event;
+        const own = OWN_ACTIONS[event.name];
+        if (own && args.user.toLowerCase() === self) {
+            entries.push(entry(event, '', own.type, own.description, args.token, args.amount));
+        } else if (event.name === 'Liquidated' && args.user.toLowerCase() === self) {
+            const by = shortAddress(args.liquidator);
+            if (args.repaidAmount !== '0') {
+                entries.push(entry(event, ':debt', 'liquidation', `Debt repaid by ${by}`, args.debtToken, args.repaidAmount));
+            }
+            entries.push(entry(event, ':collateral', 'liquidation', `Collateral seized by ${by}`, args.collateralToken, args.seizedAmount));
+        } else if (event.name === 'Liquidated' && args.liquidator.toLowerCase() === self) {
+            const of = shortAddress(args.user);
+            if (args.repaidAmount !== '0') {
+                entries.push(entry(event, ':debt', 'liquidation', `Repaid debt of ${of}`, args.debtToken, args.repaidAmount));
+            }
+            entries.push(entry(event, ':collateral', 'liquidation', `Seized collateral of ${of}`, args.collateralToken, args.seizedAmount));
+        }
+    }
+    return entries;
+};
+
+export const filterActivity = (entries: ActivityEntry[], filter: ActivityFilter): ActivityEntry[] =>
+    entries.filter((entry) =>
+        (filter.token === 'all' || entry.token.toLowerCase() === filter.token.toLowerCase()) &&
+        (filter.type === 'all' || entry.type === filter.type)
+    );
+
+// Entries as plain records for export: amounts in whole tokens and USD as decimal strings,
+// times in ISO 8601 (UTC)
+export const toActivityRecords = (
+    entries: ActivityEntry[],
+    tokens: { address: string; symbol: string; decimals: number }[]
+) => entries.map((entry) => {
+    const token = tokens.find((t) => t.address.toLowerCase() === entry.token.toLowerCase());
+    return {
+        timestamp: new Date(entry.timestamp * 1000).toISOString(),
+        type: entry.type,
+        description: entry.description,
+        token: token?.symbol ?? entry.token,
+        tokenAddress: entry.token,
+        amount: utils.formatUnits(entry.amount, token?.decimals ?? 18),
+        valueUSD: entry.valueUSD === null ? '' : utils.formatEther(entry.valueUSD),
+        blockNumber: entry.blockNumber,
+        transactionHash: entry.transactionHash,
+    };
+});
+
+const csvField = (value: string | number) => {
+    // Token symbols come from arbitrary contracts; a leading =, +, - or @ would make a spreadsheet
+    // run the field as a formula
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toActivityCSV = (records: ReturnType<typeof toActivityRecords>): string => {
+    const columns = ['timestamp', 'type', 'description', 'token', 'tokenAddress', 'amount', 'valueUSD', 'blockNumber', 'transactionHash'] as const;
+    const rows = records.map((record) => columns.map((column) => csvField(record[column])).join(','));
+    return [columns.join(','), ...rows].join('\n') + '\n';
+};
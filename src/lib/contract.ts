@@ -1,83 +1,123 @@
 import { ethers, BigNumber } from 'ethers';
-import { LENDING_POOL_ABI } from './abi/LendingPoolABI';
-import { ERC20_ABI } from './abi/ERC20ABI';
-import { TOKENS } from '@/constants/tokens';
+import {
+    LendingPoolTest,
+    LendingPoolTest__factory,
+    IERC20Metadata,
+    IERC20Metadata__factory,
+} from '@/types/contracts';
+import { Token, NATIVE_TOKEN_ADDRESS } from '@/constants/tokens';
 import { toast } from 'react-hot-toast';
+import { aggregate, ethBalanceCall, contractCall, CallResult, ContractCall } from './multicall';
+import { FailoverRpcProvider } from './rpcProvider';
+import { PoolError, decodePoolError, poolErrorForReason } from './poolErrors';
+import type { RiskParams, LiquidationParams } from './risk';
+import { AccountScan, AtRiskAccount, newAccountScan, scanAccounts, rankAtRiskAccounts } from './riskAccounts';
+import type { PoolEvent } from './liveUpdates';
+import { DEFAULT_CHAIN_ID, SUPPORTED_CHAIN_IDS, getLendingPoolAddress, getDeployBlock, getRpcUrls } from './deployments';
 
-// Read values injected at build/deploy time.  Primary var is NEXT_PUBLIC_CONTRACT_ADDRESS
-// (fall back to legacy NEXT_PUBLIC_LENDING_POOL_ADDRESS for backwards-compatibility).
-export const LENDING_POOL_ADDRESS: string =
-  (typeof window !== 'undefined' 
-    ? (window as any).__NEXT_DATA__?.env?.NEXT_PUBLIC_CONTRACT_ADDRESS || 
-      (window as any).__NEXT_DATA__?.env?.NEXT_PUBLIC_LENDING_POOL_ADDRESS 
-    : '0xFfcB1025c44d7a09f07a043F85b695619C5AFE1e') || '0xFfcB1025c44d7a09f07a043F85b695619C5AFE1e';
-
-// Determine which chain the frontend should operate on.  This is injected via
-// NEXT_PUBLIC_CHAIN_ID by the deployment script (defaults to Sepolia – 11155111).
-export const DEFAULT_CHAIN_ID = parseInt(
-  (typeof window !== 'undefined' 
-    ? (window as any).__NEXT_DATA__?.env?.NEXT_PUBLIC_CHAIN_ID 
-    : '11155111') || '11155111'
-);
-
-// Extend this list if you want to support multiple networks simultaneously.
-export const SUPPORTED_CHAIN_IDS = [DEFAULT_CHAIN_ID];
+// The pool address and supported chains come from the deployment manifests
+export { DEFAULT_CHAIN_ID, SUPPORTED_CHAIN_IDS };
 
 export interface IUserData {
     collateral: { [key: string]: BigNumber };
     debt: { [key: string]: BigNumber };
     walletBalances: { [key: string]: BigNumber };
     prices: { [key: string]: BigNumber };
+    // When each price is from, and the contract's reason for rejecting it (e.g. "Stale price"), or
+    // null when it's usable.  Totals computed with a rejected price are only indicative: the pool
+    // refuses borrows, withdrawals and liquidations that need it.
+    priceUpdatedAt: { [key: string]: number };
+    priceErrors: { [key: string]: string | null };
     reserves: { [key: string]: BigNumber }; // Add reserves property
+    // Yearly yields at the current utilization, as fractions (0.035 for 3.5%)
+    supplyAPY: { [key: string]: number };
+    borrowAPY: { [key: string]: number };
+    // Liquidity provider shares and what they redeem for now
+    lpShares: { [key: string]: BigNumber };
+    lpBalances: { [key: string]: BigNumber };
     totalCollateralUSD: BigNumber;
     totalDebtUSD: BigNumber;
     borrowCapacity: BigNumber;
     indebtedness: number;
 }
 
-// Create a fallback provider to improve reliability
+// Market-wide state for a single token, independent of any user
+export interface IMarketData {
+    address: string;
+    weight: number;
+    isActive: boolean;
+    reserves: BigNumber;
+    price: BigNumber;
+    // Oracle label (e.g. "Chainlink") and the unix time its price is from
+    priceSource: string;
+    priceUpdatedAt: number;
+    // The contract's reason for rejecting the price (e.g. "Stale price"), or null when it's usable
+    priceError: string | null;
+    // Outstanding debt including accrued interest, and the yearly yields it currently implies
+    totalBorrows: BigNumber;
+    supplyAPY: number;
+    borrowAPY: number;
+    // What liquidity providers' shares are worth in total: the reserves plus the total borrows,
+    // less the treasury (an uncovered deficit is their loss already)
+    liquidity: BigNumber;
+    totalShares: BigNumber;
+    // The protocol's cut of interest, and bad debt it hasn't covered and nobody has socialised
+    treasury: BigNumber;
+    deficit: BigNumber;
+}
+
+// The pool's rates are 1e18-scaled yearly simple rates, compounded whenever the market is
+// touched; an active market compounds close to continuously
+export const rateToAPY = (rate: BigNumber): number => Math.expm1(parseFloat(ethers.utils.formatEther(rate)));
+
+// Create a provider that fails over across the chain's configured RPC URLs to improve reliability
 const createFallbackProvider = (chainId: number): ethers.providers.JsonRpcProvider => {
-    let rpcUrls: string[];
-    
-    // Define multiple RPC URLs for different networks with fallbacks
-    switch(chainId) {
-        case 11155111: // Sepolia
-            rpcUrls = [
-                'https://rpc.sepolia.org',
-                'https://sepolia.gateway.tenderly.co',
-                'https://gateway.tenderly.co/public/sepolia',
-                'https://sepolia-rpc.scroll.io/',
-                                 'https://sepolia.infura.io/v3/9cfba16e9f16482f97687dca627cb64c'
-            ];
-            break;
-        default:
-            rpcUrls = ['https://rpc.sepolia.org'];
-            break;
+    const rpcUrls = getRpcUrls(chainId);
+    if (rpcUrls.length === 0) {
+        throw new Error(`No RPC URL configured for chain ${chainId}; add rpcUrls to its config/networks file or set NEXT_PUBLIC_RPC_URL`);
     }
-    
-    // Use the first available RPC (most reliable public ones first)
-    const rpcUrl = rpcUrls[0];
-    return new ethers.providers.JsonRpcProvider(rpcUrl);
+
+    // Requests rotate across healthy URLs (most reliable public ones first) with retries
+    return new FailoverRpcProvider(rpcUrls, chainId);
+};
+
+// Read-only providers are shared per chain so every disconnected view reuses one connection
+const readProviders: { [chainId: number]: ethers.providers.JsonRpcProvider } = {};
+
+// JSON-RPC provider for reading pool state without a wallet (e.g. visitors who haven't connected).
+// Throws for a chain with no RPC URL configured.
+export const getReadProvider = (chainId: number = DEFAULT_CHAIN_ID): ethers.providers.JsonRpcProvider => {
+    if (!readProviders[chainId]) {
+        readProviders[chainId] = createFallbackProvider(chainId);
+    }
+    return readProviders[chainId];
 };
 
+// Reads go through the failover RPC layer rather than the wallet's own provider, unless the
+// wallet is on a chain we have no RPC URLs for
+const readProviderFor = (provider: ethers.providers.Provider, chainId: number): ethers.providers.Provider =>
+    getRpcUrls(chainId).length > 0 ? getReadProvider(chainId) : provider;
+
 // Helper to check if contract exists at address
 export const verifyContractExists = async (provider: ethers.providers.Provider): Promise<boolean> => {
-    console.log(`[verifyContractExists] Verifying contract at address: ${LENDING_POOL_ADDRESS}`);
-    if (LENDING_POOL_ADDRESS === '0x0000000000000000000000000000000000000000') {
-        console.error("[verifyContractExists] Lending pool address is not configured (is zero address).");
-        return false;
-    }
-    
     try {
         const network = await provider.getNetwork();
+        const lendingPoolAddress = getLendingPoolAddress(network.chainId);
+        console.log(`[verifyContractExists] Verifying contract at address: ${lendingPoolAddress}`);
+        if (lendingPoolAddress === '0x0000000000000000000000000000000000000000') {
+            console.error("[verifyContractExists] Lending pool address is not configured (is zero address).");
+            return false;
+        }
+
         console.log(`[verifyContractExists] Verifying on network: ${network.name} (chainId: ${network.chainId})`);
+        const readProvider = readProviderFor(provider, network.chainId);
         
         // Simplified approach with timeout to prevent infinite loops
         const timeoutPromise = new Promise<string>((_, reject) => 
             setTimeout(() => reject(new Error('Contract verification timeout')), 10000)
         );
         
-        const codePromise = provider.getCode(LENDING_POOL_ADDRESS);
+        const codePromise = readProvider.getCode(lendingPoolAddress);
         
         const code = await Promise.race([codePromise, timeoutPromise]);
         
@@ -95,23 +135,17 @@ export const verifyContractExists = async (provider: ethers.providers.Provider):
     }
 };
 
-// Helper to get contract instances
-const getLendingPoolContract = (providerOrSigner: ethers.providers.Provider | ethers.Signer) => {
-    return new ethers.Contract(LENDING_POOL_ADDRESS, LENDING_POOL_ABI, providerOrSigner);
+// Helpers to get typed contract instances (bindings generated by `hardhat compile`)
+const getLendingPoolContract = (providerOrSigner: ethers.providers.Provider | ethers.Signer, chainId: number): LendingPoolTest => {
+    return LendingPoolTest__factory.connect(getLendingPoolAddress(chainId), providerOrSigner);
 };
 
-const getErc20Contract = (tokenAddress: string, providerOrSigner: ethers.providers.Provider | ethers.Signer) => {
-    return new ethers.Contract(tokenAddress, ERC20_ABI, providerOrSigner);
+const getErc20Contract = (tokenAddress: string, providerOrSigner: ethers.providers.Provider | ethers.Signer): IERC20Metadata => {
+    return IERC20Metadata__factory.connect(tokenAddress, providerOrSigner);
 };
 
 // Fetches all relevant user and market data in a single batch
-export const getUserData = async (provider: ethers.providers.Provider, userAddress: string): Promise<IUserData> => {
-    console.log(`[getUserData] Starting data fetch for user ${userAddress} on contract ${LENDING_POOL_ADDRESS}`);
-    if (LENDING_POOL_ADDRESS === '0x0000000000000000000000000000000000000000') {
-        toast.error('Lending pool address not configured');
-        throw new Error('Lending pool address not set');
-    }
-
+export const getUserData = async (provider: ethers.providers.Provider, userAddress: string, tokens: Token[]): Promise<IUserData> => {
     // Validate provider
     if (!provider) {
         console.error('[getUserData] Provider is null or undefined');
@@ -133,7 +167,7 @@ export const getUserData = async (provider: ethers.providers.Provider, userAddre
     const contractExists = await verifyContractExists(provider);
     if (!contractExists) {
         toast.error("Contract not found at the specified address. Please check deployment.");
-        throw new Error("Contract not found at address: " + LENDING_POOL_ADDRESS);
+        throw new Error("Contract not found on the connected network");
     }
 
     // Check if we're on the right network
@@ -151,123 +185,105 @@ export const getUserData = async (provider: ethers.providers.Provider, userAddre
         throw new Error("Wrong network. Please switch your wallet to the expected network.");
     }
 
-    const lendingPool = getLendingPoolContract(provider);
-    const nativeTokenAddress = '0x0000000000000000000000000000000000000000';
+    const lendingPoolAddress = getLendingPoolAddress(network.chainId);
+    console.log(`[getUserData] Starting data fetch for user ${userAddress} on contract ${lendingPoolAddress}`);
+    if (lendingPoolAddress === '0x0000000000000000000000000000000000000000') {
+        toast.error('Lending pool address not configured');
+        throw new Error('Lending pool address not set');
+    }
+
+    const lendingPool = getLendingPoolContract(provider, network.chainId);
 
     const data: IUserData = {
         collateral: {},
         debt: {},
         walletBalances: {},
         prices: {},
+        priceUpdatedAt: {},
+        priceErrors: {},
         reserves: {}, // Initialize reserves
+        supplyAPY: {},
+        borrowAPY: {},
+        lpShares: {},
+        lpBalances: {},
         totalCollateralUSD: BigNumber.from(0),
         totalDebtUSD: BigNumber.from(0),
         borrowCapacity: BigNumber.from(0),
         indebtedness: 0,
     };
 
+    // The position comes from one getUserAccountData snapshot so the UI shows exactly what the
+    // contract enforces; wallet balances ride along in the same Multicall round trip.
+    const calls: ContractCall[] = [
+        contractCall(lendingPool, 'getUserAccountData', userAddress),
+        ...tokens.map((token): ContractCall => token.address === NATIVE_TOKEN_ADDRESS
+            ? ethBalanceCall(userAddress)
+            : contractCall(getErc20Contract(token.address, provider), 'balanceOf', userAddress)
+        ),
+    ];
+
+    // A failed or undecodable call falls back to zero
+    const readBigNumber = (result: ethers.utils.Result | null, label: string): BigNumber => {
+        if (!result) {
+            console.warn(`[getUserData] Failed to fetch ${label}`);
+            return BigNumber.from(0);
+        }
+        return BigNumber.from(result[0]);
+    };
+
     try {
-        // Fetch data for each token serially to avoid overloading the provider
-        for (const token of TOKENS) {
-            try {
-                const isNative = token.address === nativeTokenAddress;
-                
-                // Fetch collateral
-                const collateralResult = await lendingPool.userCollateral(userAddress, token.address)
-                    .catch(() => ({ amount: BigNumber.from(0) }));
-                
-                // For userCollateral, the return is a struct with an 'amount' property
-                data.collateral[token.address] = collateralResult.amount || collateralResult || BigNumber.from(0);
-                
-                // Fetch debt with fallbacks
-                let debt = BigNumber.from(0);
-                try {
-                    debt = await lendingPool.userDebt(userAddress, token.address);
-                } catch (error) {
-                    console.warn(`Failed to fetch debt for ${token.symbol}:`, error);
-                }
-                data.debt[token.address] = debt;
-                
-                // Fetch price with fallbacks
-                let price = BigNumber.from(0);
-                try {
-                    price = await lendingPool.getTokenPrice(token.address);
-                } catch (error) {
-                    console.warn(`Failed to fetch price for ${token.symbol}:`, error);
-                }
-                data.prices[token.address] = price;
-                
-                // Fetch pool reserves
-                let reserves = BigNumber.from(0);
-                try {
-                    reserves = await lendingPool.reserves(token.address);
-                } catch (error) {
-                    console.warn(`Failed to fetch reserves for ${token.symbol}:`, error);
-                }
-                data.reserves[token.address] = reserves;
-                
-                // Fetch balance with fallbacks
-                let balance = BigNumber.from(0);
-                try {
-                    if (isNative) {
-                        balance = await provider.getBalance(userAddress);
-                    } else {
-                        const erc20 = getErc20Contract(token.address, provider);
-                        balance = await erc20.balanceOf(userAddress);
-                    }
-                } catch (error) {
-                    console.warn(`Failed to fetch balance for ${token.symbol}:`, error);
-                }
-                data.walletBalances[token.address] = balance;
-            } catch (error) {
-                console.error(`Error fetching data for token ${token.symbol}:`, error);
-                // Set default values to prevent UI errors
-                data.collateral[token.address] = BigNumber.from(0);
-                data.debt[token.address] = BigNumber.from(0);
-                data.prices[token.address] = BigNumber.from(0);
-                data.walletBalances[token.address] = BigNumber.from(0);
-                data.reserves[token.address] = BigNumber.from(0);
-            }
+        // Reads go through the failover RPC layer rather than the wallet's own provider
+        const readProvider = readProviderFor(provider, network.chainId);
+        const [accountResult, ...balanceResults] = await aggregate(readProvider, network.chainId, calls) as [
+            CallResult<LendingPoolTest, 'getUserAccountData'> | null,
+            ...(CallResult<IERC20Metadata, 'balanceOf'> | null)[]
+        ];
+
+        tokens.forEach((token, i) => {
+            data.collateral[token.address] = BigNumber.from(0);
+            data.debt[token.address] = BigNumber.from(0);
+            data.prices[token.address] = BigNumber.from(0);
+            data.priceUpdatedAt[token.address] = 0;
+            data.priceErrors[token.address] = null;
+            data.reserves[token.address] = BigNumber.from(0);
+            data.supplyAPY[token.address] = 0;
+            data.borrowAPY[token.address] = 0;
+            data.lpShares[token.address] = BigNumber.from(0);
+            data.lpBalances[token.address] = BigNumber.from(0);
+            data.walletBalances[token.address] = readBigNumber(balanceResults[i], `balance for ${token.symbol}`);
+        });
+
+        // Without the snapshot there is no position to show; an all-zero one would read as "no debt"
+        if (!accountResult) {
+            throw new Error('Could not read your position from the pool');
         }
 
-        // Fetch aggregate data
-        try {
-            // Calculate total collateral USD
-            let totalCollateral = BigNumber.from(0);
-            for (const token of TOKENS) {
-                const amount = data.collateral[token.address] || BigNumber.from(0);
-                const price = data.prices[token.address] || BigNumber.from(0);
-                if (!amount.isZero() && !price.isZero()) {
-                    totalCollateral = totalCollateral.add(amount.mul(price).div(ethers.utils.parseEther('1')));
-                }
-            }
-            data.totalCollateralUSD = totalCollateral;
-            
-            // Get other aggregate data
-            try {
-                data.totalDebtUSD = await lendingPool.getTotalDebtUSD(userAddress);
-            } catch (error) {
-                console.warn("Failed to fetch total debt:", error);
-                data.totalDebtUSD = BigNumber.from(0);
-            }
-            
-            try {
-                data.borrowCapacity = await lendingPool.getBorrowCapacity(userAddress);
-            } catch (error) {
-                console.warn("Failed to fetch borrow capacity:", error);
-                data.borrowCapacity = BigNumber.from(0);
-            }
-            
-            try {
-                const indebtedness = await lendingPool.getIndebtedness(userAddress);
-                data.indebtedness = indebtedness.toNumber();
-            } catch (error) {
-                console.warn("Failed to fetch indebtedness:", error);
-                data.indebtedness = 0;
+        const account = accountResult.data;
+        const tokenIndex = new Map<string, number>(
+            account.tokens.map((address, i) => [address.toLowerCase(), i])
+        );
+        for (const token of tokens) {
+            const i = tokenIndex.get(token.address.toLowerCase());
+            if (i === undefined) {
+                console.warn(`[getUserData] ${token.symbol} is not supported by the pool`);
+                continue;
             }
-        } catch (error) {
-            console.error("Error fetching aggregate data:", error);
+            data.collateral[token.address] = account.collateral[i];
+            data.debt[token.address] = account.debt[i];
+            data.prices[token.address] = account.prices[i];
+            data.priceUpdatedAt[token.address] = account.priceUpdatedAt[i].toNumber();
+            data.priceErrors[token.address] = account.priceErrors[i] || null;
+            data.reserves[token.address] = account.reserves[i];
+            data.supplyAPY[token.address] = rateToAPY(account.supplyRates[i]);
+            data.borrowAPY[token.address] = rateToAPY(account.borrowRates[i]);
+            data.lpShares[token.address] = account.lpShares[i];
+            data.lpBalances[token.address] = account.lpBalances[i];
         }
+
+        data.totalCollateralUSD = account.totalCollateralUSD;
+        data.totalDebtUSD = account.totalDebtUSD;
+        data.borrowCapacity = account.borrowCapacity;
+        data.indebtedness = account.indebtedness.toNumber();
     } catch (error) {
         console.error("Error in getUserData:", error);
         throw error;
@@ -276,10 +292,156 @@ export const getUserData = async (provider: ethers.providers.Provider, userAddre
     return data;
 };
 
+// The contract's risk constants only change with a redeploy, so read them once per chain
+const riskParamsCache: { [chainId: number]: Promise<RiskParams> } = {};
+
+export const getRiskParams = async (provider: ethers.providers.Provider): Promise<RiskParams> => {
+    const { chainId } = await provider.getNetwork();
+
+    if (!riskParamsCache[chainId]) {
+        const lendingPool = getLendingPoolContract(readProviderFor(provider, chainId), chainId);
+        riskParamsCache[chainId] = Promise.all([
+            lendingPool.MAX_BORROW_RATIO(),
+            lendingPool.LIQUIDATION_THRESHOLD(),
+        ]).then(([maxBorrowRatio, liquidationThreshold]) => ({
+            maxBorrowRatio: maxBorrowRatio.toNumber(),
+            liquidationThreshold: liquidationThreshold.toNumber(),
+        })).catch((error) => {
+            // Don't cache failures – the next caller should retry
+            delete riskParamsCache[chainId];
+            throw error;
+        });
+    }
+    return riskParamsCache[chainId];
+};
+
+// Fetches every supported token's config, available reserves, price (with its source) and rates in one call
+export const getMarkets = async (provider: ethers.providers.Provider): Promise<IMarketData[]> => {
+    const { chainId } = await provider.getNetwork();
+    if (getLendingPoolAddress(chainId) === '0x0000000000000000000000000000000000000000') {
+        throw new Error('Lending pool address not set');
+    }
+
+    const lendingPool = getLendingPoolContract(provider, chainId);
+    const markets = await lendingPool.getMarketsData();
+
+    return markets.tokens.map((address, i): IMarketData => ({
+        address,
+        weight: markets.weights[i].toNumber(),
+        isActive: markets.active[i],
+        reserves: markets.reserves[i],
+        price: markets.prices[i],
+        priceSource: markets.priceSources[i],
+        priceUpdatedAt: markets.priceUpdatedAt[i].toNumber(),
+        priceError: markets.priceErrors[i] || null,
+        totalBorrows: markets.totalBorrows[i],
+        supplyAPY: rateToAPY(markets.supplyRates[i]),
+        borrowAPY: rateToAPY(markets.borrowRates[i]),
+        liquidity: markets.liquidity[i],
+        totalShares: markets.totalShares[i],
+        treasury: markets.treasury[i],
+        deficit: markets.deficits[i],
+    }));
+};
+
+// Actions on a borrower's position, which the risk module can preview
+export type PositionAction = 'supply' | 'withdraw' | 'borrow' | 'repay';
+// Plus adding and removing liquidity (fundPool / redeem), which leave positions untouched
+export type PoolAction = PositionAction | 'provide' | 'redeem';
+
+// Shares to redeem for `amount` of the signer's liquidity. Asking for the whole balance (or more)
+// redeems every share, so rounding never strands dust.
+const sharesForAmount = async (lendingPool: LendingPoolTest, tokenAddress: string, amount: BigNumber): Promise<BigNumber> => {
+    const owner = await lendingPool.signer.getAddress();
+    const shares = await lendingPool.lpShares(owner, tokenAddress);
+    const balance = await lendingPool.sharesToAmount(tokenAddress, shares);
+    if (amount.gte(balance)) return ethers.constants.MaxUint256;
+    return lendingPool.amountToShares(tokenAddress, amount);
+};
+
+// Repaying `ethers.constants.MaxUint256` repays the whole debt as of the block the transaction lands
+// in. Interest accrues until then, so what the wallet sends (native; the excess is refunded) or
+// approves (ERC20) is the current debt plus this margin.
+const REPAY_ALL_BUFFER_BPS = 10;
+
+// The most a repayment of `amount` can take from the signer's wallet
+const repayFunds = async (lendingPool: LendingPoolTest, tokenAddress: string, amount: BigNumber): Promise<BigNumber> => {
+    if (!amount.eq(ethers.constants.MaxUint256)) return amount;
+    const debt = await lendingPool.userDebt(await lendingPool.signer.getAddress(), tokenAddress);
+    return debt.mul(10_000 + REPAY_ALL_BUFFER_BPS).div(10_000).add(1);
+};
+
+// What the signer must have approved before repaying `amount` of an ERC20 debt
+export const getRepayFunds = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber): Promise<BigNumber> =>
+    repayFunds(getLendingPoolContract(signer, await signer.getChainId()), tokenAddress, amount);
+
+// Runs the write through callStatic with the same arguments, so a require() failure shows up as
+// a decoded PoolError before the wallet is asked to sign anything
+const dryRun = async (lendingPool: LendingPoolTest, action: PoolAction, tokenAddress: string, amount: BigNumber) => {
+    const isNative = tokenAddress === NATIVE_TOKEN_ADDRESS;
+    switch (action) {
+        case 'supply':
+            return lendingPool.callStatic.deposit(tokenAddress, amount, { value: isNative ? amount : 0 });
+        case 'withdraw':
+            return lendingPool.callStatic.withdraw(tokenAddress, amount);
+        case 'borrow':
+            return lendingPool.callStatic.borrow(tokenAddress, amount, { value: 0 });
+        case 'repay':
+            return lendingPool.callStatic.repay(tokenAddress, amount, {
+                value: isNative ? await repayFunds(lendingPool, tokenAddress, amount) : 0,
+            });
+        case 'provide':
+            return lendingPool.callStatic.fundPool(tokenAddress, amount, { value: isNative ? amount : 0 });
+        case 'redeem':
+            return lendingPool.callStatic.redeem(tokenAddress, await sharesForAmount(lendingPool, tokenAddress, amount));
+    }
+};
+
+const preflight = async (lendingPool: LendingPoolTest, action: PoolAction, tokenAddress: string, amount: BigNumber) => {
+    try {
+        await dryRun(lendingPool, action, tokenAddress, amount);
+    } catch (error) {
+        const poolError = decodePoolError(error);
+        console.warn(`[preflight] ${action} would revert: ${poolError.reason || poolError.code}`);
+        throw poolError;
+    }
+};
+
+// Simulates an action for the connected account without sending it.  Returns null when it
+// would succeed.  ERC20 supplies, repays and provides that still need an approval can't be simulated
+// yet (transferFrom would revert), so only the wallet balance is checked for those; the write
+// wrappers simulate again once the approval is in place.
+export const simulateTransaction = async (
+    signer: ethers.Signer,
+    action: PoolAction,
+    tokenAddress: string,
+    amount: BigNumber
+): Promise<PoolError | null> => {
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+
+    if (tokenAddress !== NATIVE_TOKEN_ADDRESS && (action === 'supply' || action === 'repay' || action === 'provide')) {
+        const owner = await signer.getAddress();
+        const funds = action === 'repay' ? await repayFunds(lendingPool, tokenAddress, amount) : amount;
+        const allowance = await getAllowance(signer.provider!, tokenAddress, owner);
+        if (allowance.lt(funds)) {
+            const balance = await getErc20Contract(tokenAddress, signer).balanceOf(owner);
+            return balance.lt(funds) ? poolErrorForReason('ERC20: transfer amount exceeds balance') : null;
+        }
+    }
+
+    try {
+        await dryRun(lendingPool, action, tokenAddress, amount);
+        return null;
+    } catch (error) {
+        return decodePoolError(error);
+    }
+};
+
 // Contract write functions
 export const deposit = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber) => {
-    const lendingPool = getLendingPoolContract(signer);
-    const isNative = tokenAddress === '0x0000000000000000000000000000000000000000';
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    await preflight(lendingPool, 'supply', tokenAddress, amount);
+    const isNative = tokenAddress === NATIVE_TOKEN_ADDRESS;
     const tx = await lendingPool.deposit(tokenAddress, amount, {
         value: isNative ? amount : 0,
     });
@@ -287,47 +449,180 @@ export const deposit = async (signer: ethers.Signer, tokenAddress: string, amoun
 };
 
 export const withdraw = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber) => {
-    const lendingPool = getLendingPoolContract(signer);
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    await preflight(lendingPool, 'withdraw', tokenAddress, amount);
     const tx = await lendingPool.withdraw(tokenAddress, amount);
     return tx;
 };
 
 export const borrow = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber) => {
-    const lendingPool = getLendingPoolContract(signer);
-    const isNative = tokenAddress === '0x0000000000000000000000000000000000000000';
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    await preflight(lendingPool, 'borrow', tokenAddress, amount);
     const tx = await lendingPool.borrow(tokenAddress, amount, {
-        value: isNative ? 0 : 0, // No value needed for borrow, but needed for contract signature
+        value: 0, // No value needed for borrow, but needed for contract signature
     });
     return tx;
 };
 
+// Repays `amount` of the signer's debt, or all of it for `ethers.constants.MaxUint256`
 export const repay = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber) => {
-    const lendingPool = getLendingPoolContract(signer);
-    const isNative = tokenAddress === '0x0000000000000000000000000000000000000000';
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    await preflight(lendingPool, 'repay', tokenAddress, amount);
+    const isNative = tokenAddress === NATIVE_TOKEN_ADDRESS;
     const tx = await lendingPool.repay(tokenAddress, amount, {
+        value: isNative ? await repayFunds(lendingPool, tokenAddress, amount) : 0,
+    });
+    return tx;
+};
+
+// Adds liquidity to the pool's reserves in exchange for shares
+export const provideLiquidity = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber) => {
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    await preflight(lendingPool, 'provide', tokenAddress, amount);
+    const isNative = tokenAddress === NATIVE_TOKEN_ADDRESS;
+    const tx = await lendingPool.fundPool(tokenAddress, amount, {
         value: isNative ? amount : 0,
     });
     return tx;
 };
 
-// Liquidation function
-export const liquidate = async (signer: ethers.Signer, userToLiquidate: string) => {
-    const lendingPool = getLendingPoolContract(signer);
-    const tx = await lendingPool.liquidate(userToLiquidate);
+// Redeems shares worth `amount` of the signer's liquidity (all of them when `amount` covers it)
+export const redeemLiquidity = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber) => {
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    await preflight(lendingPool, 'redeem', tokenAddress, amount);
+    const tx = await lendingPool.redeem(tokenAddress, await sharesForAmount(lendingPool, tokenAddress, amount));
+    return tx;
+};
+
+// Repays `repayAmount` of `user`'s `debtToken` debt (MaxUint256 for the close-factor maximum)
+// and seizes `collateralToken` at the liquidation bonus. A native repayment of the maximum
+// needs an explicit `value` covering it; the pool refunds the excess.
+export const liquidate = async (
+    signer: ethers.Signer,
+    user: string,
+    debtToken: string,
+    repayAmount: BigNumber,
+    collateralToken: string,
+    value: BigNumber = debtToken === NATIVE_TOKEN_ADDRESS ? repayAmount : BigNumber.from(0)
+) => {
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    try {
+        await lendingPool.callStatic.liquidate(user, debtToken, repayAmount, collateralToken, { value });
+    } catch (error) {
+        throw decodePoolError(error);
+    }
+    const tx = await lendingPool.liquidate(user, debtToken, repayAmount, collateralToken, { value });
+    return tx;
+};
+
+// The owner can retune liquidations at any time, so unlike getRiskParams this isn't cached
+export const getLiquidationParams = async (provider: ethers.providers.Provider): Promise<LiquidationParams> => {
+    const { chainId } = await provider.getNetwork();
+    const lendingPool = getLendingPoolContract(readProviderFor(provider, chainId), chainId);
+    const [closeFactorBps, liquidationBonusBps] = await Promise.all([
+        lendingPool.closeFactorBps(),
+        lendingPool.liquidationBonusBps(),
+    ]);
+    return { closeFactorBps: closeFactorBps.toNumber(), liquidationBonusBps: liquidationBonusBps.toNumber() };
+};
+
+// How far back to look for borrowers when the deploy block is unknown
+const FALLBACK_LOG_LOOKBACK_BLOCKS = 50000;
+
+// Borrowers ranked by indebtedness for the Liquidation Tool.  `scan` carries the logs already read
+// from one call to the next, so refreshing on every block only reads the new ones.
+export const getAtRiskAccounts = async (
+    provider: ethers.providers.Provider,
+    tokens: Token[],
+    scan: AccountScan | null
+): Promise<{ accounts: AtRiskAccount[]; scan: AccountScan }> => {
+    const { chainId } = await provider.getNetwork();
+    const lendingPool = getLendingPoolContract(readProviderFor(provider, chainId), chainId);
+
+    let startScan = scan;
+    if (!startScan) {
+        let deployBlock = getDeployBlock(chainId);
+        if (deployBlock === null) {
+            console.warn(`[getAtRiskAccounts] No deploy block for chain ${chainId}, only reading the last ${FALLBACK_LOG_LOOKBACK_BLOCKS} blocks`);
+            deployBlock = Math.max(0, (await lendingPool.provider.getBlockNumber()) - FALLBACK_LOG_LOOKBACK_BLOCKS);
+        }
+        startScan = newAccountScan(deployBlock);
+    }
+
+    const [nextScan, params, liquidation] = await Promise.all([
+        scanAccounts(lendingPool, startScan),
+        getRiskParams(provider),
+        getLiquidationParams(provider),
+    ]);
+    const accounts = await rankAtRiskAccounts(lendingPool, chainId, nextScan.accounts, tokens, params, liquidation);
+    return { accounts, scan: nextScan };
+};
+
+export const getPoolOwner = async (provider: ethers.providers.Provider): Promise<string> => {
+    const { chainId } = await provider.getNetwork();
+    return getLendingPoolContract(readProviderFor(provider, chainId), chainId).owner();
+};
+
+// What changed in the pool over a range of blocks, for the live update layer: the pool's decoded
+// events, and every token's current price (null where the oracle rejected it)
+export const getPoolChanges = async (
+    provider: ethers.providers.Provider,
+    fromBlock: number,
+    toBlock: number,
+    tokens: Token[]
+): Promise<{ events: PoolEvent[]; prices: { [token: string]: string | null } }> => {
+    const { chainId } = await provider.getNetwork();
+    const readProvider = readProviderFor(provider, chainId);
+    const lendingPool = getLendingPoolContract(readProvider, chainId);
+
+    const [logs, priceResults] = await Promise.all([
+        readProvider.getLogs({ address: lendingPool.address, fromBlock, toBlock }),
+        aggregate(readProvider, chainId, tokens.map((token) => contractCall(lendingPool, 'getTokenPrice', token.address))) as
+            Promise<(CallResult<LendingPoolTest, 'getTokenPrice'> | null)[]>,
+    ]);
+
+    const events: PoolEvent[] = [];
+    for (const log of logs) {
+        try {
+            const parsed = lendingPool.interface.parseLog(log);
+            events.push({
+                name: parsed.name,
+                args: Object.fromEntries(parsed.eventFragment.inputs.map((input, i) => [input.name, String(parsed.args[i])])),
+            });
+        } catch (error) {
+            // An event the frontend's ABI doesn't know names no token, so it counts as touching every market
+            events.push({ name: 'Unknown', args: {} });
+        }
+    }
+    const prices = Object.fromEntries(tokens.map((token, i) => [token.address, priceResults[i]?.[0].toString() ?? null]));
+    return { events, prices };
+};
+
+// Owner only: stops the treasury covering a token's outstanding deficit, leaving the loss with its
+// liquidity providers
+export const socializeDeficit = async (signer: ethers.Signer, tokenAddress: string) => {
+    const lendingPool = getLendingPoolContract(signer, await signer.getChainId());
+    try {
+        await lendingPool.callStatic.socializeDeficit(tokenAddress);
+    } catch (error) {
+        throw decodePoolError(error);
+    }
+    const tx = await lendingPool.socializeDeficit(tokenAddress);
     return tx;
 };
 
 // ERC20 approval functions
 export const approve = async (signer: ethers.Signer, tokenAddress: string, amount: BigNumber) => {
     const erc20 = getErc20Contract(tokenAddress, signer);
-    const tx = await erc20.approve(LENDING_POOL_ADDRESS, amount);
+    const tx = await erc20.approve(getLendingPoolAddress(await signer.getChainId()), amount);
     return tx;
 };
 
 export const getAllowance = async (provider: ethers.providers.Provider, tokenAddress: string, ownerAddress: string): Promise<BigNumber> => {
     try {
-        const erc20 = getErc20Contract(tokenAddress, provider);
-        return await erc20.allowance(ownerAddress, LENDING_POOL_ADDRESS);
+        const { chainId } = await provider.getNetwork();
+        const erc20 = getErc20Contract(tokenAddress, readProviderFor(provider, chainId));
+        return await erc20.allowance(ownerAddress, getLendingPoolAddress(chainId));
     } catch (error) {
         console.error("Error getting allowance:", error);
         return BigNumber.from(0);
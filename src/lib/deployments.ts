@@ -0,0 +1,75 @@
+import { MANIFESTS } from '../../deployments';
+import bsc from '../../config/networks/bsc.json';
+import bscTestnet from '../../config/networks/bscTestnet.json';
+import mainnet from '../../config/networks/mainnet.json';
+import sepolia from '../../config/networks/sepolia.json';
+
+// Written by scripts/deploy.ts to deployments/<chainId>.json for every deployment
+export interface DeploymentManifest {
+    chainId: number;
+    network: string;
+    lendingPool: {
+        address: string;
+        deployBlock: number;
+        // keccak256 of the deployed contract's ABI JSON, to spot a stale frontend ABI
+        abiHash: string;
+    };
+    // Only present on local chains, which have no canonical Multicall3
+    multicall?: string;
+    tokens: { address: string; weight: number }[];
+    deployedAt: string;
+}
+
+const manifests: { [chainId: number]: DeploymentManifest } = MANIFESTS;
+
+// Legacy configuration for deployments that predate the manifests.  Primary var is
+// NEXT_PUBLIC_CONTRACT_ADDRESS (NEXT_PUBLIC_LENDING_POOL_ADDRESS kept for backwards-compatibility).
+const ENV_LENDING_POOL_ADDRESS =
+    process.env.NEXT_PUBLIC_CONTRACT_ADDRESS ||
+    process.env.NEXT_PUBLIC_LENDING_POOL_ADDRESS ||
+    '0xFfcB1025c44d7a09f07a043F85b695619C5AFE1e';
+
+export const getDeployment = (chainId: number): DeploymentManifest | undefined => manifests[chainId];
+
+// The chain the frontend asks wallets to switch to: NEXT_PUBLIC_CHAIN_ID if set, otherwise the
+// first chain with a manifest, otherwise Sepolia.
+export const DEFAULT_CHAIN_ID: number =
+    parseInt(process.env.NEXT_PUBLIC_CHAIN_ID || '') ||
+    Number(Object.keys(manifests)[0]) ||
+    11155111;
+
+// Every chain with a manifest is usable, plus the default chain (which may rely on env config)
+export const SUPPORTED_CHAIN_IDS: number[] = Array.from(
+    new Set([DEFAULT_CHAIN_ID, ...Object.keys(manifests).map(Number)])
+);
+
+export const getLendingPoolAddress = (chainId: number): string => {
+    return getDeployment(chainId)?.lendingPool.address || ENV_LENDING_POOL_ADDRESS;
+};
+
+// Where the pool's event history starts.  Env-configured deployments have no manifest, so they
+// need NEXT_PUBLIC_DEPLOY_BLOCK; null when neither knows it.
+export const getDeployBlock = (chainId: number): number | null => {
+    const manifestBlock = getDeployment(chainId)?.lendingPool.deployBlock;
+    if (manifestBlock !== undefined) return manifestBlock;
+    const envBlock = parseInt(process.env.NEXT_PUBLIC_DEPLOY_BLOCK || '');
+    return Number.isNaN(envBlock) ? null : envBlock;
+};
+
+// Each configured network's public RPC endpoints, from config/networks
+const NETWORK_RPC_URLS: { [chainId: number]: string[] } = Object.fromEntries(
+    [bsc, bscTestnet, mainnet, sepolia].map((network) => [network.chainId, network.rpcUrls])
+);
+
+// Hardhat chains are read through the local node
+const LOCAL_CHAIN_IDS = [31337, 1337];
+const LOCAL_RPC_URL = 'http://127.0.0.1:8545';
+
+// The JSON-RPC endpoints to read `chainId` through, most preferred first; empty when the chain
+// has none configured.  NEXT_PUBLIC_RPC_URL (e.g. a private Infura/Alchemy key) is for the
+// default chain only and takes priority over its public endpoints.
+export const getRpcUrls = (chainId: number): string[] => {
+    const urls = LOCAL_CHAIN_IDS.includes(chainId) ? [LOCAL_RPC_URL] : NETWORK_RPC_URLS[chainId] || [];
+    const dedicated = chainId === DEFAULT_CHAIN_ID ? process.env.NEXT_PUBLIC_RPC_URL : undefined;
+    return dedicated ? Array.from(new Set([dedicated, ...urls])) : urls;
+};
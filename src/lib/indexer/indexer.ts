@@ -0,0 +1,176 @@
+import { ethers } from 'ethers';
+import type { LendingPoolTest } from '../../types/contracts';
+import { BlockCheckpoint, IndexedEvent, IndexState, IndexStore, INDEX_VERSION } from './store';
+
+// The pool events the index keeps.  Liquidity providers' withdrawals are LiquidityRedeemed, which
+// replaced PoolFundsWithdrawn when funding started minting shares.
+export const INDEXED_EVENTS = [
+    'Deposited',
+    'Withdrawn',
+    'Borrowed',
+    'Repaid',
+    'Liquidated',
+    'PoolFunded',
+    'LiquidityRedeemed',
+    'TokenAdded',
+] as const;
+
+export type IndexedEventName = typeof INDEXED_EVENTS[number];
+
+export interface SyncOptions {
+    deployBlock: number;
+    // Blocks below the tip left unindexed, as the likeliest to be reorganised
+    confirmations?: number;
+    // Widest block range per eth_getLogs request
+    chunkSize?: number;
+    // How far below the last indexed block checkpoints are kept.  A reorg deeper than this
+    // can't be traced back to where it forked, so the pool is reindexed from its deploy block.
+    reorgWindow?: number;
+}
+
+export interface SyncResult {
+    state: IndexState;
+    added: number;
+    // Events dropped because their blocks were reorganised away
+    removed: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 5000;
+const DEFAULT_REORG_WINDOW = 128;
+// Chunks read again in a row because the chain changed under them, before giving up until the next sync
+const MAX_UNSTABLE_READS = 3;
+
+// Args naming the tokens an event moves
+const TOKEN_ARGS = ['token', 'debtToken', 'collateralToken'];
+
+const emptyState = (chainId: number, pool: string, deployBlock: number): IndexState => ({
+    version: INDEX_VERSION,
+    chainId,
+    pool,
+    deployBlock,
+    lastBlock: deployBlock - 1,
+    checkpoints: [],
+    events: [],
+});
+
+// The newest checkpoint still on the chain, or -1 if none is
+const findForkPoint = async (provider: ethers.providers.Provider, checkpoints: BlockCheckpoint[]): Promise<number> => {
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+        const block = await provider.getBlock(checkpoints[i].number);
+        if (block && block.hash === checkpoints[i].hash) return i;
+    }
+    return -1;
+};
+
+// Timestamp and prices are filled in by further reads
+const toIndexedEvent = (pool: LendingPoolTest, log: ethers.providers.Log): IndexedEvent => {
+    const parsed = pool.interface.parseLog(log);
+    return {
+        id: `${log.transactionHash}:${log.logIndex}`,
+        name: parsed.name,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: 0,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        args: Object.fromEntries(parsed.eventFragment.inputs.map((input, i) => [input.name, String(parsed.args[i])])),
+        prices: {},
+    };
+};
+
+// Prices each token the events move as of the event's block, reading each block and token once.
+// TokenAdded only lists a token, so it isn't priced.  Reads of blocks a node has pruned, or of
+// prices the oracle rejected, leave the price out.
+const priceEvents = async (pool: LendingPoolTest, events: IndexedEvent[]) => {
+    const reads = new Map<string, Promise<string | null>>();
+    const priceAt = (token: string, blockNumber: number) => {
+        const key = `${blockNumber}:${token}`;
+        if (!reads.has(key)) {
+            reads.set(key, pool.getTokenPrice(token, { blockTag: blockNumber })
+                .then((price) => price.toString())
+                .catch(() => null));
+        }
+        return reads.get(key)!;
+    };
+
+    await Promise.all(events.filter((event) => event.name !== 'TokenAdded').map(async (event) => {
+        for (const token of TOKEN_ARGS.map((arg) => event.args[arg]).filter(Boolean)) {
+            const price = await priceAt(token, event.blockNumber);
+            if (price !== null) event.prices[token] = price;
+        }
+    }));
+};
+
+// Brings the stored index up to `confirmations` blocks below the tip.  Before every chunk of
+// logs it checks the newest checkpoint is still on the chain; if a reorg replaced it, the events
+// above the newest checkpoint that survived are dropped and those blocks read again.  Progress
+// is saved after every chunk, so an interrupted sync picks up where it stopped.
+export const syncIndex = async (pool: LendingPoolTest, store: IndexStore, options: SyncOptions): Promise<SyncResult> => {
+    const { deployBlock, confirmations = 0, chunkSize = DEFAULT_CHUNK_SIZE, reorgWindow = DEFAULT_REORG_WINDOW } = options;
+    const provider = pool.provider;
+    const { chainId } = await provider.getNetwork();
+
+    let state = await store.load();
+    // A redeployed pool (e.g. a restarted local chain) starts a new index
+    if (!state || state.version !== INDEX_VERSION || state.chainId !== chainId || state.pool !== pool.address || state.deployBlock !== deployBlock) {
+        state = emptyState(chainId, pool.address, deployBlock);
+    }
+
+    const filter = {
+        address: pool.address,
+        topics: [INDEXED_EVENTS.map((name) => pool.interface.getEventTopic(name))],
+    };
+    // Not getBlockNumber(): ethers never lets that go backwards, even after a reorg to a shorter chain
+    const target = (await provider.getBlock('latest')).number - confirmations;
+    let added = 0;
+    let removed = 0;
+    let unstableReads = 0;
+
+    for (;;) {
+        const forkPoint = await findForkPoint(provider, state.checkpoints);
+        if (forkPoint < state.checkpoints.length - 1) {
+            const ancestor: number = forkPoint === -1 ? deployBlock - 1 : state.checkpoints[forkPoint].number;
+            const kept: IndexedEvent[] = state.events.filter((event) => event.blockNumber <= ancestor);
+            console.warn(`[indexer] Reorg on chain ${chainId}: reindexing from block ${ancestor + 1}`);
+            removed += state.events.length - kept.length;
+            state = { ...state, lastBlock: ancestor, checkpoints: state.checkpoints.slice(0, forkPoint + 1), events: kept };
+            await store.save(state);
+        }
+        if (state.lastBlock >= target) break;
+
+        const fromBlock = state.lastBlock + 1;
+        const toBlock = Math.min(fromBlock + chunkSize - 1, target);
+        const tip = await provider.getBlock(toBlock);
+        // The chain got shorter since the sync started
+        if (!tip) break;
+        const logs = await provider.getLogs({ ...filter, fromBlock, toBlock });
+        const events = logs.map((log) => toIndexedEvent(pool, log));
+        await priceEvents(pool, events);
+        // Read after the prices, so a block still matching its logs means the prices came from it too
+        const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+        const blocks = await Promise.all(blockNumbers.map((number) => provider.getBlock(number)));
+        const blocksByNumber = new Map(blocks.filter((block) => block).map((block) => [block.number, block]));
+
+        // Logs from a block that has since been replaced; the next pass finds out how far back
+        if (logs.some((log) => blocksByNumber.get(log.blockNumber)?.hash !== log.blockHash)) {
+            if (++unstableReads >= MAX_UNSTABLE_READS) {
+                throw new Error(`Chain ${chainId} kept reorganising while blocks ${fromBlock}-${toBlock} were read`);
+            }
+            continue;
+        }
+        unstableReads = 0;
+
+        for (const event of events) event.timestamp = blocksByNumber.get(event.blockNumber)!.timestamp;
+        added += events.length;
+        state = {
+            ...state,
+            lastBlock: toBlock,
+            checkpoints: [...state.checkpoints, { number: toBlock, hash: tip.hash }]
+                .filter((checkpoint) => checkpoint.number >= toBlock - reorgWindow),
+            events: [...state.events, ...events],
+        };
+        await store.save(state);
+    }
+
+    return { state, added, removed };
+};
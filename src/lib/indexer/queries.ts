@@ -0,0 +1,90 @@
+import { BigNumber } from 'ethers';
+import { IndexedEvent, IndexState } from './store';
+
+// Every indexed event an account took part in, newest first: its own deposits, withdrawals,
+// borrows, repayments and liquidity, and liquidations of it or by it
+export const getAccountActivity = (state: IndexState, account: string): IndexedEvent[] => {
+    const address = account.toLowerCase();
+    return state.events
+        .filter((event) => event.args.user?.toLowerCase() === address || event.args.liquidator?.toLowerCase() === address)
+        .reverse();
+};
+
+// Running sums of one token's flows through the pool, as decimal strings in token units
+export interface TokenTotals {
+    token: string;
+    // From TokenAdded; null for tokens seen only in other events
+    weight: string | null;
+    deposited: string;
+    withdrawn: string;
+    borrowed: string;
+    repaid: string;
+    // Debt repaid by liquidators, and collateral they seized, in this token
+    liquidationRepaid: string;
+    liquidationSeized: string;
+    funded: string;
+    redeemed: string;
+    events: number;
+}
+
+type Sums = { [K in Exclude<keyof TokenTotals, 'token' | 'weight' | 'events'>]: BigNumber };
+
+// Which running sum each event adds to, and from which arg
+const FLOWS: { [event: string]: { token: string; amount: string; sum: keyof Sums }[] } = {
+    Deposited: [{ token: 'token', amount: 'amount', sum: 'deposited' }],
+    Withdrawn: [{ token: 'token', amount: 'amount', sum: 'withdrawn' }],
+    Borrowed: [{ token: 'token', amount: 'amount', sum: 'borrowed' }],
+    Repaid: [{ token: 'token', amount: 'amount', sum: 'repaid' }],
+    Liquidated: [
+        { token: 'debtToken', amount: 'repaidAmount', sum: 'liquidationRepaid' },
+        { token: 'collateralToken', amount: 'seizedAmount', sum: 'liquidationSeized' },
+    ],
+    PoolFunded: [{ token: 'token', amount: 'amount', sum: 'funded' }],
+    LiquidityRedeemed: [{ token: 'token', amount: 'amount', sum: 'redeemed' }],
+};
+
+// Totals for every token the pool has listed or moved, in listing order
+export const getTokenTotals = (state: IndexState): TokenTotals[] => {
+    const totals = new Map<string, { weight: string | null; sums: Sums; events: number }>();
+    const totalsOf = (token: string) => {
+        let entry = totals.get(token);
+        if (!entry) {
+            const zero = BigNumber.from(0);
+            entry = {
+                weight: null,
+                sums: { deposited: zero, withdrawn: zero, borrowed: zero, repaid: zero, liquidationRepaid: zero, liquidationSeized: zero, funded: zero, redeemed: zero },
+                events: 0,
+            };
+            totals.set(token, entry);
+        }
+        return entry;
+    };
+
+    for (const event of state.events) {
+        if (event.name === 'TokenAdded') {
+            totalsOf(event.args.token).weight = event.args.weight;
+            continue;
+        }
+        const touched = new Set<string>();
+        for (const flow of FLOWS[event.name] || []) {
+            const entry = totalsOf(event.args[flow.token]);
+            entry.sums[flow.sum] = entry.sums[flow.sum].add(event.args[flow.amount]);
+            touched.add(event.args[flow.token]);
+        }
+        touched.forEach((token) => totalsOf(token).events++);
+    }
+
+    return Array.from(totals, ([token, { weight, sums, events }]) => ({
+        token,
+        weight,
+        ...(Object.fromEntries(Object.entries(sums).map(([key, value]) => [key, value.toString()])) as { [K in keyof Sums]: string }),
+        events,
+    }));
+};
+
+// Liquidations, newest first; with `account`, only those of it or by it
+export const getLiquidations = (state: IndexState, account?: string): IndexedEvent[] => {
+    const liquidations = state.events.filter((event) => event.name === 'Liquidated');
+    if (!account) return liquidations.reverse();
+    return getAccountActivity({ ...state, events: liquidations }, account);
+};
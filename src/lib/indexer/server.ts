@@ -0,0 +1,81 @@
+import path from 'path';
+import { LendingPoolTest__factory } from '../../types/contracts';
+import { FailoverRpcProvider } from '../rpcProvider';
+import { DEFAULT_CHAIN_ID, getDeployBlock, getLendingPoolAddress, getRpcUrls } from '../deployments';
+import { syncIndex } from './indexer';
+import { IndexState, jsonFileStore } from './store';
+
+// Server-side access to the pool's event index for the API routes.  Each chain's index lives in
+// INDEXER_DATA_DIR/<chainId>.json (.indexer/ by default), kept current by `npm run index:local`
+// or, failing that, by the routes themselves syncing it on demand.
+
+const LOCAL_CHAIN_IDS = [31337, 1337];
+
+// On-demand syncs run at most this often per chain; requests in between are served from the store
+const MIN_SYNC_INTERVAL_MS = 5000;
+
+export const indexFile = (chainId: number): string =>
+    path.join(process.env.INDEXER_DATA_DIR || path.join(process.cwd(), '.indexer'), `${chainId}.json`);
+
+// Local chains only reorganise when reset, so their blocks are indexed as soon as they're mined
+export const confirmationsFor = (chainId: number): number => {
+    const configured = parseInt(process.env.INDEXER_CONFIRMATIONS || '');
+    if (!Number.isNaN(configured)) return configured;
+    return LOCAL_CHAIN_IDS.includes(chainId) ? 0 : 12;
+};
+
+// INDEXER_RPC_URL, or else the endpoints the frontend reads the chain through
+const rpcUrlsFor = (chainId: number): string[] => {
+    const urls = process.env.INDEXER_RPC_URL ? [process.env.INDEXER_RPC_URL] : getRpcUrls(chainId);
+    if (urls.length === 0) throw new Error(`No RPC URL to index chain ${chainId}; set INDEXER_RPC_URL`);
+    return urls;
+};
+
+// `?chainId=` of an API request, defaulting to the frontend's chain; null if it isn't a number
+export const requestedChainId = (url: URL): number | null => {
+    const param = url.searchParams.get('chainId');
+    if (param === null) return DEFAULT_CHAIN_ID;
+    const chainId = Number(param);
+    return Number.isInteger(chainId) && chainId > 0 ? chainId : null;
+};
+
+const syncs: { [chainId: number]: { pending: Promise<IndexState> | null; finishedAt: number } } = {};
+
+const sync = async (chainId: number): Promise<IndexState> => {
+    const deployBlock = getDeployBlock(chainId);
+    if (deployBlock === null) throw new Error(`No deploy block known for chain ${chainId}`);
+
+    const provider = new FailoverRpcProvider(rpcUrlsFor(chainId), chainId);
+    const pool = LendingPoolTest__factory.connect(getLendingPoolAddress(chainId), provider);
+    const { state } = await syncIndex(pool, jsonFileStore(indexFile(chainId)), {
+        deployBlock,
+        confirmations: confirmationsFor(chainId),
+    });
+    return state;
+};
+
+// The chain's index, synced first unless that happened moments ago.  If the chain can't be
+// reached the last saved index is served as it is.
+export const getIndex = async (chainId: number): Promise<IndexState> => {
+    const entry = syncs[chainId] || (syncs[chainId] = { pending: null, finishedAt: 0 });
+    if (entry.pending) return entry.pending;
+
+    const store = jsonFileStore(indexFile(chainId));
+    if (Date.now() - entry.finishedAt < MIN_SYNC_INTERVAL_MS) {
+        const saved = await store.load();
+        if (saved) return saved;
+    }
+
+    entry.pending = sync(chainId)
+        .catch(async (error) => {
+            const saved = await store.load();
+            if (!saved) throw error;
+            console.warn(`[indexer] Sync of chain ${chainId} failed, serving the saved index:`, error);
+            return saved;
+        })
+        .finally(() => {
+            entry.pending = null;
+            entry.finishedAt = Date.now();
+        });
+    return entry.pending;
+};
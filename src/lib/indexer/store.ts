@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+
+// One pool event, with its args as strings so the index round-trips through JSON unchanged
+export interface IndexedEvent {
+    // `${transactionHash}:${logIndex}`, unique per log
+    id: string;
+    name: string;
+    blockNumber: number;
+    blockHash: string;
+    // Unix seconds of the block
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+    // Addresses checksummed, uint256s in decimal
+    args: { [name: string]: string };
+    // getTokenPrice of each token the event moves, as of its block; missing where the read failed
+    prices: { [token: string]: string };
+}
+
+// A block the index has seen, kept to find where a reorg forked off
+export interface BlockCheckpoint {
+    number: number;
+    hash: string;
+}
+
+// Bumped whenever IndexedEvent changes shape; older indexes are rebuilt
+export const INDEX_VERSION = 2;
+
+export interface IndexState {
+    version: number;
+    chainId: number;
+    pool: string;
+    deployBlock: number;
+    // Last block whose logs are in `events`; deployBlock - 1 before anything is indexed
+    lastBlock: number;
+    // Recent indexed blocks, oldest first, within the reorg window below lastBlock
+    checkpoints: BlockCheckpoint[];
+    // In chain order
+    events: IndexedEvent[];
+}
+
+export interface IndexStore {
+    // Null when nothing has been saved yet
+    load: () => Promise<IndexState | null>;
+    save: (state: IndexState) => Promise<void>;
+}
+
+// Keeps the index in memory only, e.g. for tests
+export const memoryStore = (): IndexStore => {
+    let saved: string | null = null;
+    return {
+        load: async () => (saved === null ? null : JSON.parse(saved)),
+        save: async (state) => {
+            saved = JSON.stringify(state);
+        },
+    };
+};
+
+// Keeps the index in one JSON file.  Saves go to a temporary file that is then renamed over the
+// old one, so a crash mid-write leaves the previous index intact.
+export const jsonFileStore = (file: string): IndexStore => ({
+    load: async () => {
+        try {
+            return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    },
+    save: async (state) => {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        const temp = `${file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(state));
+        await fs.promises.rename(temp, file);
+    },
+});
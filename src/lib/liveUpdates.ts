@@ -0,0 +1,121 @@
+// Which parts of the app's state a new block makes stale.  The pages keep three slices:
+//   account  - the connected account's position and wallet balances (getUserData)
+//   markets  - every token's reserves, rates and price (getMarkets)
+//   activity - the account's indexed history (/api/activity)
+// and only refetch the ones a block's pool events or price moves touched.
+
+import type { BigNumber, providers } from 'ethers';
+
+export type UpdateSlice = 'account' | 'markets' | 'activity';
+
+export const ALL_SLICES: UpdateSlice[] = ['account', 'markets', 'activity'];
+
+// A decoded pool event, args as strings like the indexer's
+export interface PoolEvent {
+    name: string;
+    args: { [name: string]: string };
+}
+
+// Args naming the tokens an event moves or reconfigures
+const TOKEN_ARGS = ['token', 'debtToken', 'collateralToken'];
+
+// Tokens the account has collateral, debt or liquidity in
+export const positionTokensOf = (position: {
+    collateral: { [token: string]: BigNumber };
+    debt: { [token: string]: BigNumber };
+    lpShares: { [token: string]: BigNumber };
+}): string[] => {
+    const held = [position.collateral, position.debt, position.lpShares].flatMap((amounts) =>
+        Object.keys(amounts).filter((token) => amounts[token].gt(0))
+    );
+    return Array.from(new Set(held));
+};
+
+// Tokens whose price differs between two reads, including ones that appeared or became unreadable
+export const movedPrices = (previous: { [token: string]: string | null }, next: { [token: string]: string | null }): string[] =>
+    Object.keys(next).filter((token) => previous[token] !== next[token]);
+
+// The slices made stale by `events` and by the tokens in `priceMoves` for `account` (null when
+// disconnected), whose position holds `positionTokens`
+export const affectedSlices = (
+    events: PoolEvent[],
+    priceMoves: string[],
+    account: string | null,
+    positionTokens: string[]
+): UpdateSlice[] => {
+    const self = account?.toLowerCase();
+    const held = new Set(positionTokens.map((token) => token.toLowerCase()));
+    const slices = new Set<UpdateSlice>();
+
+    // Every pool event changes some market's reserves, borrows, rates or listing
+    if (events.length > 0 || priceMoves.length > 0) slices.add('markets');
+    if (priceMoves.some((token) => held.has(token.toLowerCase()))) slices.add('account');
+
+    for (const event of events) {
+        const involved = self !== undefined &&
+            (event.args.user?.toLowerCase() === self || event.args.liquidator?.toLowerCase() === self);
+        if (involved) {
+            slices.add('account');
+            slices.add('activity');
+            continue;
+        }
+
+        // Someone else moving a token changes its rates and reserves, and so the account's debt,
+        // APYs and liquidity balance in it.  Events naming no token (liquidation parameters,
+        // the reserve factor) change every market.
+        const tokens = TOKEN_ARGS.map((arg) => event.args[arg]).filter(Boolean);
+        if (tokens.length === 0 || tokens.some((token) => held.has(token.toLowerCase()))) {
+            slices.add('account');
+        }
+    }
+
+    return ALL_SLICES.filter((slice) => slices.has(slice));
+};
+
+// Calls `onBlock` with each new block number.  Providers that can't deliver block events don't
+// throw on subscribing, they just stay silent, while a working subscription reports the current
+// block right away.  So if nothing arrives within `firstBlockTimeoutMs` the subscription is dropped
+// for polling getBlockNumber every `pollIntervalMs`, reporting only numbers that moved.  Returns
+// the function that stops watching.
+export const watchBlocks = (
+    provider: providers.Provider,
+    onBlock: (blockNumber: number) => void,
+    firstBlockTimeoutMs: number,
+    pollIntervalMs: number
+): (() => void) => {
+    let stopped = false;
+    let fallbackId: ReturnType<typeof setTimeout> | null = null;
+    let pollId: ReturnType<typeof setInterval> | null = null;
+    let polledBlock: number | null = null;
+
+    const onSubscribedBlock = (blockNumber: number) => {
+        if (fallbackId) clearTimeout(fallbackId);
+        if (!stopped) onBlock(blockNumber);
+    };
+
+    const poll = async () => {
+        try {
+            const blockNumber = await provider.getBlockNumber();
+            if (stopped || blockNumber === polledBlock) return;
+            polledBlock = blockNumber;
+            onBlock(blockNumber);
+        } catch (error) {
+            console.warn('[liveUpdates] Could not read the block number:', error);
+        }
+    };
+
+    provider.on('block', onSubscribedBlock);
+    fallbackId = setTimeout(() => {
+        console.warn(`[liveUpdates] No block event within ${firstBlockTimeoutMs}ms, polling the block number instead`);
+        provider.off('block', onSubscribedBlock);
+        poll();
+        pollId = setInterval(poll, pollIntervalMs);
+    }, firstBlockTimeoutMs);
+
+    return () => {
+        stopped = true;
+        if (fallbackId) clearTimeout(fallbackId);
+        provider.off('block', onSubscribedBlock);
+        if (pollId) clearInterval(pollId);
+    };
+};
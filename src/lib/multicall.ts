@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+import { Multicall3, Multicall3__factory } from '../types/contracts';
+import { getDeployment } from './deployments';
+
+// Canonical Multicall3 deployment – same address on Sepolia, Ethereum mainnet and BSC.
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Hardhat chains start empty, so scripts/deploy.ts deploys its own Multicall3 there and
+// records it in the chain's manifest (NEXT_PUBLIC_MULTICALL_ADDRESS still overrides it).
+const LOCAL_CHAIN_IDS = [31337, 1337];
+
+const multicallInterface = Multicall3__factory.createInterface();
+
+// A single read to batch.  An empty target means "the Multicall contract itself", which
+// is how native balances are read (see ethBalanceCall).
+export interface ContractCall {
+    target: string;
+    iface: ethers.utils.Interface;
+    method: string;
+    args?: unknown[];
+}
+
+// Decoded return values of a batched view call, shaped like the typed `contract.functions[method]`
+export type CallResult<C extends ethers.BaseContract, M extends keyof C['functions']> =
+    Awaited<ReturnType<C['functions'][M]>>;
+
+// Builds a call from a typed contract so method names and arguments are checked against the ABI
+export const contractCall = <C extends ethers.BaseContract, M extends keyof C['functions'] & string>(
+    contract: C,
+    method: M,
+    ...args: Parameters<C['functions'][M]>
+): ContractCall => ({
+    target: contract.address,
+    iface: contract.interface,
+    method,
+    args,
+});
+
+export const getMulticallAddress = (chainId: number): string | null => {
+    if (LOCAL_CHAIN_IDS.includes(chainId)) {
+        return process.env.NEXT_PUBLIC_MULTICALL_ADDRESS || getDeployment(chainId)?.multicall || null;
+    }
+    return MULTICALL3_ADDRESS;
+};
+
+// Native balances have no contract to call, so they go through Multicall3.getEthBalance
+export const ethBalanceCall = (account: string): ContractCall => ({
+    target: '',
+    iface: multicallInterface,
+    method: 'getEthBalance',
+    args: [account],
+});
+
+const decodeResult = (call: ContractCall, returnData: string): ethers.utils.Result | null => {
+    try {
+        return call.iface.decodeFunctionResult(call.method, returnData);
+    } catch (error) {
+        // Empty return data (no code at target) or an unexpected shape
+        return null;
+    }
+};
+
+// Sends each call as its own eth_call.  Used when the chain has no Multicall deployment.
+const callIndividually = async (
+    provider: ethers.providers.Provider,
+    calls: ContractCall[]
+): Promise<(ethers.utils.Result | null)[]> => {
+    return Promise.all(calls.map(async (call) => {
+        try {
+            if (!call.target && call.method === 'getEthBalance') {
+                const balance = await provider.getBalance(call.args![0] as string);
+                return [balance] as unknown as ethers.utils.Result;
+            }
+            const data = call.iface.encodeFunctionData(call.method, call.args || []);
+            const returnData = await provider.call({ to: call.target, data });
+            return decodeResult(call, returnData);
+        } catch (error) {
+            return null;
+        }
+    }));
+};
+
+// Executes all calls in one aggregate3 eth_call.  Every entry of the result is the decoded
+// return value of the matching call, or null when that call reverted or could not be decoded,
+// so callers can keep their own per-field fallbacks.
+export const aggregate = async (
+    provider: ethers.providers.Provider,
+    chainId: number,
+    calls: ContractCall[]
+): Promise<(ethers.utils.Result | null)[]> => {
+    if (calls.length === 0) return [];
+
+    const multicallAddress = getMulticallAddress(chainId);
+    if (!multicallAddress) {
+        console.warn(`[multicall] No Multicall3 configured for chain ${chainId}, sending ${calls.length} calls individually`);
+        return callIndividually(provider, calls);
+    }
+
+    try {
+        const data = multicallInterface.encodeFunctionData('aggregate3', [
+            calls.map((call) => ({
+                target: call.target || multicallAddress,
+                allowFailure: true,
+                callData: call.iface.encodeFunctionData(call.method, call.args || []),
+            })),
+        ]);
+        const returnData = await provider.call({ to: multicallAddress, data });
+        const [results] = multicallInterface.decodeFunctionResult('aggregate3', returnData) as
+            [Multicall3.ResultStructOutput[]];
+
+        return results.map((result, i) =>
+            result.success ? decodeResult(calls[i], result.returnData) : null
+        );
+    } catch (error) {
+        console.warn('[multicall] aggregate3 failed, falling back to individual calls:', error);
+        return callIndividually(provider, calls);
+    }
+};
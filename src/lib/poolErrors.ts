@@ -0,0 +1,160 @@
+import { ethers } from 'ethers';
+
+export type PoolErrorCode =
+    | 'AMOUNT_ZERO'
+    | 'UNSUPPORTED_TOKEN'
+    | 'LOW_COLLATERAL'
+    | 'EXCEEDS_CAPACITY'
+    | 'EXCEEDS_LTV'
+    | 'LOW_RESERVE'
+    | 'LOW_SHARES'
+    | 'EXCEEDS_LIMIT'
+    | 'REPAY_TOO_MUCH'
+    | 'NO_DEBT'
+    | 'HEALTHY'
+    | 'EXCEEDS_CLOSE_FACTOR'
+    | 'NO_COLLATERAL'
+    | 'NO_DEFICIT'
+    | 'PRICE_UNAVAILABLE'
+    | 'INVALID_NATIVE_VALUE'
+    | 'TRANSFER_FAILED'
+    | 'INSUFFICIENT_ALLOWANCE'
+    | 'INSUFFICIENT_BALANCE'
+    | 'INSUFFICIENT_FUNDS'
+    | 'USER_REJECTED'
+    | 'UNKNOWN';
+
+interface PoolErrorInfo {
+    code: PoolErrorCode;
+    message: string;
+}
+
+// Keyed by the exact require() message in LendingPoolTest.sol (plus the OpenZeppelin ERC20
+// messages a token can revert with during transferFrom)
+const REVERT_REASONS: { [reason: string]: PoolErrorInfo } = {
+    'Amount = 0': { code: 'AMOUNT_ZERO', message: 'Enter an amount greater than zero.' },
+    'Unsupported token': { code: 'UNSUPPORTED_TOKEN', message: 'This token is not supported by the pool.' },
+    'Low collateral': { code: 'LOW_COLLATERAL', message: 'You cannot withdraw more than you have supplied.' },
+    'Exceeds capacity': { code: 'EXCEEDS_CAPACITY', message: 'This withdrawal is worth more than your remaining borrow capacity.' },
+    'Exceeds LTV': { code: 'EXCEEDS_LTV', message: 'Withdrawing this much would push your debt over the loan-to-value limit. Repay some debt or withdraw less.' },
+    'Low reserve': { code: 'LOW_RESERVE', message: 'The pool does not have enough of this token available right now; the rest is lent out.' },
+    'Low shares': { code: 'LOW_SHARES', message: 'You cannot redeem more liquidity than you have provided.' },
+    'Exceeds limit': { code: 'EXCEEDS_LIMIT', message: 'This would take your debt past your borrow limit. Borrow less or supply more collateral.' },
+    'Too much': { code: 'REPAY_TOO_MUCH', message: 'You cannot repay more than you owe.' },
+    'No debt': { code: 'NO_DEBT', message: 'There is no debt in this token to repay.' },
+    'Healthy': { code: 'HEALTHY', message: 'This position is healthy and cannot be liquidated.' },
+    'Exceeds close factor': { code: 'EXCEEDS_CLOSE_FACTOR', message: 'A single liquidation cannot repay this much of the debt. Repay less.' },
+    'No collateral': { code: 'NO_COLLATERAL', message: 'This account has none of the chosen collateral to seize.' },
+    'No deficit': { code: 'NO_DEFICIT', message: 'This token has no outstanding deficit to socialise.' },
+    'No price': { code: 'PRICE_UNAVAILABLE', message: 'A token price is unavailable right now. Try again later.' },
+    'Stale price': { code: 'PRICE_UNAVAILABLE', message: 'A token price feed has not updated recently enough to be trusted. Try again later.' },
+    'No reference price': { code: 'PRICE_UNAVAILABLE', message: 'A token price cannot be cross-checked right now. Try again later.' },
+    'Price deviation': { code: 'PRICE_UNAVAILABLE', message: 'A token price disagrees with its reference price, so the pool has paused using it. Try again later.' },
+    'Invalid BNB': { code: 'INVALID_NATIVE_VALUE', message: 'The native amount sent does not match the amount entered.' },
+    'BNB not allowed': { code: 'INVALID_NATIVE_VALUE', message: 'Native currency cannot be sent with a token transfer.' },
+    'ERC20 failed': { code: 'TRANSFER_FAILED', message: 'The token transfer into the pool failed.' },
+    'ERC20 fail': { code: 'TRANSFER_FAILED', message: 'The token transfer out of the pool failed.' },
+    'BNB fail': { code: 'TRANSFER_FAILED', message: 'The native transfer out of the pool failed.' },
+    'ERC20: insufficient allowance': { code: 'INSUFFICIENT_ALLOWANCE', message: 'The pool is not approved to spend this amount of the token.' },
+    'ERC20: transfer amount exceeds balance': { code: 'INSUFFICIENT_BALANCE', message: 'Your wallet balance is too low for this amount.' },
+};
+
+// A failed pool call, with a stable code for the UI to branch on and a user-facing message
+export class PoolError extends Error {
+    readonly code: PoolErrorCode;
+    // The contract's revert string, when there was one
+    readonly reason: string | null;
+
+    constructor(code: PoolErrorCode, message: string, reason: string | null = null) {
+        super(message);
+        this.name = 'PoolError';
+        this.code = code;
+        this.reason = reason;
+    }
+}
+
+// Selector of Error(string), the ABI encoding of a require() message
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+const decodeErrorString = (data: unknown): string | null => {
+    if (typeof data !== 'string' || !data.startsWith(ERROR_STRING_SELECTOR)) return null;
+    try {
+        return ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4))[0];
+    } catch (error) {
+        return null;
+    }
+};
+
+// Wallets and RPC nodes nest the revert data differently (error.data, error.error.data,
+// error.error.data.data, ...), so walk the error and decode whichever copy is there.
+const findRevertReason = (error: any, depth = 0): string | null => {
+    if (!error || typeof error !== 'object' || depth > 3) return null;
+
+    // ethers sets `reason` on CALL_EXCEPTION once it has decoded the revert itself
+    if (error.code === ethers.errors.CALL_EXCEPTION && typeof error.reason === 'string') {
+        return error.reason;
+    }
+
+    const decoded = decodeErrorString(error.data);
+    if (decoded !== null) return decoded;
+
+    return findRevertReason(error.error, depth + 1) || findRevertReason(error.data, depth + 1);
+};
+
+// Last resort: messages like "execution reverted: Exceeds LTV" or
+// "reverted with reason string 'Exceeds LTV'"
+const findReasonInMessage = (error: any): string | null => {
+    const messages = [error?.message, error?.error?.message, error?.error?.error?.message]
+        .filter((message): message is string => typeof message === 'string');
+
+    for (const reason of Object.keys(REVERT_REASONS)) {
+        const patterns = [`execution reverted: ${reason}`, `reason string '${reason}'`, `reverted: ${reason}`];
+        if (messages.some((message) => patterns.some((pattern) => message.includes(pattern)))) {
+            return reason;
+        }
+    }
+    return null;
+};
+
+const isUserRejection = (error: any): boolean =>
+    error?.code === 'ACTION_REJECTED' ||
+    error?.code === 4001 ||
+    error?.error?.code === 4001 ||
+    /user rejected|user denied/i.test(error?.message || '');
+
+const isInsufficientFunds = (error: any): boolean =>
+    error?.code === ethers.errors.INSUFFICIENT_FUNDS ||
+    /insufficient funds/i.test(error?.message || '');
+
+// The PoolError the contract's revert string maps to
+export const poolErrorForReason = (reason: string): PoolError => {
+    const known = REVERT_REASONS[reason];
+    return known
+        ? new PoolError(known.code, known.message, reason)
+        : new PoolError('UNKNOWN', `Transaction would revert: ${reason}`, reason);
+};
+
+// The PoolError for a code produced client-side (e.g. by the risk module's checks)
+export const poolErrorForCode = (code: PoolErrorCode): PoolError => {
+    const reason = Object.keys(REVERT_REASONS).find((key) => REVERT_REASONS[key].code === code);
+    return reason ? poolErrorForReason(reason) : new PoolError(code, 'Transaction failed.');
+};
+
+// Turns anything thrown by a pool call (a callStatic revert, a wallet rejection, an RPC error)
+// into a PoolError
+export const decodePoolError = (error: unknown): PoolError => {
+    if (error instanceof PoolError) return error;
+
+    if (isUserRejection(error)) {
+        return new PoolError('USER_REJECTED', 'Transaction rejected by user.');
+    }
+
+    const reason = findRevertReason(error) || findReasonInMessage(error);
+    if (reason) return poolErrorForReason(reason);
+
+    if (isInsufficientFunds(error)) {
+        return new PoolError('INSUFFICIENT_FUNDS', 'Insufficient funds for transaction.');
+    }
+
+    return new PoolError('UNKNOWN', 'Transaction failed.');
+};
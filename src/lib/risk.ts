@@ -0,0 +1,401 @@
+import { BigNumber, constants } from 'ethers';
+import type { IUserData, PositionAction } from './contract';
+import type { PoolErrorCode } from './poolErrors';
+
+// Every function here mirrors LendingPoolTest.sol step for step, including the order of each
+// multiplication and integer division, so the UI agrees with the contract to the wei.
+
+// Same 1e18 fixed point the contract uses for prices and USD values
+export const PRECISION = BigNumber.from(10).pow(18);
+
+// The contract's MAX_BORROW_RATIO and LIQUIDATION_THRESHOLD, both percentages
+export interface RiskParams {
+    maxBorrowRatio: number;
+    liquidationThreshold: number;
+}
+
+// The contract's closeFactorBps and liquidationBonusBps.  Unlike RiskParams the owner can change
+// these at any time, so read them fresh.
+export interface LiquidationParams {
+    closeFactorBps: number;
+    liquidationBonusBps: number;
+}
+
+// A user's position keyed by token address.  Amounts are raw token units, prices are 1e18-scaled
+// USD per whole token, weights are the tokenConfigs percentages.
+export interface RiskPosition {
+    collateral: { [token: string]: BigNumber };
+    debt: { [token: string]: BigNumber };
+    prices: { [token: string]: BigNumber };
+    weights: { [token: string]: number };
+    decimals: { [token: string]: number };
+}
+
+const ZERO = BigNumber.from(0);
+const BPS = 10000;
+
+const amountOf = (amounts: { [token: string]: BigNumber }, token: string) => amounts[token] || ZERO;
+
+// _toUSD: (amount * getTokenPrice(token)) / 10 ** decimals, so 6- and 18-decimal tokens are
+// valued on the same 1e18 USD scale
+export const toUSD = (amount: BigNumber, price: BigNumber, decimals: number): BigNumber => {
+    return amount.mul(price).div(BigNumber.from(10).pow(decimals));
+};
+
+// toUSD for a token in the position (tokens without known decimals count as 18, like the contract)
+const valueOf = (position: RiskPosition, token: string, amount: BigNumber): BigNumber => {
+    return toUSD(amount, amountOf(position.prices, token), position.decimals[token] ?? 18);
+};
+
+export const getTotalCollateralUSD = (position: RiskPosition): BigNumber => {
+    return Object.keys(position.collateral).reduce(
+        (total, token) => total.add(valueOf(position, token, amountOf(position.collateral, token))),
+        ZERO
+    );
+};
+
+// getBorrowCapacity: weighted collateral value, each term floored like the contract
+export const getBorrowCapacity = (position: RiskPosition): BigNumber => {
+    return Object.keys(position.collateral).reduce((cap, token) => {
+        const amount = amountOf(position.collateral, token);
+        if (amount.isZero()) return cap;
+        const value = valueOf(position, token, amount);
+        return cap.add(value.mul(position.weights[token] || 0).div(100));
+    }, ZERO);
+};
+
+// getTotalDebtUSD
+export const getTotalDebtUSD = (position: RiskPosition): BigNumber => {
+    return Object.keys(position.debt).reduce(
+        (total, token) => total.add(valueOf(position, token, amountOf(position.debt, token))),
+        ZERO
+    );
+};
+
+// getIndebtedness: debt as a whole percentage of borrow capacity
+export const getIndebtedness = (position: RiskPosition): BigNumber => {
+    const cap = getBorrowCapacity(position);
+    return cap.isZero() ? ZERO : getTotalDebtUSD(position).mul(100).div(cap);
+};
+
+// The most debt `borrow` allows: (capacity * MAX_BORROW_RATIO) / 100
+export const getBorrowLimit = (capacity: BigNumber, params: RiskParams): BigNumber => {
+    return capacity.mul(params.maxBorrowRatio).div(100);
+};
+
+export const getAvailableToBorrowUSD = (position: RiskPosition, params: RiskParams): BigNumber => {
+    const limit = getBorrowLimit(getBorrowCapacity(position), params);
+    const debt = getTotalDebtUSD(position);
+    return debt.gte(limit) ? ZERO : limit.sub(debt);
+};
+
+// `liquidate` requires debt, and either indebtedness strictly above LIQUIDATION_THRESHOLD or no
+// borrow capacity at all
+export const isLiquidatable = (position: RiskPosition, params: RiskParams): boolean => {
+    if (getTotalDebtUSD(position).isZero()) return false;
+    return getBorrowCapacity(position).isZero() || getIndebtedness(position).gt(params.liquidationThreshold);
+};
+
+// LIQUIDATION_THRESHOLD / indebtedness, 1e18-scaled: below 1.0 exactly when `liquidate` would
+// accept the position.  Null when there is no debt (an infinite health factor).
+export const getHealthFactor = (indebtedness: BigNumber, params: RiskParams): BigNumber | null => {
+    if (indebtedness.isZero()) return null;
+    return PRECISION.mul(params.liquidationThreshold).div(indebtedness);
+};
+
+export const formatHealthFactor = (healthFactor: BigNumber | null): string => {
+    if (!healthFactor) return '∞';
+    if (healthFactor.gt(PRECISION.mul(10))) return '> 10';
+    return (healthFactor.mul(100).div(PRECISION).toNumber() / 100).toFixed(2);
+};
+
+export type RiskLevel = 'safe' | 'warning' | 'danger';
+
+// Danger past 7/8 of the liquidation threshold, warning past 5/8
+export const getRiskLevel = (indebtedness: BigNumber, params: RiskParams): RiskLevel => {
+    if (indebtedness.mul(8).gt(params.liquidationThreshold * 7)) return 'danger';
+    if (indebtedness.mul(8).gt(params.liquidationThreshold * 5)) return 'warning';
+    return 'safe';
+};
+
+// Largest amount of `token` whose USD value, floored like toUSD, stays within `maxUSD`
+const maxAmountForUSD = (position: RiskPosition, token: string, maxUSD: BigNumber): BigNumber => {
+    const price = amountOf(position.prices, token);
+    if (price.isZero()) return ZERO;
+    const unit = BigNumber.from(10).pow(position.decimals[token] ?? 18);
+    return maxUSD.add(1).mul(unit).sub(1).div(price);
+};
+
+// The require() checks `borrow` makes, in the same order
+export const checkBorrow = (
+    position: RiskPosition,
+    token: string,
+    amount: BigNumber,
+    reserve: BigNumber,
+    params: RiskParams
+): PoolErrorCode | null => {
+    if (amount.isZero()) return 'AMOUNT_ZERO';
+    if (reserve.lt(amount)) return 'LOW_RESERVE';
+
+    const borrowUSD = valueOf(position, token, amount);
+    const limit = getBorrowLimit(getBorrowCapacity(position), params);
+    if (getTotalDebtUSD(position).add(borrowUSD).gt(limit)) return 'EXCEEDS_LIMIT';
+    return null;
+};
+
+// The require() checks `withdraw` makes, in the same order.  Note the contract compares the
+// unweighted value withdrawn against the weighted borrow capacity.
+export const checkWithdraw = (
+    position: RiskPosition,
+    token: string,
+    amount: BigNumber,
+    params: RiskParams
+): PoolErrorCode | null => {
+    if (amount.isZero()) return 'AMOUNT_ZERO';
+    if (amountOf(position.collateral, token).lt(amount)) return 'LOW_COLLATERAL';
+
+    const withdrawUSD = valueOf(position, token, amount);
+    const capacity = getBorrowCapacity(position);
+    if (capacity.lt(withdrawUSD)) return 'EXCEEDS_CAPACITY';
+
+    const minCapacity = getTotalDebtUSD(position).mul(100).div(params.maxBorrowRatio);
+    if (capacity.sub(withdrawUSD).lt(minCapacity)) return 'EXCEEDS_LTV';
+    return null;
+};
+
+// Largest amount of `token` that passes checkBorrow
+export const getMaxBorrow = (position: RiskPosition, token: string, reserve: BigNumber, params: RiskParams): BigNumber => {
+    const byLimit = maxAmountForUSD(position, token, getAvailableToBorrowUSD(position, params));
+    return byLimit.lt(reserve) ? byLimit : reserve;
+};
+
+// Largest amount of `token` that passes checkWithdraw
+export const getMaxWithdraw = (position: RiskPosition, token: string, params: RiskParams): BigNumber => {
+    const capacity = getBorrowCapacity(position);
+    const minCapacity = getTotalDebtUSD(position).mul(100).div(params.maxBorrowRatio);
+    if (capacity.lt(minCapacity)) return ZERO;
+
+    const byLTV = maxAmountForUSD(position, token, capacity.sub(minCapacity));
+    const collateral = amountOf(position.collateral, token);
+    return byLTV.lt(collateral) ? byLTV : collateral;
+};
+
+// Smallest debt `liquidate` would accept for this capacity, minus the current debt: how much
+// more debt (or lost collateral value) the position can absorb before it can be liquidated
+export const getLiquidationDistanceUSD = (position: RiskPosition, params: RiskParams): BigNumber => {
+    const cap = getBorrowCapacity(position);
+    // floor(debt * 100 / cap) > threshold  <=>  debt * 100 >= (threshold + 1) * cap
+    const liquidationDebt = cap.mul(params.liquidationThreshold + 1).add(99).div(100);
+    const debt = getTotalDebtUSD(position);
+    return debt.gte(liquidationDebt) ? ZERO : liquidationDebt.sub(debt);
+};
+
+export interface PositionSummary {
+    borrowCapacity: BigNumber;
+    totalDebtUSD: BigNumber;
+    indebtedness: BigNumber;
+    healthFactor: BigNumber | null;
+    liquidationDistanceUSD: BigNumber;
+}
+
+export const summarizePosition = (position: RiskPosition, params: RiskParams): PositionSummary => {
+    const indebtedness = getIndebtedness(position);
+    return {
+        borrowCapacity: getBorrowCapacity(position),
+        totalDebtUSD: getTotalDebtUSD(position),
+        indebtedness,
+        healthFactor: getHealthFactor(indebtedness, params),
+        liquidationDistanceUSD: getLiquidationDistanceUSD(position, params),
+    };
+};
+
+const adjust = (amounts: { [token: string]: BigNumber }, token: string, delta: BigNumber) => {
+    const next = amountOf(amounts, token).add(delta);
+    return { ...amounts, [token]: next.isNegative() ? ZERO : next };
+};
+
+// The position after `action` succeeds
+export const applyAction = (position: RiskPosition, action: PositionAction, token: string, amount: BigNumber): RiskPosition => {
+    switch (action) {
+        case 'supply':
+            return { ...position, collateral: adjust(position.collateral, token, amount) };
+        case 'withdraw':
+            return { ...position, collateral: adjust(position.collateral, token, amount.mul(-1)) };
+        case 'borrow':
+            return { ...position, debt: adjust(position.debt, token, amount) };
+        case 'repay':
+            return { ...position, debt: adjust(position.debt, token, amount.mul(-1)) };
+    }
+};
+
+export interface ActionPreview {
+    before: PositionSummary;
+    after: PositionSummary;
+    // The require() the action would fail, checked against the current position
+    error: PoolErrorCode | null;
+}
+
+export const previewAction = (
+    position: RiskPosition,
+    action: PositionAction,
+    token: string,
+    amount: BigNumber,
+    reserve: BigNumber,
+    params: RiskParams
+): ActionPreview => {
+    let error: PoolErrorCode | null = null;
+    if (action === 'withdraw') {
+        error = checkWithdraw(position, token, amount, params);
+    } else if (action === 'borrow') {
+        error = checkBorrow(position, token, amount, reserve, params);
+    } else if (amount.isZero()) {
+        error = 'AMOUNT_ZERO';
+    } else if (action === 'repay' && amountOf(position.debt, token).lt(amount)) {
+        error = 'REPAY_TOO_MUCH';
+    }
+
+    return {
+        before: summarizePosition(position, params),
+        after: summarizePosition(applyAction(position, action, token, amount), params),
+        error,
+    };
+};
+
+// The most of `debtToken` a single liquidation may repay: closeFactorBps of the debt
+export const getMaxLiquidationRepay = (position: RiskPosition, debtToken: string, liquidation: LiquidationParams): BigNumber => {
+    return amountOf(position.debt, debtToken).mul(liquidation.closeFactorBps).div(BPS);
+};
+
+// getSeizeAmount: the repaid value plus the bonus, in `collateralToken`
+export const getSeizeAmount = (
+    position: RiskPosition,
+    debtToken: string,
+    repayAmount: BigNumber,
+    collateralToken: string,
+    liquidation: LiquidationParams
+): BigNumber => {
+    const price = amountOf(position.prices, collateralToken);
+    if (price.isZero()) return ZERO;
+    const seizeUSD = valueOf(position, debtToken, repayAmount).mul(BPS + liquidation.liquidationBonusBps).div(BPS);
+    return seizeUSD.mul(BigNumber.from(10).pow(position.decimals[collateralToken] ?? 18)).div(price);
+};
+
+export interface LiquidationPreview {
+    // What `liquidate` would actually repay and seize, after shrinking to the collateral
+    repayAmount: BigNumber;
+    seizeAmount: BigNumber;
+    repayUSD: BigNumber;
+    seizeUSD: BigNumber;
+    // Set when the collateral left backs no borrowing: the liquidator also takes all of it, for
+    // nothing, and the position's remaining debt is written off
+    writesOff: boolean;
+    sweptCollateral: { [token: string]: BigNumber };
+    sweptUSD: BigNumber;
+    // seizeUSD + sweptUSD - repayUSD: the liquidator's gain before gas
+    profitUSD: BigNumber;
+    // The require() the liquidation would fail
+    error: PoolErrorCode | null;
+}
+
+// The collateral _writeOffBadDebt hands the liquidator: everything the position still holds
+const sweepOf = (position: RiskPosition) => {
+    const sweptCollateral: { [token: string]: BigNumber } = {};
+    let sweptUSD = ZERO;
+    for (const token of Object.keys(position.collateral)) {
+        const leftover = amountOf(position.collateral, token);
+        if (leftover.isZero()) continue;
+        sweptCollateral[token] = leftover;
+        sweptUSD = sweptUSD.add(valueOf(position, token, leftover));
+    }
+    return { sweptCollateral, sweptUSD };
+};
+
+// The checks and amounts of `liquidate`, in the same order.  A `repayAmount` of MaxUint256 asks
+// for the close-factor maximum, as it does on-chain.
+export const previewLiquidation = (
+    position: RiskPosition,
+    debtToken: string,
+    repayAmount: BigNumber,
+    collateralToken: string,
+    params: RiskParams,
+    liquidation: LiquidationParams
+): LiquidationPreview => {
+    const failed = (error: PoolErrorCode): LiquidationPreview => ({
+        repayAmount: ZERO,
+        seizeAmount: ZERO,
+        repayUSD: ZERO,
+        seizeUSD: ZERO,
+        writesOff: false,
+        sweptCollateral: {},
+        sweptUSD: ZERO,
+        profitUSD: ZERO,
+        error,
+    });
+
+    if (repayAmount.isZero()) return failed('AMOUNT_ZERO');
+    if (!isLiquidatable(position, params)) return failed(getTotalDebtUSD(position).isZero() ? 'NO_DEBT' : 'HEALTHY');
+    if (amountOf(position.debt, debtToken).isZero()) return failed('NO_DEBT');
+    // Already backing nothing: written off without repaying or seizing anything for value
+    if (getBorrowCapacity(position).isZero()) {
+        const { sweptCollateral, sweptUSD } = sweepOf(position);
+        return {
+            repayAmount: ZERO,
+            seizeAmount: ZERO,
+            repayUSD: ZERO,
+            seizeUSD: ZERO,
+            writesOff: true,
+            sweptCollateral,
+            sweptUSD,
+            profitUSD: sweptUSD,
+            error: null,
+        };
+    }
+
+    const maxRepay = getMaxLiquidationRepay(position, debtToken, liquidation);
+    let repay = repayAmount.eq(constants.MaxUint256) ? maxRepay : repayAmount;
+    if (repay.gt(maxRepay)) return failed('EXCEEDS_CLOSE_FACTOR');
+
+    const collateral = amountOf(position.collateral, collateralToken);
+    if (collateral.isZero()) return failed('NO_COLLATERAL');
+    let seize = getSeizeAmount(position, debtToken, repay, collateralToken, liquidation);
+    if (seize.gt(collateral)) {
+        repay = repay.mul(collateral).div(seize);
+        seize = collateral;
+    }
+    // Shrinking onto dust collateral can leave nothing to repay, which still clears the position
+    if (seize.isZero()) return failed('AMOUNT_ZERO');
+
+    const repayUSD = valueOf(position, debtToken, repay);
+    const seizeUSD = valueOf(position, collateralToken, seize);
+
+    // _writeOffBadDebt, when the seizure leaves nothing that counts towards borrow capacity
+    const remaining = { ...position, collateral: adjust(position.collateral, collateralToken, seize.mul(-1)) };
+    const writesOff = getBorrowCapacity(remaining).isZero();
+    const { sweptCollateral, sweptUSD } = writesOff ? sweepOf(remaining) : { sweptCollateral: {}, sweptUSD: ZERO };
+
+    return {
+        repayAmount: repay,
+        seizeAmount: seize,
+        repayUSD,
+        seizeUSD,
+        writesOff,
+        sweptCollateral,
+        sweptUSD,
+        profitUSD: seizeUSD.add(sweptUSD).sub(repayUSD),
+        error: null,
+    };
+};
+
+// getUserData's maps plus the registry's per-token weights and decimals
+export const toRiskPosition = (
+    userData: Pick<IUserData, 'collateral' | 'debt' | 'prices'>,
+    tokens: { address: string; weight?: number; decimals: number }[]
+): RiskPosition => {
+    const weights: { [token: string]: number } = {};
+    const decimals: { [token: string]: number } = {};
+    for (const token of tokens) {
+        weights[token.address] = token.weight || 0;
+        decimals[token.address] = token.decimals;
+    }
+    return { collateral: userData.collateral, debt: userData.debt, prices: userData.prices, weights, decimals };
+};
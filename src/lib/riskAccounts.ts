@@ -0,0 +1,127 @@
+import { BigNumber, constants } from 'ethers';
+import type { LendingPoolTest } from '../types/contracts';
+import { RiskParams, LiquidationParams, previewLiquidation, toRiskPosition } from './risk';
+import { aggregate, contractCall, CallResult } from './multicall';
+
+// Widest block range per eth_getLogs request; public RPCs reject much wider ones
+const LOG_CHUNK_BLOCKS = 5000;
+// Positions read per Multicall round trip, well inside public RPCs' eth_call gas caps
+const ACCOUNTS_PER_BATCH = 50;
+
+// Every account that has ever deposited or borrowed, as far as the logs have been read.  Only an
+// account with collateral can owe anything, so these are all the positions there can be.
+export interface AccountScan {
+    accounts: string[];
+    // First block not read yet
+    nextBlock: number;
+}
+
+export const newAccountScan = (deployBlock: number): AccountScan => ({ accounts: [], nextBlock: deployBlock });
+
+// Reads Deposited and Borrowed logs from where `scan` left off up to the latest block
+export const scanAccounts = async (pool: LendingPoolTest, scan: AccountScan): Promise<AccountScan> => {
+    const latest = await pool.provider.getBlockNumber();
+    const accounts = new Set(scan.accounts);
+    let nextBlock = scan.nextBlock;
+
+    while (nextBlock <= latest) {
+        const toBlock = Math.min(nextBlock + LOG_CHUNK_BLOCKS - 1, latest);
+        const [deposits, borrows] = await Promise.all([
+            pool.queryFilter(pool.filters.Deposited(), nextBlock, toBlock),
+            pool.queryFilter(pool.filters.Borrowed(), nextBlock, toBlock),
+        ]);
+        for (const event of [...deposits, ...borrows]) accounts.add(event.args.user);
+        nextBlock = toBlock + 1;
+    }
+    return { accounts: Array.from(accounts), nextBlock };
+};
+
+// The most profitable single liquidation of an account: the best debt and collateral pair,
+// repaying the close-factor maximum
+export interface BestLiquidation {
+    debtToken: string;
+    collateralToken: string;
+    repayAmount: BigNumber;
+    seizeAmount: BigNumber;
+    profitUSD: BigNumber;
+}
+
+export interface AtRiskAccount {
+    address: string;
+    indebtedness: number;
+    totalDebtUSD: BigNumber;
+    totalCollateralUSD: BigNumber;
+    // Null while the account is healthy
+    bestLiquidation: BestLiquidation | null;
+}
+
+export const findBestLiquidation = (
+    account: Awaited<ReturnType<LendingPoolTest['getUserAccountData']>>,
+    tokens: { address: string; weight?: number; decimals: number }[],
+    params: RiskParams,
+    liquidation: LiquidationParams
+): BestLiquidation | null => {
+    const byToken = (values: BigNumber[]) => Object.fromEntries(account.tokens.map((token, i) => [token, values[i]]));
+    const position = toRiskPosition(
+        { collateral: byToken(account.collateral), debt: byToken(account.debt), prices: byToken(account.prices) },
+        tokens
+    );
+
+    let best: BestLiquidation | null = null;
+    for (const debtToken of account.tokens) {
+        for (const collateralToken of account.tokens) {
+            const preview = previewLiquidation(position, debtToken, constants.MaxUint256, collateralToken, params, liquidation);
+            if (preview.error || (best && preview.profitUSD.lte(best.profitUSD))) continue;
+            const { repayAmount, seizeAmount, profitUSD } = preview;
+            best = { debtToken, collateralToken, repayAmount, seizeAmount, profitUSD };
+        }
+    }
+    return best;
+};
+
+// The scanned accounts that owe anything, most indebted first, by the pool's live getIndebtedness.
+// Positions are read in Multicall batches rather than one eth_call per account.
+export const rankAtRiskAccounts = async (
+    pool: LendingPoolTest,
+    chainId: number,
+    accounts: string[],
+    tokens: { address: string; weight?: number; decimals: number }[],
+    params: RiskParams,
+    liquidation: LiquidationParams
+): Promise<AtRiskAccount[]> => {
+    const batches: string[][] = [];
+    for (let i = 0; i < accounts.length; i += ACCOUNTS_PER_BATCH) {
+        batches.push(accounts.slice(i, i + ACCOUNTS_PER_BATCH));
+    }
+    const results = await Promise.all(batches.map(async (batch) => {
+        const calls = batch.map((address) => contractCall(pool, 'getUserAccountData', address));
+        const accountResults = await aggregate(pool.provider, chainId, calls) as
+            (CallResult<LendingPoolTest, 'getUserAccountData'> | null)[];
+
+        return batch.map((address, i): AtRiskAccount | null => {
+            if (!accountResults[i]) {
+                console.warn(`[riskAccounts] Could not read ${address}`);
+                return null;
+            }
+            const account = accountResults[i]!.data;
+            if (account.totalDebtUSD.isZero()) return null;
+            // The pool won't liquidate on a rejected price; the account shows up again once it's back.
+            // Collateral its feed prices at zero only backs nothing.
+            const worthless = (j: number) => account.prices[j].isZero() && account.priceUpdatedAt[j].gt(0);
+            const held = (j: number) => account.debt[j].gt(0) || (account.collateral[j].gt(0) && !worthless(j));
+            if (account.priceErrors.some((error, j) => error !== '' && held(j))) return null;
+            return {
+                address,
+                indebtedness: account.indebtedness.toNumber(),
+                totalDebtUSD: account.totalDebtUSD,
+                totalCollateralUSD: account.totalCollateralUSD,
+                bestLiquidation: findBestLiquidation(account, tokens, params, liquidation),
+            };
+        });
+    }));
+
+    return results
+        .flat()
+        .filter((account): account is AtRiskAccount => account !== null)
+        .sort((a, b) => b.indebtedness - a.indebtedness);
+};
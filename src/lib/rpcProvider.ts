@@ -0,0 +1,215 @@
+import { ethers } from 'ethers';
+
+export interface FailoverProviderOptions {
+    // Maximum number of requests in flight at once; the rest wait in a FIFO queue
+    maxConcurrent?: number;
+    // Retries per request after the first attempt, each on the next healthy endpoint
+    maxRetries?: number;
+    // First backoff delay; doubled on every retry (plus up to 50% jitter)
+    baseBackoffMs?: number;
+    // Per-request HTTP timeout
+    requestTimeoutMs?: number;
+    // How long a failing endpoint is skipped before it is health-checked again
+    cooldownMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<FailoverProviderOptions> = {
+    maxConcurrent: 4,
+    maxRetries: 4,
+    baseBackoffMs: 500,
+    requestTimeoutMs: 10000,
+    cooldownMs: 30000,
+};
+
+interface Endpoint {
+    url: string;
+    provider: ethers.providers.StaticJsonRpcProvider;
+    // 0 while healthy, otherwise the time after which the endpoint may be re-checked
+    unhealthyUntil: number;
+    // Whether the endpoint has reported the expected chain id.  Nothing is sent to an endpoint
+    // before it has, and one that reports another chain is never used.
+    chain: 'unchecked' | 'verified' | 'wrong';
+    healthCheck: Promise<boolean> | null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Rate limits, timeouts, 5xx responses and transport failures are worth retrying on another
+// endpoint.  JSON-RPC errors such as reverts are deterministic and are returned as-is.
+export const isRetryableRpcError = (error: any): boolean => {
+    if (!error) return false;
+    if (error.code === ethers.errors.TIMEOUT) return true;
+
+    const status = error.status;
+    if (status === 429 || (status >= 500 && status < 600)) return true;
+
+    const rpcError = error.error;
+    if (rpcError) {
+        return rpcError.code === -32005 || /rate limit|too many requests/i.test(rpcError.message || '');
+    }
+
+    // A SERVER_ERROR without a JSON-RPC error body means the request never got a valid response
+    return error.code === ethers.errors.SERVER_ERROR;
+};
+
+// JSON-RPC provider that spreads requests over several URLs.  Every request goes through a
+// concurrency-capped queue, identical in-flight eth_calls share one request, and retryable
+// failures back off exponentially while the failing endpoint sits out a cooldown.  An endpoint
+// serves nothing until it has reported the expected chain id.
+export class FailoverRpcProvider extends ethers.providers.StaticJsonRpcProvider {
+    private readonly endpoints: Endpoint[];
+    private readonly options: Required<FailoverProviderOptions>;
+    private readonly expectedChainId: number;
+    private cursor = 0;
+    private active = 0;
+    private readonly queue: (() => void)[] = [];
+    private readonly inflightCalls = new Map<string, Promise<any>>();
+
+    constructor(urls: string[], chainId: number, options: FailoverProviderOptions = {}) {
+        if (urls.length === 0) {
+            throw new Error('FailoverRpcProvider requires at least one RPC URL');
+        }
+        super(urls[0], chainId);
+
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.expectedChainId = chainId;
+        this.endpoints = urls.map((url) => ({
+            url,
+            // throttleLimit: 1 turns off ethers' own 429 retries so failover happens here instead
+            provider: new ethers.providers.StaticJsonRpcProvider(
+                { url, timeout: this.options.requestTimeoutMs, throttleLimit: 1 },
+                chainId
+            ),
+            unhealthyUntil: 0,
+            chain: 'unchecked',
+            healthCheck: null,
+        }));
+    }
+
+    send(method: string, params: Array<any>): Promise<any> {
+        if (method !== 'eth_call') {
+            return this.sendWithFailover(method, params);
+        }
+
+        // Identical reads issued while one is already in flight share its result
+        const key = JSON.stringify(params);
+        const pending = this.inflightCalls.get(key);
+        if (pending) return pending;
+
+        const request = this.sendWithFailover(method, params)
+            .finally(() => this.inflightCalls.delete(key));
+        this.inflightCalls.set(key, request);
+        return request;
+    }
+
+    private async schedule<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.options.maxConcurrent) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => this.queue.push(resolve));
+    }
+
+    // Hands the slot straight to the next queued request so newcomers can't jump the queue
+    private release() {
+        const next = this.queue.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+
+    // Each attempt holds a concurrency slot only while it is on the wire; backing off before the
+    // next one gives the slot to whatever is queued
+    private async sendWithFailover(method: string, params: Array<any>): Promise<any> {
+        let lastError: any;
+
+        for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+            const outcome = await this.schedule(async () => {
+                const endpoint = await this.nextEndpoint();
+                try {
+                    return { endpoint, result: await endpoint.provider.send(method, params) };
+                } catch (error) {
+                    return { endpoint, error };
+                }
+            });
+            if (!('error' in outcome)) return outcome.result;
+
+            const { endpoint, error } = outcome;
+            if (!isRetryableRpcError(error)) throw error;
+
+            lastError = error;
+            endpoint.unhealthyUntil = Date.now() + this.options.cooldownMs;
+            console.warn(`[FailoverRpcProvider] ${method} failed on ${endpoint.url} (attempt ${attempt + 1}):`, error);
+
+            if (attempt < this.options.maxRetries) {
+                const delay = this.options.baseBackoffMs * 2 ** attempt;
+                await sleep(delay + Math.random() * delay * 0.5);
+            }
+        }
+
+        throw lastError;
+    }
+
+    // Round-robin over healthy endpoints.  Endpoints are health-checked before their first use
+    // and again once a cooldown has expired.
+    private async nextEndpoint(): Promise<Endpoint> {
+        const count = this.endpoints.length;
+
+        for (let i = 0; i < count; i++) {
+            const index = (this.cursor + i) % count;
+            const endpoint = this.endpoints[index];
+            if (endpoint.chain === 'wrong') continue;
+
+            const usable = (endpoint.chain === 'verified' && endpoint.unhealthyUntil === 0) ||
+                (endpoint.unhealthyUntil <= Date.now() && await this.checkHealth(endpoint));
+            if (usable) {
+                this.cursor = (index + 1) % count;
+                return endpoint;
+            }
+        }
+
+        // Everything is cooling down – use whichever endpoint known to be on the right chain
+        // recovers first
+        const verified = this.endpoints.filter((endpoint) => endpoint.chain === 'verified');
+        if (verified.length === 0) {
+            throw new Error(`No RPC endpoint could be confirmed to serve chain ${this.expectedChainId}`);
+        }
+        return verified.reduce((best, endpoint) =>
+            endpoint.unhealthyUntil < best.unhealthyUntil ? endpoint : best
+        );
+    }
+
+    private checkHealth(endpoint: Endpoint): Promise<boolean> {
+        if (!endpoint.healthCheck) {
+            endpoint.healthCheck = endpoint.provider.send('eth_chainId', [])
+                .then((chainIdHex: string) => {
+                    const chainId = parseInt(chainIdHex, 16);
+                    if (chainId === this.expectedChainId) {
+                        endpoint.chain = 'verified';
+                        return true;
+                    }
+                    console.error(`[FailoverRpcProvider] ${endpoint.url} serves chain ${chainId}, not ${this.expectedChainId}; not using it`);
+                    endpoint.chain = 'wrong';
+                    return false;
+                })
+                .catch(() => false)
+                .then((healthy) => {
+                    endpoint.unhealthyUntil = healthy ? 0 : Date.now() + this.options.cooldownMs;
+                    endpoint.healthCheck = null;
+                    return healthy;
+                });
+        }
+        return endpoint.healthCheck;
+    }
+}
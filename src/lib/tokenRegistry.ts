@@ -0,0 +1,120 @@
+import { ethers } from 'ethers';
+import { LendingPoolTest, LendingPoolTest__factory, IERC20Metadata, IERC20Metadata__factory } from '@/types/contracts';
+import { getLendingPoolAddress } from './deployments';
+import { aggregate, contractCall, CallResult, ContractCall } from './multicall';
+import { Token, NATIVE_TOKEN_ADDRESS } from '@/constants/tokens';
+import {
+    TOKEN_OVERRIDES_BY_ADDRESS,
+    TOKEN_OVERRIDES_BY_SYMBOL,
+    NATIVE_CURRENCIES,
+} from '@/constants/tokenOverrides';
+
+// Number of batched reads issued per token (tokenConfigs, symbol, name, decimals)
+const TOKEN_CALL_COUNT = 4;
+
+// Registries only change when the owner adds a token, so keep one per chain until it does
+const registryCache: { [chainId: number]: Promise<Token[]> } = {};
+
+const applyOverrides = (token: Token): Token => {
+    const override = TOKEN_OVERRIDES_BY_ADDRESS[token.address.toLowerCase()] ||
+        TOKEN_OVERRIDES_BY_SYMBOL[token.symbol] ||
+        {};
+    return {
+        ...token,
+        name: override.name || token.name,
+        logo: override.logo || token.logo,
+    };
+};
+
+const fetchTokenRegistry = async (provider: ethers.providers.Provider, chainId: number): Promise<Token[]> => {
+    const lendingPool = LendingPoolTest__factory.connect(getLendingPoolAddress(chainId), provider);
+
+    // Always ask the pool: the manifest only records the token set at deploy time, not tokens
+    // the owner has added since
+    const addresses = await lendingPool.getSupportedTokens();
+
+    const calls: ContractCall[] = [];
+    for (const address of addresses) {
+        const erc20 = IERC20Metadata__factory.connect(address, provider);
+        calls.push(
+            contractCall(lendingPool, 'tokenConfigs', address),
+            contractCall(erc20, 'symbol'),
+            contractCall(erc20, 'name'),
+            contractCall(erc20, 'decimals'),
+        );
+    }
+    const results = await aggregate(provider, chainId, calls);
+
+    const tokens: Token[] = [];
+    addresses.forEach((address, i) => {
+        const [config, symbol, name, decimals] = results.slice(i * TOKEN_CALL_COUNT, (i + 1) * TOKEN_CALL_COUNT) as [
+            CallResult<LendingPoolTest, 'tokenConfigs'> | null,
+            CallResult<IERC20Metadata, 'symbol'> | null,
+            CallResult<IERC20Metadata, 'name'> | null,
+            CallResult<IERC20Metadata, 'decimals'> | null,
+        ];
+
+        if (!config || !config.isActive) {
+            console.log(`[tokenRegistry] Skipping inactive token ${address}`);
+            return;
+        }
+
+        let token: Token;
+        if (address === NATIVE_TOKEN_ADDRESS) {
+            const native = NATIVE_CURRENCIES[chainId] || { symbol: 'ETH', name: 'Ether' };
+            token = { address, symbol: native.symbol, name: native.name, decimals: 18, logo: '' };
+        } else {
+            if (!symbol || !decimals) {
+                console.warn(`[tokenRegistry] Missing ERC20 metadata for ${address}`);
+            }
+            const fallbackSymbol = `${address.substring(0, 6)}...`;
+            token = {
+                address,
+                symbol: symbol ? symbol[0] : fallbackSymbol,
+                name: name ? name[0] : fallbackSymbol,
+                decimals: decimals ? decimals[0] : 18,
+                logo: '',
+            };
+        }
+
+        tokens.push(applyOverrides({ ...token, weight: config.weight.toNumber() }));
+    });
+
+    console.log(`[tokenRegistry] Loaded ${tokens.length} tokens for chain ${chainId}`);
+    return tokens;
+};
+
+// Builds the token list from the pool's getSupportedTokens and tokenConfigs, with symbol, name and decimals read from each ERC20, so the UI only offers
+// tokens the pool accepts.
+export const getTokenRegistry = async (provider: ethers.providers.Provider): Promise<Token[]> => {
+    const { chainId } = await provider.getNetwork();
+
+    if (!registryCache[chainId]) {
+        registryCache[chainId] = fetchTokenRegistry(provider, chainId).catch((error) => {
+            // Don't cache failures – the next caller should retry
+            delete registryCache[chainId];
+            throw error;
+        });
+    }
+    return registryCache[chainId];
+};
+
+// Calls `onChange` with the new registry whenever the owner lists a token; returns the unsubscribe
+export const watchTokenRegistry = (
+    provider: ethers.providers.Provider,
+    chainId: number,
+    onChange: (tokens: Token[]) => void
+): (() => void) => {
+    const lendingPool = LendingPoolTest__factory.connect(getLendingPoolAddress(chainId), provider);
+    const filter = lendingPool.filters.TokenAdded();
+    const onTokenAdded = () => {
+        delete registryCache[chainId];
+        getTokenRegistry(provider)
+            .then(onChange)
+            .catch((error) => console.error('[tokenRegistry] Failed to reload after TokenAdded:', error));
+    };
+    provider.on(filter, onTokenAdded);
+    return () => {
+        provider.off(filter, onTokenAdded);
+    };
+};
@@ -0,0 +1,2436 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type {
+  FunctionFragment,
+  Result,
+  EventFragment,
+} from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+  PromiseOrValue,
+} from "../common";
+
+export declare namespace LendingPoolTest {
+  export type PriceFeedStruct = {
+    oracle: PromiseOrValue<string>;
+    referenceOracle: PromiseOrValue<string>;
+    maxStaleness: PromiseOrValue<BigNumberish>;
+    maxDeviationBps: PromiseOrValue<BigNumberish>;
+  };
+
+  export type PriceFeedStructOutput = [string, string, BigNumber, BigNumber] & {
+    oracle: string;
+    referenceOracle: string;
+    maxStaleness: BigNumber;
+    maxDeviationBps: BigNumber;
+  };
+
+  export type RateModelStruct = {
+    baseRate: PromiseOrValue<BigNumberish>;
+    slope1: PromiseOrValue<BigNumberish>;
+    slope2: PromiseOrValue<BigNumberish>;
+    kink: PromiseOrValue<BigNumberish>;
+  };
+
+  export type RateModelStructOutput = [
+    BigNumber,
+    BigNumber,
+    BigNumber,
+    BigNumber
+  ] & {
+    baseRate: BigNumber;
+    slope1: BigNumber;
+    slope2: BigNumber;
+    kink: BigNumber;
+  };
+
+  export type TokenInitStruct = {
+    token: PromiseOrValue<string>;
+    weight: PromiseOrValue<BigNumberish>;
+    priceFeed: LendingPoolTest.PriceFeedStruct;
+    rateModel: LendingPoolTest.RateModelStruct;
+  };
+
+  export type TokenInitStructOutput = [
+    string,
+    BigNumber,
+    LendingPoolTest.PriceFeedStructOutput,
+    LendingPoolTest.RateModelStructOutput
+  ] & {
+    token: string;
+    weight: BigNumber;
+    priceFeed: LendingPoolTest.PriceFeedStructOutput;
+    rateModel: LendingPoolTest.RateModelStructOutput;
+  };
+
+  export type MarketDataStruct = {
+    tokens: PromiseOrValue<string>[];
+    weights: PromiseOrValue<BigNumberish>[];
+    active: PromiseOrValue<boolean>[];
+    reserves: PromiseOrValue<BigNumberish>[];
+    prices: PromiseOrValue<BigNumberish>[];
+    priceUpdatedAt: PromiseOrValue<BigNumberish>[];
+    priceSources: PromiseOrValue<string>[];
+    priceErrors: PromiseOrValue<string>[];
+    totalBorrows: PromiseOrValue<BigNumberish>[];
+    borrowRates: PromiseOrValue<BigNumberish>[];
+    supplyRates: PromiseOrValue<BigNumberish>[];
+    totalShares: PromiseOrValue<BigNumberish>[];
+    liquidity: PromiseOrValue<BigNumberish>[];
+    treasury: PromiseOrValue<BigNumberish>[];
+    deficits: PromiseOrValue<BigNumberish>[];
+  };
+
+  export type MarketDataStructOutput = [
+    string[],
+    BigNumber[],
+    boolean[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    string[],
+    string[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[]
+  ] & {
+    tokens: string[];
+    weights: BigNumber[];
+    active: boolean[];
+    reserves: BigNumber[];
+    prices: BigNumber[];
+    priceUpdatedAt: BigNumber[];
+    priceSources: string[];
+    priceErrors: string[];
+    totalBorrows: BigNumber[];
+    borrowRates: BigNumber[];
+    supplyRates: BigNumber[];
+    totalShares: BigNumber[];
+    liquidity: BigNumber[];
+    treasury: BigNumber[];
+    deficits: BigNumber[];
+  };
+
+  export type AccountDataStruct = {
+    tokens: PromiseOrValue<string>[];
+    collateral: PromiseOrValue<BigNumberish>[];
+    debt: PromiseOrValue<BigNumberish>[];
+    prices: PromiseOrValue<BigNumberish>[];
+    priceUpdatedAt: PromiseOrValue<BigNumberish>[];
+    priceErrors: PromiseOrValue<string>[];
+    reserves: PromiseOrValue<BigNumberish>[];
+    borrowRates: PromiseOrValue<BigNumberish>[];
+    supplyRates: PromiseOrValue<BigNumberish>[];
+    lpShares: PromiseOrValue<BigNumberish>[];
+    lpBalances: PromiseOrValue<BigNumberish>[];
+    totalCollateralUSD: PromiseOrValue<BigNumberish>;
+    borrowCapacity: PromiseOrValue<BigNumberish>;
+    totalDebtUSD: PromiseOrValue<BigNumberish>;
+    indebtedness: PromiseOrValue<BigNumberish>;
+  };
+
+  export type AccountDataStructOutput = [
+    string[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    string[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber[],
+    BigNumber,
+    BigNumber,
+    BigNumber,
+    BigNumber
+  ] & {
+    tokens: string[];
+    collateral: BigNumber[];
+    debt: BigNumber[];
+    prices: BigNumber[];
+    priceUpdatedAt: BigNumber[];
+    priceErrors: string[];
+    reserves: BigNumber[];
+    borrowRates: BigNumber[];
+    supplyRates: BigNumber[];
+    lpShares: BigNumber[];
+    lpBalances: BigNumber[];
+    totalCollateralUSD: BigNumber;
+    borrowCapacity: BigNumber;
+    totalDebtUSD: BigNumber;
+    indebtedness: BigNumber;
+  };
+}
+
+export interface LendingPoolTestInterface extends utils.Interface {
+  functions: {
+    "LIQUIDATION_THRESHOLD()": FunctionFragment;
+    "MAX_BORROW_RATIO()": FunctionFragment;
+    "NATIVE_BNB()": FunctionFragment;
+    "_addToken(address,uint256,(address,address,uint256,uint256),(uint256,uint256,uint256,uint256))": FunctionFragment;
+    "amountToShares(address,uint256)": FunctionFragment;
+    "borrow(address,uint256)": FunctionFragment;
+    "closeFactorBps()": FunctionFragment;
+    "deficits(address)": FunctionFragment;
+    "deposit(address,uint256)": FunctionFragment;
+    "fundPool(address,uint256)": FunctionFragment;
+    "getBorrowCapacity(address)": FunctionFragment;
+    "getBorrowRate(address)": FunctionFragment;
+    "getIndebtedness(address)": FunctionFragment;
+    "getLiquidity(address)": FunctionFragment;
+    "getMarketsData()": FunctionFragment;
+    "getSeizeAmount(address,uint256,address)": FunctionFragment;
+    "getSupplyRate(address)": FunctionFragment;
+    "getSupportedTokens()": FunctionFragment;
+    "getTokenPrice(address)": FunctionFragment;
+    "getTotalDebtUSD(address)": FunctionFragment;
+    "getUserAccountData(address)": FunctionFragment;
+    "getUtilization(address)": FunctionFragment;
+    "liquidate(address,address,uint256,address)": FunctionFragment;
+    "liquidationBonusBps()": FunctionFragment;
+    "lpShares(address,address)": FunctionFragment;
+    "marketStates(address)": FunctionFragment;
+    "owner()": FunctionFragment;
+    "priceFeeds(address)": FunctionFragment;
+    "rateModels(address)": FunctionFragment;
+    "redeem(address,uint256)": FunctionFragment;
+    "renounceOwnership()": FunctionFragment;
+    "repay(address,uint256)": FunctionFragment;
+    "reserveFactorBps()": FunctionFragment;
+    "reserves(address)": FunctionFragment;
+    "setLiquidationParams(uint256,uint256)": FunctionFragment;
+    "setPriceFeed(address,(address,address,uint256,uint256))": FunctionFragment;
+    "setRateModel(address,(uint256,uint256,uint256,uint256))": FunctionFragment;
+    "setReserveFactor(uint256)": FunctionFragment;
+    "sharesToAmount(address,uint256)": FunctionFragment;
+    "socializeDeficit(address)": FunctionFragment;
+    "supportedTokens(uint256)": FunctionFragment;
+    "tokenConfigs(address)": FunctionFragment;
+    "totalShares(address)": FunctionFragment;
+    "transferOwnership(address)": FunctionFragment;
+    "treasuryReserves(address)": FunctionFragment;
+    "userCollateral(address,address)": FunctionFragment;
+    "userDebt(address,address)": FunctionFragment;
+    "withdraw(address,uint256)": FunctionFragment;
+    "withdrawTreasury(address,uint256)": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic:
+      | "LIQUIDATION_THRESHOLD"
+      | "MAX_BORROW_RATIO"
+      | "NATIVE_BNB"
+      | "_addToken"
+      | "amountToShares"
+      | "borrow"
+      | "closeFactorBps"
+      | "deficits"
+      | "deposit"
+      | "fundPool"
+      | "getBorrowCapacity"
+      | "getBorrowRate"
+      | "getIndebtedness"
+      | "getLiquidity"
+      | "getMarketsData"
+      | "getSeizeAmount"
+      | "getSupplyRate"
+      | "getSupportedTokens"
+      | "getTokenPrice"
+      | "getTotalDebtUSD"
+      | "getUserAccountData"
+      | "getUtilization"
+      | "liquidate"
+      | "liquidationBonusBps"
+      | "lpShares"
+      | "marketStates"
+      | "owner"
+      | "priceFeeds"
+      | "rateModels"
+      | "redeem"
+      | "renounceOwnership"
+      | "repay"
+      | "reserveFactorBps"
+      | "reserves"
+      | "setLiquidationParams"
+      | "setPriceFeed"
+      | "setRateModel"
+      | "setReserveFactor"
+      | "sharesToAmount"
+      | "socializeDeficit"
+      | "supportedTokens"
+      | "tokenConfigs"
+      | "totalShares"
+      | "transferOwnership"
+      | "treasuryReserves"
+      | "userCollateral"
+      | "userDebt"
+      | "withdraw"
+      | "withdrawTreasury"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "LIQUIDATION_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BORROW_RATIO",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "NATIVE_BNB",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "_addToken",
+    values: [
+      PromiseOrValue<string>,
+      PromiseOrValue<BigNumberish>,
+      LendingPoolTest.PriceFeedStruct,
+      LendingPoolTest.RateModelStruct
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "amountToShares",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "borrow",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeFactorBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deficits",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deposit",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundPool",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBorrowCapacity",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBorrowRate",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIndebtedness",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLiquidity",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMarketsData",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeizeAmount",
+    values: [
+      PromiseOrValue<string>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<string>
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSupplyRate",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSupportedTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTokenPrice",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTotalDebtUSD",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserAccountData",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUtilization",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "liquidate",
+    values: [
+      PromiseOrValue<string>,
+      PromiseOrValue<string>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<string>
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "liquidationBonusBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lpShares",
+    values: [PromiseOrValue<string>, PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "marketStates",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "priceFeeds",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rateModels",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redeem",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "repay",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reserveFactorBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reserves",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setLiquidationParams",
+    values: [PromiseOrValue<BigNumberish>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPriceFeed",
+    values: [PromiseOrValue<string>, LendingPoolTest.PriceFeedStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRateModel",
+    values: [PromiseOrValue<string>, LendingPoolTest.RateModelStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReserveFactor",
+    values: [PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sharesToAmount",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "socializeDeficit",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportedTokens",
+    values: [PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenConfigs",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalShares",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "treasuryReserves",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userCollateral",
+    values: [PromiseOrValue<string>, PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userDebt",
+    values: [PromiseOrValue<string>, PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawTreasury",
+    values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "LIQUIDATION_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BORROW_RATIO",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "NATIVE_BNB", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "_addToken", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "amountToShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "borrow", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closeFactorBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deficits", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "deposit", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "fundPool", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBorrowCapacity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBorrowRate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getIndebtedness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLiquidity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMarketsData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSeizeAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSupplyRate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSupportedTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTokenPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTotalDebtUSD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserAccountData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUtilization",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "liquidate", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "liquidationBonusBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "lpShares", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "marketStates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "priceFeeds", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rateModels", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "redeem", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "repay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reserveFactorBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "reserves", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setLiquidationParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPriceFeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRateModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReserveFactor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sharesToAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "socializeDeficit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportedTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenConfigs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "treasuryReserves",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "userCollateral",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userDebt", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawTreasury",
+    data: BytesLike
+  ): Result;
+
+  events: {
+    "BadDebtRecorded(address,address,uint256)": EventFragment;
+    "Borrowed(address,address,uint256)": EventFragment;
+    "DeficitCovered(address,uint256,uint256)": EventFragment;
+    "DeficitSocialized(address,uint256)": EventFragment;
+    "Deposited(address,address,uint256)": EventFragment;
+    "InterestAccrued(address,uint256,uint256,uint256)": EventFragment;
+    "Liquidated(address,address,address,uint256,address,uint256)": EventFragment;
+    "LiquidationParamsSet(uint256,uint256)": EventFragment;
+    "LiquidityRedeemed(address,address,uint256,uint256)": EventFragment;
+    "OwnershipTransferred(address,address)": EventFragment;
+    "PoolFunded(address,address,uint256,uint256)": EventFragment;
+    "PriceFeedSet(address,address,address,uint256,uint256)": EventFragment;
+    "RateModelSet(address,uint256,uint256,uint256,uint256)": EventFragment;
+    "Repaid(address,address,uint256)": EventFragment;
+    "ReserveFactorSet(uint256)": EventFragment;
+    "TokenAdded(address,uint256)": EventFragment;
+    "TreasuryWithdrawn(address,address,uint256)": EventFragment;
+    "Withdrawn(address,address,uint256)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "BadDebtRecorded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Borrowed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "DeficitCovered"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "DeficitSocialized"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Deposited"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "InterestAccrued"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Liquidated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "LiquidationParamsSet"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "LiquidityRedeemed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "OwnershipTransferred"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PoolFunded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PriceFeedSet"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RateModelSet"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Repaid"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ReserveFactorSet"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokenAdded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TreasuryWithdrawn"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Withdrawn"): EventFragment;
+}
+
+export interface BadDebtRecordedEventObject {
+  user: string;
+  token: string;
+  amount: BigNumber;
+}
+export type BadDebtRecordedEvent = TypedEvent<
+  [string, string, BigNumber],
+  BadDebtRecordedEventObject
+>;
+
+export type BadDebtRecordedEventFilter = TypedEventFilter<BadDebtRecordedEvent>;
+
+export interface BorrowedEventObject {
+  user: string;
+  token: string;
+  amount: BigNumber;
+}
+export type BorrowedEvent = TypedEvent<
+  [string, string, BigNumber],
+  BorrowedEventObject
+>;
+
+export type BorrowedEventFilter = TypedEventFilter<BorrowedEvent>;
+
+export interface DeficitCoveredEventObject {
+  token: string;
+  amount: BigNumber;
+  remaining: BigNumber;
+}
+export type DeficitCoveredEvent = TypedEvent<
+  [string, BigNumber, BigNumber],
+  DeficitCoveredEventObject
+>;
+
+export type DeficitCoveredEventFilter = TypedEventFilter<DeficitCoveredEvent>;
+
+export interface DeficitSocializedEventObject {
+  token: string;
+  amount: BigNumber;
+}
+export type DeficitSocializedEvent = TypedEvent<
+  [string, BigNumber],
+  DeficitSocializedEventObject
+>;
+
+export type DeficitSocializedEventFilter =
+  TypedEventFilter<DeficitSocializedEvent>;
+
+export interface DepositedEventObject {
+  user: string;
+  token: string;
+  amount: BigNumber;
+}
+export type DepositedEvent = TypedEvent<
+  [string, string, BigNumber],
+  DepositedEventObject
+>;
+
+export type DepositedEventFilter = TypedEventFilter<DepositedEvent>;
+
+export interface InterestAccruedEventObject {
+  token: string;
+  interest: BigNumber;
+  borrowIndex: BigNumber;
+  totalBorrows: BigNumber;
+}
+export type InterestAccruedEvent = TypedEvent<
+  [string, BigNumber, BigNumber, BigNumber],
+  InterestAccruedEventObject
+>;
+
+export type InterestAccruedEventFilter = TypedEventFilter<InterestAccruedEvent>;
+
+export interface LiquidatedEventObject {
+  user: string;
+  liquidator: string;
+  debtToken: string;
+  repaidAmount: BigNumber;
+  collateralToken: string;
+  seizedAmount: BigNumber;
+}
+export type LiquidatedEvent = TypedEvent<
+  [string, string, string, BigNumber, string, BigNumber],
+  LiquidatedEventObject
+>;
+
+export type LiquidatedEventFilter = TypedEventFilter<LiquidatedEvent>;
+
+export interface LiquidationParamsSetEventObject {
+  closeFactorBps: BigNumber;
+  liquidationBonusBps: BigNumber;
+}
+export type LiquidationParamsSetEvent = TypedEvent<
+  [BigNumber, BigNumber],
+  LiquidationParamsSetEventObject
+>;
+
+export type LiquidationParamsSetEventFilter =
+  TypedEventFilter<LiquidationParamsSetEvent>;
+
+export interface LiquidityRedeemedEventObject {
+  user: string;
+  token: string;
+  shares: BigNumber;
+  amount: BigNumber;
+}
+export type LiquidityRedeemedEvent = TypedEvent<
+  [string, string, BigNumber, BigNumber],
+  LiquidityRedeemedEventObject
+>;
+
+export type LiquidityRedeemedEventFilter =
+  TypedEventFilter<LiquidityRedeemedEvent>;
+
+export interface OwnershipTransferredEventObject {
+  previousOwner: string;
+  newOwner: string;
+}
+export type OwnershipTransferredEvent = TypedEvent<
+  [string, string],
+  OwnershipTransferredEventObject
+>;
+
+export type OwnershipTransferredEventFilter =
+  TypedEventFilter<OwnershipTransferredEvent>;
+
+export interface PoolFundedEventObject {
+  user: string;
+  token: string;
+  amount: BigNumber;
+  shares: BigNumber;
+}
+export type PoolFundedEvent = TypedEvent<
+  [string, string, BigNumber, BigNumber],
+  PoolFundedEventObject
+>;
+
+export type PoolFundedEventFilter = TypedEventFilter<PoolFundedEvent>;
+
+export interface PriceFeedSetEventObject {
+  token: string;
+  oracle: string;
+  referenceOracle: string;
+  maxStaleness: BigNumber;
+  maxDeviationBps: BigNumber;
+}
+export type PriceFeedSetEvent = TypedEvent<
+  [string, string, string, BigNumber, BigNumber],
+  PriceFeedSetEventObject
+>;
+
+export type PriceFeedSetEventFilter = TypedEventFilter<PriceFeedSetEvent>;
+
+export interface RateModelSetEventObject {
+  token: string;
+  baseRate: BigNumber;
+  slope1: BigNumber;
+  slope2: BigNumber;
+  kink: BigNumber;
+}
+export type RateModelSetEvent = TypedEvent<
+  [string, BigNumber, BigNumber, BigNumber, BigNumber],
+  RateModelSetEventObject
+>;
+
+export type RateModelSetEventFilter = TypedEventFilter<RateModelSetEvent>;
+
+export interface RepaidEventObject {
+  user: string;
+  token: string;
+  amount: BigNumber;
+}
+export type RepaidEvent = TypedEvent<
+  [string, string, BigNumber],
+  RepaidEventObject
+>;
+
+export type RepaidEventFilter = TypedEventFilter<RepaidEvent>;
+
+export interface ReserveFactorSetEventObject {
+  reserveFactorBps: BigNumber;
+}
+export type ReserveFactorSetEvent = TypedEvent<
+  [BigNumber],
+  ReserveFactorSetEventObject
+>;
+
+export type ReserveFactorSetEventFilter =
+  TypedEventFilter<ReserveFactorSetEvent>;
+
+export interface TokenAddedEventObject {
+  token: string;
+  weight: BigNumber;
+}
+export type TokenAddedEvent = TypedEvent<
+  [string, BigNumber],
+  TokenAddedEventObject
+>;
+
+export type TokenAddedEventFilter = TypedEventFilter<TokenAddedEvent>;
+
+export interface TreasuryWithdrawnEventObject {
+  token: string;
+  to: string;
+  amount: BigNumber;
+}
+export type TreasuryWithdrawnEvent = TypedEvent<
+  [string, string, BigNumber],
+  TreasuryWithdrawnEventObject
+>;
+
+export type TreasuryWithdrawnEventFilter =
+  TypedEventFilter<TreasuryWithdrawnEvent>;
+
+export interface WithdrawnEventObject {
+  user: string;
+  token: string;
+  amount: BigNumber;
+}
+export type WithdrawnEvent = TypedEvent<
+  [string, string, BigNumber],
+  WithdrawnEventObject
+>;
+
+export type WithdrawnEventFilter = TypedEventFilter<WithdrawnEvent>;
+
+export interface LendingPoolTest extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: LendingPoolTestInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    LIQUIDATION_THRESHOLD(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    MAX_BORROW_RATIO(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    NATIVE_BNB(overrides?: CallOverrides): Promise<[string]>;
+
+    _addToken(
+      token: PromiseOrValue<string>,
+      weight: PromiseOrValue<BigNumberish>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    amountToShares(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    borrow(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    closeFactorBps(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    deficits(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    deposit(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    fundPool(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    getBorrowCapacity(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber] & { cap: BigNumber }>;
+
+    getBorrowRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    getIndebtedness(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    getLiquidity(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    getMarketsData(
+      overrides?: CallOverrides
+    ): Promise<
+      [LendingPoolTest.MarketDataStructOutput] & {
+        data: LendingPoolTest.MarketDataStructOutput;
+      }
+    >;
+
+    getSeizeAmount(
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    getSupplyRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    getSupportedTokens(overrides?: CallOverrides): Promise<[string[]]>;
+
+    getTokenPrice(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    getTotalDebtUSD(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber] & { total: BigNumber }>;
+
+    getUserAccountData(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<
+      [LendingPoolTest.AccountDataStructOutput] & {
+        data: LendingPoolTest.AccountDataStructOutput;
+      }
+    >;
+
+    getUtilization(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    liquidate(
+      user: PromiseOrValue<string>,
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    liquidationBonusBps(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    lpShares(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    marketStates(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        totalBorrows: BigNumber;
+        borrowIndex: BigNumber;
+        lastAccrual: BigNumber;
+      }
+    >;
+
+    owner(overrides?: CallOverrides): Promise<[string]>;
+
+    priceFeeds(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<
+      [string, string, BigNumber, BigNumber] & {
+        oracle: string;
+        referenceOracle: string;
+        maxStaleness: BigNumber;
+        maxDeviationBps: BigNumber;
+      }
+    >;
+
+    rateModels(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber] & {
+        baseRate: BigNumber;
+        slope1: BigNumber;
+        slope2: BigNumber;
+        kink: BigNumber;
+      }
+    >;
+
+    redeem(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    renounceOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    repay(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    reserveFactorBps(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    reserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    setLiquidationParams(
+      closeFactorBps_: PromiseOrValue<BigNumberish>,
+      liquidationBonusBps_: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setPriceFeed(
+      token: PromiseOrValue<string>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setRateModel(
+      token: PromiseOrValue<string>,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setReserveFactor(
+      reserveFactorBps_: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    sharesToAmount(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    socializeDeficit(
+      token: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    supportedTokens(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<[string]>;
+
+    tokenConfigs(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber, boolean] & { weight: BigNumber; isActive: boolean }>;
+
+    totalShares(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    treasuryReserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    userCollateral(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber] & { amount: BigNumber }>;
+
+    userDebt(
+      user: PromiseOrValue<string>,
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    withdraw(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    withdrawTreasury(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+  };
+
+  LIQUIDATION_THRESHOLD(overrides?: CallOverrides): Promise<BigNumber>;
+
+  MAX_BORROW_RATIO(overrides?: CallOverrides): Promise<BigNumber>;
+
+  NATIVE_BNB(overrides?: CallOverrides): Promise<string>;
+
+  _addToken(
+    token: PromiseOrValue<string>,
+    weight: PromiseOrValue<BigNumberish>,
+    priceFeed: LendingPoolTest.PriceFeedStruct,
+    rateModel: LendingPoolTest.RateModelStruct,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  amountToShares(
+    token: PromiseOrValue<string>,
+    amount: PromiseOrValue<BigNumberish>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  borrow(
+    token: PromiseOrValue<string>,
+    amount: PromiseOrValue<BigNumberish>,
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  closeFactorBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+  deficits(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  deposit(
+    token: PromiseOrValue<string>,
+    amount: PromiseOrValue<BigNumberish>,
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  fundPool(
+    token: PromiseOrValue<string>,
+    amount: PromiseOrValue<BigNumberish>,
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  getBorrowCapacity(
+    user: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getBorrowRate(
+    token: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getIndebtedness(
+    user: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getLiquidity(
+    token: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getMarketsData(
+    overrides?: CallOverrides
+  ): Promise<LendingPoolTest.MarketDataStructOutput>;
+
+  getSeizeAmount(
+    debtToken: PromiseOrValue<string>,
+    repayAmount: PromiseOrValue<BigNumberish>,
+    collateralToken: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getSupplyRate(
+    token: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getSupportedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+  getTokenPrice(
+    token: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getTotalDebtUSD(
+    user: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getUserAccountData(
+    user: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<LendingPoolTest.AccountDataStructOutput>;
+
+  getUtilization(
+    token: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  liquidate(
+    user: PromiseOrValue<string>,
+    debtToken: PromiseOrValue<string>,
+    repayAmount: PromiseOrValue<BigNumberish>,
+    collateralToken: PromiseOrValue<string>,
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  liquidationBonusBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+  lpShares(
+    arg0: PromiseOrValue<string>,
+    arg1: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  marketStates(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber] & {
+      totalBorrows: BigNumber;
+      borrowIndex: BigNumber;
+      lastAccrual: BigNumber;
+    }
+  >;
+
+  owner(overrides?: CallOverrides): Promise<string>;
+
+  priceFeeds(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<
+    [string, string, BigNumber, BigNumber] & {
+      oracle: string;
+      referenceOracle: string;
+      maxStaleness: BigNumber;
+      maxDeviationBps: BigNumber;
+    }
+  >;
+
+  rateModels(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber] & {
+      baseRate: BigNumber;
+      slope1: BigNumber;
+      slope2: BigNumber;
+      kink: BigNumber;
+    }
+  >;
+
+  redeem(
+    token: PromiseOrValue<string>,
+    shares: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  renounceOwnership(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  repay(
+    token: PromiseOrValue<string>,
+    amount: PromiseOrValue<BigNumberish>,
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  reserveFactorBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+  reserves(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  setLiquidationParams(
+    closeFactorBps_: PromiseOrValue<BigNumberish>,
+    liquidationBonusBps_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setPriceFeed(
+    token: PromiseOrValue<string>,
+    priceFeed: LendingPoolTest.PriceFeedStruct,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setRateModel(
+    token: PromiseOrValue<string>,
+    rateModel: LendingPoolTest.RateModelStruct,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setReserveFactor(
+    reserveFactorBps_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  sharesToAmount(
+    token: PromiseOrValue<string>,
+    shares: PromiseOrValue<BigNumberish>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  socializeDeficit(
+    token: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  supportedTokens(
+    arg0: PromiseOrValue<BigNumberish>,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  tokenConfigs(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<[BigNumber, boolean] & { weight: BigNumber; isActive: boolean }>;
+
+  totalShares(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  transferOwnership(
+    newOwner: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  treasuryReserves(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  userCollateral(
+    arg0: PromiseOrValue<string>,
+    arg1: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  userDebt(
+    user: PromiseOrValue<string>,
+    token: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  withdraw(
+    token: PromiseOrValue<string>,
+    amount: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  withdrawTreasury(
+    token: PromiseOrValue<string>,
+    amount: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  callStatic: {
+    LIQUIDATION_THRESHOLD(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_BORROW_RATIO(overrides?: CallOverrides): Promise<BigNumber>;
+
+    NATIVE_BNB(overrides?: CallOverrides): Promise<string>;
+
+    _addToken(
+      token: PromiseOrValue<string>,
+      weight: PromiseOrValue<BigNumberish>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    amountToShares(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    borrow(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    closeFactorBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    deficits(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    deposit(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    fundPool(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    getBorrowCapacity(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getBorrowRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getIndebtedness(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getLiquidity(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getMarketsData(
+      overrides?: CallOverrides
+    ): Promise<LendingPoolTest.MarketDataStructOutput>;
+
+    getSeizeAmount(
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getSupplyRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getSupportedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+    getTokenPrice(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTotalDebtUSD(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getUserAccountData(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<LendingPoolTest.AccountDataStructOutput>;
+
+    getUtilization(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    liquidate(
+      user: PromiseOrValue<string>,
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    liquidationBonusBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    lpShares(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    marketStates(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        totalBorrows: BigNumber;
+        borrowIndex: BigNumber;
+        lastAccrual: BigNumber;
+      }
+    >;
+
+    owner(overrides?: CallOverrides): Promise<string>;
+
+    priceFeeds(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<
+      [string, string, BigNumber, BigNumber] & {
+        oracle: string;
+        referenceOracle: string;
+        maxStaleness: BigNumber;
+        maxDeviationBps: BigNumber;
+      }
+    >;
+
+    rateModels(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber] & {
+        baseRate: BigNumber;
+        slope1: BigNumber;
+        slope2: BigNumber;
+        kink: BigNumber;
+      }
+    >;
+
+    redeem(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    renounceOwnership(overrides?: CallOverrides): Promise<void>;
+
+    repay(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    reserveFactorBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    reserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    setLiquidationParams(
+      closeFactorBps_: PromiseOrValue<BigNumberish>,
+      liquidationBonusBps_: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setPriceFeed(
+      token: PromiseOrValue<string>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setRateModel(
+      token: PromiseOrValue<string>,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setReserveFactor(
+      reserveFactorBps_: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    sharesToAmount(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    socializeDeficit(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    supportedTokens(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    tokenConfigs(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber, boolean] & { weight: BigNumber; isActive: boolean }>;
+
+    totalShares(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    treasuryReserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    userCollateral(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    userDebt(
+      user: PromiseOrValue<string>,
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    withdraw(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    withdrawTreasury(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+  };
+
+  filters: {
+    "BadDebtRecorded(address,address,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): BadDebtRecordedEventFilter;
+    BadDebtRecorded(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): BadDebtRecordedEventFilter;
+
+    "Borrowed(address,address,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): BorrowedEventFilter;
+    Borrowed(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): BorrowedEventFilter;
+
+    "DeficitCovered(address,uint256,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      amount?: null,
+      remaining?: null
+    ): DeficitCoveredEventFilter;
+    DeficitCovered(
+      token?: PromiseOrValue<string> | null,
+      amount?: null,
+      remaining?: null
+    ): DeficitCoveredEventFilter;
+
+    "DeficitSocialized(address,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): DeficitSocializedEventFilter;
+    DeficitSocialized(
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): DeficitSocializedEventFilter;
+
+    "Deposited(address,address,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): DepositedEventFilter;
+    Deposited(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): DepositedEventFilter;
+
+    "InterestAccrued(address,uint256,uint256,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      interest?: null,
+      borrowIndex?: null,
+      totalBorrows?: null
+    ): InterestAccruedEventFilter;
+    InterestAccrued(
+      token?: PromiseOrValue<string> | null,
+      interest?: null,
+      borrowIndex?: null,
+      totalBorrows?: null
+    ): InterestAccruedEventFilter;
+
+    "Liquidated(address,address,address,uint256,address,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      liquidator?: PromiseOrValue<string> | null,
+      debtToken?: null,
+      repaidAmount?: null,
+      collateralToken?: null,
+      seizedAmount?: null
+    ): LiquidatedEventFilter;
+    Liquidated(
+      user?: PromiseOrValue<string> | null,
+      liquidator?: PromiseOrValue<string> | null,
+      debtToken?: null,
+      repaidAmount?: null,
+      collateralToken?: null,
+      seizedAmount?: null
+    ): LiquidatedEventFilter;
+
+    "LiquidationParamsSet(uint256,uint256)"(
+      closeFactorBps?: null,
+      liquidationBonusBps?: null
+    ): LiquidationParamsSetEventFilter;
+    LiquidationParamsSet(
+      closeFactorBps?: null,
+      liquidationBonusBps?: null
+    ): LiquidationParamsSetEventFilter;
+
+    "LiquidityRedeemed(address,address,uint256,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      shares?: null,
+      amount?: null
+    ): LiquidityRedeemedEventFilter;
+    LiquidityRedeemed(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      shares?: null,
+      amount?: null
+    ): LiquidityRedeemedEventFilter;
+
+    "OwnershipTransferred(address,address)"(
+      previousOwner?: PromiseOrValue<string> | null,
+      newOwner?: PromiseOrValue<string> | null
+    ): OwnershipTransferredEventFilter;
+    OwnershipTransferred(
+      previousOwner?: PromiseOrValue<string> | null,
+      newOwner?: PromiseOrValue<string> | null
+    ): OwnershipTransferredEventFilter;
+
+    "PoolFunded(address,address,uint256,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null,
+      shares?: null
+    ): PoolFundedEventFilter;
+    PoolFunded(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null,
+      shares?: null
+    ): PoolFundedEventFilter;
+
+    "PriceFeedSet(address,address,address,uint256,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      oracle?: null,
+      referenceOracle?: null,
+      maxStaleness?: null,
+      maxDeviationBps?: null
+    ): PriceFeedSetEventFilter;
+    PriceFeedSet(
+      token?: PromiseOrValue<string> | null,
+      oracle?: null,
+      referenceOracle?: null,
+      maxStaleness?: null,
+      maxDeviationBps?: null
+    ): PriceFeedSetEventFilter;
+
+    "RateModelSet(address,uint256,uint256,uint256,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      baseRate?: null,
+      slope1?: null,
+      slope2?: null,
+      kink?: null
+    ): RateModelSetEventFilter;
+    RateModelSet(
+      token?: PromiseOrValue<string> | null,
+      baseRate?: null,
+      slope1?: null,
+      slope2?: null,
+      kink?: null
+    ): RateModelSetEventFilter;
+
+    "Repaid(address,address,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): RepaidEventFilter;
+    Repaid(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): RepaidEventFilter;
+
+    "ReserveFactorSet(uint256)"(
+      reserveFactorBps?: null
+    ): ReserveFactorSetEventFilter;
+    ReserveFactorSet(reserveFactorBps?: null): ReserveFactorSetEventFilter;
+
+    "TokenAdded(address,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      weight?: null
+    ): TokenAddedEventFilter;
+    TokenAdded(
+      token?: PromiseOrValue<string> | null,
+      weight?: null
+    ): TokenAddedEventFilter;
+
+    "TreasuryWithdrawn(address,address,uint256)"(
+      token?: PromiseOrValue<string> | null,
+      to?: PromiseOrValue<string> | null,
+      amount?: null
+    ): TreasuryWithdrawnEventFilter;
+    TreasuryWithdrawn(
+      token?: PromiseOrValue<string> | null,
+      to?: PromiseOrValue<string> | null,
+      amount?: null
+    ): TreasuryWithdrawnEventFilter;
+
+    "Withdrawn(address,address,uint256)"(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): WithdrawnEventFilter;
+    Withdrawn(
+      user?: PromiseOrValue<string> | null,
+      token?: PromiseOrValue<string> | null,
+      amount?: null
+    ): WithdrawnEventFilter;
+  };
+
+  estimateGas: {
+    LIQUIDATION_THRESHOLD(overrides?: CallOverrides): Promise<BigNumber>;
+
+    MAX_BORROW_RATIO(overrides?: CallOverrides): Promise<BigNumber>;
+
+    NATIVE_BNB(overrides?: CallOverrides): Promise<BigNumber>;
+
+    _addToken(
+      token: PromiseOrValue<string>,
+      weight: PromiseOrValue<BigNumberish>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    amountToShares(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    borrow(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    closeFactorBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    deficits(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    deposit(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    fundPool(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    getBorrowCapacity(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getBorrowRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getIndebtedness(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getLiquidity(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getMarketsData(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getSeizeAmount(
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getSupplyRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getSupportedTokens(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getTokenPrice(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTotalDebtUSD(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getUserAccountData(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getUtilization(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    liquidate(
+      user: PromiseOrValue<string>,
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    liquidationBonusBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    lpShares(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    marketStates(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+
+    priceFeeds(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    rateModels(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    redeem(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    renounceOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    repay(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    reserveFactorBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    reserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    setLiquidationParams(
+      closeFactorBps_: PromiseOrValue<BigNumberish>,
+      liquidationBonusBps_: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setPriceFeed(
+      token: PromiseOrValue<string>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setRateModel(
+      token: PromiseOrValue<string>,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setReserveFactor(
+      reserveFactorBps_: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    sharesToAmount(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    socializeDeficit(
+      token: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    supportedTokens(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tokenConfigs(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    totalShares(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    treasuryReserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    userCollateral(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    userDebt(
+      user: PromiseOrValue<string>,
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    withdraw(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    withdrawTreasury(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    LIQUIDATION_THRESHOLD(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    MAX_BORROW_RATIO(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    NATIVE_BNB(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    _addToken(
+      token: PromiseOrValue<string>,
+      weight: PromiseOrValue<BigNumberish>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    amountToShares(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    borrow(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    closeFactorBps(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    deficits(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    deposit(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    fundPool(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    getBorrowCapacity(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getBorrowRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getIndebtedness(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getLiquidity(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getMarketsData(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    getSeizeAmount(
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getSupplyRate(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getSupportedTokens(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getTokenPrice(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getTotalDebtUSD(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getUserAccountData(
+      user: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getUtilization(
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    liquidate(
+      user: PromiseOrValue<string>,
+      debtToken: PromiseOrValue<string>,
+      repayAmount: PromiseOrValue<BigNumberish>,
+      collateralToken: PromiseOrValue<string>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    liquidationBonusBps(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    lpShares(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    marketStates(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    priceFeeds(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    rateModels(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    redeem(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    renounceOwnership(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    repay(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    reserveFactorBps(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    reserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    setLiquidationParams(
+      closeFactorBps_: PromiseOrValue<BigNumberish>,
+      liquidationBonusBps_: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setPriceFeed(
+      token: PromiseOrValue<string>,
+      priceFeed: LendingPoolTest.PriceFeedStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setRateModel(
+      token: PromiseOrValue<string>,
+      rateModel: LendingPoolTest.RateModelStruct,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setReserveFactor(
+      reserveFactorBps_: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    sharesToAmount(
+      token: PromiseOrValue<string>,
+      shares: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    socializeDeficit(
+      token: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    supportedTokens(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    tokenConfigs(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    totalShares(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    transferOwnership(
+      newOwner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    treasuryReserves(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    userCollateral(
+      arg0: PromiseOrValue<string>,
+      arg1: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    userDebt(
+      user: PromiseOrValue<string>,
+      token: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    withdraw(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    withdrawTreasury(
+      token: PromiseOrValue<string>,
+      amount: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+  };
+}
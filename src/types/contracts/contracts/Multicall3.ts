@@ -0,0 +1,183 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  PayableOverrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type { FunctionFragment, Result } from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+  PromiseOrValue,
+} from "../common";
+
+export declare namespace Multicall3 {
+  export type Call3Struct = {
+    target: PromiseOrValue<string>;
+    allowFailure: PromiseOrValue<boolean>;
+    callData: PromiseOrValue<BytesLike>;
+  };
+
+  export type Call3StructOutput = [string, boolean, string] & {
+    target: string;
+    allowFailure: boolean;
+    callData: string;
+  };
+
+  export type ResultStruct = {
+    success: PromiseOrValue<boolean>;
+    returnData: PromiseOrValue<BytesLike>;
+  };
+
+  export type ResultStructOutput = [boolean, string] & {
+    success: boolean;
+    returnData: string;
+  };
+}
+
+export interface Multicall3Interface extends utils.Interface {
+  functions: {
+    "aggregate3((address,bool,bytes)[])": FunctionFragment;
+    "getBlockNumber()": FunctionFragment;
+    "getEthBalance(address)": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic: "aggregate3" | "getBlockNumber" | "getEthBalance"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "aggregate3",
+    values: [Multicall3.Call3Struct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlockNumber",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEthBalance",
+    values: [PromiseOrValue<string>]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "aggregate3", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBlockNumber",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEthBalance",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export interface Multicall3 extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: Multicall3Interface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    aggregate3(
+      calls: Multicall3.Call3Struct[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    getBlockNumber(
+      overrides?: CallOverrides
+    ): Promise<[BigNumber] & { blockNumber: BigNumber }>;
+
+    getEthBalance(
+      addr: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber] & { balance: BigNumber }>;
+  };
+
+  aggregate3(
+    calls: Multicall3.Call3Struct[],
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+
+  getEthBalance(
+    addr: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  callStatic: {
+    aggregate3(
+      calls: Multicall3.Call3Struct[],
+      overrides?: CallOverrides
+    ): Promise<Multicall3.ResultStructOutput[]>;
+
+    getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getEthBalance(
+      addr: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    aggregate3(
+      calls: Multicall3.Call3Struct[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getEthBalance(
+      addr: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    aggregate3(
+      calls: Multicall3.Call3Struct[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    getBlockNumber(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    getEthBalance(
+      addr: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
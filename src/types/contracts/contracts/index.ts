@@ -0,0 +1,9 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as mocks from "./mocks";
+export type { mocks };
+import type * as oracles from "./oracles";
+export type { oracles };
+export type { LendingPoolTest } from "./LendingPoolTest";
+export type { Multicall3 } from "./Multicall3";
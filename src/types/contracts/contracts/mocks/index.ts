@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { MockAggregatorV3 } from "./MockAggregatorV3";
+export type { MockERC20 } from "./MockERC20";
+export type { MockUniswapV2Pair } from "./MockUniswapV2Pair";
+export type { NativeReceiver } from "./NativeReceiver";
@@ -0,0 +1,115 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BytesLike,
+  CallOverrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type { FunctionFragment, Result } from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+} from "../../../common";
+
+export interface ChainlinkOracleInterface extends utils.Interface {
+  functions: {
+    "feed()": FunctionFragment;
+    "latestPrice()": FunctionFragment;
+    "source()": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic: "feed" | "latestPrice" | "source"
+  ): FunctionFragment;
+
+  encodeFunctionData(functionFragment: "feed", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "latestPrice",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "source", values?: undefined): string;
+
+  decodeFunctionResult(functionFragment: "feed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "latestPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "source", data: BytesLike): Result;
+
+  events: {};
+}
+
+export interface ChainlinkOracle extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: ChainlinkOracleInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    feed(overrides?: CallOverrides): Promise<[string]>;
+
+    latestPrice(overrides?: CallOverrides): Promise<[BigNumber, BigNumber]>;
+
+    source(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  feed(overrides?: CallOverrides): Promise<string>;
+
+  latestPrice(overrides?: CallOverrides): Promise<[BigNumber, BigNumber]>;
+
+  source(overrides?: CallOverrides): Promise<string>;
+
+  callStatic: {
+    feed(overrides?: CallOverrides): Promise<string>;
+
+    latestPrice(overrides?: CallOverrides): Promise<[BigNumber, BigNumber]>;
+
+    source(overrides?: CallOverrides): Promise<string>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    feed(overrides?: CallOverrides): Promise<BigNumber>;
+
+    latestPrice(overrides?: CallOverrides): Promise<BigNumber>;
+
+    source(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    feed(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    latestPrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    source(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { AggregatorV3Interface } from "./AggregatorV3Interface";
+export type { ChainlinkOracle } from "./ChainlinkOracle";
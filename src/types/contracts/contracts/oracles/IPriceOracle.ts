@@ -0,0 +1,114 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BytesLike,
+  CallOverrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type { FunctionFragment, Result } from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+} from "../../common";
+
+export interface IPriceOracleInterface extends utils.Interface {
+  functions: {
+    "latestPrice()": FunctionFragment;
+    "source()": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic: "latestPrice" | "source"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "latestPrice",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "source", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "latestPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "source", data: BytesLike): Result;
+
+  events: {};
+}
+
+export interface IPriceOracle extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: IPriceOracleInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    latestPrice(
+      overrides?: CallOverrides
+    ): Promise<
+      [BigNumber, BigNumber] & { price: BigNumber; updatedAt: BigNumber }
+    >;
+
+    source(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  latestPrice(
+    overrides?: CallOverrides
+  ): Promise<
+    [BigNumber, BigNumber] & { price: BigNumber; updatedAt: BigNumber }
+  >;
+
+  source(overrides?: CallOverrides): Promise<string>;
+
+  callStatic: {
+    latestPrice(
+      overrides?: CallOverrides
+    ): Promise<
+      [BigNumber, BigNumber] & { price: BigNumber; updatedAt: BigNumber }
+    >;
+
+    source(overrides?: CallOverrides): Promise<string>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    latestPrice(overrides?: CallOverrides): Promise<BigNumber>;
+
+    source(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    latestPrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    source(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,274 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  Overrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type {
+  FunctionFragment,
+  Result,
+  EventFragment,
+} from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+  PromiseOrValue,
+} from "../../../common";
+
+export interface UniswapV2TwapOracleInterface extends utils.Interface {
+  functions: {
+    "baseOracle()": FunctionFragment;
+    "blockTimestampLast()": FunctionFragment;
+    "latestPrice()": FunctionFragment;
+    "pair()": FunctionFragment;
+    "period()": FunctionFragment;
+    "priceAverage()": FunctionFragment;
+    "priceCumulativeLast()": FunctionFragment;
+    "source()": FunctionFragment;
+    "token()": FunctionFragment;
+    "update()": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic:
+      | "baseOracle"
+      | "blockTimestampLast"
+      | "latestPrice"
+      | "pair"
+      | "period"
+      | "priceAverage"
+      | "priceCumulativeLast"
+      | "source"
+      | "token"
+      | "update"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "baseOracle",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "blockTimestampLast",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestPrice",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "pair", values?: undefined): string;
+  encodeFunctionData(functionFragment: "period", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "priceAverage",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "priceCumulativeLast",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "source", values?: undefined): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(functionFragment: "update", values?: undefined): string;
+
+  decodeFunctionResult(functionFragment: "baseOracle", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "blockTimestampLast",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "latestPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pair", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "period", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "priceAverage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "priceCumulativeLast",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "source", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "update", data: BytesLike): Result;
+
+  events: {
+    "Updated(uint224,uint32)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "Updated"): EventFragment;
+}
+
+export interface UpdatedEventObject {
+  priceAverage: BigNumber;
+  timestamp: number;
+}
+export type UpdatedEvent = TypedEvent<[BigNumber, number], UpdatedEventObject>;
+
+export type UpdatedEventFilter = TypedEventFilter<UpdatedEvent>;
+
+export interface UniswapV2TwapOracle extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: UniswapV2TwapOracleInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    baseOracle(overrides?: CallOverrides): Promise<[string]>;
+
+    blockTimestampLast(overrides?: CallOverrides): Promise<[number]>;
+
+    latestPrice(overrides?: CallOverrides): Promise<[BigNumber, BigNumber]>;
+
+    pair(overrides?: CallOverrides): Promise<[string]>;
+
+    period(overrides?: CallOverrides): Promise<[number]>;
+
+    priceAverage(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    priceCumulativeLast(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    source(overrides?: CallOverrides): Promise<[string]>;
+
+    token(overrides?: CallOverrides): Promise<[string]>;
+
+    update(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+  };
+
+  baseOracle(overrides?: CallOverrides): Promise<string>;
+
+  blockTimestampLast(overrides?: CallOverrides): Promise<number>;
+
+  latestPrice(overrides?: CallOverrides): Promise<[BigNumber, BigNumber]>;
+
+  pair(overrides?: CallOverrides): Promise<string>;
+
+  period(overrides?: CallOverrides): Promise<number>;
+
+  priceAverage(overrides?: CallOverrides): Promise<BigNumber>;
+
+  priceCumulativeLast(overrides?: CallOverrides): Promise<BigNumber>;
+
+  source(overrides?: CallOverrides): Promise<string>;
+
+  token(overrides?: CallOverrides): Promise<string>;
+
+  update(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  callStatic: {
+    baseOracle(overrides?: CallOverrides): Promise<string>;
+
+    blockTimestampLast(overrides?: CallOverrides): Promise<number>;
+
+    latestPrice(overrides?: CallOverrides): Promise<[BigNumber, BigNumber]>;
+
+    pair(overrides?: CallOverrides): Promise<string>;
+
+    period(overrides?: CallOverrides): Promise<number>;
+
+    priceAverage(overrides?: CallOverrides): Promise<BigNumber>;
+
+    priceCumulativeLast(overrides?: CallOverrides): Promise<BigNumber>;
+
+    source(overrides?: CallOverrides): Promise<string>;
+
+    token(overrides?: CallOverrides): Promise<string>;
+
+    update(overrides?: CallOverrides): Promise<void>;
+  };
+
+  filters: {
+    "Updated(uint224,uint32)"(
+      priceAverage?: null,
+      timestamp?: null
+    ): UpdatedEventFilter;
+    Updated(priceAverage?: null, timestamp?: null): UpdatedEventFilter;
+  };
+
+  estimateGas: {
+    baseOracle(overrides?: CallOverrides): Promise<BigNumber>;
+
+    blockTimestampLast(overrides?: CallOverrides): Promise<BigNumber>;
+
+    latestPrice(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pair(overrides?: CallOverrides): Promise<BigNumber>;
+
+    period(overrides?: CallOverrides): Promise<BigNumber>;
+
+    priceAverage(overrides?: CallOverrides): Promise<BigNumber>;
+
+    priceCumulativeLast(overrides?: CallOverrides): Promise<BigNumber>;
+
+    source(overrides?: CallOverrides): Promise<BigNumber>;
+
+    token(overrides?: CallOverrides): Promise<BigNumber>;
+
+    update(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    baseOracle(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    blockTimestampLast(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    latestPrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pair(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    period(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    priceAverage(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    priceCumulativeLast(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    source(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    token(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    update(
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IUniswapV2Pair } from "./IUniswapV2Pair";
+export type { UniswapV2TwapOracle } from "./UniswapV2TwapOracle";
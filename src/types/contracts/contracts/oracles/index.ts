@@ -0,0 +1,9 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as chainlinkOracleSol from "./ChainlinkOracle.sol";
+export type { chainlinkOracleSol };
+import type * as uniswapV2TwapOracleSol from "./UniswapV2TwapOracle.sol";
+export type { uniswapV2TwapOracleSol };
+export type { FixedPriceOracle } from "./FixedPriceOracle";
+export type { IPriceOracle } from "./IPriceOracle";
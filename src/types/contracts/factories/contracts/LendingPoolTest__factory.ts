@@ -0,0 +1,1797 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import { Signer, utils, Contract, ContractFactory, Overrides } from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../common";
+import type {
+  LendingPoolTest,
+  LendingPoolTestInterface,
+} from "../../contracts/LendingPoolTest";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "token",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "weight",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "contract IPriceOracle",
+                name: "oracle",
+                type: "address",
+              },
+              {
+                internalType: "contract IPriceOracle",
+                name: "referenceOracle",
+                type: "address",
+              },
+              {
+                internalType: "uint256",
+                name: "maxStaleness",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxDeviationBps",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct LendingPoolTest.PriceFeed",
+            name: "priceFeed",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "baseRate",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "slope1",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "slope2",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "kink",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct LendingPoolTest.RateModel",
+            name: "rateModel",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct LendingPoolTest.TokenInit[]",
+        name: "tokens",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BadDebtRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Borrowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "remaining",
+        type: "uint256",
+      },
+    ],
+    name: "DeficitCovered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "DeficitSocialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "interest",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "borrowIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalBorrows",
+        type: "uint256",
+      },
+    ],
+    name: "InterestAccrued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "liquidator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "debtToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "repaidAmount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "collateralToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "seizedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "Liquidated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "closeFactorBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "liquidationBonusBps",
+        type: "uint256",
+      },
+    ],
+    name: "LiquidationParamsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "LiquidityRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "PoolFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "referenceOracle",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxStaleness",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxDeviationBps",
+        type: "uint256",
+      },
+    ],
+    name: "PriceFeedSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "baseRate",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "slope1",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "slope2",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "kink",
+        type: "uint256",
+      },
+    ],
+    name: "RateModelSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Repaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reserveFactorBps",
+        type: "uint256",
+      },
+    ],
+    name: "ReserveFactorSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+    ],
+    name: "TokenAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "TreasuryWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "LIQUIDATION_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BORROW_RATIO",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NATIVE_BNB",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "contract IPriceOracle",
+            name: "oracle",
+            type: "address",
+          },
+          {
+            internalType: "contract IPriceOracle",
+            name: "referenceOracle",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "maxStaleness",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxDeviationBps",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct LendingPoolTest.PriceFeed",
+        name: "priceFeed",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "baseRate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "slope1",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "slope2",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "kink",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct LendingPoolTest.RateModel",
+        name: "rateModel",
+        type: "tuple",
+      },
+    ],
+    name: "_addToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "amountToShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "borrow",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeFactorBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "deficits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "fundPool",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getBorrowCapacity",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "cap",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getBorrowRate",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getIndebtedness",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getLiquidity",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMarketsData",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address[]",
+            name: "tokens",
+            type: "address[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "weights",
+            type: "uint256[]",
+          },
+          {
+            internalType: "bool[]",
+            name: "active",
+            type: "bool[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "reserves",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "prices",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "priceUpdatedAt",
+            type: "uint256[]",
+          },
+          {
+            internalType: "string[]",
+            name: "priceSources",
+            type: "string[]",
+          },
+          {
+            internalType: "string[]",
+            name: "priceErrors",
+            type: "string[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "totalBorrows",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "borrowRates",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "supplyRates",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "totalShares",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "liquidity",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "treasury",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "deficits",
+            type: "uint256[]",
+          },
+        ],
+        internalType: "struct LendingPoolTest.MarketData",
+        name: "data",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "debtToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "repayAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "collateralToken",
+        type: "address",
+      },
+    ],
+    name: "getSeizeAmount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getSupplyRate",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSupportedTokens",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getTokenPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getTotalDebtUSD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserAccountData",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address[]",
+            name: "tokens",
+            type: "address[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "collateral",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "debt",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "prices",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "priceUpdatedAt",
+            type: "uint256[]",
+          },
+          {
+            internalType: "string[]",
+            name: "priceErrors",
+            type: "string[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "reserves",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "borrowRates",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "supplyRates",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "lpShares",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "lpBalances",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256",
+            name: "totalCollateralUSD",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "borrowCapacity",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "totalDebtUSD",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "indebtedness",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct LendingPoolTest.AccountData",
+        name: "data",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getUtilization",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "debtToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "repayAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "collateralToken",
+        type: "address",
+      },
+    ],
+    name: "liquidate",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "liquidationBonusBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lpShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "marketStates",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "totalBorrows",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "borrowIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastAccrual",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "priceFeeds",
+    outputs: [
+      {
+        internalType: "contract IPriceOracle",
+        name: "oracle",
+        type: "address",
+      },
+      {
+        internalType: "contract IPriceOracle",
+        name: "referenceOracle",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxStaleness",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxDeviationBps",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "rateModels",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "baseRate",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "slope1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "slope2",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "kink",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "redeem",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "repay",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reserveFactorBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "reserves",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "closeFactorBps_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "liquidationBonusBps_",
+        type: "uint256",
+      },
+    ],
+    name: "setLiquidationParams",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "contract IPriceOracle",
+            name: "oracle",
+            type: "address",
+          },
+          {
+            internalType: "contract IPriceOracle",
+            name: "referenceOracle",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "maxStaleness",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxDeviationBps",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct LendingPoolTest.PriceFeed",
+        name: "priceFeed",
+        type: "tuple",
+      },
+    ],
+    name: "setPriceFeed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "baseRate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "slope1",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "slope2",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "kink",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct LendingPoolTest.RateModel",
+        name: "rateModel",
+        type: "tuple",
+      },
+    ],
+    name: "setRateModel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reserveFactorBps_",
+        type: "uint256",
+      },
+    ],
+    name: "setReserveFactor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "sharesToAmount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "socializeDeficit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "supportedTokens",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "tokenConfigs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "totalShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "treasuryReserves",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "userCollateral",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "userDebt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawTreasury",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052611388600e556101f4600f556103e86010553480156200002357600080fd5b50604051620057c4380380620057c48339810160408190526200004691620006af565b620000513362000113565b6001805560005b81518110156200010b57620000f68282815181106200007b576200007b62000809565b6020026020010151600001518383815181106200009c576200009c62000809565b602002602001015160200151848481518110620000bd57620000bd62000809565b602002602001015160400151858581518110620000de57620000de62000809565b6020026020010151606001516200016360201b60201c565b8062000102816200081f565b91505062000058565b505062000847565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6200016d62000329565b6000831180156200017f575060648311155b620001c25760405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a59081dd95a59da1d60921b60448201526064015b60405180910390fd5b6001600160a01b03841660009081526004602052604090205415620002195760405162461bcd60e51b815260206004820152600c60248201526b546f6b656e2065786973747360a01b6044820152606401620001b9565b604080518082018252848152600160208083018281526001600160a01b038916600081815260048452868120955186559151948401805460ff1916951515959095179094558451606081018652818152670de0b6b3a764000081840190815242828801908152868452600885528784209251835590518286015551600290910155600d8054938401815590527fd7b6990105719101dabeb77144f2a3385c8033acd3af97e9423a695e81ad1eb590910180546001600160a01b03191683179055915185815290917ff4c563a3ea86ff1f4275e8c207df0375a51963f2b831b7bf4da8be938d92876c910160405180910390a262000317848362000387565b620003238482620004f0565b50505050565b6000546001600160a01b03163314620003855760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401620001b9565b565b80516001600160a01b0316620003d55760405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a59081c1c9a58d9481999595960721b6044820152606401620001b9565b60208101516001600160a01b0316156200044657600081606001511180156200040357506127108160600151105b620004465760405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a59081c1c9a58d9481999595960721b6044820152606401620001b9565b6001600160a01b03828116600081815260066020908152604091829020855181549086166001600160a01b0319918216811783558784015160018401805491909816921682179096558684015160028301819055606080890151600390940184905585519788529387019190915292850192909252830152907edf11de85b5ab6e05754b31e7a6a48a67076ec366981447b8094437dcd1f79e906080015b60405180910390a25050565b60008160600151118015620005115750670de0b6b3a7640000816060015111155b620005545760405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a59081c985d19481b5bd9195b60721b6044820152606401620001b9565b6001600160a01b038216600081815260076020908152604091829020845180825585830151600183018190558685015160028401819055606080890151600390950185905586519384529483019190915293810193909352908201527f33d76f00f814833f1c5b1df3f86ed87cfc8955718c4086468831c33dda0ba42190608001620004e4565b634e487b7160e01b600052604160045260246000fd5b604051608081016001600160401b0381118282101715620006165762000616620005db565b60405290565b604051601f8201601f191681016001600160401b0381118282101715620006475762000647620005db565b604052919050565b6001600160a01b03811681146200066557600080fd5b50565b6000608082840312156200067b57600080fd5b62000685620005f1565b90508151815260208201516020820152604082015160408201526060820151606082015292915050565b60006020808385031215620006c357600080fd5b82516001600160401b0380821115620006db57600080fd5b818501915085601f830112620006f057600080fd5b815181811115620007055762000705620005db565b62000715848260051b016200061c565b81815284810192506101409182028401850191888311156200073657600080fd5b938501935b82851015620007fd5784890381811215620007565760008081fd5b62000760620005f1565b86516200076d816200064f565b8152868801518882015260406080603f1984018113156200078e5760008081fd5b62000798620005f1565b935081890151620007a9816200064f565b8452606089810151620007bc816200064f565b858c0152898201518386015260a08a015181860152838301859052620007e68e60c08c0162000668565b90840152505085525093840193928501926200073b565b50979650505050505050565b634e487b7160e01b600052603260045260246000fd5b6000600182016200084057634e487b7160e01b600052601160045260246000fd5b5060010190565b614f6d80620008576000396000f3fe6080604052600436106102b25760003560e01c806387444e8611610175578063c4608da9116100dc578063d3d83fa611610095578063f2fde38b1161006f578063f2fde38b14610989578063f3fef3a3146109a9578063fcccc4d9146109c9578063fdce8643146109de57600080fd5b8063d3d83fa61461091c578063d66bd5241461093c578063d71275f61461096957600080fd5b8063c4608da914610864578063c625562614610884578063c6e7275d146108a4578063c87bed70146108c4578063d02641a0146108da578063d3c7c2c7146108fa57600080fd5b8063a348c9b31161012e578063a348c9b314610753578063a59c8504146107aa578063a747b93b146107ca578063a813129f146107ea578063bf6b874e1461080a578063bf92857c1461083757600080fd5b806387444e8614610652578063876326ca146106725780638da5cb5b1461068757806390a8ae9b1461067257806391c39b51146106b95780639dcb511a146106d957600080fd5b806347e7ef24116102195780636a9a7ffe116101d25780636a9a7ffe146105785780636b5441a9146105b05780636d961125146105d05780636e0e5aa7146105f0578063715018a614610610578063857b3b841461062557600080fd5b806347e7ef24146104815780634808a772146104945780634b8a3529146104c157806351324f12146104d4578063578b92a6146105365780635c56c8cb1461055857600080fd5b806322867d781161026b57806322867d78146103da5780632b92a07d146103ed5780632bfd514614610425578063306eb029146104385780633de2f6b2146104585780634654440b1461046b57600080fd5b80630d86419a146102e557806314c8ad2c1461030557806319970d8e146103385780631b69dc5f1461034e5780631c4469831461039a5780631e9a6950146103ba57600080fd5b366102e0576102bf6109fe565b6102c96000610a5c565b6102d533600034610abe565b6102de60018055565b005b600080fd5b3480156102f157600080fd5b506102de610300366004614400565b610bda565b34801561031157600080fd5b5061032561032036600461442c565b610d5f565b6040519081526020015b60405180910390f35b34801561034457600080fd5b50610325600f5481565b34801561035a57600080fd5b50610385610369366004614465565b6004602052600090815260409020805460019091015460ff1682565b6040805192835290151560208301520161032f565b3480156103a657600080fd5b506102de6103b5366004614482565b610deb565b3480156103c657600080fd5b506102de6103d5366004614400565b610ec8565b6102de6103e8366004614400565b6110f1565b3480156103f957600080fd5b5061032561040836600461442c565b600260209081526000928352604080842090915290825290205481565b6102de610433366004614400565b6112bc565b34801561044457600080fd5b5061032561045336600461449b565b61130c565b6102de6104663660046144dd565b61137c565b34801561047757600080fd5b50610325600e5481565b6102de61048f366004614400565b611746565b3480156104a057600080fd5b506103256104af366004614465565b600c6020526000908152604090205481565b6102de6104cf366004614400565b6117f7565b3480156104e057600080fd5b506105166104ef366004614465565b60076020526000908152604090208054600182015460028301546003909301549192909184565b60408051948552602085019390935291830152606082015260800161032f565b34801561054257600080fd5b5061054b6119bd565b60405161032f919061467b565b34801561056457600080fd5b50610325610573366004614465565b612199565b34801561058457600080fd5b5061032561059336600461442c565b600960209081526000928352604080842090915290825290205481565b3480156105bc57600080fd5b506103256105cb366004614465565b6121db565b3480156105dc57600080fd5b506102de6105eb3660046148ca565b612230565b3480156105fc57600080fd5b5061032561060b366004614465565b612254565b34801561061c57600080fd5b506102de61232d565b34801561063157600080fd5b50610325610640366004614465565b600b6020526000908152604090205481565b34801561065e57600080fd5b506102de61066d366004614958565b612341565b34801561067e57600080fd5b50610325605081565b34801561069357600080fd5b506000546001600160a01b03165b6040516001600160a01b03909116815260200161032f565b3480156106c557600080fd5b506103256106d4366004614465565b6124f2565b3480156106e557600080fd5b506107286106f4366004614465565b60066020526000908152604090208054600182015460028301546003909301546001600160a01b0392831693919092169184565b604080516001600160a01b03958616815294909316602085015291830152606082015260800161032f565b34801561075f57600080fd5b5061078f61076e366004614465565b60086020526000908152604090208054600182015460029092015490919083565b6040805193845260208401929092529082015260600161032f565b3480156107b657600080fd5b506103256107c5366004614400565b612569565b3480156107d657600080fd5b506103256107e5366004614465565b6125b7565b3480156107f657600080fd5b506102de6108053660046149aa565b61260d565b34801561081657600080fd5b50610325610825366004614465565b600a6020526000908152604090205481565b34801561084357600080fd5b50610857610852366004614465565b612628565b60405161032f91906149d7565b34801561087057600080fd5b506102de61087f366004614465565b612d99565b34801561089057600080fd5b506106a161089f366004614482565b612e5f565b3480156108b057600080fd5b506102de6108bf366004614b5e565b612e89565b3480156108d057600080fd5b5061032560105481565b3480156108e657600080fd5b506103256108f5366004614465565b612f43565b34801561090657600080fd5b5061090f612f8c565b60405161032f9190614b80565b34801561092857600080fd5b50610325610937366004614400565b612fee565b34801561094857600080fd5b50610325610957366004614465565b60056020526000908152604090205481565b34801561097557600080fd5b50610325610984366004614465565b613026565b34801561099557600080fd5b506102de6109a4366004614465565b61310a565b3480156109b557600080fd5b506102de6109c4366004614400565b613180565b3480156109d557600080fd5b506106a1600081565b3480156109ea57600080fd5b506103256109f9366004614465565b61335e565b600260015403610a555760405162461bcd60e51b815260206004820152601f60248201527f5265656e7472616e637947756172643a207265656e7472616e742063616c6c0060448201526064015b60405180910390fd5b6002600155565b6001600160a01b03811660009081526004602052604090206001015460ff16610abb5760405162461bcd60e51b81526020600482015260116024820152702ab739bab83837b93a32b2103a37b5b2b760791b6044820152606401610a4c565b50565b610ac7826133bc565b6000610ad38383612569565b905060008111610af55760405162461bcd60e51b8152600401610a4c90614bcd565b6001600160a01b03808516600090815260096020908152604080832093871683529290529081208054839290610b2c908490614c07565b90915550506001600160a01b0383166000908152600a602052604081208054839290610b59908490614c07565b90915550506001600160a01b03831660009081526005602052604081208054849290610b86908490614c07565b909155505060408051838152602081018390526001600160a01b0380861692908716917f6acf9a2feb16291f2732c434381e74cd91f5843a9595a0b7830eb16fc6f4e6dc910160405180910390a350505050565b610be26134c0565b610bea6109fe565b610bf382610a5c565b60008111610c135760405162461bcd60e51b8152600401610a4c90614bcd565b610c1c826133bc565b6001600160a01b0382166000908152600b6020526040902054811115610c735760405162461bcd60e51b815260206004820152600c60248201526b4c6f7720747265617375727960a01b6044820152606401610a4c565b6001600160a01b038216600090815260056020526040902054811115610cab5760405162461bcd60e51b8152600401610a4c90614c1a565b6001600160a01b0382166000908152600b602052604081208054839290610cd3908490614c3f565b90915550506001600160a01b03821660009081526005602052604081208054839290610d00908490614c3f565b90915550610d11905082338361351a565b60405181815233906001600160a01b038416907f754430df52deedf56acdd23458c8b1b807057105bf7438e19e0e7fa388e585fe906020015b60405180910390a3610d5b60018055565b5050565b6001600160a01b038083166000908152600360209081526040808320938516835292815282822083518085019094528054808552600190910154918401919091529091908203610db3576000915050610de5565b6000610dbe84613667565b5090508160200151818360000151610dd69190614c52565b610de09190614c69565b925050505b92915050565b610df36134c0565b6127108110610e3d5760405162461bcd60e51b815260206004820152601660248201527524b73b30b634b2103932b9b2b93b32903330b1ba37b960511b6044820152606401610a4c565b60005b600d54811015610e8c57610e7a600d8281548110610e6057610e60614c8b565b6000918252602090912001546001600160a01b03166133bc565b80610e8481614ca1565b915050610e40565b5060108190556040518181527fc197c4ec4c97f824717acfad017c2a16643adc8874798a0899da42c6b5ebf9bf9060200160405180910390a150565b610ed06109fe565b610ed982610a5c565b60008111610ef95760405162461bcd60e51b8152600401610a4c90614bcd565b610f02826133bc565b6000198103610f3157503360009081526009602090815260408083206001600160a01b03851684529091529020545b600081118015610f6457503360009081526009602090815260408083206001600160a01b03861684529091529020548111155b610f9d5760405162461bcd60e51b815260206004820152600a6024820152694c6f772073686172657360b01b6044820152606401610a4c565b6000610fa98383612fee565b905060008111610fcb5760405162461bcd60e51b8152600401610a4c90614bcd565b6001600160a01b0383166000908152600560205260409020548111156110035760405162461bcd60e51b8152600401610a4c90614c1a565b3360009081526009602090815260408083206001600160a01b038716845290915281208054849290611036908490614c3f565b90915550506001600160a01b0383166000908152600a602052604081208054849290611063908490614c3f565b90915550506001600160a01b03831660009081526005602052604081208054839290611090908490614c3f565b909155506110a1905083338361351a565b60408051838152602081018390526001600160a01b0385169133917f98ed79e168d75bc24a88710fe0d5dfe62f97d2a9f3bfaab670a11c2e96587836910160405180910390a350610d5b60018055565b6110f96109fe565b61110282610a5c565b600081116111225760405162461bcd60e51b8152600401610a4c90614bcd565b61112b826133bc565b60006111373384610d5f565b905060001982148015611148578192505b600083116111685760405162461bcd60e51b8152600401610a4c90614cba565b828210156111a35760405162461bcd60e51b81526020600482015260086024820152670a8dede40daeac6d60c31b6044820152606401610a4c565b8080156111b757506001600160a01b038416155b156111e157823410156111dc5760405162461bcd60e51b8152600401610a4c90614cdb565b6111ec565b6111ec84338561376c565b61120033856111fb8686614c3f565b61388d565b61120a84846138df565b6001600160a01b03841660009081526005602052604081208054859290611232908490614c07565b90915550819050801561124c57506001600160a01b038416155b801561125757508234115b156112715761127160003361126c8634614c3f565b61351a565b6040518381526001600160a01b0385169033907f0a3fbbea70e93f2daafa3102f5c9a1b8315e6d7a1e43e4bc020bc1162327470a9060200160405180910390a35050610d5b60018055565b6112c46109fe565b6112cd82610a5c565b600081116112ed5760405162461bcd60e51b8152600401610a4c90614bcd565b6112f882338361376c565b611303338383610abe565b610d5b60018055565b600080612710600f546127106113229190614c07565b61132c8787613919565b6113369190614c52565b6113409190614c69565b905061134b83612f43565b61135484613938565b61135f90600a614de4565b6113699083614c52565b6113739190614c69565b95945050505050565b6113846109fe565b61138d83610a5c565b61139681610a5c565b600082116113b65760405162461bcd60e51b8152600401610a4c90614bcd565b6113bf836133bc565b60006113ca856124f2565b9050600081116113ec5760405162461bcd60e51b8152600401610a4c90614cba565b60006113f786612254565b905080158061141b575060508161140f846064614c52565b6114199190614c69565b115b6114515760405162461bcd60e51b81526020600482015260076024820152664865616c74687960c81b6044820152606401610a4c565b600061145d8787610d5f565b90506000811161147f5760405162461bcd60e51b8152600401610a4c90614cba565b816000036114ab573415611499576114996000333461351a565b6114a38787613a06565b505050611737565b6000612710600e54836114be9190614c52565b6114c89190614c69565b905060001986036114d7578095505b8086111561151e5760405162461bcd60e51b815260206004820152601460248201527322bc31b2b2b2399031b637b9b2903330b1ba37b960611b6044820152606401610a4c565b6001600160a01b03808916600090815260026020908152604080832093891683529290522054806115815760405162461bcd60e51b815260206004820152600d60248201526c139bc818dbdb1b185d195c985b609a1b6044820152606401610a4c565b600061158e89898961130c565b9050818111156115b357806115a3838a614c52565b6115ad9190614c69565b97508190505b600081116115d35760405162461bcd60e51b8152600401610a4c90614bcd565b6001600160a01b03891661160657873410156116015760405162461bcd60e51b8152600401610a4c90614cdb565b611611565b61161189338a61376c565b6116208a8a6111fb8b88614c3f565b61162a89896138df565b6001600160a01b038916600090815260056020526040812080548a9290611652908490614c07565b9091555061166290508183614c3f565b6001600160a01b03808c166000908152600260209081526040808320938c168352929052205561169387338361351a565b6001600160a01b0389161580156116a957508734115b156116be576116be60003361126c8b34614c3f565b604080516001600160a01b038b81168252602082018b90528981168284015260608201849052915133928d16917fc2c75a73164c2efcbb9f74bfa511cd0866489d90687831a7217b3dbeeb697088919081900360800190a361171f8a612254565b600003611730576117308a8a613a06565b5050505050505b61174060018055565b50505050565b61174e6109fe565b61175782610a5c565b600081116117775760405162461bcd60e51b8152600401610a4c90614bcd565b61178282338361376c565b3360009081526002602090815260408083206001600160a01b0386168452909152812080548392906117b5908490614c07565b90915550506040518181526001600160a01b0383169033907f8752a472e571a816aea92eec8dae9baf628e840f4929fbcc2d155e6233ff68a790602001610d4a565b6117ff6109fe565b61180882610a5c565b600081116118285760405162461bcd60e51b8152600401610a4c90614bcd565b6001600160a01b0382166000908152600560205260409020548111156118605760405162461bcd60e51b8152600401610a4c90614c1a565b611869826133bc565b60006118758383613919565b9050600061188233612254565b9050600061188f336124f2565b9050606461189e605084614c52565b6118a89190614c69565b6118b28483614c07565b11156118f05760405162461bcd60e51b815260206004820152600d60248201526c115e18d959591cc81b1a5b5a5d609a1b6044820152606401610a4c565b61190a338686611900338a610d5f565b6111fb9190614c07565b6001600160a01b03851660009081526008602052604081208054869290611932908490614c07565b90915550506001600160a01b0385166000908152600560205260408120805486929061195f908490614c3f565b90915550611970905085338661351a565b6040518481526001600160a01b0386169033907f3fc499aeb0bb1cb58b6de8b02b3f86f4e7394e9690bef0110e32ced8a5631045906020015b60405180910390a3505050610d5b60018055565b611a36604051806101e001604052806060815260200160608152602001606081526020016060815260200160608152602001606081526020016060815260200160608152602001606081526020016060815260200160608152602001606081526020016060815260200160608152602001606081525090565b600d8054604080516020808402820181019092528281529192908390830182828015611a8b57602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311611a6d575b505050918452508190506001600160401b03811115611aac57611aac614848565b604051908082528060200260200182016040528015611ad5578160200160208202803683370190505b506020830152806001600160401b03811115611af357611af3614848565b604051908082528060200260200182016040528015611b1c578160200160208202803683370190505b506040830152806001600160401b03811115611b3a57611b3a614848565b604051908082528060200260200182016040528015611b63578160200160208202803683370190505b506060830152806001600160401b03811115611b8157611b81614848565b604051908082528060200260200182016040528015611baa578160200160208202803683370190505b506080830152806001600160401b03811115611bc857611bc8614848565b604051908082528060200260200182016040528015611bf1578160200160208202803683370190505b5060a0830152806001600160401b03811115611c0f57611c0f614848565b604051908082528060200260200182016040528015611c4257816020015b6060815260200190600190039081611c2d5790505b5060c0830152806001600160401b03811115611c6057611c60614848565b604051908082528060200260200182016040528015611c9357816020015b6060815260200190600190039081611c7e5790505b5060e0830152806001600160401b03811115611cb157611cb1614848565b604051908082528060200260200182016040528015611cda578160200160208202803683370190505b50610100830152806001600160401b03811115611cf957611cf9614848565b604051908082528060200260200182016040528015611d22578160200160208202803683370190505b50610120830152806001600160401b03811115611d4157611d41614848565b604051908082528060200260200182016040528015611d6a578160200160208202803683370190505b50610140830152806001600160401b03811115611d8957611d89614848565b604051908082528060200260200182016040528015611db2578160200160208202803683370190505b50610160830152806001600160401b03811115611dd157611dd1614848565b604051908082528060200260200182016040528015611dfa578160200160208202803683370190505b50610180830152806001600160401b03811115611e1957611e19614848565b604051908082528060200260200182016040528015611e42578160200160208202803683370190505b506101a0830152806001600160401b03811115611e6157611e61614848565b604051908082528060200260200182016040528015611e8a578160200160208202803683370190505b506101c083015260005b81811015612194576000600d8281548110611eb157611eb1614c8b565b60009182526020808320909101546001600160a01b031680835260048252604090922054908601518051929350909184908110611ef057611ef0614c8b565b6020908102919091018101919091526001600160a01b038216600090815260049091526040908190206001015490850151805160ff9092169184908110611f3957611f39614c8b565b9115156020928302919091018201526001600160a01b0382166000908152600590915260409020546060850151805184908110611f7857611f78614c8b565b602002602001018181525050611f8d81613c13565b86608001518581518110611fa357611fa3614c8b565b602002602001018760a001518681518110611fc057611fc0614c8b565b602002602001018860e001518781518110611fdd57611fdd614c8b565b602090810291909101810193909352929092529190526001600160a01b03808316600090815260069092526040909120546120189116613de2565b8460c00151838151811061202e5761202e614c8b565b602002602001018190525061204281613667565b9050846101000151838151811061205b5761205b614c8b565b60200260200101818152505061207081613026565b846101200151838151811061208757612087614c8b565b60200260200101818152505061209c816121db565b84610140015183815181106120b3576120b3614c8b565b602002602001018181525050600a6000826001600160a01b03166001600160a01b031681526020019081526020016000205484610160015183815181106120fc576120fc614c8b565b602002602001018181525050612111816125b7565b846101800151838151811061212857612128614c8b565b60200260200101818152505061213d81613e5b565b856101a00151848151811061215457612154614c8b565b60200260200101866101c00151858151811061217257612172614c8b565b602090810291909101019190915252508061218c81614ca1565b915050611e94565b505090565b6000806121a583612254565b905080156121d157806121b7846124f2565b6121c2906064614c52565b6121cc9190614c69565b6121d4565b60005b9392505050565b60006121f1612710670de0b6b3a7640000614c52565b60105461220090612710614c3f565b6122098461335e565b61221285613026565b61221c9190614c52565b6122269190614c52565b610de59190614c69565b6122386134c0565b61224182610a5c565b61224a826133bc565b610d5b8282613f1e565b6000805b600d54811015612327576000600d828154811061227757612277614c8b565b60009182526020808320909101546001600160a01b0387811684526002835260408085209190921680855292529091205490915080158015906122c057506122be82614005565b155b156123125760006122d18383613919565b6001600160a01b0384166000908152600460205260409020549091506064906122fa9083614c52565b6123049190614c69565b61230e9086614c07565b9450505b5050808061231f90614ca1565b915050612258565b50919050565b6123356134c0565b61233f6000614095565b565b6123496134c0565b60008311801561235a575060648311155b6123975760405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a59081dd95a59da1d60921b6044820152606401610a4c565b6001600160a01b038416600090815260046020526040902054156123ec5760405162461bcd60e51b815260206004820152600c60248201526b546f6b656e2065786973747360a01b6044820152606401610a4c565b604080518082018252848152600160208083018281526001600160a01b038916600081815260048452868120955186559151948401805460ff1916951515959095179094558451606081018652818152670de0b6b3a764000081840190815242828801908152868452600885528784209251835590518286015551600290910155600d8054938401815590527fd7b6990105719101dabeb77144f2a3385c8033acd3af97e9423a695e81ad1eb590910180546001600160a01b03191683179055915185815290917ff4c563a3ea86ff1f4275e8c207df0375a51963f2b831b7bf4da8be938d92876c910160405180910390a26124e884836140e5565b6117408482613f1e565b6000805b600d54811015612327576000600d828154811061251557612515614c8b565b60009182526020822001546001600160a01b031691506125358583610d5f565b90508015612554576125478282613919565b6125519085614c07565b93505b5050808061256190614ca1565b9150506124f6565b6000612574836125b7565b61257f906001614c07565b6001600160a01b0384166000908152600a60205260409020546125a3906001614c07565b6125ad9084614c52565b6121d49190614c69565b6000806125c383613667565b91505060006125d184613e5b565b506001600160a01b03851660009081526005602052604090205490915081906125fb908490614c07565b6126059190614c3f565b949350505050565b6126156134c0565b61261e82610a5c565b610d5b82826140e5565b6126a1604051806101e001604052806060815260200160608152602001606081526020016060815260200160608152602001606081526020016060815260200160608152602001606081526020016060815260200160608152602001600081526020016000815260200160008152602001600081525090565b600d80546040805160208084028201810190925282815291929083908301828280156126f657602002820191906000526020600020905b81546001600160a01b031681526001909101906020018083116126d8575b505050918452508190506001600160401b0381111561271757612717614848565b604051908082528060200260200182016040528015612740578160200160208202803683370190505b506020830152806001600160401b0381111561275e5761275e614848565b604051908082528060200260200182016040528015612787578160200160208202803683370190505b506040830152806001600160401b038111156127a5576127a5614848565b6040519080825280602002602001820160405280156127ce578160200160208202803683370190505b506060830152806001600160401b038111156127ec576127ec614848565b604051908082528060200260200182016040528015612815578160200160208202803683370190505b506080830152806001600160401b0381111561283357612833614848565b60405190808252806020026020018201604052801561286657816020015b60608152602001906001900390816128515790505b5060a0830152806001600160401b0381111561288457612884614848565b6040519080825280602002602001820160405280156128ad578160200160208202803683370190505b5060c0830152806001600160401b038111156128cb576128cb614848565b6040519080825280602002602001820160405280156128f4578160200160208202803683370190505b5060e0830152806001600160401b0381111561291257612912614848565b60405190808252806020026020018201604052801561293b578160200160208202803683370190505b50610100830152806001600160401b0381111561295a5761295a614848565b604051908082528060200260200182016040528015612983578160200160208202803683370190505b50610120830152806001600160401b038111156129a2576129a2614848565b6040519080825280602002602001820160405280156129cb578160200160208202803683370190505b5061014083015260005b81811015612d58576000600d82815481106129f2576129f2614c8b565b60009182526020808320909101546001600160a01b03888116845260028352604080852091909216808552908352922054908601518051929350909184908110612a3e57612a3e614c8b565b602002602001018181525050612a548582610d5f565b84604001518381518110612a6a57612a6a614c8b565b602002602001018181525050612a7f81613c13565b86606001518581518110612a9557612a95614c8b565b6020026020010187608001518681518110612ab257612ab2614c8b565b602002602001018860a001518781518110612acf57612acf614c8b565b602090810291909101810193909352929092529190526001600160a01b03821660009081526005909152604090205460c0850151805184908110612b1557612b15614c8b565b602002602001018181525050612b2a81613026565b8460e001518381518110612b4057612b40614c8b565b602002602001018181525050612b55816121db565b8461010001518381518110612b6c57612b6c614c8b565b6020908102919091018101919091526001600160a01b038087166000908152600983526040808220928516825291909252902054610120850151805184908110612bb857612bb8614c8b565b602002602001018181525050612bec818561012001518481518110612bdf57612bdf614c8b565b6020026020010151612fee565b8461014001518381518110612c0357612c03614c8b565b6020026020010181815250506000612c1a82613938565b612c2590600a614de4565b905060008186606001518581518110612c4057612c40614c8b565b602002602001015187602001518681518110612c5e57612c5e614c8b565b6020026020010151612c709190614c52565b612c7a9190614c69565b9050808661016001818151612c8f9190614c07565b9052506001600160a01b038316600090815260046020526040902054606490612cb89083614c52565b612cc29190614c69565b8661018001818151612cd49190614c07565b9052506060860151805183919086908110612cf157612cf1614c8b565b602002602001015187604001518681518110612d0f57612d0f614c8b565b6020026020010151612d219190614c52565b612d2b9190614c69565b866101a001818151612d3d9190614c07565b905250839250612d509150829050614ca1565b9150506129d5565b5061018082015115612d8a576101808201516101a0830151612d7b906064614c52565b612d859190614c69565b612d8d565b60005b6101c083015250919050565b612da16134c0565b612daa81610a5c565b612db3816133bc565b6001600160a01b0381166000908152600c602052604090205480612e065760405162461bcd60e51b815260206004820152600a602482015269139bc81919599a58da5d60b21b6044820152606401610a4c565b6001600160a01b0382166000818152600c602052604080822091909155517fc13f57760938075b94272b26fa4ca74d0fbb386c746218bb448cd92562b2a4b190612e539084815260200190565b60405180910390a25050565b600d8181548110612e6f57600080fd5b6000918252602090912001546001600160a01b0316905081565b612e916134c0565b600082118015612ea357506127108211155b8015612eb0575061271081105b612efc5760405162461bcd60e51b815260206004820152601a60248201527f496e76616c6964206c69717569646174696f6e20706172616d730000000000006044820152606401610a4c565b600e829055600f81905560408051838152602081018390527fee5d077d07b4c56c2c0b36228c7bb210817af662b66190c392c45ce9c2a30f42910160405180910390a15050565b6000612f4e82610a5c565b600080612f5a84613c13565b925050915080516000148190612f835760405162461bcd60e51b8152600401610a4c9190614df3565b50909392505050565b6060600d805480602002602001604051908101604052809291908181526020018280548015612fe457602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311612fc6575b5050505050905090565b6001600160a01b0382166000908152600a6020526040812054613012906001614c07565b61301b846125b7565b6125a3906001614c07565b6001600160a01b0381166000908152600760209081526040808320815160808101835281548152600182015493810193909352600281015491830191909152600301546060820152816130788461335e565b9050816060015181116130b057816060015181836020015161309a9190614c52565b6130a49190614c69565b82516126059190614c07565b60608201516130c790670de0b6b3a7640000614c3f565b60608301516130d69083614c3f565b83604001516130e59190614c52565b6130ef9190614c69565b602083015183516131009190614c07565b6126059190614c07565b6131126134c0565b6001600160a01b0381166131775760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b6064820152608401610a4c565b610abb81614095565b6131886109fe565b61319182610a5c565b600081116131b15760405162461bcd60e51b8152600401610a4c90614bcd565b3360009081526002602090815260408083206001600160a01b03861684529091529020548111156132155760405162461bcd60e51b815260206004820152600e60248201526d131bddc818dbdb1b185d195c985b60921b6044820152606401610a4c565b60006132218383613919565b9050600061322e336124f2565b9050600061323b33612254565b9050828110156132805760405162461bcd60e51b815260206004820152601060248201526f4578636565647320636170616369747960801b6044820152606401610a4c565b605061328d836064614c52565b6132979190614c69565b6132a18483614c3f565b10156132dd5760405162461bcd60e51b815260206004820152600b60248201526a22bc31b2b2b23990262a2b60a91b6044820152606401610a4c565b3360009081526002602090815260408083206001600160a01b038916845290915281208054869290613310908490614c3f565b90915550613321905085338661351a565b6040518481526001600160a01b0386169033907fd1c19fbcd4551a5edfb66d43d2e337c04837afda3482b42bdf569a8fccdae5fb906020016119a9565b6001600160a01b0381166000908152600860205260408120548082036133875750600092915050565b6001600160a01b0383166000908152600560205260409020546133aa9082614c07565b6125ad670de0b6b3a764000083614c52565b6001600160a01b038116600090815260086020526040902060028101544290036133e4575050565b6000806133f084613667565b845491935091506000906134049083614c3f565b60018501849055828555426002860155905080156134b9576127106010548261342d9190614c52565b6134379190614c69565b6001600160a01b0386166000908152600b60205260408120805490919061345f908490614c07565b909155505060408051828152602081018590529081018390526001600160a01b038616907fbea9dfcbd95788b1634fd949c43c80348c9a8960d5837081e062bc6679b9d8fe9060600160405180910390a26134b985614240565b5050505050565b6000546001600160a01b0316331461233f5760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401610a4c565b6001600160a01b0383166135b6576000826001600160a01b03168260405160006040518083038185875af1925050503d8060008114613575576040519150601f19603f3d011682016040523d82523d6000602084013e61357a565b606091505b50509050806117405760405162461bcd60e51b81526020600482015260086024820152671093908819985a5b60c21b6044820152606401610a4c565b60405163a9059cbb60e01b81526001600160a01b0383811660048301526024820183905284169063a9059cbb906044016020604051808303816000875af1158015613605573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906136299190614e06565b6136625760405162461bcd60e51b815260206004820152600a602482015269115490cc8c0819985a5b60b21b6044820152606401610a4c565b505050565b6001600160a01b03811660009081526008602090815260408083208151606081018352815481526001820154938101939093526002015490820181905282919082906136b39042614c3f565b90508015806136c157508151155b156136d85750602081015190519094909350915050565b60006301e13380826136e988613026565b6136f39190614c52565b6136fd9190614c69565b9050670de0b6b3a76400008184602001516137189190614c52565b6137229190614c69565b83602001516137319190614c07565b9450670de0b6b3a764000081846000015161374c9190614c52565b6137569190614c69565b83516137629190614c07565b9350505050915091565b6001600160a01b038316613799578034146136625760405162461bcd60e51b8152600401610a4c90614cdb565b34156137d95760405162461bcd60e51b815260206004820152600f60248201526e109390881b9bdd08185b1b1bddd959608a1b6044820152606401610a4c565b6040516323b872dd60e01b81526001600160a01b038381166004830152306024830152604482018390528416906323b872dd906064016020604051808303816000875af115801561382e573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906138529190614e06565b6136625760405162461bcd60e51b815260206004820152600c60248201526b115490cc8c0819985a5b195960a21b6044820152606401610a4c565b6040805180820182529182526001600160a01b03928316600081815260086020908152838220600190810154828701908152979096168252600381528382209282529190915220905181559151910155565b6001600160a01b038216600090815260086020526040902080548210613906576000613913565b8054613913908390614c3f565b90555050565b600061392483613938565b61392f90600a614de4565b6125a384612f43565b60006001600160a01b03821661395057506012919050565b60408051600481526024810182526020810180516001600160e01b031663313ce56760e01b179052905160009182916001600160a01b0386169161399391614e28565b600060405180830381855afa9150503d80600081146139ce576040519150601f19603f3d011682016040523d82523d6000602084013e6139d3565b606091505b50915091508180156139e757506020815110155b6139f2576012612605565b808060200190518101906126059190614e44565b60005b600d54811015613b03576000600d8281548110613a2857613a28614c8b565b60009182526020808320909101546001600160a01b038781168452600283526040808520919092168085529252909120549091508015613aee576001600160a01b038086166000908152600260209081526040808320938616835292905290812055613a9582338361351a565b604080516001600160a01b038681168252600060208301528481168284015260608201849052915133928816917fc2c75a73164c2efcbb9f74bfa511cd0866489d90687831a7217b3dbeeb697088919081900360800190a35b50508080613afb90614ca1565b915050613a09565b5060005b600d54811015613662576000600d8281548110613b2657613b26614c8b565b6000918252602090912001546001600160a01b03169050613b46816133bc565b6000613b528583610d5f565b905080600003613b63575050613c01565b613b6f8583600061388d565b613b7982826138df565b6001600160a01b0382166000908152600c602052604081208054839290613ba1908490614c07565b92505081905550816001600160a01b0316856001600160a01b03167f80acdc1026223e17398412d60013c5b4688233e3aa52cf0e2c78eeb14d8e9b2183604051613bed91815260200190565b60405180910390a3613bfe82614240565b50505b80613c0b81614ca1565b915050613b07565b6001600160a01b03808216600090815260066020908152604080832081516080810183528154861680825260018301549096169381019390935260028101549183019190915260030154606082810191909152919283929190613c7590614357565b90945092506000849003613ca95750506040805180820190915260088152674e6f20707269636560c01b6020820152613ddb565b613cb78382604001516143cc565b15613ce557505060408051808201909152600b81526a5374616c6520707269636560a81b6020820152613ddb565b60208101516001600160a01b031615613dd957600080613d088360200151614357565b915091508160001480613d245750613d248184604001516143cc565b15613d5d5750506040805180820190915260128152714e6f207265666572656e636520707269636560701b60208201529150613ddb9050565b6000828711613d7557613d708784614c3f565b613d7f565b613d7f8388614c3f565b9050836060015183613d919190614c52565b613d9d61271083614c52565b1115613dd557505060408051808201909152600f81526e283934b1b2903232bb34b0ba34b7b760891b60208201529250613ddb915050565b5050505b505b9193909250565b6060816001600160a01b03166367e828bf6040518163ffffffff1660e01b8152600401600060405180830381865afa925050508015613e4357506040513d6000823e601f3d908101601f19168201604052613e409190810190614e67565b60015b610de557505060408051602081019091526000815290565b6000806000613e6984613667565b6010546001600160a01b038716600090815260086020526040902054919350612710925090613e989084614c3f565b613ea29190614c52565b613eac9190614c69565b6001600160a01b0385166000908152600b6020526040902054613ecf9190614c07565b6001600160a01b0385166000908152600c6020526040812054919450909250838310613efb5783613efd565b825b9050613f098185614c3f565b613f138285614c3f565b935093505050915091565b60008160600151118015613f3e5750670de0b6b3a7640000816060015111155b613f7f5760405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a59081c985d19481b5bd9195b60721b6044820152606401610a4c565b6001600160a01b038216600081815260076020908152604091829020845180825585830151600183018190558685015160028401819055606080890151600390950185905586519384529483019190915293810193909352908201527f33d76f00f814833f1c5b1df3f86ed87cfc8955718c4086468831c33dda0ba42190608001612e53565b6001600160a01b03808216600090815260066020908152604080832081516080810183528154861680825260018301549096169381019390935260028101549183019190915260030154606082015290918290819061406390614357565b9150915081600014801561407657508015155b8015611373575061408b8184604001516143cc565b1595945050505050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b80516001600160a01b03166141315760405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a59081c1c9a58d9481999595960721b6044820152606401610a4c565b60208101516001600160a01b03161561419e576000816060015111801561415d57506127108160600151105b61419e5760405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a59081c1c9a58d9481999595960721b6044820152606401610a4c565b6001600160a01b03828116600081815260066020908152604091829020855181549086166001600160a01b0319918216811783558784015160018401805491909816921682179096558684015160028301819055606080890151600390940184905585519788529387019190915292850192909252830152907edf11de85b5ab6e05754b31e7a6a48a67076ec366981447b8094437dcd1f79e90608001612e53565b6001600160a01b0381166000908152600b6020908152604080832054600c90925282205410614287576001600160a01b0382166000908152600b60205260409020546142a1565b6001600160a01b0382166000908152600c60205260409020545b9050806000036142af575050565b6001600160a01b0382166000908152600b6020526040812080548392906142d7908490614c3f565b90915550506001600160a01b0382166000908152600c602052604081208054839290614304908490614c3f565b90915550506001600160a01b0382166000818152600c6020908152604091829020548251858152918201527f3a0f994e28090c62829d4ef5ce69a03d398675fd9d013237592f05786ce14e959101612e53565b600080826001600160a01b031663a3e6ba946040518163ffffffff1660e01b81526004016040805180830381865afa9250505080156143b3575060408051601f3d908101601f191682019092526143b091810190614f13565b60015b6143c257506000928392509050565b9094909350915050565b600081158015906121d45750426143e38385614c07565b109392505050565b6001600160a01b0381168114610abb57600080fd5b6000806040838503121561441357600080fd5b823561441e816143eb565b946020939093013593505050565b6000806040838503121561443f57600080fd5b823561444a816143eb565b9150602083013561445a816143eb565b809150509250929050565b60006020828403121561447757600080fd5b81356121d4816143eb565b60006020828403121561449457600080fd5b5035919050565b6000806000606084860312156144b057600080fd5b83356144bb816143eb565b92506020840135915060408401356144d2816143eb565b809150509250925092565b600080600080608085870312156144f357600080fd5b84356144fe816143eb565b9350602085013561450e816143eb565b9250604085013591506060850135614525816143eb565b939692955090935050565b600081518084526020808501945080840160005b838110156145695781516001600160a01b031687529582019590820190600101614544565b509495945050505050565b600081518084526020808501945080840160005b8381101561456957815187529582019590820190600101614588565b600081518084526020808501945080840160005b838110156145695781511515875295820195908201906001016145b8565b60005b838110156145f15781810151838201526020016145d9565b50506000910152565b600081518084526146128160208601602086016145d6565b601f01601f19169290920160200192915050565b600081518084526020808501808196508360051b8101915082860160005b8581101561466e57828403895261465c8483516145fa565b98850198935090840190600101614644565b5091979650505050505050565b60208152600082516101e080602085015261469a610200850183614530565b91506020850151601f19808685030160408701526146b88483614574565b935060408701519150808685030160608701526146d584836145a4565b935060608701519150808685030160808701526146f28483614574565b935060808701519150808685030160a087015261470f8483614574565b935060a08701519150808685030160c087015261472c8483614574565b935060c08701519150808685030160e08701526147498483614626565b935060e087015191506101008187860301818801526147688584614626565b9450808801519250506101208187860301818801526147878584614574565b9450808801519250506101408187860301818801526147a68584614574565b9450808801519250506101608187860301818801526147c58584614574565b9450808801519250506101808187860301818801526147e48584614574565b9450808801519250506101a08187860301818801526148038584614574565b9450808801519250506101c08187860301818801526148228584614574565b90880151878203909201848801529350905061483e8382614574565b9695505050505050565b634e487b7160e01b600052604160045260246000fd5b604051608081016001600160401b038111828210171561488057614880614848565b60405290565b60006080828403121561489857600080fd5b6148a061485e565b90508135815260208201356020820152604082013560408201526060820135606082015292915050565b60008060a083850312156148dd57600080fd5b82356148e8816143eb565b91506148f78460208501614886565b90509250929050565b60006080828403121561491257600080fd5b61491a61485e565b90508135614927816143eb565b81526020820135614937816143eb565b80602083015250604082013560408201526060820135606082015292915050565b600080600080610140858703121561496f57600080fd5b843561497a816143eb565b9350602085013592506149908660408701614900565b915061499f8660c08701614886565b905092959194509250565b60008060a083850312156149bd57600080fd5b82356149c8816143eb565b91506148f78460208501614900565b60208152600082516101e08060208501526149f6610200850183614530565b91506020850151601f1980868503016040870152614a148483614574565b93506040870151915080868503016060870152614a318483614574565b93506060870151915080868503016080870152614a4e8483614574565b935060808701519150808685030160a0870152614a6b8483614574565b935060a08701519150808685030160c0870152614a888483614626565b935060c08701519150808685030160e0870152614aa58483614574565b935060e08701519150610100818786030181880152614ac48584614574565b945080880151925050610120818786030181880152614ae38584614574565b945080880151925050610140818786030181880152614b028584614574565b945080880151925050610160818786030181880152614b218584614574565b90880151610180888101919091528801516101a0808901919091528801516101c08089019190915290970151929095019190915250929392505050565b60008060408385031215614b7157600080fd5b50508035926020909101359150565b6020808252825182820181905260009190848201906040850190845b81811015614bc15783516001600160a01b031683529284019291840191600101614b9c565b50909695505050505050565b6020808252600a90820152690416d6f756e74203d20360b41b604082015260600190565b634e487b7160e01b600052601160045260246000fd5b80820180821115610de557610de5614bf1565b6020808252600b908201526a4c6f77207265736572766560a81b604082015260600190565b81810381811115610de557610de5614bf1565b8082028115828204841417610de557610de5614bf1565b600082614c8657634e487b7160e01b600052601260045260246000fd5b500490565b634e487b7160e01b600052603260045260246000fd5b600060018201614cb357614cb3614bf1565b5060010190565b602080825260079082015266139bc81919589d60ca1b604082015260600190565b6020808252600b908201526a24b73b30b634b21021272160a91b604082015260600190565b600181815b80851115614d3b578160001904821115614d2157614d21614bf1565b80851615614d2e57918102915b93841c9390800290614d05565b509250929050565b600082614d5257506001610de5565b81614d5f57506000610de5565b8160018114614d755760028114614d7f57614d9b565b6001915050610de5565b60ff841115614d9057614d90614bf1565b50506001821b610de5565b5060208310610133831016604e8410600b8410161715614dbe575081810a610de5565b614dc88383614d00565b8060001904821115614ddc57614ddc614bf1565b029392505050565b60006121d460ff841683614d43565b6020815260006121d460208301846145fa565b600060208284031215614e1857600080fd5b815180151581146121d457600080fd5b60008251614e3a8184602087016145d6565b9190910192915050565b600060208284031215614e5657600080fd5b815160ff811681146121d457600080fd5b600060208284031215614e7957600080fd5b81516001600160401b0380821115614e9057600080fd5b818401915084601f830112614ea457600080fd5b815181811115614eb657614eb6614848565b604051601f8201601f19908116603f01168101908382118183101715614ede57614ede614848565b81604052828152876020848701011115614ef757600080fd5b614f088360208301602088016145d6565b979650505050505050565b60008060408385031215614f2657600080fd5b50508051602090910151909290915056fea2646970667358221220e9481ac6cccba1b2212ee66dedbe1a0b3de5754db15e6bac55bc26858c22170b64736f6c63430008140033";
+
+type LendingPoolTestConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: LendingPoolTestConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class LendingPoolTest__factory extends ContractFactory {
+  constructor(...args: LendingPoolTestConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    tokens: LendingPoolTest.TokenInitStruct[],
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<LendingPoolTest> {
+    return super.deploy(tokens, overrides || {}) as Promise<LendingPoolTest>;
+  }
+  override getDeployTransaction(
+    tokens: LendingPoolTest.TokenInitStruct[],
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(tokens, overrides || {});
+  }
+  override attach(address: string): LendingPoolTest {
+    return super.attach(address) as LendingPoolTest;
+  }
+  override connect(signer: Signer): LendingPoolTest__factory {
+    return super.connect(signer) as LendingPoolTest__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): LendingPoolTestInterface {
+    return new utils.Interface(_abi) as LendingPoolTestInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): LendingPoolTest {
+    return new Contract(address, _abi, signerOrProvider) as LendingPoolTest;
+  }
+}
@@ -0,0 +1,143 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import { Signer, utils, Contract, ContractFactory, Overrides } from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../common";
+import type {
+  Multicall3,
+  Multicall3Interface,
+} from "../../contracts/Multicall3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "allowFailure",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "callData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Call3[]",
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "returnData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Result[]",
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getBlockNumber",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "addr",
+        type: "address",
+      },
+    ],
+    name: "getEthBalance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506104e0806100206000396000f3fe6080604052600436106100345760003560e01c806342cbb15c146100395780634d2301cc1461005b57806382ad56cb14610083575b600080fd5b34801561004557600080fd5b50435b6040519081526020015b60405180910390f35b34801561006757600080fd5b50610048610076366004610266565b6001600160a01b03163190565b610096610091366004610296565b6100a3565b604051610052919061030b565b6060818067ffffffffffffffff8111156100bf576100bf6103b7565b60405190808252806020026020018201604052801561010557816020015b6040805180820190915260008152606060208201528152602001906001900390816100dd5790505b50915060005b8181101561025e5736858583818110610126576101266103cd565b905060200281019061013891906103e3565b9050600084838151811061014e5761014e6103cd565b6020026020010151905081600001602081019061016b9190610266565b6001600160a01b03166101816040840184610403565b60405161018f929190610451565b6000604051808303816000865af19150503d80600081146101cc576040519150601f19603f3d011682016040523d82523d6000602084013e6101d1565b606091505b5060208084019190915290151582526101f09060408401908401610461565b806101f9575080515b6102495760405162461bcd60e51b815260206004820152601760248201527f4d756c746963616c6c333a2063616c6c206661696c6564000000000000000000604482015260640160405180910390fd5b5050808061025690610483565b91505061010b565b505092915050565b60006020828403121561027857600080fd5b81356001600160a01b038116811461028f57600080fd5b9392505050565b600080602083850312156102a957600080fd5b823567ffffffffffffffff808211156102c157600080fd5b818501915085601f8301126102d557600080fd5b8135818111156102e457600080fd5b8660208260051b85010111156102f957600080fd5b60209290920196919550909350505050565b60006020808301818452808551808352604092508286019150828160051b8701018488016000805b848110156103a857898403603f1901865282518051151585528801518885018890528051888601819052835b8181101561037b578281018b0151878201606001528a0161035f565b508581016060908101859052978a0197601f909101601f1916909501909401935091870191600101610333565b50919998505050505050505050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b60008235605e198336030181126103f957600080fd5b9190910192915050565b6000808335601e1984360301811261041a57600080fd5b83018035915067ffffffffffffffff82111561043557600080fd5b60200191503681900382131561044a57600080fd5b9250929050565b8183823760009101908152919050565b60006020828403121561047357600080fd5b8135801515811461028f57600080fd5b6000600182016104a357634e487b7160e01b600052601160045260246000fd5b506001019056fea26469706673582212206032d54f74a9987b2c58d481b1e18b9aea6bb20cdc62ce0707a34053d89d248864736f6c63430008140033";
+
+type Multicall3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: Multicall3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Multicall3__factory extends ContractFactory {
+  constructor(...args: Multicall3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<Multicall3> {
+    return super.deploy(overrides || {}) as Promise<Multicall3>;
+  }
+  override getDeployTransaction(
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override attach(address: string): Multicall3 {
+    return super.attach(address) as Multicall3;
+  }
+  override connect(signer: Signer): Multicall3__factory {
+    return super.connect(signer) as Multicall3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): Multicall3Interface {
+    return new utils.Interface(_abi) as Multicall3Interface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): Multicall3 {
+    return new Contract(address, _abi, signerOrProvider) as Multicall3;
+  }
+}
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as mocks from "./mocks";
+export * as oracles from "./oracles";
+export { LendingPoolTest__factory } from "./LendingPoolTest__factory";
+export { Multicall3__factory } from "./Multicall3__factory";
@@ -0,0 +1,171 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Signer,
+  utils,
+  Contract,
+  ContractFactory,
+  BigNumberish,
+  Overrides,
+} from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../../common";
+import type {
+  MockAggregatorV3,
+  MockAggregatorV3Interface,
+} from "../../../contracts/mocks/MockAggregatorV3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "decimals_",
+        type: "uint8",
+      },
+      {
+        internalType: "int256",
+        name: "answer_",
+        type: "int256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "latestRoundData",
+    outputs: [
+      {
+        internalType: "uint80",
+        name: "",
+        type: "uint80",
+      },
+      {
+        internalType: "int256",
+        name: "",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "",
+        type: "uint80",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "int256",
+        name: "answer_",
+        type: "int256",
+      },
+    ],
+    name: "setAnswer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "int256",
+        name: "answer_",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt_",
+        type: "uint256",
+      },
+    ],
+    name: "setRoundData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561001057600080fd5b5060405161031838038061031883398101604081905261002f91610099565b60ff821660805261003f81610046565b5050610109565b6100508142610053565b50565b600080546001600160501b0316908061006b836100cd565b82546001600160501b039182166101009390930a928302919092021990911617905550600191909155600255565b600080604083850312156100ac57600080fd5b825160ff811681146100bd57600080fd5b6020939093015192949293505050565b60006001600160501b038281166002600160501b031981016100ff57634e487b7160e01b600052601160045260246000fd5b6001019392505050565b6080516101f56101236000396000605601526101f56000f3fe608060405234801561001057600080fd5b506004361061004c5760003560e01c8063313ce5671461005157806362cbca241461008f57806399213cd8146100a4578063feaf968c146100b7575b600080fd5b6100787f000000000000000000000000000000000000000000000000000000000000000081565b60405160ff90911681526020015b60405180910390f35b6100a261009d36600461014d565b6100f4565b005b6100a26100b236600461016f565b610140565b6000546001546002546040805169ffffffffffffffffffff909416808552602085019390935283018190526060830152608082015260a001610086565b6000805469ffffffffffffffffffff16908061010f83610188565b825469ffffffffffffffffffff9182166101009390930a928302919092021990911617905550600191909155600255565b61014a81426100f4565b50565b6000806040838503121561016057600080fd5b50508035926020909101359150565b60006020828403121561018157600080fd5b5035919050565b600069ffffffffffffffffffff8083168181036101b557634e487b7160e01b600052601160045260246000fd5b600101939250505056fea2646970667358221220f9ddeeacaaa7e8326089281d651d97a882387fc1a1804e58bc7c32903045551264736f6c63430008140033";
+
+type MockAggregatorV3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockAggregatorV3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockAggregatorV3__factory extends ContractFactory {
+  constructor(...args: MockAggregatorV3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    decimals_: PromiseOrValue<BigNumberish>,
+    answer_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<MockAggregatorV3> {
+    return super.deploy(
+      decimals_,
+      answer_,
+      overrides || {}
+    ) as Promise<MockAggregatorV3>;
+  }
+  override getDeployTransaction(
+    decimals_: PromiseOrValue<BigNumberish>,
+    answer_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(decimals_, answer_, overrides || {});
+  }
+  override attach(address: string): MockAggregatorV3 {
+    return super.attach(address) as MockAggregatorV3;
+  }
+  override connect(signer: Signer): MockAggregatorV3__factory {
+    return super.connect(signer) as MockAggregatorV3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockAggregatorV3Interface {
+    return new utils.Interface(_abi) as MockAggregatorV3Interface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): MockAggregatorV3 {
+    return new Contract(address, _abi, signerOrProvider) as MockAggregatorV3;
+  }
+}
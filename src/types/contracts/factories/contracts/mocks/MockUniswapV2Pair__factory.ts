@@ -0,0 +1,187 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import { Signer, utils, Contract, ContractFactory, Overrides } from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../../common";
+import type {
+  MockUniswapV2Pair,
+  MockUniswapV2PairInterface,
+} from "../../../contracts/mocks/MockUniswapV2Pair";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "tokenA",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "tokenB",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "getReserves",
+    outputs: [
+      {
+        internalType: "uint112",
+        name: "",
+        type: "uint112",
+      },
+      {
+        internalType: "uint112",
+        name: "",
+        type: "uint112",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "price0CumulativeLast",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "price1CumulativeLast",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "reserve0_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reserve1_",
+        type: "uint256",
+      },
+    ],
+    name: "setReserves",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "sync",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token0",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token1",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561001057600080fd5b506040516106d33803806106d383398101604081905261002f91610088565b806001600160a01b0316826001600160a01b03161061004f578082610052565b81815b6001600160a01b0390811660a05216608052506100bb9050565b80516001600160a01b038116811461008357600080fd5b919050565b6000806040838503121561009b57600080fd5b6100a48361006c565b91506100b26020840161006c565b90509250929050565b60805160a0516105d86100fb6000396000818161013b01528181610194015261027301526000818160c70152818161016a01526101dd01526105d86000f3fe608060405234801561001057600080fd5b506004361061007d5760003560e01c80635a3d54931161005b5780635a3d5493146101185780638392b8c014610121578063d21220a714610136578063fff6cae91461015d57600080fd5b80630902f1ac146100825780630dfe1681146100c25780635909c0d514610101575b600080fd5b600054604080516001600160701b038084168252600160701b8404166020820152600160e01b90920463ffffffff16908201526060015b60405180910390f35b6100e97f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100b9565b61010a60015481565b6040519081526020016100b9565b61010a60025481565b61013461012f36600461052a565b610165565b005b6100e97f000000000000000000000000000000000000000000000000000000000000000081565b6101346101c5565b61018f7f000000000000000000000000000000000000000000000000000000000000000083610411565b6101b97f000000000000000000000000000000000000000000000000000000000000000082610411565b6101c16101c5565b5050565b6040516370a0823160e01b81523060048201526000907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa15801561022c573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610250919061054c565b6040516370a0823160e01b81523060048201529091506000906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa1580156102ba573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906102de919061054c565b600054909150429063ffffffff600160e01b909104811682039081161580159061031257506000546001600160701b031615155b801561032f5750600054600160701b90046001600160701b031615155b156103c45760005463ffffffff8216906001600160701b03811690600160701b900460701b600160701b600160e01b03168161036d5761036d610565565b60018054929091049290920201905560005463ffffffff821690600160701b81046001600160701b03169060701b600160701b600160e01b0316816103b4576103b4610565565b6002805492909104929092020190555b506000805463ffffffff909216600160e01b026001600160e01b036001600160701b03948516600160701b026001600160e01b031990941694909516939093179190911792909216179055565b6040516370a0823160e01b81523060048201526000906001600160a01b038416906370a0823190602401602060405180830381865afa158015610458573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061047c919061054c565b905080821115610503576001600160a01b0383166340c10f19306104a0848661057b565b6040516001600160e01b031960e085901b1681526001600160a01b0390921660048301526024820152604401600060405180830381600087803b1580156104e657600080fd5b505af11580156104fa573d6000803e3d6000fd5b50505050505050565b81811115610525576001600160a01b038316639dc29fac306104a0858561057b565b505050565b6000806040838503121561053d57600080fd5b50508035926020909101359150565b60006020828403121561055e57600080fd5b5051919050565b634e487b7160e01b600052601260045260246000fd5b8181038181111561059c57634e487b7160e01b600052601160045260246000fd5b9291505056fea2646970667358221220016f439a8e121b3f75a951a5a5899543364d9291c56af537947bf50c8f4e3f3e64736f6c63430008140033";
+
+type MockUniswapV2PairConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockUniswapV2PairConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockUniswapV2Pair__factory extends ContractFactory {
+  constructor(...args: MockUniswapV2PairConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    tokenA: PromiseOrValue<string>,
+    tokenB: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<MockUniswapV2Pair> {
+    return super.deploy(
+      tokenA,
+      tokenB,
+      overrides || {}
+    ) as Promise<MockUniswapV2Pair>;
+  }
+  override getDeployTransaction(
+    tokenA: PromiseOrValue<string>,
+    tokenB: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(tokenA, tokenB, overrides || {});
+  }
+  override attach(address: string): MockUniswapV2Pair {
+    return super.attach(address) as MockUniswapV2Pair;
+  }
+  override connect(signer: Signer): MockUniswapV2Pair__factory {
+    return super.connect(signer) as MockUniswapV2Pair__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockUniswapV2PairInterface {
+    return new utils.Interface(_abi) as MockUniswapV2PairInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): MockUniswapV2Pair {
+    return new Contract(address, _abi, signerOrProvider) as MockUniswapV2Pair;
+  }
+}
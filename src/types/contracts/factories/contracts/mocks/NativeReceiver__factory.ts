@@ -0,0 +1,152 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import { Signer, utils, Contract, ContractFactory, Overrides } from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../../common";
+import type {
+  NativeReceiver,
+  NativeReceiverInterface,
+} from "../../../contracts/mocks/NativeReceiver";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract LendingPoolTest",
+        name: "pool_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "borrow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mode",
+    outputs: [
+      {
+        internalType: "enum NativeReceiver.Mode",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pool",
+    outputs: [
+      {
+        internalType: "contract LendingPoolTest",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum NativeReceiver.Mode",
+        name: "mode_",
+        type: "uint8",
+      },
+    ],
+    name: "setMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561001057600080fd5b506040516104fe3803806104fe83398101604081905261002f91610040565b6001600160a01b0316608052610070565b60006020828403121561005257600080fd5b81516001600160a01b038116811461006957600080fd5b9392505050565b6080516104586100a66000396000818160ed0152818161016b0152818161027d01528181610302015261035701526104586000f3fe6080604052600436106100595760003560e01c806316f0115b1461015957806321175b4a146101aa578063295a5212146101ca5780632e1a7d4d146101f1578063c5ebeaec14610211578063d0e30db01461023157600080fd5b3661015457600160005460ff166002811115610077576100776103a3565b036100b35760405162461bcd60e51b815260206004820152600860248201526714995a9958dd195960c21b604482015260640160405180910390fd5b600260005460ff1660028111156100cc576100cc6103a3565b036101525760405163f3fef3a360e01b8152600060048201523460248201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169063f3fef3a390604401600060405180830381600087803b15801561013957600080fd5b505af115801561014d573d6000803e3d6000fd5b505050505b005b600080fd5b34801561016557600080fd5b5061018d7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b3480156101b657600080fd5b506101526101c53660046103b9565b610239565b3480156101d657600080fd5b506000546101e49060ff1681565b6040516101a191906103e1565b3480156101fd57600080fd5b5061015261020c366004610409565b610260565b34801561021d57600080fd5b5061015261022c366004610409565b6102e5565b610152610339565b6000805482919060ff19166001836002811115610258576102586103a3565b021790555050565b60405163f3fef3a360e01b815260006004820152602481018290527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169063f3fef3a3906044015b600060405180830381600087803b1580156102ca57600080fd5b505af11580156102de573d6000803e3d6000fd5b5050505050565b604051634b8a352960e01b815260006004820152602481018290527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690634b8a3529906044016102b0565b6040516311f9fbc960e21b81526000600482015234602482018190527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316916347e7ef2491906044016000604051808303818588803b1580156102ca57600080fd5b634e487b7160e01b600052602160045260246000fd5b6000602082840312156103cb57600080fd5b8135600381106103da57600080fd5b9392505050565b602081016003831061040357634e487b7160e01b600052602160045260246000fd5b91905290565b60006020828403121561041b57600080fd5b503591905056fea2646970667358221220e779d26f18471c8390ff63cdbcb2ecc00c1a067d20270def433d74a153e95a1c64736f6c63430008140033";
+
+type NativeReceiverConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: NativeReceiverConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class NativeReceiver__factory extends ContractFactory {
+  constructor(...args: NativeReceiverConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    pool_: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<NativeReceiver> {
+    return super.deploy(pool_, overrides || {}) as Promise<NativeReceiver>;
+  }
+  override getDeployTransaction(
+    pool_: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(pool_, overrides || {});
+  }
+  override attach(address: string): NativeReceiver {
+    return super.attach(address) as NativeReceiver;
+  }
+  override connect(signer: Signer): NativeReceiver__factory {
+    return super.connect(signer) as NativeReceiver__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): NativeReceiverInterface {
+    return new utils.Interface(_abi) as NativeReceiverInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): NativeReceiver {
+    return new Contract(address, _abi, signerOrProvider) as NativeReceiver;
+  }
+}
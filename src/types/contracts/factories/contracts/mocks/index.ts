@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { MockAggregatorV3__factory } from "./MockAggregatorV3__factory";
+export { MockERC20__factory } from "./MockERC20__factory";
+export { MockUniswapV2Pair__factory } from "./MockUniswapV2Pair__factory";
+export { NativeReceiver__factory } from "./NativeReceiver__factory";
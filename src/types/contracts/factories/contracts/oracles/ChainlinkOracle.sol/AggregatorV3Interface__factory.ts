@@ -0,0 +1,76 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Signer, utils } from "ethers";
+import type { Provider } from "@ethersproject/providers";
+import type {
+  AggregatorV3Interface,
+  AggregatorV3InterfaceInterface,
+} from "../../../../contracts/oracles/ChainlinkOracle.sol/AggregatorV3Interface";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "latestRoundData",
+    outputs: [
+      {
+        internalType: "uint80",
+        name: "roundId",
+        type: "uint80",
+      },
+      {
+        internalType: "int256",
+        name: "answer",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint80",
+        name: "answeredInRound",
+        type: "uint80",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class AggregatorV3Interface__factory {
+  static readonly abi = _abi;
+  static createInterface(): AggregatorV3InterfaceInterface {
+    return new utils.Interface(_abi) as AggregatorV3InterfaceInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): AggregatorV3Interface {
+    return new Contract(
+      address,
+      _abi,
+      signerOrProvider
+    ) as AggregatorV3Interface;
+  }
+}
@@ -0,0 +1,120 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import { Signer, utils, Contract, ContractFactory, Overrides } from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../../../common";
+import type {
+  ChainlinkOracle,
+  ChainlinkOracleInterface,
+} from "../../../../contracts/oracles/ChainlinkOracle.sol/ChainlinkOracle";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AggregatorV3Interface",
+        name: "feed_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "feed",
+    outputs: [
+      {
+        internalType: "contract AggregatorV3Interface",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "latestPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "source",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561001057600080fd5b506040516105b73803806105b783398101604081905261002f916100a9565b6001600160a01b03811660808190526040805163313ce56760e01b8152905163313ce567916004808201926020929091908290030181865afa158015610079573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061009d91906100d9565b60ff1660a052506100fc565b6000602082840312156100bb57600080fd5b81516001600160a01b03811681146100d257600080fd5b9392505050565b6000602082840312156100eb57600080fd5b815160ff811681146100d257600080fd5b60805160a05161048361013460003960008181610178015281816101a401526101ef015260008181604b015260da01526104836000f3fe608060405234801561001057600080fd5b50600436106100415760003560e01c806337a7b7d81461004657806367e828bf1461008a578063a3e6ba94146100b5575b600080fd5b61006d7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b6040805180820182526009815268436861696e6c696e6b60b81b602082015290516100819190610228565b6100bd6100d2565b60408051928352602083019190915201610081565b6000806000807f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663feaf968c6040518163ffffffff1660e01b815260040160a060405180830381865afa158015610136573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061015a9190610295565b509350509250506000821361017457600094909350915050565b60127f000000000000000000000000000000000000000000000000000000000000000060ff16116101e8576101ca7f000000000000000000000000000000000000000000000000000000000000000060126102fb565b6101d590600a6103fe565b6101df9083610414565b94909350915050565b61021360127f00000000000000000000000000000000000000000000000000000000000000006102fb565b61021e90600a6103fe565b6101df908361042b565b600060208083528351808285015260005b8181101561025557858101830151858201604001528201610239565b506000604082860101526040601f19601f8301168501019250505092915050565b805169ffffffffffffffffffff8116811461029057600080fd5b919050565b600080600080600060a086880312156102ad57600080fd5b6102b686610276565b94506020860151935060408601519250606086015191506102d960808701610276565b90509295509295909350565b634e487b7160e01b600052601160045260246000fd5b60ff8281168282160390811115610314576103146102e5565b92915050565b600181815b8085111561035557816000190482111561033b5761033b6102e5565b8085161561034857918102915b93841c939080029061031f565b509250929050565b60008261036c57506001610314565b8161037957506000610314565b816001811461038f5760028114610399576103b5565b6001915050610314565b60ff8411156103aa576103aa6102e5565b50506001821b610314565b5060208310610133831016604e8410600b84101617156103d8575081810a610314565b6103e2838361031a565b80600019048211156103f6576103f66102e5565b029392505050565b600061040d60ff84168361035d565b9392505050565b8082028115828204841417610314576103146102e5565b60008261044857634e487b7160e01b600052601260045260246000fd5b50049056fea264697066735822122009e704fb753244152f18ebd129a49fd2c90e02eb82cafcec39aba2ffc9e44f4a64736f6c63430008140033";
+
+type ChainlinkOracleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ChainlinkOracleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ChainlinkOracle__factory extends ContractFactory {
+  constructor(...args: ChainlinkOracleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    feed_: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ChainlinkOracle> {
+    return super.deploy(feed_, overrides || {}) as Promise<ChainlinkOracle>;
+  }
+  override getDeployTransaction(
+    feed_: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(feed_, overrides || {});
+  }
+  override attach(address: string): ChainlinkOracle {
+    return super.attach(address) as ChainlinkOracle;
+  }
+  override connect(signer: Signer): ChainlinkOracle__factory {
+    return super.connect(signer) as ChainlinkOracle__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ChainlinkOracleInterface {
+    return new utils.Interface(_abi) as ChainlinkOracleInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): ChainlinkOracle {
+    return new Contract(address, _abi, signerOrProvider) as ChainlinkOracle;
+  }
+}
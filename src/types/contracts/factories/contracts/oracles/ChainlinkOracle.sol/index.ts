@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AggregatorV3Interface__factory } from "./AggregatorV3Interface__factory";
+export { ChainlinkOracle__factory } from "./ChainlinkOracle__factory";
@@ -0,0 +1,218 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Signer,
+  utils,
+  Contract,
+  ContractFactory,
+  BigNumberish,
+  Overrides,
+} from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../../common";
+import type {
+  FixedPriceOracle,
+  FixedPriceOracleInterface,
+} from "../../../contracts/oracles/FixedPriceOracle";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "price_",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "PriceSet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "latestPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "price",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "price_",
+        type: "uint256",
+      },
+    ],
+    name: "setPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "source",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "updatedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506040516104f93803806104f983398101604081905261002f9161013e565b61003833610047565b61004181610097565b50610157565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b61009f6100de565b6001819055426002556040518181527f6bfd5e75539a9d2626425a2e2922675256b219fe546d63dad56011759b9a2f669060200160405180910390a150565b6000546001600160a01b0316331461013c5760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640160405180910390fd5b565b60006020828403121561015057600080fd5b5051919050565b610393806101666000396000f3fe608060405234801561001057600080fd5b50600436106100885760003560e01c806391b7f5ed1161005b57806391b7f5ed146100f9578063a035b1fe1461010c578063a3e6ba9414610115578063f2fde38b1461013057600080fd5b806367e828bf1461008d578063715018a6146100bd5780637519ab50146100c75780638da5cb5b146100de575b600080fd5b6040805180820182526005815264119a5e195960da1b602082015290516100b491906102c6565b60405180910390f35b6100c5610143565b005b6100d060025481565b6040519081526020016100b4565b6000546040516001600160a01b0390911681526020016100b4565b6100c5610107366004610314565b610157565b6100d060015481565b600154600254604080519283526020830191909152016100b4565b6100c561013e36600461032d565b61019e565b61014b61021c565b6101556000610276565b565b61015f61021c565b6001819055426002556040518181527f6bfd5e75539a9d2626425a2e2922675256b219fe546d63dad56011759b9a2f669060200160405180910390a150565b6101a661021c565b6001600160a01b0381166102105760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b60648201526084015b60405180910390fd5b61021981610276565b50565b6000546001600160a01b031633146101555760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e65726044820152606401610207565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b600060208083528351808285015260005b818110156102f3578581018301518582016040015282016102d7565b506000604082860101526040601f19601f8301168501019250505092915050565b60006020828403121561032657600080fd5b5035919050565b60006020828403121561033f57600080fd5b81356001600160a01b038116811461035657600080fd5b939250505056fea2646970667358221220143e36ee858ada32fe50801e2dddd7c83d9baf69b70ea7708cc450c31b68be9f64736f6c63430008140033";
+
+type FixedPriceOracleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FixedPriceOracleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FixedPriceOracle__factory extends ContractFactory {
+  constructor(...args: FixedPriceOracleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    price_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<FixedPriceOracle> {
+    return super.deploy(price_, overrides || {}) as Promise<FixedPriceOracle>;
+  }
+  override getDeployTransaction(
+    price_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(price_, overrides || {});
+  }
+  override attach(address: string): FixedPriceOracle {
+    return super.attach(address) as FixedPriceOracle;
+  }
+  override connect(signer: Signer): FixedPriceOracle__factory {
+    return super.connect(signer) as FixedPriceOracle__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FixedPriceOracleInterface {
+    return new utils.Interface(_abi) as FixedPriceOracleInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): FixedPriceOracle {
+    return new Contract(address, _abi, signerOrProvider) as FixedPriceOracle;
+  }
+}
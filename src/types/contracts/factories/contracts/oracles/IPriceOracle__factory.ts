@@ -0,0 +1,57 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Signer, utils } from "ethers";
+import type { Provider } from "@ethersproject/providers";
+import type {
+  IPriceOracle,
+  IPriceOracleInterface,
+} from "../../../contracts/oracles/IPriceOracle";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "latestPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "source",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IPriceOracle__factory {
+  static readonly abi = _abi;
+  static createInterface(): IPriceOracleInterface {
+    return new utils.Interface(_abi) as IPriceOracleInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): IPriceOracle {
+    return new Contract(address, _abi, signerOrProvider) as IPriceOracle;
+  }
+}
@@ -0,0 +1,264 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Signer,
+  utils,
+  Contract,
+  ContractFactory,
+  BigNumberish,
+  Overrides,
+} from "ethers";
+import type { Provider, TransactionRequest } from "@ethersproject/providers";
+import type { PromiseOrValue } from "../../../../common";
+import type {
+  UniswapV2TwapOracle,
+  UniswapV2TwapOracleInterface,
+} from "../../../../contracts/oracles/UniswapV2TwapOracle.sol/UniswapV2TwapOracle";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract IUniswapV2Pair",
+        name: "pair_",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token_",
+        type: "address",
+      },
+      {
+        internalType: "contract IPriceOracle",
+        name: "baseOracle_",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "period_",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint224",
+        name: "priceAverage",
+        type: "uint224",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "timestamp",
+        type: "uint32",
+      },
+    ],
+    name: "Updated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "baseOracle",
+    outputs: [
+      {
+        internalType: "contract IPriceOracle",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "blockTimestampLast",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "latestPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pair",
+    outputs: [
+      {
+        internalType: "contract IUniswapV2Pair",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "period",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "priceAverage",
+    outputs: [
+      {
+        internalType: "uint224",
+        name: "",
+        type: "uint224",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "priceCumulativeLast",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "source",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "update",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6101606040523480156200001257600080fd5b50604051620011ff380380620011ff83398101604081905262000035916200057f565b6000846001600160a01b0316630dfe16816040518163ffffffff1660e01b8152600401602060405180830381865afa15801562000076573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906200009c9190620005e4565b90506000856001600160a01b031663d21220a76040518163ffffffff1660e01b8152600401602060405180830381865afa158015620000df573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190620001059190620005e4565b9050816001600160a01b0316856001600160a01b03161480620001395750806001600160a01b0316856001600160a01b0316145b6200017f5760405162461bcd60e51b81526020600482015260116024820152702a37b5b2b7103737ba1034b7103830b4b960791b60448201526064015b60405180910390fd5b60008363ffffffff1611620001c85760405162461bcd60e51b815260206004820152600e60248201526d125b9d985b1a59081c195c9a5bd960921b604482015260640162000176565b6001600160a01b0380871660805285811660a081905285821660c05263ffffffff851660e0529083168114610100526040805163313ce56760e01b8152905163313ce567916004808201926020929091908290030181865afa15801562000233573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906200025991906200060b565b6200026690600a62000745565b610120526001600160a01b038581169083161462000285578162000287565b805b6001600160a01b031663313ce5676040518163ffffffff1660e01b8152600401602060405180830381865afa158015620002c5573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190620002eb91906200060b565b620002f890600a62000745565b610140526200030662000330565b6001805463ffffffff191663ffffffff9290921691909117905560005550620007e8945050505050565b610100516000904290620003ab576080516001600160a01b0316635a3d54936040518163ffffffff1660e01b8152600401602060405180830381865afa1580156200037f573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190620003a5919062000756565b62000412565b6080516001600160a01b0316635909c0d56040518163ffffffff1660e01b8152600401602060405180830381865afa158015620003ec573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019062000412919062000756565b915060008060006080516001600160a01b0316630902f1ac6040518163ffffffff1660e01b8152600401606060405180830381865afa1580156200045a573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019062000480919062000788565b9250925092508363ffffffff168163ffffffff1614158015620004ab57506001600160701b03831615155b8015620004c057506001600160701b03821615155b15620005455761010051818503906000906200050757836001600160701b0316600160701b866001600160701b03160281620005005762000500620007d2565b0462000533565b846001600160701b0316600160701b856001600160701b03160281620005315762000531620007d2565b045b90508163ffffffff1681028701965050505b5050509091565b6001600160a01b03811681146200056257600080fd5b50565b805163ffffffff811681146200057a57600080fd5b919050565b600080600080608085870312156200059657600080fd5b8451620005a3816200054c565b6020860151909450620005b6816200054c565b6040860151909350620005c9816200054c565b9150620005d96060860162000565565b905092959194509250565b600060208284031215620005f757600080fd5b815162000604816200054c565b9392505050565b6000602082840312156200061e57600080fd5b815160ff811681146200060457600080fd5b634e487b7160e01b600052601160045260246000fd5b600181815b80851115620006875781600019048211156200066b576200066b62000630565b808516156200067957918102915b93841c93908002906200064b565b509250929050565b600082620006a0575060016200073f565b81620006af575060006200073f565b8160018114620006c85760028114620006d357620006f3565b60019150506200073f565b60ff841115620006e757620006e762000630565b50506001821b6200073f565b5060208310610133831016604e8410600b841016171562000718575081810a6200073f565b62000724838362000646565b80600019048211156200073b576200073b62000630565b0290505b92915050565b60006200060460ff8416836200068f565b6000602082840312156200076957600080fd5b5051919050565b80516001600160701b03811681146200057a57600080fd5b6000806000606084860312156200079e57600080fd5b620007a98462000770565b9250620007b96020850162000770565b9150620007c96040850162000565565b90509250925092565b634e487b7160e01b600052601260045260246000fd5b60805160a05160c05160e0516101005161012051610140516109926200086d60003960006104390152600061040f01526000818161048f015261068e0152600081816101da015261024301526000818161015b015261036b0152600061020101526000818161011c015281816104b40152818161053b01526105c401526109926000f3fe608060405234801561001057600080fd5b506004361061009e5760003560e01c8063abbcfcfb11610066578063abbcfcfb14610156578063c5700a021461017d578063eb3091b1146101a2578063ef78d4fd146101d5578063fc0c546a146101fc57600080fd5b80632f43c1bc146100a357806367e828bf146100bf578063a2e62045146100f0578063a3e6ba94146100fa578063a8aa1b3114610117575b600080fd5b6100ac60005481565b6040519081526020015b60405180910390f35b604080518082018252600f81526e0556e6973776170205632205457415608c1b602082015290516100b6919061082a565b6100f8610223565b005b61010261033e565b604080519283526020830191909152016100b6565b61013e7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100b6565b61013e7f000000000000000000000000000000000000000000000000000000000000000081565b60015461018d9063ffffffff1681565b60405163ffffffff90911681526020016100b6565b6001546101bd9064010000000090046001600160e01b031681565b6040516001600160e01b0390911681526020016100b6565b61018d7f000000000000000000000000000000000000000000000000000000000000000081565b61013e7f000000000000000000000000000000000000000000000000000000000000000081565b60008061022e61048a565b600154919350915063ffffffff9081168203907f0000000000000000000000000000000000000000000000000000000000000000811690821610156102af5760405162461bcd60e51b815260206004820152601260248201527114195c9a5bd9081b9bdd08195b185c1cd95960721b60448201526064015b60405180910390fd5b8063ffffffff166000548403816102c8576102c8610878565b600085905563ffffffff84166001600160e01b0392909104821664010000000090810263ffffffff1916821760018190556040805192909104909316815260208101919091527f1a4e76f8baa864b488be13eac83132539d95bdc7dcd90b09e37fee88b9202853910160405180910390a1505050565b600154600090819064010000000090046001600160e01b031681036103665750600091829150565b6000807f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663a3e6ba946040518163ffffffff1660e01b81526004016040805180830381865afa1580156103c6573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906103ea919061088e565b60015491935091506000906104679064010000000090046001600160e01b03166104347f0000000000000000000000000000000000000000000000000000000000000000866108b2565b6104627f0000000000000000000000000000000000000000000000000000000000000000600160701b6108b2565b610720565b600154909150819061047f9063ffffffff1684610810565b945094505050509091565b6000427f0000000000000000000000000000000000000000000000000000000000000000610539577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316635a3d54936040518163ffffffff1660e01b8152600401602060405180830381865afa158015610510573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061053491906108d7565b6105bb565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316635909c0d56040518163ffffffff1660e01b8152600401602060405180830381865afa158015610597573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906105bb91906108d7565b915060008060007f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316630902f1ac6040518163ffffffff1660e01b8152600401606060405180830381865afa158015610620573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610644919061090c565b9250925092508363ffffffff168163ffffffff161415801561066e57506001600160701b03831615155b801561068257506001600160701b03821615155b156107195780840360007f00000000000000000000000000000000000000000000000000000000000000006106de57836001600160701b0316600160701b866001600160701b031602816106d8576106d8610878565b04610707565b846001600160701b0316600160701b856001600160701b0316028161070557610705610878565b045b90508163ffffffff1681028701965050505b5050509091565b600080806000198587098587029250828110838203039150508060000361075a5783828161075057610750610878565b0492505050610809565b8084116107a15760405162461bcd60e51b81526020600482015260156024820152744d6174683a206d756c446976206f766572666c6f7760581b60448201526064016102a6565b600084868809851960019081018716968790049682860381900495909211909303600082900391909104909201919091029190911760038402600290811880860282030280860282030280860282030280860282030280860282030280860290910302029150505b9392505050565b600081831061081f5781610821565b825b90505b92915050565b600060208083528351808285015260005b818110156108575785810183015185820160400152820161083b565b506000604082860101526040601f19601f8301168501019250505092915050565b634e487b7160e01b600052601260045260246000fd5b600080604083850312156108a157600080fd5b505080516020909101519092909150565b808202811582820484141761082457634e487b7160e01b600052601160045260246000fd5b6000602082840312156108e957600080fd5b5051919050565b80516001600160701b038116811461090757600080fd5b919050565b60008060006060848603121561092157600080fd5b61092a846108f0565b9250610938602085016108f0565b9150604084015163ffffffff8116811461095157600080fd5b80915050925092509256fea26469706673582212206fc96093acf935fda59b38950fd29b2fc9455d6b53d6c5859232f9ca2187a42964736f6c63430008140033";
+
+type UniswapV2TwapOracleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: UniswapV2TwapOracleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class UniswapV2TwapOracle__factory extends ContractFactory {
+  constructor(...args: UniswapV2TwapOracleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override deploy(
+    pair_: PromiseOrValue<string>,
+    token_: PromiseOrValue<string>,
+    baseOracle_: PromiseOrValue<string>,
+    period_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<UniswapV2TwapOracle> {
+    return super.deploy(
+      pair_,
+      token_,
+      baseOracle_,
+      period_,
+      overrides || {}
+    ) as Promise<UniswapV2TwapOracle>;
+  }
+  override getDeployTransaction(
+    pair_: PromiseOrValue<string>,
+    token_: PromiseOrValue<string>,
+    baseOracle_: PromiseOrValue<string>,
+    period_: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): TransactionRequest {
+    return super.getDeployTransaction(
+      pair_,
+      token_,
+      baseOracle_,
+      period_,
+      overrides || {}
+    );
+  }
+  override attach(address: string): UniswapV2TwapOracle {
+    return super.attach(address) as UniswapV2TwapOracle;
+  }
+  override connect(signer: Signer): UniswapV2TwapOracle__factory {
+    return super.connect(signer) as UniswapV2TwapOracle__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): UniswapV2TwapOracleInterface {
+    return new utils.Interface(_abi) as UniswapV2TwapOracleInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): UniswapV2TwapOracle {
+    return new Contract(address, _abi, signerOrProvider) as UniswapV2TwapOracle;
+  }
+}
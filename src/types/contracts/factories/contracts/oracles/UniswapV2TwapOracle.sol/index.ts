@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IUniswapV2Pair__factory } from "./IUniswapV2Pair__factory";
+export { UniswapV2TwapOracle__factory } from "./UniswapV2TwapOracle__factory";
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as chainlinkOracleSol from "./ChainlinkOracle.sol";
+export * as uniswapV2TwapOracleSol from "./UniswapV2TwapOracle.sol";
+export { FixedPriceOracle__factory } from "./FixedPriceOracle__factory";
+export { IPriceOracle__factory } from "./IPriceOracle__factory";
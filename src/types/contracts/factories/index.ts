@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as openzeppelin from "./@openzeppelin";
+export * as contracts from "./contracts";
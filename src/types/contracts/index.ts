@@ -0,0 +1,40 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
+import type * as contracts from "./contracts";
+export type { contracts };
+export * as factories from "./factories";
+export type { Ownable } from "./@openzeppelin/contracts/access/Ownable";
+export { Ownable__factory } from "./factories/@openzeppelin/contracts/access/Ownable__factory";
+export type { ERC20 } from "./@openzeppelin/contracts/token/ERC20/ERC20";
+export { ERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/ERC20__factory";
+export type { IERC20Metadata } from "./@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata";
+export { IERC20Metadata__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata__factory";
+export type { IERC20 } from "./@openzeppelin/contracts/token/ERC20/IERC20";
+export { IERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
+export type { LendingPoolTest } from "./contracts/LendingPoolTest";
+export { LendingPoolTest__factory } from "./factories/contracts/LendingPoolTest__factory";
+export type { MockAggregatorV3 } from "./contracts/mocks/MockAggregatorV3";
+export { MockAggregatorV3__factory } from "./factories/contracts/mocks/MockAggregatorV3__factory";
+export type { MockERC20 } from "./contracts/mocks/MockERC20";
+export { MockERC20__factory } from "./factories/contracts/mocks/MockERC20__factory";
+export type { MockUniswapV2Pair } from "./contracts/mocks/MockUniswapV2Pair";
+export { MockUniswapV2Pair__factory } from "./factories/contracts/mocks/MockUniswapV2Pair__factory";
+export type { NativeReceiver } from "./contracts/mocks/NativeReceiver";
+export { NativeReceiver__factory } from "./factories/contracts/mocks/NativeReceiver__factory";
+export type { Multicall3 } from "./contracts/Multicall3";
+export { Multicall3__factory } from "./factories/contracts/Multicall3__factory";
+export type { AggregatorV3Interface } from "./contracts/oracles/ChainlinkOracle.sol/AggregatorV3Interface";
+export { AggregatorV3Interface__factory } from "./factories/contracts/oracles/ChainlinkOracle.sol/AggregatorV3Interface__factory";
+export type { ChainlinkOracle } from "./contracts/oracles/ChainlinkOracle.sol/ChainlinkOracle";
+export { ChainlinkOracle__factory } from "./factories/contracts/oracles/ChainlinkOracle.sol/ChainlinkOracle__factory";
+export type { FixedPriceOracle } from "./contracts/oracles/FixedPriceOracle";
+export { FixedPriceOracle__factory } from "./factories/contracts/oracles/FixedPriceOracle__factory";
+export type { IPriceOracle } from "./contracts/oracles/IPriceOracle";
+export { IPriceOracle__factory } from "./factories/contracts/oracles/IPriceOracle__factory";
+export type { IUniswapV2Pair } from "./contracts/oracles/UniswapV2TwapOracle.sol/IUniswapV2Pair";
+export { IUniswapV2Pair__factory } from "./factories/contracts/oracles/UniswapV2TwapOracle.sol/IUniswapV2Pair__factory";
+export type { UniswapV2TwapOracle } from "./contracts/oracles/UniswapV2TwapOracle.sol/UniswapV2TwapOracle";
+export { UniswapV2TwapOracle__factory } from "./factories/contracts/oracles/UniswapV2TwapOracle.sol/UniswapV2TwapOracle__factory";
@@ -0,0 +1,103 @@
+import { ethers } from "hardhat";
+import { BigNumber, BigNumberish } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { FixedPriceOracle, LendingPoolTest, MockERC20 } from "../src/types/contracts";
+import { deployMockMarket, mockNetworkConfig, MOCK_PRICES } from "../scripts/mocks";
+import { deployConstructorArgs, RateModelConfig } from "../scripts/deployment";
+
+export const NATIVE = ethers.constants.AddressZero;
+
+// Fixture markets charge no interest, so debts stay exactly what was borrowed unless a test
+// sets a rate model
+export const ZERO_RATE_MODEL: RateModelConfig = { baseRate: "0", slope1: "0", slope2: "0", kink: "80" };
+
+export interface PoolFixture {
+  pool: LendingPoolTest;
+  owner: SignerWithAddress;
+  users: SignerWithAddress[];
+  tokens: { [symbol: string]: MockERC20 };
+  // Each supported token's price feed, keyed by token address
+  feeds: { [address: string]: FixedPriceOracle };
+  // getSupportedTokens(), in the pool's constructor order
+  supported: string[];
+  // Decimals of every supported token, native included
+  decimals: { [address: string]: number };
+}
+
+// A fresh pool listing mock tokens like the BSC deployment, each priced by a fixed feed the
+// tests can move and interest-free
+export async function deployPoolFixture(): Promise<PoolFixture> {
+  const [owner, ...users] = await ethers.getSigners();
+  const { tokens } = await deployMockMarket();
+  const oracles = Object.fromEntries(
+    Object.entries(MOCK_PRICES).map(([symbol, price]) => [symbol, { type: "fixed" as const, price }])
+  );
+
+  const Pool = await ethers.getContractFactory("LendingPoolTest");
+  const pool = await Pool.deploy(...(await deployConstructorArgs(mockNetworkConfig(tokens, oracles, ZERO_RATE_MODEL))));
+  await pool.deployed();
+
+  const supported = await pool.getSupportedTokens();
+  const Oracle = await ethers.getContractFactory("FixedPriceOracle");
+  const decimals: { [address: string]: number } = { [NATIVE]: 18 };
+  const feeds: { [address: string]: FixedPriceOracle } = {};
+  for (const token of supported) {
+    feeds[token] = Oracle.attach((await pool.priceFeeds(token)).oracle);
+  }
+  for (const token of Object.values(tokens)) {
+    decimals[token.address] = await token.decimals();
+  }
+
+  return {
+    pool,
+    owner,
+    users,
+    tokens,
+    feeds,
+    supported,
+    decimals,
+  };
+}
+
+// Mints (or for the native token, forwards) `amount` and deposits it as `user`'s collateral
+export async function depositAs(fixture: PoolFixture, user: SignerWithAddress, token: string, amount: BigNumberish) {
+  const { pool } = fixture;
+  if (token === NATIVE) {
+    await pool.connect(user).deposit(token, amount, { value: amount });
+    return;
+  }
+  const erc20 = tokenAt(fixture, token);
+  await erc20.mint(user.address, amount);
+  await erc20.connect(user).approve(pool.address, amount);
+  await pool.connect(user).deposit(token, amount);
+}
+
+// Adds `amount` of `token` to the pool's lendable reserves
+export async function fundAs(fixture: PoolFixture, user: SignerWithAddress, token: string, amount: BigNumberish) {
+  const { pool } = fixture;
+  if (token === NATIVE) {
+    await pool.connect(user).fundPool(token, amount, { value: amount });
+    return;
+  }
+  const erc20 = tokenAt(fixture, token);
+  await erc20.mint(user.address, amount);
+  await erc20.connect(user).approve(pool.address, amount);
+  await pool.connect(user).fundPool(token, amount);
+}
+
+export function tokenAt(fixture: PoolFixture, address: string): MockERC20 {
+  const token = Object.values(fixture.tokens).find((t) => t.address.toLowerCase() === address.toLowerCase());
+  if (!token) throw new Error(`No mock token at ${address}`);
+  return token;
+}
+
+// `whole` tokens in `token`'s smallest unit
+export function units(fixture: PoolFixture, token: string, whole: number | string): BigNumber {
+  return ethers.utils.parseUnits(whole.toString(), fixture.decimals[token]);
+}
+
+// Scales `token`'s price by `numerator / denominator`
+export async function scalePrice(fixture: PoolFixture, token: string, numerator: BigNumberish, denominator: BigNumberish) {
+  const feed = fixture.feeds[token];
+  await feed.setPrice((await feed.price()).mul(numerator).div(denominator));
+}
@@ -0,0 +1,476 @@
+import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  RiskParams,
+  RiskPosition,
+  LiquidationParams,
+  PRECISION,
+  getBorrowCapacity,
+  getTotalDebtUSD,
+  getIndebtedness,
+  getMaxBorrow,
+  checkBorrow,
+  checkWithdraw,
+  isLiquidatable,
+  getMaxLiquidationRepay,
+  previewLiquidation,
+} from "../src/lib/risk";
+import { PoolErrorCode, decodePoolError } from "../src/lib/poolErrors";
+import { deployPoolFixture, scalePrice, PoolFixture, NATIVE } from "./fixtures";
+
+// Stateful fuzzing of the pool: random action sequences run against a fresh deployment while an
+// off-chain ledger (priced with src/lib/risk) predicts every outcome. Actions carry fractions rather
+// than amounts and are sized from the current state when they run, so any subsequence of a failing
+// run is still a meaningful run, which is what lets `shrink` cut it down.
+
+export const ACTORS = 4;
+// Tokens whose price feeds "price" actions move; the stablecoins stay pegged
+export const PRICED = ["BNB", "WETH", "CDT"];
+
+export type Action =
+  | { kind: "deposit" | "withdraw" | "borrow" | "repay" | "fund" | "redeem"; actor: number; token: number; fraction: number }
+  | { kind: "price"; asset: number; factor: number }
+  | { kind: "liquidate"; actor: number; target: number; debtToken: number; collateralToken: number; fraction: number };
+
+export interface Failure {
+  step: number;
+  message: string;
+  // What each step up to the failure actually did, with amounts resolved
+  trace: string[];
+}
+
+// Deposits and funding are sized in USD so every token gets comparable positions
+const MAX_DEPOSIT_USD = PRECISION.mul(10_000);
+const MAX_FUND_USD = PRECISION.mul(50_000);
+
+// Fraction granularity; anything above 100 overshoots and should be rejected
+const FRACTION_STEPS = 100;
+
+const ACTION_WEIGHTS: [Action["kind"], number][] = [
+  ["deposit", 4],
+  ["withdraw", 2],
+  ["borrow", 4],
+  ["repay", 2],
+  ["fund", 2],
+  ["redeem", 1],
+  ["price", 2],
+  ["liquidate", 2],
+];
+
+export function generateActions(random: () => number, steps: number): Action[] {
+  const pick = (n: number) => Math.floor(random() * n);
+  const totalWeight = ACTION_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+  const actions: Action[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    let roll = random() * totalWeight;
+    const [kind] = ACTION_WEIGHTS.find(([, weight]) => (roll -= weight) < 0) || ACTION_WEIGHTS[0];
+
+    if (kind === "price") {
+      // Moves of up to ±50% per step
+      actions.push({ kind, asset: pick(PRICED.length), factor: 50 + pick(101) });
+    } else if (kind === "liquidate") {
+      // `fraction` is of the close-factor maximum, so above 100 it should be rejected
+      actions.push({
+        kind,
+        actor: pick(ACTORS),
+        target: pick(ACTORS),
+        debtToken: pick(60),
+        collateralToken: pick(60),
+        fraction: pick(FRACTION_STEPS + 11),
+      });
+    } else {
+      // `token` is reduced modulo the usable tokens when the action runs (see `pickToken`). Borrows
+      // lean towards the limit so price moves can push positions past the liquidation threshold.
+      const fraction = kind === "borrow" ? 50 + pick(FRACTION_STEPS - 39) : pick(FRACTION_STEPS + 11);
+      actions.push({ kind, actor: pick(ACTORS), token: pick(60), fraction });
+    }
+  }
+  return actions;
+}
+
+type Balances = { [token: string]: BigNumber };
+
+// What the pool's storage should hold, maintained only from predicted successes
+class Ledger {
+  collateral: Balances[] = [];
+  debt: Balances[] = [];
+  shares: Balances[] = [];
+  reserves: Balances = {};
+  totalShares: Balances = {};
+  // Written-off debt; with no interest there is no treasury to cover it
+  deficits: Balances = {};
+
+  constructor(tokens: string[]) {
+    for (let actor = 0; actor < ACTORS; actor++) {
+      this.collateral.push(zeroBalances(tokens));
+      this.debt.push(zeroBalances(tokens));
+      this.shares.push(zeroBalances(tokens));
+    }
+    this.reserves = zeroBalances(tokens);
+    this.totalShares = zeroBalances(tokens);
+    this.deficits = zeroBalances(tokens);
+  }
+
+  // Reserves plus everything lent out; written-off debt is the providers' loss.  The fixture
+  // charges no interest, so debts are the borrows
+  liquidity(token: string): BigNumber {
+    return this.debt.reduce((sum, debt) => sum.add(debt[token]), this.reserves[token]);
+  }
+
+  // The pool's share pricing, with its virtual share and unit
+  amountToShares(token: string, amount: BigNumber): BigNumber {
+    return amount.mul(this.totalShares[token].add(1)).div(this.liquidity(token).add(1));
+  }
+
+  sharesToAmount(token: string, shares: BigNumber): BigNumber {
+    return shares.mul(this.liquidity(token).add(1)).div(this.totalShares[token].add(1));
+  }
+}
+
+function zeroBalances(tokens: string[]): Balances {
+  return Object.fromEntries(tokens.map((token) => [token, BigNumber.from(0)]));
+}
+
+function scale(amount: BigNumber, fraction: number): BigNumber {
+  return amount.mul(fraction).div(FRACTION_STEPS);
+}
+
+async function outcome(call: Promise<unknown>): Promise<PoolErrorCode | null> {
+  try {
+    await call;
+    return null;
+  } catch (error) {
+    return decodePoolError(error).code;
+  }
+}
+
+class InvariantViolation extends Error {}
+
+function check(condition: boolean, message: string) {
+  if (!condition) throw new InvariantViolation(message);
+}
+
+class Run {
+  readonly tokens: string[];
+  readonly symbols: string[];
+  readonly ledger: Ledger;
+  prices: Balances = {};
+
+  constructor(
+    readonly fixture: PoolFixture,
+    readonly params: RiskParams,
+    readonly liquidationParams: LiquidationParams,
+    readonly weights: { [token: string]: number }
+  ) {
+    this.tokens = fixture.supported;
+    this.symbols = symbolsOf(fixture);
+    this.ledger = new Ledger(this.tokens);
+  }
+
+  get actors() {
+    return this.fixture.users.slice(0, ACTORS);
+  }
+
+  position(actor: number): RiskPosition {
+    return {
+      collateral: this.ledger.collateral[actor],
+      debt: this.ledger.debt[actor],
+      prices: this.prices,
+      weights: this.weights,
+      decimals: this.fixture.decimals,
+    };
+  }
+
+  async refreshPrices() {
+    const markets = await this.fixture.pool.getMarketsData();
+    markets.tokens.forEach((token, i) => (this.prices[token] = markets.prices[i]));
+  }
+
+  // Tokens for an ERC20 pull; native amounts travel as msg.value instead
+  async provide(actor: number, token: string, amount: BigNumber) {
+    if (token === NATIVE || amount.isZero()) return;
+    const { pool, tokens } = this.fixture;
+    const erc20 = Object.values(tokens).find((t) => t.address === token)!;
+    const signer = this.actors[actor];
+    await erc20.mint(signer.address, amount);
+    await erc20.connect(signer).approve(pool.address, amount);
+  }
+
+  // Withdraw, repay and borrow choose among the tokens they can act on, so random sequences
+  // reach deep states instead of mostly hitting empty positions; `index` selects within those
+  pickToken(kind: Action["kind"], actor: number, index: number): string {
+    const { collateral, debt, shares, reserves } = this.ledger;
+    const usable = this.tokens.filter((token) => {
+      if (kind === "withdraw") return collateral[actor][token].gt(0);
+      if (kind === "repay") return debt[actor][token].gt(0);
+      if (kind === "redeem") return shares[actor][token].gt(0);
+      if (kind === "borrow") return reserves[token].gt(0);
+      return true;
+    });
+    const candidates = usable.length ? usable : this.tokens;
+    return candidates[index % candidates.length];
+  }
+
+  symbol(token: string): string {
+    return this.symbols[this.tokens.indexOf(token)];
+  }
+
+  // Runs one action and returns a description of what it did
+  async step(action: Action): Promise<string> {
+    const { pool, tokens } = this.fixture;
+    await this.refreshPrices();
+
+    if (action.kind === "price") {
+      const symbol = PRICED[action.asset];
+      await scalePrice(this.fixture, symbol === "BNB" ? NATIVE : tokens[symbol].address, action.factor, 100);
+      return `${symbol} price x${action.factor / 100}`;
+    }
+
+    if (action.kind === "liquidate") {
+      // Like `pickToken`, aim at the indebted actors when there are any
+      const indebted = this.actors.map((_, actor) => actor).filter((actor) => getTotalDebtUSD(this.position(actor)).gt(0));
+      const target = indebted.length ? indebted[action.target % indebted.length] : action.target;
+      return this.liquidate(action, target);
+    }
+
+    const { ledger } = this;
+    const signer = this.actors[action.actor];
+    const token = this.pickToken(action.kind, action.actor, action.token);
+    const value = (amount: BigNumber) => (token === NATIVE ? { value: amount } : {});
+    const position = this.position(action.actor);
+    let expected: PoolErrorCode | null = null;
+    let amount: BigNumber;
+    let apply: () => void;
+    let call: () => Promise<unknown>;
+
+    switch (action.kind) {
+      case "deposit":
+      case "fund": {
+        const maxUSD = action.kind === "deposit" ? MAX_DEPOSIT_USD : MAX_FUND_USD;
+        const unit = BigNumber.from(10).pow(this.fixture.decimals[token]);
+        amount = scale(maxUSD.mul(unit).div(this.prices[token]), Math.min(action.fraction, FRACTION_STEPS));
+        expected = amount.isZero() ? "AMOUNT_ZERO" : null;
+        await this.provide(action.actor, token, amount);
+        if (action.kind === "deposit") {
+          call = () => pool.connect(signer).deposit(token, amount, value(amount));
+          apply = () => (ledger.collateral[action.actor][token] = ledger.collateral[action.actor][token].add(amount));
+        } else {
+          const shares = ledger.amountToShares(token, amount);
+          expected = shares.isZero() ? "AMOUNT_ZERO" : null;
+          call = () => pool.connect(signer).fundPool(token, amount, value(amount));
+          apply = () => {
+            ledger.shares[action.actor][token] = ledger.shares[action.actor][token].add(shares);
+            ledger.totalShares[token] = ledger.totalShares[token].add(shares);
+            ledger.reserves[token] = ledger.reserves[token].add(amount);
+          };
+        }
+        break;
+      }
+      case "redeem": {
+        // `amount` is the share count here; what it pays out is in the trace
+        const shares = scale(ledger.shares[action.actor][token], action.fraction);
+        const payout = ledger.sharesToAmount(token, shares);
+        amount = shares;
+        if (shares.isZero()) expected = "AMOUNT_ZERO";
+        else if (shares.gt(ledger.shares[action.actor][token])) expected = "LOW_SHARES";
+        else if (payout.isZero()) expected = "AMOUNT_ZERO";
+        else if (payout.gt(ledger.reserves[token])) expected = "LOW_RESERVE";
+        call = () => pool.connect(signer).redeem(token, shares);
+        apply = () => {
+          ledger.shares[action.actor][token] = ledger.shares[action.actor][token].sub(shares);
+          ledger.totalShares[token] = ledger.totalShares[token].sub(shares);
+          ledger.reserves[token] = ledger.reserves[token].sub(payout);
+        };
+        break;
+      }
+      case "withdraw":
+        amount = scale(ledger.collateral[action.actor][token], action.fraction);
+        expected = checkWithdraw(position, token, amount, this.params);
+        call = () => pool.connect(signer).withdraw(token, amount);
+        apply = () => (ledger.collateral[action.actor][token] = ledger.collateral[action.actor][token].sub(amount));
+        break;
+      case "borrow":
+        amount = scale(getMaxBorrow(position, token, ledger.reserves[token], this.params), action.fraction);
+        expected = checkBorrow(position, token, amount, ledger.reserves[token], this.params);
+        call = () => pool.connect(signer).borrow(token, amount);
+        apply = () => {
+          ledger.debt[action.actor][token] = ledger.debt[action.actor][token].add(amount);
+          ledger.reserves[token] = ledger.reserves[token].sub(amount);
+        };
+        break;
+      case "repay":
+        amount = scale(ledger.debt[action.actor][token], action.fraction);
+        expected = amount.isZero() ? "AMOUNT_ZERO" : amount.gt(ledger.debt[action.actor][token]) ? "REPAY_TOO_MUCH" : null;
+        await this.provide(action.actor, token, amount);
+        call = () => pool.connect(signer).repay(token, amount, value(amount));
+        apply = () => {
+          ledger.debt[action.actor][token] = ledger.debt[action.actor][token].sub(amount);
+          ledger.reserves[token] = ledger.reserves[token].add(amount);
+        };
+        break;
+    }
+
+    const description =
+      action.kind === "redeem"
+        ? `actor${action.actor} redeem ${ethers.utils.formatEther(amount)} ${this.symbol(token)} shares`
+        : `actor${action.actor} ${action.kind} ${ethers.utils.formatUnits(amount, this.fixture.decimals[token])} ${this.symbol(token)}`;
+    const actual = await outcome(call());
+    check(actual === expected, `${description} expected ${expected || "success"}, got ${actual || "success"}`);
+    if (actual === null) apply();
+    return `${description}: ${actual || "success"}`;
+  }
+
+  // Repays among the target's debts and seizes among its collateral, as `pickToken` does
+  async liquidate(action: Extract<Action, { kind: "liquidate" }>, target: number): Promise<string> {
+    const { ledger, fixture } = this;
+    const held = (balances: Balances) => {
+      const tokens = this.tokens.filter((token) => balances[token].gt(0));
+      return tokens.length ? tokens : this.tokens;
+    };
+    const debtTokens = held(ledger.debt[target]);
+    const collateralTokens = held(ledger.collateral[target]);
+    const debtToken = debtTokens[action.debtToken % debtTokens.length];
+    const collateralToken = collateralTokens[action.collateralToken % collateralTokens.length];
+
+    const position = this.position(target);
+    const amount = scale(getMaxLiquidationRepay(position, debtToken, this.liquidationParams), action.fraction);
+    const preview = previewLiquidation(position, debtToken, amount, collateralToken, this.params, this.liquidationParams);
+    await this.provide(action.actor, debtToken, amount);
+
+    const description =
+      `actor${action.actor} liquidates actor${target} repaying ` +
+      `${ethers.utils.formatUnits(amount, fixture.decimals[debtToken])} ${this.symbol(debtToken)} for ${this.symbol(collateralToken)}`;
+    const value = debtToken === NATIVE ? { value: amount } : {};
+    const actual = await outcome(
+      fixture.pool.connect(this.actors[action.actor]).liquidate(this.actors[target].address, debtToken, amount, collateralToken, value)
+    );
+    check(actual === preview.error, `${description} expected ${preview.error || "success"}, got ${actual || "success"}`);
+    if (actual !== null) return `${description}: ${actual}`;
+
+    // The repayment joins the reserves and the seized collateral leaves the pool for the liquidator
+    ledger.debt[target][debtToken] = ledger.debt[target][debtToken].sub(preview.repayAmount);
+    ledger.reserves[debtToken] = ledger.reserves[debtToken].add(preview.repayAmount);
+    ledger.collateral[target][collateralToken] = ledger.collateral[target][collateralToken].sub(preview.seizeAmount);
+    // Once the collateral backs nothing, the liquidator takes what's left and the debt is written off
+    if (getBorrowCapacity(this.position(target)).isZero()) {
+      for (const token of this.tokens) {
+        ledger.collateral[target][token] = BigNumber.from(0);
+        ledger.deficits[token] = ledger.deficits[token].add(ledger.debt[target][token]);
+        ledger.debt[target][token] = BigNumber.from(0);
+      }
+    }
+    return `${description}: seized ${ethers.utils.formatUnits(preview.seizeAmount, fixture.decimals[collateralToken])}`;
+  }
+
+  async checkInvariants() {
+    const { pool } = this.fixture;
+    const accounts = await Promise.all(this.actors.map((signer) => pool.getUserAccountData(signer.address)));
+    await this.refreshPrices();
+
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      const symbol = this.symbols[i];
+
+      // Solvency: the pool holds at least what it owes lenders and depositors
+      const balance =
+        token === NATIVE
+          ? await ethers.provider.getBalance(pool.address)
+          : await Object.values(this.fixture.tokens).find((t) => t.address === token)!.balanceOf(pool.address);
+      const owed = accounts.reduce((sum, account) => sum.add(account.collateral[i]), accounts[0].reserves[i]);
+      check(balance.gte(owed), `${symbol} balance ${balance.toString()} below reserves + collateral ${owed.toString()}`);
+
+      check(accounts[0].reserves[i].eq(this.ledger.reserves[token]), `${symbol} reserves ${accounts[0].reserves[i].toString()}, model ${this.ledger.reserves[token].toString()}`);
+      const deficit = await pool.deficits(token);
+      check(deficit.eq(this.ledger.deficits[token]), `${symbol} deficit ${deficit.toString()}, model ${this.ledger.deficits[token].toString()}`);
+      const totalShares = await pool.totalShares(token);
+      check(totalShares.eq(this.ledger.totalShares[token]), `${symbol} total shares ${totalShares.toString()}, model ${this.ledger.totalShares[token].toString()}`);
+      accounts.forEach((account, actor) => {
+        check(account.collateral[i].eq(this.ledger.collateral[actor][token]), `actor${actor} ${symbol} collateral ${account.collateral[i].toString()}, model ${this.ledger.collateral[actor][token].toString()}`);
+        check(account.debt[i].eq(this.ledger.debt[actor][token]), `actor${actor} ${symbol} debt ${account.debt[i].toString()}, model ${this.ledger.debt[actor][token].toString()}`);
+        check(account.lpShares[i].eq(this.ledger.shares[actor][token]), `actor${actor} ${symbol} shares ${account.lpShares[i].toString()}, model ${this.ledger.shares[actor][token].toString()}`);
+      });
+    }
+
+    for (let actor = 0; actor < ACTORS; actor++) {
+      const position = this.position(actor);
+      const modelled = getIndebtedness(position);
+      check(accounts[actor].indebtedness.eq(modelled), `actor${actor} indebtedness ${accounts[actor].indebtedness.toString()}, model ${modelled.toString()}`);
+
+      // No healthy account is liquidatable
+      if (!isLiquidatable(position, this.params)) {
+        const token = this.tokens[0];
+        const code = await outcome(pool.callStatic.liquidate(this.actors[actor].address, token, 1, token));
+        check(code === "NO_DEBT" || code === "HEALTHY", `healthy actor${actor} liquidation returned ${code || "success"}`);
+      }
+    }
+  }
+}
+
+function symbolsOf(fixture: PoolFixture): string[] {
+  return fixture.supported.map((token) =>
+    token === NATIVE ? "BNB" : Object.keys(fixture.tokens).find((symbol) => fixture.tokens[symbol].address === token)!
+  );
+}
+
+// Replays `actions` on a fresh deployment, checking every invariant after each step.
+// Returns the first failure, or null if the whole sequence holds up.
+export async function runActions(actions: Action[]): Promise<Failure | null> {
+  const fixture = await loadFixture(deployPoolFixture);
+  const params = {
+    maxBorrowRatio: (await fixture.pool.MAX_BORROW_RATIO()).toNumber(),
+    liquidationThreshold: (await fixture.pool.LIQUIDATION_THRESHOLD()).toNumber(),
+  };
+  const liquidationParams = {
+    closeFactorBps: (await fixture.pool.closeFactorBps()).toNumber(),
+    liquidationBonusBps: (await fixture.pool.liquidationBonusBps()).toNumber(),
+  };
+  const weights: { [token: string]: number } = {};
+  for (const token of fixture.supported) {
+    weights[token] = (await fixture.pool.tokenConfigs(token)).weight.toNumber();
+  }
+  const run = new Run(fixture, params, liquidationParams, weights);
+  const trace: string[] = [];
+
+  for (let step = 0; step < actions.length; step++) {
+    try {
+      trace.push(await run.step(actions[step]));
+      await run.checkInvariants();
+    } catch (error) {
+      if (trace.length === step) trace.push(`${actions[step].kind} (did not complete)`);
+      return { step, message: error instanceof Error ? error.message : String(error), trace };
+    }
+  }
+  return null;
+}
+
+// Delta-debugging: drop ever smaller chunks of the sequence for as long as it keeps failing
+export async function shrink(actions: Action[], fails: (candidate: Action[]) => Promise<boolean>): Promise<Action[]> {
+  let current = actions;
+  let chunk = Math.max(1, Math.floor(current.length / 2));
+
+  while (chunk >= 1) {
+    let removed = false;
+    for (let start = 0; start < current.length; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + chunk)];
+      if (candidate.length < current.length && (await fails(candidate))) {
+        current = candidate;
+        removed = true;
+      } else {
+        start += chunk;
+      }
+    }
+    if (!removed) chunk = Math.floor(chunk / 2);
+  }
+  return current;
+}
+
+export function formatReproduction(actions: Action[], failure: Failure): string {
+  const steps = failure.trace.map((line, i) => `  ${i + 1}. ${line}`);
+  return [
+    `Invariant broken at step ${failure.step + 1}: ${failure.message}`,
+    ...steps,
+    `Replay with FUZZ_REPLAY='${JSON.stringify(actions)}'`,
+  ].join("\n");
+}
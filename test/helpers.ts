@@ -0,0 +1,34 @@
+import { expect } from "chai";
+import { ContractTransaction, Event } from "ethers";
+
+// Small deterministic PRNG so failures reproduce
+export function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Awaits a transaction (or static call) that must revert with exactly `reason`
+export async function expectRevert(call: Promise<unknown>, reason: string) {
+  let message: string | null = null;
+  try {
+    await call;
+  } catch (error) {
+    message = error instanceof Error ? error.message : String(error);
+  }
+  expect(message, `expected revert "${reason}"`).to.not.equal(null);
+  // Transactions quote the reason with single quotes, ethers' static call errors with double quotes
+  const match = /reverted with reason string ['"](.*?)['"]/.exec(message!);
+  expect(match ? match[1] : message).to.equal(reason);
+}
+
+// Args of the single `name` event emitted by `tx`
+export async function eventArgs(tx: Promise<ContractTransaction>, name: string): Promise<NonNullable<Event["args"]>> {
+  const receipt = await (await tx).wait();
+  const events = (receipt.events || []).filter((event) => event.event === name);
+  expect(events.length, `expected one ${name} event`).to.equal(1);
+  return events[0].args!;
+}
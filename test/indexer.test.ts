@@ -0,0 +1,181 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { syncIndex } from "../src/lib/indexer/indexer";
+import { jsonFileStore, memoryStore } from "../src/lib/indexer/store";
+import { getAccountActivity, getLiquidations, getTokenTotals } from "../src/lib/indexer/queries";
+import { filterActivity, toActivityCSV, toActivityEntries, toActivityRecords } from "../src/lib/activity";
+import { deployPoolFixture, depositAs, fundAs, scalePrice, units, NATIVE } from "./fixtures";
+import { eventArgs } from "./helpers";
+
+const WAD = ethers.constants.WeiPerEther;
+
+// A borrower liquidated once, after depositing, borrowing and partly repaying
+async function historyFixture() {
+  const fixture = await deployPoolFixture();
+  const { pool, owner, users, tokens } = fixture;
+  const [borrower, liquidator] = users;
+  const USDT = tokens.USDT.address;
+  const deployBlock = (await pool.deployTransaction.wait()).blockNumber;
+  const depositPrice = await pool.getTokenPrice(NATIVE);
+
+  await fundAs(fixture, owner, USDT, units(fixture, USDT, 1_000_000));
+  await depositAs(fixture, borrower, NATIVE, WAD);
+  const limit = (await pool.getBorrowCapacity(borrower.address)).mul(80).div(100).div(10 ** 12);
+  await pool.connect(borrower).borrow(USDT, limit);
+  await tokens.USDT.connect(borrower).approve(pool.address, limit.div(100));
+  await pool.connect(borrower).repay(USDT, limit.div(100));
+
+  await scalePrice(fixture, NATIVE, 8, 10);
+  await tokens.USDT.mint(liquidator.address, limit);
+  await tokens.USDT.connect(liquidator).approve(pool.address, limit);
+  const liquidation = await eventArgs(
+    pool.connect(liquidator).liquidate(borrower.address, USDT, ethers.constants.MaxUint256, NATIVE),
+    "Liquidated"
+  );
+  return { ...fixture, deployBlock, borrowed: limit, liquidation, depositPrice };
+}
+
+describe("event indexer", function () {
+  it("indexes the pool's events from its deploy block and answers the API queries", async function () {
+    const { pool, owner, users, tokens, supported, deployBlock, borrowed, liquidation, depositPrice } = await loadFixture(historyFixture);
+    const [borrower, liquidator] = users;
+    const USDT = tokens.USDT.address;
+
+    // Small chunks so the history spans several log requests
+    const store = memoryStore();
+    const { state, added } = await syncIndex(pool, store, { deployBlock, chunkSize: 3 });
+    expect(state.lastBlock).to.equal((await ethers.provider.getBlock("latest")).number);
+    expect(added).to.equal(state.events.length);
+    expect(state.events.filter((event) => event.name === "TokenAdded")).to.have.length(supported.length);
+
+    expect(getAccountActivity(state, borrower.address).map((event) => event.name))
+      .to.deep.equal(["Liquidated", "Repaid", "Borrowed", "Deposited"]);
+    expect(getAccountActivity(state, liquidator.address).map((event) => event.name)).to.deep.equal(["Liquidated"]);
+    expect(getAccountActivity(state, owner.address).map((event) => event.name)).to.deep.equal(["PoolFunded"]);
+
+    const [indexed] = getLiquidations(state, liquidator.address);
+    expect(indexed.args.user).to.equal(borrower.address);
+    expect(indexed.args.repaidAmount).to.equal(liquidation.repaidAmount.toString());
+    expect(indexed.timestamp).to.equal((await ethers.provider.getBlock(indexed.blockNumber)).timestamp);
+    expect(getLiquidations(state)).to.have.length(1);
+
+    // Prices as of each event's block
+    expect(indexed.prices[NATIVE]).to.equal((await pool.getTokenPrice(NATIVE)).toString());
+    const [deposit] = getAccountActivity(state, borrower.address).slice(-1);
+    expect(deposit.prices[NATIVE]).to.equal(depositPrice.toString());
+
+    const totals = Object.fromEntries(getTokenTotals(state).map((entry) => [entry.token, entry]));
+    expect(Object.keys(totals)).to.have.members(supported);
+    expect(totals[USDT].weight).to.equal((await pool.tokenConfigs(USDT)).weight.toString());
+    expect(totals[USDT].borrowed).to.equal(borrowed.toString());
+    expect(totals[USDT].repaid).to.equal(borrowed.div(100).toString());
+    expect(totals[USDT].liquidationRepaid).to.equal(liquidation.repaidAmount.toString());
+    expect(totals[NATIVE].deposited).to.equal(WAD.toString());
+    expect(totals[NATIVE].liquidationSeized).to.equal(liquidation.seizedAmount.toString());
+
+    // Nothing new, nothing read again
+    const again = await syncIndex(pool, store, { deployBlock });
+    expect([again.added, again.removed]).to.deep.equal([0, 0]);
+    expect(again.state.events).to.deep.equal(state.events);
+  });
+
+  it("drops events from reorganised blocks and indexes their replacements", async function () {
+    for (const reorgWindow of [128, 0]) {
+      const fixture = await loadFixture(historyFixture);
+      const { pool, users, deployBlock } = fixture;
+      const [, , orphaned, replacement] = users;
+      const store = memoryStore();
+      await syncIndex(pool, store, { deployBlock, reorgWindow });
+
+      // A deposit the index sees, then a fork from before it (back to the fixture's snapshot)
+      // where a different one happens
+      await depositAs(fixture, orphaned, NATIVE, WAD);
+      const before = await syncIndex(pool, store, { deployBlock, reorgWindow });
+      expect(getAccountActivity(before.state, orphaned.address)).to.have.length(1);
+
+      await loadFixture(historyFixture);
+      await depositAs(fixture, replacement, NATIVE, WAD.mul(2));
+      const after = await syncIndex(pool, store, { deployBlock, reorgWindow });
+      expect(getAccountActivity(after.state, orphaned.address)).to.deep.equal([]);
+      expect(getAccountActivity(after.state, replacement.address)[0].args.amount).to.equal(WAD.mul(2).toString());
+
+      // Whether it rolled back one block or (with no checkpoint left below the fork) all the
+      // way, the result is what a fresh index reads
+      const fresh = await syncIndex(pool, memoryStore(), { deployBlock });
+      expect(after.state.events).to.deep.equal(fresh.state.events);
+      expect(after.removed).to.equal(reorgWindow ? 1 : before.state.events.length);
+    }
+  });
+
+  it("persists to a JSON file and resumes from it", async function () {
+    const fixture = await loadFixture(historyFixture);
+    const { pool, users, deployBlock } = fixture;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    const file = path.join(dir, "31337.json");
+
+    try {
+      const first = await syncIndex(pool, jsonFileStore(file), { deployBlock });
+      await depositAs(fixture, users[3], NATIVE, WAD);
+
+      const resumed = await syncIndex(pool, jsonFileStore(file), { deployBlock });
+      expect(resumed.added).to.equal(1);
+      expect(resumed.state.events.slice(0, -1)).to.deep.equal(first.state.events);
+      expect(await jsonFileStore(file).load()).to.deep.equal(resumed.state);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("turns an account's history into priced activity entries and exports them", async function () {
+    const fixture = await loadFixture(historyFixture);
+    const { pool, users, tokens, deployBlock, liquidation, depositPrice, decimals } = fixture;
+    const [borrower, liquidator] = users;
+    const USDT = tokens.USDT.address;
+    const registry = Object.entries(decimals).map(([address, places]) => ({ address, decimals: places }));
+    const { state } = await syncIndex(pool, memoryStore(), { deployBlock });
+
+    // A liquidation is two movements: the debt repaid and the collateral seized
+    const entries = toActivityEntries(getAccountActivity(state, borrower.address), borrower.address, registry);
+    expect(entries.map((entry) => entry.type)).to.deep.equal(["liquidation", "liquidation", "repay", "borrow", "deposit"]);
+    const [repaid, seized] = entries;
+    expect([repaid.token, repaid.amount.toString()]).to.deep.equal([USDT, liquidation.repaidAmount.toString()]);
+    expect([seized.token, seized.amount.toString()]).to.deep.equal([NATIVE, liquidation.seizedAmount.toString()]);
+    expect(entries[4].valueUSD!.toString()).to.equal(depositPrice.toString());
+
+    // The liquidator sees the same liquidation from its side
+    const theirs = toActivityEntries(getAccountActivity(state, liquidator.address), liquidator.address, registry);
+    expect(theirs.map((entry) => entry.description)).to.deep.equal([
+      `Repaid debt of ${borrower.address.slice(0, 6)}…${borrower.address.slice(-4)}`,
+      `Seized collateral of ${borrower.address.slice(0, 6)}…${borrower.address.slice(-4)}`,
+    ]);
+
+    expect(filterActivity(entries, { token: USDT, type: "all" }).map((entry) => entry.type))
+      .to.deep.equal(["liquidation", "repay", "borrow"]);
+    expect(filterActivity(entries, { token: "all", type: "liquidation" })).to.have.length(2);
+
+    const symbols = [{ address: NATIVE, symbol: "BNB", decimals: 18 }, { address: USDT, symbol: "USDT", decimals: 6 }];
+    const records = toActivityRecords(filterActivity(entries, { token: NATIVE, type: "deposit" }), symbols);
+    expect(records).to.deep.equal([{
+      timestamp: new Date(entries[4].timestamp * 1000).toISOString(),
+      type: "deposit",
+      description: "Collateral deposited",
+      token: "BNB",
+      tokenAddress: NATIVE,
+      amount: "1.0",
+      valueUSD: ethers.utils.formatEther(depositPrice),
+      blockNumber: entries[4].blockNumber,
+      transactionHash: entries[4].transactionHash,
+    }]);
+    const [header, row] = toActivityCSV(records).trim().split("\n");
+    expect(header).to.equal("timestamp,type,description,token,tokenAddress,amount,valueUSD,blockNumber,transactionHash");
+    expect(row.split(",").slice(1, 4)).to.deep.equal(["deposit", "Collateral deposited", "BNB"]);
+
+    // A symbol a spreadsheet would run as a formula is exported as text
+    const [, hostile] = toActivityCSV([{ ...records[0], token: '=HYPERLINK("x")' }]).trim().split("\n");
+    expect(hostile.split(",")[3]).to.equal(`"'=HYPERLINK(""x"")"`);
+  });
+});
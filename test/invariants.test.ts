@@ -0,0 +1,47 @@
+import { expect } from "chai";
+import { mulberry32 } from "./helpers";
+import {
+  Action,
+  generateActions,
+  runActions,
+  shrink,
+  formatReproduction,
+} from "./harness";
+
+// FUZZ_SEED / FUZZ_RUNS / FUZZ_STEPS widen the search locally; FUZZ_REPLAY re-runs a printed reproduction
+const SEED = Number(process.env.FUZZ_SEED || 0x50e7);
+const RUNS = Number(process.env.FUZZ_RUNS || 4);
+const STEPS = Number(process.env.FUZZ_STEPS || 40);
+
+describe("pool invariants", function () {
+  it("hold across random action sequences", async function () {
+    const replay = process.env.FUZZ_REPLAY;
+    const runs: Action[][] = replay
+      ? [JSON.parse(replay)]
+      : Array.from({ length: RUNS }, (_, run) => generateActions(mulberry32(SEED + run), STEPS));
+
+    for (const actions of runs) {
+      const failure = await runActions(actions);
+      if (!failure) continue;
+
+      const minimal = await shrink(actions.slice(0, failure.step + 1), async (candidate) => (await runActions(candidate)) !== null);
+      const minimalFailure = (await runActions(minimal))!;
+      console.log(formatReproduction(minimal, minimalFailure));
+      expect.fail(`invariant broken: ${minimalFailure.message} (${minimal.length} step reproduction above)`);
+    }
+  });
+
+  it("shrinks a failing sequence to the actions that cause it", async function () {
+    const random = mulberry32(7);
+    const actions = generateActions(random, 60);
+    // A stand-in failure: actor 1 borrows and some later price move happens
+    const fails = async (candidate: Action[]) => {
+      const borrow = candidate.findIndex((action) => action.kind === "borrow" && action.actor === 1);
+      return borrow >= 0 && candidate.slice(borrow + 1).some((action) => action.kind === "price");
+    };
+    expect(await fails(actions)).to.equal(true);
+
+    const minimal = await shrink(actions, fails);
+    expect(minimal.map((action) => action.kind)).to.deep.equal(["borrow", "price"]);
+  });
+});
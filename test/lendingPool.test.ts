@@ -0,0 +1,1369 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FixedPriceOracle, LendingPoolTest, NativeReceiver } from "../src/types/contracts";
+import { deployPoolFixture, depositAs, fundAs, scalePrice, units, PoolFixture, NATIVE } from "./fixtures";
+import { expectRevert, eventArgs } from "./helpers";
+
+const WAD = ethers.constants.WeiPerEther;
+const UNSUPPORTED = "0x000000000000000000000000000000000000dEaD";
+const AddressZero = ethers.constants.AddressZero;
+const MaxUint256 = ethers.constants.MaxUint256;
+const YEAR = 365 * 24 * 60 * 60;
+
+async function deployFixedOracle(usd: string): Promise<FixedPriceOracle> {
+  const Oracle = await ethers.getContractFactory("FixedPriceOracle");
+  const oracle = await Oracle.deploy(ethers.utils.parseEther(usd));
+  await oracle.deployed();
+  return oracle;
+}
+
+// 1e18-scaled yearly rates and utilization, as the pool stores them
+function rateModelOf(baseRate: number, slope1: number, slope2: number, kink: number): LendingPoolTest.RateModelStruct {
+  const fraction = (percent: number) => WAD.mul(percent).div(100);
+  return { baseRate: fraction(baseRate), slope1: fraction(slope1), slope2: fraction(slope2), kink: fraction(kink) };
+}
+const NO_INTEREST = rateModelOf(0, 0, 0, 80);
+
+// A feed with no reference oracle and no staleness limit
+function feedOf(oracle: { address: string }, overrides: Partial<LendingPoolTest.PriceFeedStruct> = {}): LendingPoolTest.PriceFeedStruct {
+  return { oracle: oracle.address, referenceOracle: AddressZero, maxStaleness: 0, maxDeviationBps: 0, ...overrides };
+}
+
+async function deployNativeReceiver(fixture: PoolFixture): Promise<NativeReceiver> {
+  const Receiver = await ethers.getContractFactory("NativeReceiver");
+  const receiver = await Receiver.deploy(fixture.pool.address);
+  await receiver.deployed();
+  return receiver;
+}
+
+// 3 BNB of collateral borrowed against right up to the limit, in USDT
+async function maxBorrowedFixture() {
+  const fixture = await deployPoolFixture();
+  const { pool, owner, users, tokens } = fixture;
+  const [user] = users;
+  const USDT = tokens.USDT.address;
+
+  await fundAs(fixture, owner, USDT, units(fixture, USDT, 1_000_000));
+  await depositAs(fixture, user, NATIVE, WAD.mul(3));
+
+  const limit = (await pool.getBorrowCapacity(user.address)).mul(80).div(100);
+  // USD is 1e18-scaled and USDT has 6 decimals
+  await pool.connect(user).borrow(USDT, limit.div(BigNumber.from(10).pow(12)));
+  return fixture;
+}
+
+// Mints and approves `amount` of USDT for `liquidator` to repay with
+async function withUSDT(fixture: PoolFixture, liquidator: SignerWithAddress, amount: BigNumber) {
+  const { pool, tokens } = fixture;
+  await tokens.USDT.mint(liquidator.address, amount);
+  await tokens.USDT.connect(liquidator).approve(pool.address, amount);
+}
+
+describe("LendingPoolTest", function () {
+  describe("deployment", function () {
+    it("lists the constructor tokens with their weights", async function () {
+      const { pool, owner, tokens, supported } = await loadFixture(deployPoolFixture);
+
+      expect(await pool.owner()).to.equal(owner.address);
+      expect(supported).to.deep.equal([
+        tokens.USDT.address,
+        NATIVE,
+        tokens.USDC.address,
+        tokens.WETH.address,
+        tokens.CDT.address,
+      ]);
+      const weights = await Promise.all(supported.map(async (token) => (await pool.tokenConfigs(token)).weight.toNumber()));
+      expect(weights).to.deep.equal([100, 70, 100, 70, 50]);
+      for (const token of supported) {
+        expect((await pool.tokenConfigs(token)).isActive).to.equal(true);
+        expect((await pool.reserves(token)).isZero()).to.equal(true);
+      }
+    });
+
+    it("records each token's price feed", async function () {
+      const { pool, feeds, supported } = await loadFixture(deployPoolFixture);
+
+      for (const token of supported) {
+        const feed = await pool.priceFeeds(token);
+        expect(feed.oracle).to.equal(feeds[token].address);
+        expect(feed.referenceOracle).to.equal(AddressZero);
+        expect(feed.maxStaleness.isZero()).to.equal(true);
+      }
+    });
+
+    it("starts with a 50% close factor and a 5% liquidation bonus", async function () {
+      const { pool } = await loadFixture(deployPoolFixture);
+
+      expect((await pool.closeFactorBps()).toNumber()).to.equal(5000);
+      expect((await pool.liquidationBonusBps()).toNumber()).to.equal(500);
+    });
+  });
+
+  describe("_addToken", function () {
+    it("adds an active token at the end of the list", async function () {
+      const { pool, owner } = await loadFixture(deployPoolFixture);
+      const oracle = await deployFixedOracle("2");
+
+      const tx = pool.connect(owner)._addToken(UNSUPPORTED, 100, feedOf(oracle), NO_INTEREST);
+      const args = await eventArgs(tx, "TokenAdded");
+      expect(args.token).to.equal(UNSUPPORTED);
+      expect(args.weight.toNumber()).to.equal(100);
+      expect((await eventArgs(tx, "PriceFeedSet")).oracle).to.equal(oracle.address);
+
+      const supported = await pool.getSupportedTokens();
+      expect(supported[supported.length - 1]).to.equal(UNSUPPORTED);
+      const config = await pool.tokenConfigs(UNSUPPORTED);
+      expect(config.weight.toNumber()).to.equal(100);
+      expect(config.isActive).to.equal(true);
+      expect((await pool.getTokenPrice(UNSUPPORTED)).toString()).to.equal(WAD.mul(2).toString());
+    });
+
+    it("rejects weights outside 1..100", async function () {
+      const { pool, owner, feeds, tokens } = await loadFixture(deployPoolFixture);
+      const feed = feedOf(feeds[tokens.USDT.address]);
+
+      await expectRevert(pool.connect(owner)._addToken(UNSUPPORTED, 0, feed, NO_INTEREST), "Invalid weight");
+      await expectRevert(pool.connect(owner)._addToken(UNSUPPORTED, 101, feed, NO_INTEREST), "Invalid weight");
+    });
+
+    it("rejects a token that is already listed", async function () {
+      const { pool, owner, feeds, tokens } = await loadFixture(deployPoolFixture);
+      const feed = feedOf(feeds[tokens.USDT.address]);
+
+      await expectRevert(pool.connect(owner)._addToken(tokens.USDT.address, 50, feed, NO_INTEREST), "Token exists");
+      await expectRevert(pool.connect(owner)._addToken(NATIVE, 50, feed, NO_INTEREST), "Token exists");
+    });
+
+    it("rejects feeds without an oracle, or with a reference but no deviation bound", async function () {
+      const { pool, owner, feeds, tokens } = await loadFixture(deployPoolFixture);
+      const oracle = feeds[tokens.USDT.address];
+      const referenceOracle = feeds[tokens.USDC.address].address;
+
+      await expectRevert(pool.connect(owner)._addToken(UNSUPPORTED, 50, feedOf({ address: AddressZero }), NO_INTEREST), "Invalid price feed");
+      await expectRevert(pool.connect(owner)._addToken(UNSUPPORTED, 50, feedOf(oracle, { referenceOracle }), NO_INTEREST), "Invalid price feed");
+      await expectRevert(
+        pool.connect(owner)._addToken(UNSUPPORTED, 50, feedOf(oracle, { referenceOracle, maxDeviationBps: 10000 }), NO_INTEREST),
+        "Invalid price feed"
+      );
+      await pool.connect(owner)._addToken(UNSUPPORTED, 50, feedOf(oracle, { referenceOracle, maxDeviationBps: 100 }), NO_INTEREST);
+    });
+
+    it("is owner-only", async function () {
+      const { pool, users, feeds, tokens } = await loadFixture(deployPoolFixture);
+
+      await expectRevert(
+        pool.connect(users[0])._addToken(UNSUPPORTED, 50, feedOf(feeds[tokens.USDT.address]), NO_INTEREST),
+        "Ownable: caller is not the owner"
+      );
+    });
+  });
+
+  describe("setPriceFeed", function () {
+    it("moves a token to another oracle and circuit breakers", async function () {
+      const { pool, owner, tokens } = await loadFixture(deployPoolFixture);
+      const WETH = tokens.WETH.address;
+      const oracle = await deployFixedOracle("4000");
+      const referenceOracle = await deployFixedOracle("3990");
+
+      const feed = feedOf(oracle, { referenceOracle: referenceOracle.address, maxStaleness: 60, maxDeviationBps: 100 });
+      const args = await eventArgs(pool.connect(owner).setPriceFeed(WETH, feed), "PriceFeedSet");
+      expect(args.token).to.equal(WETH);
+      expect(args.oracle).to.equal(oracle.address);
+      expect(args.referenceOracle).to.equal(referenceOracle.address);
+      expect(args.maxStaleness.toNumber()).to.equal(60);
+      expect(args.maxDeviationBps.toNumber()).to.equal(100);
+      expect((await pool.getTokenPrice(WETH)).toString()).to.equal(WAD.mul(4000).toString());
+    });
+
+    it("rejects unsupported tokens, invalid feeds and non-owners", async function () {
+      const { pool, owner, users, feeds, tokens } = await loadFixture(deployPoolFixture);
+      const feed = feedOf(feeds[tokens.USDT.address]);
+
+      await expectRevert(pool.connect(owner).setPriceFeed(UNSUPPORTED, feed), "Unsupported token");
+      await expectRevert(pool.connect(owner).setPriceFeed(tokens.USDT.address, feedOf({ address: AddressZero })), "Invalid price feed");
+      await expectRevert(pool.connect(users[0]).setPriceFeed(tokens.USDT.address, feed), "Ownable: caller is not the owner");
+    });
+  });
+
+  describe("setRateModel", function () {
+    it("replaces a token's rate curve", async function () {
+      const { pool, owner, tokens } = await loadFixture(deployPoolFixture);
+      const USDC = tokens.USDC.address;
+      const model = rateModelOf(1, 4, 60, 90);
+
+      const args = await eventArgs(pool.connect(owner).setRateModel(USDC, model), "RateModelSet");
+      expect(args.token).to.equal(USDC);
+      expect(args.kink.toString()).to.equal(model.kink.toString());
+      const stored = await pool.rateModels(USDC);
+      expect(stored.baseRate.toString()).to.equal(model.baseRate.toString());
+      expect(stored.slope1.toString()).to.equal(model.slope1.toString());
+      expect(stored.slope2.toString()).to.equal(model.slope2.toString());
+      expect((await pool.getBorrowRate(USDC)).toString()).to.equal(model.baseRate.toString());
+    });
+
+    it("rejects unsupported tokens, kinks outside (0, 100%] and non-owners", async function () {
+      const { pool, owner, users, tokens } = await loadFixture(deployPoolFixture);
+      const USDC = tokens.USDC.address;
+
+      await expectRevert(pool.connect(owner).setRateModel(UNSUPPORTED, NO_INTEREST), "Unsupported token");
+      await expectRevert(pool.connect(owner).setRateModel(USDC, rateModelOf(0, 4, 60, 0)), "Invalid rate model");
+      await expectRevert(pool.connect(owner).setRateModel(USDC, rateModelOf(0, 4, 60, 101)), "Invalid rate model");
+      await expectRevert(pool.connect(owner)._addToken(UNSUPPORTED, 50, feedOf(await deployFixedOracle("1")), rateModelOf(0, 4, 60, 0)), "Invalid rate model");
+      await pool.connect(owner).setRateModel(USDC, rateModelOf(0, 4, 60, 100));
+      await expectRevert(pool.connect(users[0]).setRateModel(USDC, NO_INTEREST), "Ownable: caller is not the owner");
+    });
+  });
+
+  describe("deposit", function () {
+    it("pulls ERC20 collateral from the sender", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [user] = users;
+      const amount = units(fixture, tokens.USDT.address, "1234.567891");
+
+      await tokens.USDT.mint(user.address, amount);
+      await tokens.USDT.connect(user).approve(pool.address, amount);
+      const args = await eventArgs(pool.connect(user).deposit(tokens.USDT.address, amount), "Deposited");
+
+      expect(args.user).to.equal(user.address);
+      expect(args.token).to.equal(tokens.USDT.address);
+      expect(args.amount.toString()).to.equal(amount.toString());
+      expect((await pool.userCollateral(user.address, tokens.USDT.address)).toString()).to.equal(amount.toString());
+      expect((await tokens.USDT.balanceOf(pool.address)).toString()).to.equal(amount.toString());
+      expect((await tokens.USDT.balanceOf(user.address)).isZero()).to.equal(true);
+      // Collateral is not lendable liquidity
+      expect((await pool.reserves(tokens.USDT.address)).isZero()).to.equal(true);
+    });
+
+    it("accepts native collateral through msg.value", async function () {
+      const { pool, users } = await loadFixture(deployPoolFixture);
+      const [user] = users;
+
+      await pool.connect(user).deposit(NATIVE, WAD.mul(2), { value: WAD.mul(2) });
+      await pool.connect(user).deposit(NATIVE, WAD, { value: WAD });
+
+      expect((await pool.userCollateral(user.address, NATIVE)).toString()).to.equal(WAD.mul(3).toString());
+      expect((await ethers.provider.getBalance(pool.address)).toString()).to.equal(WAD.mul(3).toString());
+    });
+
+    it("rejects zero amounts and unsupported tokens", async function () {
+      const { pool, users, tokens } = await loadFixture(deployPoolFixture);
+      const [user] = users;
+
+      await expectRevert(pool.connect(user).deposit(tokens.USDT.address, 0), "Amount = 0");
+      await expectRevert(pool.connect(user).deposit(NATIVE, 0), "Amount = 0");
+      await expectRevert(pool.connect(user).deposit(UNSUPPORTED, 1), "Unsupported token");
+    });
+
+    it("requires msg.value to match native deposits and to be zero for ERC20s", async function () {
+      const { pool, users, tokens } = await loadFixture(deployPoolFixture);
+      const [user] = users;
+
+      await expectRevert(pool.connect(user).deposit(NATIVE, WAD, { value: WAD.sub(1) }), "Invalid BNB");
+      await expectRevert(pool.connect(user).deposit(NATIVE, WAD, { value: WAD.add(1) }), "Invalid BNB");
+
+      await tokens.USDT.mint(user.address, 1_000_000);
+      await tokens.USDT.connect(user).approve(pool.address, 1_000_000);
+      await expectRevert(pool.connect(user).deposit(tokens.USDT.address, 1_000_000, { value: 1 }), "BNB not allowed");
+    });
+
+    it("reverts when the token transfer fails", async function () {
+      const { pool, users, tokens } = await loadFixture(deployPoolFixture);
+      const [user] = users;
+
+      await tokens.USDT.mint(user.address, 1_000_000);
+      await tokens.USDT.connect(user).approve(pool.address, 1_000_000);
+      await tokens.USDT.setFailTransfers(true);
+      await expectRevert(pool.connect(user).deposit(tokens.USDT.address, 1_000_000), "ERC20 failed");
+
+      await tokens.USDT.setFailTransfers(false);
+      await tokens.USDT.connect(user).approve(pool.address, 0);
+      await expectRevert(pool.connect(user).deposit(tokens.USDT.address, 1_000_000), "ERC20: insufficient allowance");
+    });
+  });
+
+  describe("withdraw", function () {
+    it("returns ERC20 collateral when there is no debt", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+      const amount = units(fixture, USDC, 500);
+
+      await depositAs(fixture, user, USDC, amount);
+      const args = await eventArgs(pool.connect(user).withdraw(USDC, amount.div(5)), "Withdrawn");
+
+      expect(args.user).to.equal(user.address);
+      expect(args.token).to.equal(USDC);
+      expect(args.amount.toString()).to.equal(amount.div(5).toString());
+      expect((await tokens.USDC.balanceOf(user.address)).toString()).to.equal(amount.div(5).toString());
+
+      // A weight-100 token can be withdrawn in full
+      await pool.connect(user).withdraw(USDC, amount.sub(amount.div(5)));
+      expect((await pool.userCollateral(user.address, USDC)).isZero()).to.equal(true);
+      expect((await tokens.USDC.balanceOf(user.address)).toString()).to.equal(amount.toString());
+    });
+
+    it("returns native collateral", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users } = fixture;
+      const [user] = users;
+
+      await depositAs(fixture, user, NATIVE, WAD.mul(2));
+      await pool.connect(user).withdraw(NATIVE, WAD.div(2));
+
+      expect((await pool.userCollateral(user.address, NATIVE)).toString()).to.equal(WAD.mul(3).div(2).toString());
+      expect((await ethers.provider.getBalance(pool.address)).toString()).to.equal(WAD.mul(3).div(2).toString());
+    });
+
+    it("rejects zero amounts, unsupported tokens and more than the collateral", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [user] = users;
+
+      await depositAs(fixture, user, tokens.USDT.address, 1_000);
+      await expectRevert(pool.connect(user).withdraw(tokens.USDT.address, 0), "Amount = 0");
+      await expectRevert(pool.connect(user).withdraw(UNSUPPORTED, 1), "Unsupported token");
+      await expectRevert(pool.connect(user).withdraw(tokens.USDT.address, 1_001), "Low collateral");
+      await expectRevert(pool.connect(user).withdraw(tokens.USDC.address, 1), "Low collateral");
+    });
+
+    it("rejects withdrawals worth more than the weighted capacity", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users } = fixture;
+      const [user] = users;
+
+      // Native BNB counts at 70%, so its full value exceeds the capacity it alone provides
+      await depositAs(fixture, user, NATIVE, WAD);
+      await expectRevert(pool.connect(user).withdraw(NATIVE, WAD), "Exceeds capacity");
+    });
+
+    it("rejects withdrawals that would leave the debt under-collateralised", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+      const USDT = tokens.USDT.address;
+      const USDC = tokens.USDC.address;
+
+      await fundAs(fixture, owner, USDC, units(fixture, USDC, 10_000));
+      await depositAs(fixture, user, USDT, units(fixture, USDT, 1_000));
+      await pool.connect(user).borrow(USDC, units(fixture, USDC, 400));
+
+      // 400 debt needs 500 of capacity left behind
+      await expectRevert(pool.connect(user).withdraw(USDT, units(fixture, USDT, "500.000001")), "Exceeds LTV");
+      await pool.connect(user).withdraw(USDT, units(fixture, USDT, 500));
+      expect((await pool.getIndebtedness(user.address)).toNumber()).to.equal(80);
+    });
+
+    it("reverts when the token transfer out fails", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [user] = users;
+
+      await depositAs(fixture, user, tokens.USDT.address, 1_000);
+      await tokens.USDT.setFailTransfers(true);
+      await expectRevert(pool.connect(user).withdraw(tokens.USDT.address, 1_000), "ERC20 fail");
+    });
+
+    it("reverts when the native recipient rejects the transfer", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool } = fixture;
+      const receiver = await deployNativeReceiver(fixture);
+
+      await receiver.deposit({ value: WAD });
+      await receiver.setMode(1); // Reject
+      await expectRevert(receiver.withdraw(WAD.div(2)), "BNB fail");
+
+      await receiver.setMode(0); // Accept
+      await receiver.withdraw(WAD.div(2));
+      expect((await pool.userCollateral(receiver.address, NATIVE)).toString()).to.equal(WAD.div(2).toString());
+    });
+
+    it("blocks re-entry from the native transfer", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool } = fixture;
+      const receiver = await deployNativeReceiver(fixture);
+
+      await receiver.deposit({ value: WAD });
+      await receiver.setMode(2); // Reenter
+      // The nested withdraw hits the guard, which fails the outer transfer
+      await expectRevert(receiver.withdraw(WAD.div(4)), "BNB fail");
+      expect((await pool.userCollateral(receiver.address, NATIVE)).toString()).to.equal(WAD.toString());
+    });
+  });
+
+  describe("borrow", function () {
+    it("lends from the reserves up to the borrow limit", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+      const USDT = tokens.USDT.address;
+      const USDC = tokens.USDC.address;
+
+      await fundAs(fixture, owner, USDC, units(fixture, USDC, 10_000));
+      await depositAs(fixture, user, USDT, units(fixture, USDT, 1_000));
+
+      const args = await eventArgs(pool.connect(user).borrow(USDC, units(fixture, USDC, 300)), "Borrowed");
+      expect(args.user).to.equal(user.address);
+      expect(args.token).to.equal(USDC);
+      expect(args.amount.toString()).to.equal(units(fixture, USDC, 300).toString());
+
+      // The limit is 80% of capacity, inclusive
+      await pool.connect(user).borrow(USDC, units(fixture, USDC, 500));
+      expect((await pool.userDebt(user.address, USDC)).toString()).to.equal(units(fixture, USDC, 800).toString());
+      expect((await pool.reserves(USDC)).toString()).to.equal(units(fixture, USDC, 9_200).toString());
+      expect((await tokens.USDC.balanceOf(user.address)).toString()).to.equal(units(fixture, USDC, 800).toString());
+      expect((await pool.getIndebtedness(user.address)).toNumber()).to.equal(80);
+      await expectRevert(pool.connect(user).borrow(USDC, 1), "Exceeds limit");
+    });
+
+    it("lends native BNB", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+
+      await fundAs(fixture, owner, NATIVE, WAD.mul(10));
+      await depositAs(fixture, user, tokens.USDT.address, units(fixture, tokens.USDT.address, 10_000));
+      await pool.connect(user).borrow(NATIVE, WAD);
+
+      expect((await pool.userDebt(user.address, NATIVE)).toString()).to.equal(WAD.toString());
+      expect((await pool.reserves(NATIVE)).toString()).to.equal(WAD.mul(9).toString());
+      expect((await ethers.provider.getBalance(pool.address)).toString()).to.equal(WAD.mul(9).toString());
+    });
+
+    it("rejects zero amounts, unsupported tokens and more than the reserves", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+
+      await fundAs(fixture, owner, USDC, 1_000);
+      await depositAs(fixture, user, tokens.USDT.address, units(fixture, tokens.USDT.address, 1_000));
+      await expectRevert(pool.connect(user).borrow(USDC, 0), "Amount = 0");
+      await expectRevert(pool.connect(user).borrow(UNSUPPORTED, 1), "Unsupported token");
+      await expectRevert(pool.connect(user).borrow(USDC, 1_001), "Low reserve");
+      await expectRevert(pool.connect(user).borrow(NATIVE, 1), "Low reserve");
+    });
+
+    it("rejects borrowing without collateral", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+
+      await fundAs(fixture, owner, tokens.USDC.address, 1_000);
+      await expectRevert(pool.connect(users[0]).borrow(tokens.USDC.address, 1), "Exceeds limit");
+    });
+
+    it("reverts when the native recipient rejects the loan", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { owner } = fixture;
+      const receiver = await deployNativeReceiver(fixture);
+
+      await fundAs(fixture, owner, NATIVE, WAD.mul(10));
+      await receiver.deposit({ value: WAD.mul(10) });
+      await receiver.setMode(1); // Reject
+      await expectRevert(receiver.borrow(WAD), "BNB fail");
+    });
+  });
+
+  describe("repay", function () {
+    it("returns ERC20 debt to the reserves", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+      const borrowed = units(fixture, USDC, 400);
+
+      await fundAs(fixture, owner, USDC, units(fixture, USDC, 1_000));
+      await depositAs(fixture, user, tokens.USDT.address, units(fixture, tokens.USDT.address, 1_000));
+      await pool.connect(user).borrow(USDC, borrowed);
+
+      await tokens.USDC.connect(user).approve(pool.address, borrowed);
+      const args = await eventArgs(pool.connect(user).repay(USDC, borrowed.div(4)), "Repaid");
+      expect(args.user).to.equal(user.address);
+      expect(args.token).to.equal(USDC);
+      expect(args.amount.toString()).to.equal(borrowed.div(4).toString());
+
+      await pool.connect(user).repay(USDC, borrowed.sub(borrowed.div(4)));
+      expect((await pool.userDebt(user.address, USDC)).isZero()).to.equal(true);
+      expect((await pool.reserves(USDC)).toString()).to.equal(units(fixture, USDC, 1_000).toString());
+      expect((await pool.getTotalDebtUSD(user.address)).isZero()).to.equal(true);
+    });
+
+    it("accepts native repayments through msg.value", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+
+      await fundAs(fixture, owner, NATIVE, WAD.mul(10));
+      await depositAs(fixture, user, tokens.USDT.address, units(fixture, tokens.USDT.address, 10_000));
+      await pool.connect(user).borrow(NATIVE, WAD);
+
+      await expectRevert(pool.connect(user).repay(NATIVE, WAD, { value: WAD.div(2) }), "Invalid BNB");
+      await pool.connect(user).repay(NATIVE, WAD, { value: WAD });
+      expect((await pool.userDebt(user.address, NATIVE)).isZero()).to.equal(true);
+      expect((await pool.reserves(NATIVE)).toString()).to.equal(WAD.mul(10).toString());
+    });
+
+    it("rejects zero amounts, unsupported tokens and more than the debt", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+
+      await fundAs(fixture, owner, USDC, 1_000);
+      await depositAs(fixture, user, tokens.USDT.address, 1_000);
+      await pool.connect(user).borrow(USDC, 500);
+      await tokens.USDC.connect(user).approve(pool.address, 1_000);
+
+      await expectRevert(pool.connect(user).repay(USDC, 0), "Amount = 0");
+      await expectRevert(pool.connect(user).repay(UNSUPPORTED, 1), "Unsupported token");
+      await expectRevert(pool.connect(user).repay(USDC, 501), "Too much");
+      await expectRevert(pool.connect(user).repay(NATIVE, 1, { value: 1 }), "Too much");
+      await expectRevert(pool.connect(user).repay(USDC, 500, { value: 1 }), "BNB not allowed");
+    });
+
+    it("reverts when the token transfer fails", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+
+      await fundAs(fixture, owner, USDC, 1_000);
+      await depositAs(fixture, user, tokens.USDT.address, 1_000);
+      await pool.connect(user).borrow(USDC, 500);
+      await tokens.USDC.connect(user).approve(pool.address, 500);
+      await tokens.USDC.setFailTransfers(true);
+      await expectRevert(pool.connect(user).repay(USDC, 500), "ERC20 failed");
+    });
+  });
+
+  describe("liquidate", function () {
+    it("rejects accounts without debt or within the threshold", async function () {
+      const fixture = await loadFixture(maxBorrowedFixture);
+      const { pool, users, tokens } = fixture;
+      const USDT = tokens.USDT.address;
+
+      await expectRevert(pool.liquidate(users[1].address, USDT, 1, NATIVE), "No debt");
+      expect((await pool.getIndebtedness(users[0].address)).lte(80)).to.equal(true);
+      await expectRevert(pool.liquidate(users[0].address, USDT, 1, NATIVE), "Healthy");
+    });
+
+    it("repays part of the debt and seizes its value plus the bonus", async function () {
+      const fixture = await loadFixture(maxBorrowedFixture);
+      const { pool, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+
+      // A 10% BNB drop tips the position over the threshold while still covering the debt
+      await scalePrice(fixture, NATIVE, 9, 10);
+      expect((await pool.getIndebtedness(user.address)).gt(80)).to.equal(true);
+
+      const debt = await pool.userDebt(user.address, USDT);
+      const repay = debt.div(4);
+      // USDT is priced at $1 with 6 decimals
+      const seize = repay.mul(BigNumber.from(10).pow(12)).mul(10500).div(10000).mul(WAD).div(await pool.getTokenPrice(NATIVE));
+      expect((await pool.getSeizeAmount(USDT, repay, NATIVE)).toString()).to.equal(seize.toString());
+
+      await withUSDT(fixture, liquidator, repay);
+      const usdtReserve = await pool.reserves(USDT);
+      const poolBalance = await ethers.provider.getBalance(pool.address);
+
+      const args = await eventArgs(pool.connect(liquidator).liquidate(user.address, USDT, repay, NATIVE), "Liquidated");
+      expect(args.user).to.equal(user.address);
+      expect(args.liquidator).to.equal(liquidator.address);
+      expect(args.debtToken).to.equal(USDT);
+      expect(args.repaidAmount.toString()).to.equal(repay.toString());
+      expect(args.collateralToken).to.equal(NATIVE);
+      expect(args.seizedAmount.toString()).to.equal(seize.toString());
+
+      expect((await pool.userDebt(user.address, USDT)).toString()).to.equal(debt.sub(repay).toString());
+      expect((await pool.marketStates(USDT)).totalBorrows.toString()).to.equal(debt.sub(repay).toString());
+      expect((await pool.reserves(USDT)).toString()).to.equal(usdtReserve.add(repay).toString());
+      expect((await pool.userCollateral(user.address, NATIVE)).toString()).to.equal(WAD.mul(3).sub(seize).toString());
+      expect((await tokens.USDT.balanceOf(liquidator.address)).isZero()).to.equal(true);
+      // The seized BNB leaves the pool for the liquidator
+      expect((await ethers.provider.getBalance(pool.address)).toString()).to.equal(poolBalance.sub(seize).toString());
+    });
+
+    it("repays the close-factor maximum for MaxUint256", async function () {
+      const fixture = await loadFixture(maxBorrowedFixture);
+      const { pool, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+
+      await scalePrice(fixture, NATIVE, 9, 10);
+      const debt = await pool.userDebt(user.address, USDT);
+      await withUSDT(fixture, liquidator, debt);
+
+      const args = await eventArgs(pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE), "Liquidated");
+      expect(args.repaidAmount.toString()).to.equal(debt.div(2).toString());
+      expect((await pool.userDebt(user.address, USDT)).toString()).to.equal(debt.sub(debt.div(2)).toString());
+    });
+
+    it("rejects zero amounts, repayments over the close factor and missing debt or collateral", async function () {
+      const fixture = await loadFixture(maxBorrowedFixture);
+      const { pool, users, tokens } = fixture;
+      const [user] = users;
+      const USDT = tokens.USDT.address;
+
+      await scalePrice(fixture, NATIVE, 9, 10);
+      const maxRepay = (await pool.userDebt(user.address, USDT)).div(2);
+
+      await expectRevert(pool.liquidate(user.address, USDT, 0, NATIVE), "Amount = 0");
+      await expectRevert(pool.liquidate(user.address, UNSUPPORTED, 1, NATIVE), "Unsupported token");
+      await expectRevert(pool.liquidate(user.address, USDT, maxRepay.add(1), NATIVE), "Exceeds close factor");
+      await expectRevert(pool.liquidate(user.address, NATIVE, 1, NATIVE), "No debt");
+      await expectRevert(pool.liquidate(user.address, USDT, 1, USDT), "No collateral");
+    });
+
+    it("shrinks the repayment when the collateral can't cover the seizure", async function () {
+      const fixture = await loadFixture(maxBorrowedFixture);
+      const { pool, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+
+      // At a quarter of the price the whole 3 BNB is worth less than half the debt plus the bonus
+      await scalePrice(fixture, NATIVE, 1, 4);
+      const maxRepay = (await pool.userDebt(user.address, USDT)).div(2);
+      const fullSeize = await pool.getSeizeAmount(USDT, maxRepay, NATIVE);
+      expect(fullSeize.gt(WAD.mul(3))).to.equal(true);
+      await withUSDT(fixture, liquidator, maxRepay);
+
+      const args = await eventArgs(pool.connect(liquidator).liquidate(user.address, USDT, maxRepay, NATIVE), "Liquidated");
+      expect(args.seizedAmount.toString()).to.equal(WAD.mul(3).toString());
+      expect(args.repaidAmount.toString()).to.equal(maxRepay.mul(WAD.mul(3)).div(fullSeize).toString());
+      expect((await pool.userCollateral(user.address, NATIVE)).isZero()).to.equal(true);
+      expect((await tokens.USDT.balanceOf(liquidator.address)).toString()).to.equal(maxRepay.sub(args.repaidAmount).toString());
+    });
+
+    it("takes native repayments as msg.value and refunds the excess", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+
+      await fundAs(fixture, owner, NATIVE, WAD.mul(100));
+      await depositAs(fixture, user, USDT, units(fixture, USDT, 10_000));
+      const limit = (await pool.getBorrowCapacity(user.address)).mul(80).div(100);
+      await pool.connect(user).borrow(NATIVE, limit.mul(WAD).div(await pool.getTokenPrice(NATIVE)));
+      // A BNB rally raises the debt's value past the threshold
+      await scalePrice(fixture, NATIVE, 11, 10);
+
+      const repay = (await pool.userDebt(user.address, NATIVE)).div(2);
+      const seize = await pool.getSeizeAmount(NATIVE, repay, USDT);
+      const poolBalance = await ethers.provider.getBalance(pool.address);
+
+      await pool.connect(liquidator).liquidate(user.address, NATIVE, repay, USDT, { value: repay.add(WAD) });
+      expect((await ethers.provider.getBalance(pool.address)).toString()).to.equal(poolBalance.add(repay).toString());
+      expect((await tokens.USDT.balanceOf(liquidator.address)).toString()).to.equal(seize.toString());
+      await expectRevert(
+        pool.connect(liquidator).liquidate(user.address, NATIVE, repay.div(10), USDT, { value: repay.div(10).sub(1) }),
+        "Invalid BNB"
+      );
+    });
+  });
+
+  describe("setLiquidationParams", function () {
+    it("is owner-only and validates the parameters", async function () {
+      const { pool, owner, users } = await loadFixture(deployPoolFixture);
+
+      await expectRevert(pool.connect(users[0]).setLiquidationParams(10000, 0), "Ownable: caller is not the owner");
+      await expectRevert(pool.connect(owner).setLiquidationParams(0, 500), "Invalid liquidation params");
+      await expectRevert(pool.connect(owner).setLiquidationParams(10001, 500), "Invalid liquidation params");
+      await expectRevert(pool.connect(owner).setLiquidationParams(5000, 10000), "Invalid liquidation params");
+
+      const args = await eventArgs(pool.connect(owner).setLiquidationParams(10000, 0), "LiquidationParamsSet");
+      expect(args.closeFactorBps.toNumber()).to.equal(10000);
+      expect(args.liquidationBonusBps.toNumber()).to.equal(0);
+    });
+
+    it("lets a full close factor repay the whole debt at par", async function () {
+      const fixture = await loadFixture(maxBorrowedFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+
+      await pool.connect(owner).setLiquidationParams(10000, 0);
+      await scalePrice(fixture, NATIVE, 9, 10);
+      const debt = await pool.userDebt(user.address, USDT);
+      await withUSDT(fixture, liquidator, debt);
+
+      const args = await eventArgs(pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE), "Liquidated");
+      expect(args.repaidAmount.toString()).to.equal(debt.toString());
+      expect(args.seizedAmount.toString()).to.equal(debt.mul(BigNumber.from(10).pow(12)).mul(WAD).div(await pool.getTokenPrice(NATIVE)).toString());
+      expect((await pool.getTotalDebtUSD(user.address)).isZero()).to.equal(true);
+    });
+  });
+
+  describe("bad debt", function () {
+    // maxBorrowedFixture with BNB at a quarter of its price: the 3 BNB no longer cover the debt
+    async function underwaterFixture() {
+      const fixture = await maxBorrowedFixture();
+      const { tokens, users } = fixture;
+      await scalePrice(fixture, NATIVE, 1, 4);
+      await withUSDT(fixture, users[1], await fixture.pool.userDebt(users[0].address, tokens.USDT.address));
+      return fixture;
+    }
+
+    it("writes off the debt left once the last collateral is seized", async function () {
+      const fixture = await loadFixture(underwaterFixture);
+      const { pool, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+      const debt = await pool.userDebt(user.address, USDT);
+      const liquidity = await pool.getLiquidity(USDT);
+
+      const tx = pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE);
+      const repaid = (await eventArgs(tx, "Liquidated")).repaidAmount;
+      const args = await eventArgs(tx, "BadDebtRecorded");
+      expect(args.user).to.equal(user.address);
+      expect(args.token).to.equal(USDT);
+      expect(args.amount.toString()).to.equal(debt.sub(repaid).toString());
+
+      expect((await pool.userCollateral(user.address, NATIVE)).isZero()).to.equal(true);
+      expect((await pool.getTotalDebtUSD(user.address)).isZero()).to.equal(true);
+      expect((await pool.marketStates(USDT)).totalBorrows.isZero()).to.equal(true);
+      // The fixture charges no interest, so there is no treasury to cover any of it
+      expect((await pool.deficits(USDT)).toString()).to.equal(debt.sub(repaid).toString());
+      const markets = await pool.getMarketsData();
+      expect(markets.deficits[0].toString()).to.equal(debt.sub(repaid).toString());
+      expect(markets.treasury[0].isZero()).to.equal(true);
+      // The providers take the loss at once, so redeeming first doesn't dodge it
+      expect((await pool.getLiquidity(USDT)).toString()).to.equal(liquidity.sub(debt.sub(repaid)).toString());
+    });
+
+    it("leaves the debt while any collateral remains", async function () {
+      const fixture = await loadFixture(underwaterFixture);
+      const { pool, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+      await depositAs(fixture, user, tokens.WETH.address, WAD.div(100));
+
+      await pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE);
+      expect((await pool.userDebt(user.address, USDT)).gt(0)).to.equal(true);
+      expect((await pool.deficits(USDT)).isZero()).to.equal(true);
+    });
+
+    it("hands collateral worth nothing once weighted to the liquidator with the write-off", async function () {
+      const fixture = await loadFixture(underwaterFixture);
+      const { pool, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+      const WETH = tokens.WETH.address;
+      // One wei of WETH at under a dollar rounds to nothing
+      await depositAs(fixture, user, WETH, 1);
+      await scalePrice(fixture, WETH, 1, 10_000);
+      const balance = await tokens.WETH.balanceOf(liquidator.address);
+
+      const receipt = await (await pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE)).wait();
+      const seized = (receipt.events || []).filter((event) => event.event === "Liquidated").map((event) => event.args!);
+      expect(seized.map((args) => [args.collateralToken, args.repaidAmount.isZero()])).to.deep.equal([[NATIVE, false], [WETH, true]]);
+      expect(seized[1].seizedAmount.toNumber()).to.equal(1);
+      expect((receipt.events || []).some((event) => event.event === "BadDebtRecorded")).to.equal(true);
+
+      expect((await pool.userCollateral(user.address, WETH)).isZero()).to.equal(true);
+      expect((await tokens.WETH.balanceOf(liquidator.address)).sub(balance).toNumber()).to.equal(1);
+      expect((await pool.userDebt(user.address, USDT)).isZero()).to.equal(true);
+    });
+
+    it("writes off a position whose collateral price dropped to zero", async function () {
+      const fixture = await loadFixture(underwaterFixture);
+      const { pool, users, tokens, feeds } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+      const debt = await pool.userDebt(user.address, USDT);
+      await feeds[NATIVE].setPrice(0);
+
+      // The collateral backs nothing, but the debt is still there
+      expect((await pool.getBorrowCapacity(user.address)).isZero()).to.equal(true);
+      expect((await pool.getTotalDebtUSD(user.address)).gt(0)).to.equal(true);
+      const usdt = await tokens.USDT.balanceOf(liquidator.address);
+      const bnb = await ethers.provider.getBalance(pool.address);
+
+      const tx = pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE);
+      const seized = await eventArgs(tx, "Liquidated");
+      expect(seized.debtToken).to.equal(USDT);
+      expect(seized.repaidAmount.isZero()).to.equal(true);
+      expect(seized.collateralToken).to.equal(NATIVE);
+      expect(seized.seizedAmount.toString()).to.equal(WAD.mul(3).toString());
+      const args = await eventArgs(tx, "BadDebtRecorded");
+      expect(args.amount.toString()).to.equal(debt.toString());
+
+      expect((await tokens.USDT.balanceOf(liquidator.address)).toString()).to.equal(usdt.toString());
+      expect(bnb.sub(await ethers.provider.getBalance(pool.address)).toString()).to.equal(WAD.mul(3).toString());
+      expect((await pool.userCollateral(user.address, NATIVE)).isZero()).to.equal(true);
+      expect((await pool.userDebt(user.address, USDT)).isZero()).to.equal(true);
+      expect((await pool.deficits(USDT)).toString()).to.equal(debt.toString());
+    });
+
+    it("still refuses collateral whose feed is down rather than at zero", async function () {
+      const fixture = await loadFixture(underwaterFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      // A token contract has no latestPrice(), so every read reverts
+      await pool.connect(owner).setPriceFeed(NATIVE, feedOf(tokens.USDT));
+
+      await expectRevert(pool.connect(liquidator).liquidate(user.address, tokens.USDT.address, MaxUint256, NATIVE), "No price");
+    });
+
+    it("covers the deficit from the treasury as interest comes in", async function () {
+      const fixture = await loadFixture(underwaterFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user, liquidator, borrower] = users;
+      const USDT = tokens.USDT.address;
+
+      await depositAs(fixture, borrower, tokens.WETH.address, WAD.mul(10));
+      await pool.connect(borrower).borrow(USDT, units(fixture, USDT, 10_000));
+      await pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE);
+      const deficit = await pool.deficits(USDT);
+
+      await pool.connect(owner).setRateModel(USDT, rateModelOf(10, 0, 0, 80));
+      await time.increase(YEAR);
+      // Any accrual hands the treasury its cut, which goes straight to the deficit
+      const tx = pool.connect(owner).setRateModel(USDT, rateModelOf(10, 0, 0, 80));
+      const interest = (await eventArgs(tx, "InterestAccrued")).interest;
+      const args = await eventArgs(tx, "DeficitCovered");
+      expect(args.token).to.equal(USDT);
+      expect(args.amount.toString()).to.equal(interest.div(10).toString());
+      expect(args.remaining.toString()).to.equal(deficit.sub(interest.div(10)).toString());
+      expect((await pool.deficits(USDT)).toString()).to.equal(args.remaining.toString());
+      expect((await pool.treasuryReserves(USDT)).isZero()).to.equal(true);
+    });
+
+    it("socialises an outstanding deficit across the liquidity providers", async function () {
+      const fixture = await loadFixture(underwaterFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user, liquidator] = users;
+      const USDT = tokens.USDT.address;
+
+      await expectRevert(pool.connect(owner).socializeDeficit(USDT), "No deficit");
+      const shares = await pool.lpShares(owner.address, USDT);
+      const before = await pool.sharesToAmount(USDT, shares);
+      await pool.connect(liquidator).liquidate(user.address, USDT, MaxUint256, NATIVE);
+      const deficit = await pool.deficits(USDT);
+      const written = await pool.sharesToAmount(USDT, shares);
+      // The owner is the only USDT provider, so their liquidity took the whole loss with the write-off
+      expect(before.sub(written).sub(deficit).abs().lte(1)).to.equal(true);
+
+      await expectRevert(pool.connect(users[0]).socializeDeficit(USDT), "Ownable: caller is not the owner");
+      const args = await eventArgs(pool.connect(owner).socializeDeficit(USDT), "DeficitSocialized");
+      expect(args.token).to.equal(USDT);
+      expect(args.amount.toString()).to.equal(deficit.toString());
+      expect((await pool.deficits(USDT)).isZero()).to.equal(true);
+      // Socialising only stops the treasury paying it back
+      expect((await pool.sharesToAmount(USDT, shares)).toString()).to.equal(written.toString());
+    });
+  });
+
+  describe("setReserveFactor", function () {
+    it("is owner-only, below 100% and accrues at the old factor first", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [borrower] = users;
+      const WETH = tokens.WETH.address;
+
+      expect((await pool.reserveFactorBps()).toNumber()).to.equal(1000);
+      await expectRevert(pool.connect(borrower).setReserveFactor(0), "Ownable: caller is not the owner");
+      await expectRevert(pool.connect(owner).setReserveFactor(10000), "Invalid reserve factor");
+
+      await pool.connect(owner).setRateModel(WETH, rateModelOf(10, 0, 0, 80));
+      await fundAs(fixture, owner, WETH, WAD.mul(10));
+      await depositAs(fixture, borrower, tokens.USDT.address, units(fixture, tokens.USDT.address, 100_000));
+      await pool.connect(borrower).borrow(WETH, WAD.mul(5));
+      await time.increase(YEAR);
+
+      const tx = pool.connect(owner).setReserveFactor(0);
+      expect((await eventArgs(tx, "ReserveFactorSet")).reserveFactorBps.isZero()).to.equal(true);
+      const interest = (await eventArgs(tx, "InterestAccrued")).interest;
+      const treasury = await pool.treasuryReserves(WETH);
+      expect(treasury.toString()).to.equal(interest.div(10).toString());
+
+      // Later interest all goes to the providers
+      await time.increase(YEAR);
+      await pool.connect(owner).setRateModel(WETH, rateModelOf(10, 0, 0, 80));
+      expect((await pool.treasuryReserves(WETH)).toString()).to.equal(treasury.toString());
+    });
+  });
+
+  describe("withdrawTreasury", function () {
+    it("pays the treasury out to the owner without touching the providers' liquidity", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [funder, borrower] = users;
+      const WETH = tokens.WETH.address;
+
+      await pool.connect(owner).setRateModel(WETH, rateModelOf(10, 0, 0, 80));
+      await fundAs(fixture, funder, WETH, WAD.mul(10));
+      await depositAs(fixture, borrower, tokens.USDT.address, units(fixture, tokens.USDT.address, 100_000));
+      await pool.connect(borrower).borrow(WETH, WAD.mul(5));
+      await time.increase(YEAR);
+      await tokens.WETH.mint(borrower.address, WAD);
+      await tokens.WETH.connect(borrower).approve(pool.address, MaxUint256);
+      await pool.connect(borrower).repay(WETH, MaxUint256);
+
+      const treasury = await pool.treasuryReserves(WETH);
+      const liquidity = await pool.getLiquidity(WETH);
+      expect(treasury.gt(0)).to.equal(true);
+      await expectRevert(pool.connect(funder).withdrawTreasury(WETH, 1), "Ownable: caller is not the owner");
+      await expectRevert(pool.connect(owner).withdrawTreasury(WETH, 0), "Amount = 0");
+      await expectRevert(pool.connect(owner).withdrawTreasury(UNSUPPORTED, 1), "Unsupported token");
+      await expectRevert(pool.connect(owner).withdrawTreasury(WETH, treasury.add(1)), "Low treasury");
+
+      const balance = await tokens.WETH.balanceOf(owner.address);
+      const args = await eventArgs(pool.connect(owner).withdrawTreasury(WETH, treasury), "TreasuryWithdrawn");
+      expect(args.token).to.equal(WETH);
+      expect(args.to).to.equal(owner.address);
+      expect(args.amount.toString()).to.equal(treasury.toString());
+      expect((await tokens.WETH.balanceOf(owner.address)).sub(balance).toString()).to.equal(treasury.toString());
+      expect((await pool.treasuryReserves(WETH)).isZero()).to.equal(true);
+      expect((await pool.getLiquidity(WETH)).toString()).to.equal(liquidity.toString());
+    });
+
+    it("only pays out what isn't lent out", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [funder, borrower] = users;
+      const WETH = tokens.WETH.address;
+
+      await pool.connect(owner).setRateModel(WETH, rateModelOf(10, 0, 0, 80));
+      await fundAs(fixture, funder, WETH, WAD.mul(10));
+      await depositAs(fixture, borrower, tokens.USDT.address, units(fixture, tokens.USDT.address, 100_000));
+      await pool.connect(borrower).borrow(WETH, WAD.mul(10));
+      await time.increase(YEAR);
+      await pool.connect(owner).setRateModel(WETH, rateModelOf(10, 0, 0, 80));
+
+      // The treasury has its cut of a year's interest, but every wei in reserve is lent out
+      expect((await pool.treasuryReserves(WETH)).gt(0)).to.equal(true);
+      expect((await pool.reserves(WETH)).isZero()).to.equal(true);
+      await expectRevert(pool.connect(owner).withdrawTreasury(WETH, 1), "Low reserve");
+    });
+  });
+
+  describe("fundPool", function () {
+    it("adds ERC20 and native liquidity to the reserves", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [funder] = users;
+      const WETH = tokens.WETH.address;
+
+      await tokens.WETH.mint(funder.address, WAD.mul(5));
+      await tokens.WETH.connect(funder).approve(pool.address, WAD.mul(5));
+      const args = await eventArgs(pool.connect(funder).fundPool(WETH, WAD.mul(5)), "PoolFunded");
+      expect(args.user).to.equal(funder.address);
+      expect(args.token).to.equal(WETH);
+      expect(args.amount.toString()).to.equal(WAD.mul(5).toString());
+      // The first provider's shares match the amount one to one
+      expect(args.shares.toString()).to.equal(WAD.mul(5).toString());
+      expect((await pool.lpShares(funder.address, WETH)).toString()).to.equal(WAD.mul(5).toString());
+      expect((await pool.totalShares(WETH)).toString()).to.equal(WAD.mul(5).toString());
+      expect((await pool.reserves(WETH)).toString()).to.equal(WAD.mul(5).toString());
+      expect((await tokens.WETH.balanceOf(pool.address)).toString()).to.equal(WAD.mul(5).toString());
+
+      await pool.connect(funder).fundPool(NATIVE, WAD, { value: WAD });
+      expect((await pool.reserves(NATIVE)).toString()).to.equal(WAD.toString());
+      expect((await pool.lpShares(funder.address, NATIVE)).toString()).to.equal(WAD.toString());
+      // Funding is not collateral
+      expect((await pool.userCollateral(funder.address, WETH)).isZero()).to.equal(true);
+    });
+
+    it("rejects zero amounts, unsupported tokens and mismatched msg.value", async function () {
+      const { pool, users, tokens } = await loadFixture(deployPoolFixture);
+      const [funder] = users;
+
+      await expectRevert(pool.connect(funder).fundPool(tokens.WETH.address, 0), "Amount = 0");
+      await expectRevert(pool.connect(funder).fundPool(UNSUPPORTED, 1), "Unsupported token");
+      await expectRevert(pool.connect(funder).fundPool(NATIVE, 2, { value: 1 }), "Invalid BNB");
+      await expectRevert(pool.connect(funder).fundPool(tokens.WETH.address, 1, { value: 1 }), "BNB not allowed");
+    });
+
+    it("reverts when the token transfer fails", async function () {
+      const { pool, users, tokens } = await loadFixture(deployPoolFixture);
+      const [funder] = users;
+
+      await tokens.WETH.mint(funder.address, WAD);
+      await tokens.WETH.connect(funder).approve(pool.address, WAD);
+      await tokens.WETH.setFailTransfers(true);
+      await expectRevert(pool.connect(funder).fundPool(tokens.WETH.address, WAD), "ERC20 failed");
+    });
+  });
+
+  describe("redeem", function () {
+    it("pays shares out at their portion of the liquidity", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [funder, other] = users;
+      const WETH = tokens.WETH.address;
+
+      await fundAs(fixture, funder, WETH, WAD.mul(5));
+      await fundAs(fixture, other, WETH, WAD.mul(3));
+      expect((await pool.lpShares(other.address, WETH)).toString()).to.equal(WAD.mul(3).toString());
+
+      const args = await eventArgs(pool.connect(funder).redeem(WETH, WAD.mul(2)), "LiquidityRedeemed");
+      expect(args.user).to.equal(funder.address);
+      expect(args.token).to.equal(WETH);
+      expect(args.shares.toString()).to.equal(WAD.mul(2).toString());
+      expect(args.amount.toString()).to.equal(WAD.mul(2).toString());
+      expect((await pool.lpShares(funder.address, WETH)).toString()).to.equal(WAD.mul(3).toString());
+      expect((await pool.totalShares(WETH)).toString()).to.equal(WAD.mul(6).toString());
+      expect((await pool.reserves(WETH)).toString()).to.equal(WAD.mul(6).toString());
+      expect((await tokens.WETH.balanceOf(funder.address)).toString()).to.equal(WAD.mul(2).toString());
+
+      await fundAs(fixture, funder, NATIVE, WAD);
+      await pool.connect(funder).redeem(NATIVE, MaxUint256);
+      expect((await pool.lpShares(funder.address, NATIVE)).isZero()).to.equal(true);
+      expect((await pool.reserves(NATIVE)).isZero()).to.equal(true);
+      expect((await ethers.provider.getBalance(pool.address)).isZero()).to.equal(true);
+    });
+
+    it("grows with borrow interest, and prices later providers' shares to match", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [funder, borrower, latecomer] = users;
+      const WETH = tokens.WETH.address;
+
+      await pool.connect(owner).setRateModel(WETH, rateModelOf(10, 0, 0, 80));
+      await fundAs(fixture, funder, WETH, WAD.mul(10));
+      await depositAs(fixture, borrower, tokens.USDT.address, units(fixture, tokens.USDT.address, 100_000));
+      await pool.connect(borrower).borrow(WETH, WAD.mul(5));
+      await time.increase(YEAR);
+
+      await tokens.WETH.mint(borrower.address, WAD);
+      await tokens.WETH.connect(borrower).approve(pool.address, MaxUint256);
+      const repaid = (await eventArgs(pool.connect(borrower).repay(WETH, MaxUint256), "Repaid")).amount;
+      const interest = repaid.sub(WAD.mul(5));
+      expect(interest.gt(0)).to.equal(true);
+      // The treasury keeps its 10% reserve factor of the interest
+      const treasury = await pool.treasuryReserves(WETH);
+      expect(interest.div(10).sub(treasury).abs().lte(1)).to.equal(true);
+      const earned = interest.sub(treasury);
+      expect((await pool.getLiquidity(WETH)).toString()).to.equal(WAD.mul(10).add(earned).toString());
+
+      // The same amount now buys fewer shares, worth what was paid for them
+      await fundAs(fixture, latecomer, WETH, WAD.mul(10));
+      const lateShares = await pool.lpShares(latecomer.address, WETH);
+      expect(lateShares.lt(WAD.mul(10))).to.equal(true);
+      expect(WAD.mul(10).sub(await pool.sharesToAmount(WETH, lateShares)).lte(1)).to.equal(true);
+
+      const args = await eventArgs(pool.connect(funder).redeem(WETH, MaxUint256), "LiquidityRedeemed");
+      expect(WAD.mul(10).add(earned).sub(args.amount).lte(1)).to.equal(true);
+    });
+
+    it("only pays out liquidity that isn't lent out", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [funder, borrower] = users;
+      const USDC = tokens.USDC.address;
+
+      await fundAs(fixture, funder, USDC, units(fixture, USDC, 10));
+      await depositAs(fixture, borrower, tokens.USDT.address, units(fixture, tokens.USDT.address, 1_000));
+      await pool.connect(borrower).borrow(USDC, units(fixture, USDC, 6));
+
+      await expectRevert(pool.connect(funder).redeem(USDC, MaxUint256), "Low reserve");
+      await pool.connect(funder).redeem(USDC, units(fixture, USDC, 4));
+      expect((await pool.reserves(USDC)).isZero()).to.equal(true);
+      expect((await pool.sharesToAmount(USDC, await pool.lpShares(funder.address, USDC))).toString()).to.equal(units(fixture, USDC, 6).toString());
+      expect((await pool.getMarketsData()).liquidity[fixture.supported.indexOf(USDC)].toString()).to.equal(units(fixture, USDC, 6).toString());
+    });
+
+    it("rejects zero shares, more than the sender holds and unsupported tokens", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [funder, depositor] = users;
+      const WETH = tokens.WETH.address;
+
+      await fundAs(fixture, funder, WETH, WAD);
+      await depositAs(fixture, depositor, WETH, WAD.mul(5));
+      await expectRevert(pool.connect(funder).redeem(WETH, 0), "Amount = 0");
+      await expectRevert(pool.connect(funder).redeem(WETH, WAD.add(1)), "Low shares");
+      await expectRevert(pool.connect(funder).redeem(UNSUPPORTED, 1), "Unsupported token");
+      // Collateral buys no shares
+      await expectRevert(pool.connect(depositor).redeem(WETH, MaxUint256), "Low shares");
+      await expectRevert(pool.connect(depositor).redeem(WETH, 1), "Low shares");
+    });
+
+    it("reverts when the token transfer fails", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+
+      await fundAs(fixture, users[0], tokens.WETH.address, WAD);
+      await tokens.WETH.setFailTransfers(true);
+      await expectRevert(pool.connect(users[0]).redeem(tokens.WETH.address, WAD), "ERC20 fail");
+    });
+  });
+
+  describe("receive", function () {
+    it("adds plain BNB transfers to the native reserves for shares", async function () {
+      const { pool, users } = await loadFixture(deployPoolFixture);
+      const [sender] = users;
+
+      const receipt = await (await sender.sendTransaction({ to: pool.address, value: WAD })).wait();
+      const [event] = await pool.queryFilter(pool.filters.PoolFunded(), receipt.blockNumber);
+      const args = event.args;
+      expect(args.user).to.equal(sender.address);
+      expect(args.token).to.equal(NATIVE);
+      expect(args.amount.toString()).to.equal(WAD.toString());
+      expect(args.shares.toString()).to.equal(WAD.toString());
+      expect((await pool.reserves(NATIVE)).toString()).to.equal(WAD.toString());
+      expect((await pool.lpShares(sender.address, NATIVE)).toString()).to.equal(WAD.toString());
+      expect((await pool.userCollateral(sender.address, NATIVE)).isZero()).to.equal(true);
+    });
+  });
+
+  describe("getTokenPrice", function () {
+    it("returns each token's feed price, per whole token", async function () {
+      const { pool, feeds, supported } = await loadFixture(deployPoolFixture);
+
+      for (const token of supported) {
+        expect((await pool.getTokenPrice(token)).toString()).to.equal((await feeds[token].price()).toString());
+      }
+    });
+
+    it("reverts for unsupported tokens, and oracles with no price or that revert", async function () {
+      const { pool, owner, feeds, tokens } = await loadFixture(deployPoolFixture);
+      const WETH = tokens.WETH.address;
+
+      await expectRevert(pool.getTokenPrice(UNSUPPORTED), "Unsupported token");
+
+      await feeds[WETH].setPrice(0);
+      await expectRevert(pool.getTokenPrice(WETH), "No price");
+
+      // A token contract has no latestPrice(), so every read reverts
+      await pool.connect(owner).setPriceFeed(WETH, feedOf(tokens.USDT));
+      await expectRevert(pool.getTokenPrice(WETH), "No price");
+    });
+
+    it("rejects prices older than the feed's max staleness", async function () {
+      const { pool, owner, feeds } = await loadFixture(deployPoolFixture);
+      await pool.connect(owner).setPriceFeed(NATIVE, feedOf(feeds[NATIVE], { maxStaleness: 3600 }));
+
+      // Calls run a second after the latest block at most, so the price is still fresh here
+      await time.increaseTo((await feeds[NATIVE].updatedAt()).add(3599));
+      await pool.getTokenPrice(NATIVE);
+      await time.increase(2);
+      await expectRevert(pool.getTokenPrice(NATIVE), "Stale price");
+
+      await feeds[NATIVE].setPrice(await feeds[NATIVE].price());
+      await pool.getTokenPrice(NATIVE);
+    });
+
+    it("rejects prices too far from the reference oracle, or without a fresh reference", async function () {
+      const { pool, owner, feeds, tokens } = await loadFixture(deployPoolFixture);
+      const WETH = tokens.WETH.address;
+      const price = await feeds[WETH].price();
+      const reference = await deployFixedOracle("1");
+      await reference.setPrice(price.mul(100).add(104).div(105));
+      await pool
+        .connect(owner)
+        .setPriceFeed(WETH, feedOf(feeds[WETH], { referenceOracle: reference.address, maxStaleness: 3600, maxDeviationBps: 500 }));
+
+      // 5% above the reference is the limit
+      await pool.getTokenPrice(WETH);
+      await reference.setPrice(price.mul(100).div(106));
+      await expectRevert(pool.getTokenPrice(WETH), "Price deviation");
+      await reference.setPrice(price.mul(106).div(100));
+      await expectRevert(pool.getTokenPrice(WETH), "Price deviation");
+
+      await reference.setPrice(0);
+      await expectRevert(pool.getTokenPrice(WETH), "No reference price");
+      await reference.setPrice(price);
+      await time.increase(3600);
+      await feeds[WETH].setPrice(price);
+      await expectRevert(pool.getTokenPrice(WETH), "No reference price");
+    });
+
+    it("blocks actions that need a rejected price", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, feeds } = fixture;
+      await depositAs(fixture, users[0], NATIVE, WAD);
+      await pool.connect(owner).setPriceFeed(NATIVE, feedOf(feeds[NATIVE], { maxStaleness: 60 }));
+
+      await time.increase(61);
+      await expectRevert(pool.connect(users[0]).withdraw(NATIVE, 1), "Stale price");
+      await expectRevert(pool.getBorrowCapacity(users[0].address), "Stale price");
+    });
+
+    it("still report the account at a rejected price, with the reason", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens, feeds, supported } = fixture;
+      const [user] = users;
+      const USDT = tokens.USDT.address;
+      await fundAs(fixture, owner, USDT, units(fixture, USDT, 10_000));
+      await depositAs(fixture, user, NATIVE, WAD);
+      await pool.connect(user).borrow(USDT, units(fixture, USDT, 100));
+      await pool.connect(owner).setPriceFeed(NATIVE, feedOf(feeds[NATIVE], { maxStaleness: 60 }));
+      const before = await pool.getUserAccountData(user.address);
+
+      await time.increase(61);
+      const account = await pool.getUserAccountData(user.address);
+      const i = supported.indexOf(NATIVE);
+      expect(account.priceErrors[i]).to.equal("Stale price");
+      expect(account.priceUpdatedAt[i].toString()).to.equal((await feeds[NATIVE].updatedAt()).toString());
+      expect(account.priceErrors.filter((error) => error !== "")).to.have.length(1);
+
+      // The position is still there, valued at the feed's last price
+      expect(account.prices[i].toString()).to.equal((await feeds[NATIVE].price()).toString());
+      expect(account.totalCollateralUSD.toString()).to.equal(before.totalCollateralUSD.toString());
+      expect(account.borrowCapacity.toString()).to.equal(before.borrowCapacity.toString());
+      expect(account.totalDebtUSD.gte(before.totalDebtUSD)).to.equal(true);
+      expect(account.indebtedness.gt(0)).to.equal(true);
+    });
+  });
+
+  describe("interest", function () {
+    // `user` borrows `borrowed` USDC, at a flat 10% a year, from 10,000 USDC of reserves
+    async function borrowedAtTenPercent(fixture: PoolFixture, borrowed: BigNumber) {
+      const { pool, owner, users, tokens } = fixture;
+      const USDC = tokens.USDC.address;
+      await pool.connect(owner).setRateModel(USDC, rateModelOf(10, 0, 0, 80));
+      await fundAs(fixture, owner, USDC, units(fixture, USDC, 10_000));
+      await depositAs(fixture, users[0], tokens.USDT.address, units(fixture, tokens.USDT.address, 10_000));
+      const receipt = await (await pool.connect(users[0]).borrow(USDC, borrowed)).wait();
+      return (await ethers.provider.getBlock(receipt.blockNumber)).timestamp;
+    }
+
+    // `amount` plus simple interest at 10% a year over `elapsed` seconds, as the pool rounds it
+    function withInterest(amount: BigNumber, elapsed: number): BigNumber {
+      const factor = WAD.div(10).mul(elapsed).div(YEAR);
+      return amount.add(amount.mul(factor).div(WAD));
+    }
+
+    it("prices borrowing along the kinked curve, by utilization", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+
+      // 2% base, +10% up to the 50% kink, +100% from there to full utilization
+      await pool.connect(owner).setRateModel(USDC, rateModelOf(2, 10, 100, 50));
+      await fundAs(fixture, owner, USDC, units(fixture, USDC, 1_000));
+      await depositAs(fixture, user, tokens.USDT.address, units(fixture, tokens.USDT.address, 10_000));
+      expect((await pool.getUtilization(USDC)).isZero()).to.equal(true);
+      expect((await pool.getSupplyRate(USDC)).isZero()).to.equal(true);
+
+      await pool.connect(user).borrow(USDC, units(fixture, USDC, 250));
+      expect((await pool.getUtilization(USDC)).toString()).to.equal(WAD.div(4).toString());
+      expect((await pool.getBorrowRate(USDC)).toString()).to.equal(WAD.mul(7).div(100).toString());
+      // 7% over a quarter of the liquidity, less the 10% reserve factor
+      expect((await pool.getSupplyRate(USDC)).toString()).to.equal(WAD.mul(1575).div(100_000).toString());
+
+      await pool.connect(user).borrow(USDC, units(fixture, USDC, 350));
+      expect((await pool.getUtilization(USDC)).toString()).to.equal(WAD.mul(6).div(10).toString());
+      expect((await pool.getBorrowRate(USDC)).toString()).to.equal(WAD.mul(32).div(100).toString());
+    });
+
+    it("grows debts with the borrow index and pays the interest into the reserves", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, users, tokens } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+      const borrowed = units(fixture, USDC, 1_000);
+
+      const borrowedAt = await borrowedAtTenPercent(fixture, borrowed);
+      await time.increase(YEAR / 2);
+      expect((await pool.userDebt(user.address, USDC)).gt(borrowed)).to.equal(true);
+
+      await tokens.USDC.mint(user.address, borrowed);
+      await tokens.USDC.connect(user).approve(pool.address, MaxUint256);
+      const tx = pool.connect(user).repay(USDC, MaxUint256);
+      const receipt = await (await tx).wait();
+      const elapsed = (await ethers.provider.getBlock(receipt.blockNumber)).timestamp - borrowedAt;
+      const owed = withInterest(borrowed, elapsed);
+
+      expect((await eventArgs(tx, "Repaid")).amount.toString()).to.equal(owed.toString());
+      expect((await eventArgs(tx, "InterestAccrued")).interest.toString()).to.equal(owed.sub(borrowed).toString());
+      expect((await pool.userDebt(user.address, USDC)).isZero()).to.equal(true);
+      expect((await pool.marketStates(USDC)).totalBorrows.isZero()).to.equal(true);
+      expect((await pool.reserves(USDC)).toString()).to.equal(units(fixture, USDC, 9_000).add(owed).toString());
+    });
+
+    it("repays native debt in full and refunds what was sent over it", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const [user] = users;
+
+      await pool.connect(owner).setRateModel(NATIVE, rateModelOf(10, 0, 0, 80));
+      await fundAs(fixture, owner, NATIVE, WAD.mul(10));
+      await depositAs(fixture, user, tokens.USDT.address, units(fixture, tokens.USDT.address, 10_000));
+      await expectRevert(pool.connect(user).repay(NATIVE, MaxUint256, { value: WAD }), "No debt");
+      await pool.connect(user).borrow(NATIVE, WAD);
+      await time.increase(30 * 24 * 60 * 60);
+
+      await expectRevert(pool.connect(user).repay(NATIVE, MaxUint256, { value: WAD }), "Invalid BNB");
+      const args = await eventArgs(pool.connect(user).repay(NATIVE, MaxUint256, { value: WAD.mul(2) }), "Repaid");
+      expect(args.amount.gt(WAD)).to.equal(true);
+      expect((await pool.userDebt(user.address, NATIVE)).isZero()).to.equal(true);
+      expect((await pool.reserves(NATIVE)).toString()).to.equal(WAD.mul(9).add(args.amount).toString());
+      expect((await ethers.provider.getBalance(pool.address)).toString()).to.equal((await pool.reserves(NATIVE)).toString());
+    });
+
+    it("accrues at the old rate up to a rate model change", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens } = fixture;
+      const USDC = tokens.USDC.address;
+      const borrowed = units(fixture, USDC, 1_000);
+
+      const borrowedAt = await borrowedAtTenPercent(fixture, borrowed);
+      await time.increase(YEAR / 4);
+      const receipt = await (await pool.connect(owner).setRateModel(USDC, NO_INTEREST)).wait();
+      const changedAt = (await ethers.provider.getBlock(receipt.blockNumber)).timestamp;
+      const owed = withInterest(borrowed, changedAt - borrowedAt);
+
+      await time.increase(YEAR / 4);
+      expect((await pool.userDebt(users[0].address, USDC)).toString()).to.equal(owed.toString());
+      expect((await pool.getMarketsData()).totalBorrows[fixture.supported.indexOf(USDC)].toString()).to.equal(owed.toString());
+    });
+  });
+
+  describe("views", function () {
+    it("report positions and markets consistently with the per-user getters", async function () {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { pool, owner, users, tokens, supported } = fixture;
+      const [user] = users;
+      const USDC = tokens.USDC.address;
+
+      await fundAs(fixture, owner, USDC, units(fixture, USDC, 10_000));
+      await depositAs(fixture, user, NATIVE, WAD);
+      await depositAs(fixture, user, tokens.WETH.address, WAD.div(10));
+      await pool.connect(user).borrow(USDC, units(fixture, USDC, 250));
+
+      const account = await pool.getUserAccountData(user.address);
+      expect(account.tokens).to.deep.equal(supported);
+      expect(account.borrowCapacity.toString()).to.equal((await pool.getBorrowCapacity(user.address)).toString());
+      expect(account.totalDebtUSD.toString()).to.equal((await pool.getTotalDebtUSD(user.address)).toString());
+      expect(account.indebtedness.toString()).to.equal((await pool.getIndebtedness(user.address)).toString());
+      expect(account.totalDebtUSD.toString()).to.equal(WAD.mul(250).toString());
+
+      const markets = await pool.getMarketsData();
+      expect(markets.tokens).to.deep.equal(supported);
+      for (let i = 0; i < supported.length; i++) {
+        expect(markets.reserves[i].toString()).to.equal(account.reserves[i].toString());
+        expect(markets.prices[i].toString()).to.equal(account.prices[i].toString());
+        expect(markets.weights[i].toString()).to.equal((await pool.tokenConfigs(supported[i])).weight.toString());
+        expect(markets.active[i]).to.equal(true);
+        expect(markets.priceSources[i]).to.equal("Fixed");
+        expect(markets.priceErrors[i]).to.equal("");
+        expect(markets.borrowRates[i].toString()).to.equal(account.borrowRates[i].toString());
+        expect(markets.supplyRates[i].toString()).to.equal(account.supplyRates[i].toString());
+        expect(markets.totalBorrows[i].toString()).to.equal((await pool.marketStates(supported[i])).totalBorrows.toString());
+      }
+    });
+
+    it("report rejected prices in the markets data instead of reverting", async function () {
+      const { pool, owner, feeds, supported, tokens } = await loadFixture(deployPoolFixture);
+      const WETH = tokens.WETH.address;
+      const updatedAt = await feeds[WETH].updatedAt();
+      await pool.connect(owner).setPriceFeed(WETH, feedOf(feeds[WETH], { maxStaleness: 60 }));
+      await time.increase(61);
+
+      const markets = await pool.getMarketsData();
+      const i = supported.indexOf(WETH);
+      expect(markets.prices[i].toString()).to.equal((await feeds[WETH].price()).toString());
+      expect(markets.priceUpdatedAt[i].toString()).to.equal(updatedAt.toString());
+      expect(markets.priceErrors[i]).to.equal("Stale price");
+      expect(markets.priceErrors.filter((error) => error !== "")).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber, ContractTransaction } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { affectedSlices, movedPrices, positionTokensOf, watchBlocks, PoolEvent } from "../src/lib/liveUpdates";
+import { deployPoolFixture, depositAs, PoolFixture, NATIVE } from "./fixtures";
+
+const WAD = ethers.constants.WeiPerEther;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A provider whose block subscription delivers only what the test emits, and whose block number
+// the test sets
+function fakeProvider() {
+  const listeners = new Set<(blockNumber: number) => void>();
+  const fake = {
+    blockNumber: 100,
+    blockNumberReads: 0,
+    listeners,
+    on: (_event: string, listener: (blockNumber: number) => void) => listeners.add(listener),
+    off: (_event: string, listener: (blockNumber: number) => void) => listeners.delete(listener),
+    getBlockNumber: async () => {
+      fake.blockNumberReads++;
+      return fake.blockNumber;
+    },
+    emit: (blockNumber: number) => listeners.forEach((listener) => listener(blockNumber)),
+  };
+  return fake;
+}
+
+// The pool events a transaction emitted, decoded the way getPoolChanges decodes a block's logs
+async function poolEvents(fixture: PoolFixture, tx: Promise<ContractTransaction>): Promise<PoolEvent[]> {
+  const receipt = await (await tx).wait();
+  return receipt.logs
+    .filter((log) => log.address === fixture.pool.address)
+    .map((log) => {
+      const parsed = fixture.pool.interface.parseLog(log);
+      return {
+        name: parsed.name,
+        args: Object.fromEntries(parsed.eventFragment.inputs.map((input, i) => [input.name, String(parsed.args[i])])),
+      };
+    });
+}
+
+describe("live update slices", function () {
+  it("refreshes the account and its history only for its own events or its tokens", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, users, tokens } = fixture;
+    const [depositor, holder, bystander] = users;
+    const WETH = tokens.WETH.address;
+
+    const events = await poolEvents(fixture, pool.connect(depositor).deposit(NATIVE, WAD, { value: WAD }));
+    expect(events.map((event) => event.name)).to.include("Deposited");
+
+    expect(affectedSlices(events, [], depositor.address.toLowerCase(), [])).to.deep.equal(["account", "markets", "activity"]);
+    // Someone else's deposit moves the rates of a token the holder has a position in
+    expect(affectedSlices(events, [], holder.address, [NATIVE])).to.deep.equal(["account", "markets"]);
+    expect(affectedSlices(events, [], bystander.address, [WETH])).to.deep.equal(["markets"]);
+    // Disconnected visitors only see the markets
+    expect(affectedSlices(events, [], null, [])).to.deep.equal(["markets"]);
+  });
+
+  it("refreshes the account when a held token's price moves or a pool-wide parameter changes", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, owner, users, tokens } = fixture;
+    const [holder] = users;
+    const WETH = tokens.WETH.address;
+
+    const before = { [NATIVE]: "300", [WETH]: "2000" };
+    const moved = movedPrices(before, { [NATIVE]: "290", [WETH]: "2000" });
+    expect(moved).to.deep.equal([NATIVE]);
+    expect(affectedSlices([], moved, holder.address, [NATIVE])).to.deep.equal(["account", "markets"]);
+    expect(affectedSlices([], moved, holder.address, [WETH])).to.deep.equal(["markets"]);
+    expect(affectedSlices([], [], holder.address, [NATIVE])).to.deep.equal([]);
+
+    const events = await poolEvents(fixture, pool.connect(owner).setLiquidationParams(4000, 800));
+    expect(affectedSlices(events, [], holder.address, [WETH])).to.deep.equal(["account", "markets"]);
+  });
+
+  it("lists the tokens a position holds collateral, debt or liquidity in", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, users, tokens } = fixture;
+    const [holder] = users;
+    const USDT = tokens.USDT.address;
+
+    await depositAs(fixture, holder, NATIVE, WAD);
+    const account = await pool.getUserAccountData(holder.address);
+    const byToken = (values: BigNumber[]) => Object.fromEntries(account.tokens.map((token, i) => [token, values[i]]));
+    const position = { collateral: byToken(account.collateral), debt: byToken(account.debt), lpShares: byToken(account.lpShares) };
+    expect(positionTokensOf(position)).to.deep.equal([NATIVE]);
+
+    position.debt[USDT] = BigNumber.from(1);
+    position.lpShares[NATIVE] = BigNumber.from(1);
+    expect(positionTokensOf(position)).to.have.members([NATIVE, USDT]);
+  });
+});
+
+describe("block watching", function () {
+  it("follows the block subscription while it delivers", async function () {
+    const provider = fakeProvider();
+    const seen: number[] = [];
+    const stop = watchBlocks(provider as unknown as typeof ethers.provider, (blockNumber) => seen.push(blockNumber), 30, 10);
+
+    provider.emit(100);
+    provider.emit(101);
+    await sleep(60);
+    expect(seen).to.deep.equal([100, 101]);
+    expect(provider.blockNumberReads).to.equal(0);
+
+    stop();
+    expect(provider.listeners.size).to.equal(0);
+  });
+
+  it("polls the block number when the subscription stays silent", async function () {
+    const provider = fakeProvider();
+    const seen: number[] = [];
+    const stop = watchBlocks(provider as unknown as typeof ethers.provider, (blockNumber) => seen.push(blockNumber), 30, 10);
+
+    await sleep(60);
+    // Switched over: unsubscribed, and the unchanged block number reported once
+    expect(provider.listeners.size).to.equal(0);
+    expect(provider.blockNumberReads).to.be.greaterThan(1);
+    expect(seen).to.deep.equal([100]);
+
+    provider.blockNumber = 102;
+    await sleep(30);
+    expect(seen).to.deep.equal([100, 102]);
+
+    stop();
+    const reads = provider.blockNumberReads;
+    await sleep(30);
+    expect(provider.blockNumberReads).to.equal(reads);
+  });
+});
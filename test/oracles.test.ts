@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { BigNumber } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FixedPriceOracle, MockERC20, MockUniswapV2Pair, UniswapV2TwapOracle } from "../src/types/contracts";
+import { setPairReserves } from "../scripts/mocks";
+import { expectRevert } from "./helpers";
+
+const WAD = ethers.constants.WeiPerEther;
+const PERIOD = 600;
+
+async function deployFixed(usd: BigNumber): Promise<FixedPriceOracle> {
+  const Oracle = await ethers.getContractFactory("FixedPriceOracle");
+  const oracle = await Oracle.deploy(usd);
+  await oracle.deployed();
+  return oracle;
+}
+
+async function blockTime(tx: Promise<{ wait(): Promise<{ blockNumber: number }> }>): Promise<number> {
+  const { blockNumber } = await (await tx).wait();
+  return (await ethers.provider.getBlock(blockNumber)).timestamp;
+}
+
+interface TwapFixture {
+  wbnb: MockERC20;
+  usdt: MockERC20;
+  pair: MockUniswapV2Pair;
+  usdtOracle: FixedPriceOracle;
+  twap: UniswapV2TwapOracle;
+}
+
+// WBNB priced in 6-decimal USDT at $600 spot, with a TWAP over the pair
+async function twapFixture(): Promise<TwapFixture> {
+  const Token = await ethers.getContractFactory("MockERC20");
+  const wbnb = await Token.deploy("Wrapped BNB", "WBNB", 18);
+  const usdt = await Token.deploy("Tether USD", "USDT", 6);
+  const pair = await (await ethers.getContractFactory("MockUniswapV2Pair")).deploy(wbnb.address, usdt.address);
+  await setPairReserves(pair, wbnb, WAD.mul(1000), usdt, BigNumber.from(600_000).mul(1e6));
+
+  const usdtOracle = await deployFixed(WAD);
+  const Twap = await ethers.getContractFactory("UniswapV2TwapOracle");
+  const twap = await Twap.deploy(pair.address, wbnb.address, usdtOracle.address, PERIOD);
+  await twap.deployed();
+  return { wbnb, usdt, pair, usdtOracle, twap };
+}
+
+// Spot price in USDT per WBNB
+function setSpot(fixture: TwapFixture, usd: number) {
+  return setPairReserves(fixture.pair, fixture.wbnb, WAD.mul(1000), fixture.usdt, BigNumber.from(usd * 1000).mul(1e6));
+}
+
+describe("price oracles", function () {
+  describe("FixedPriceOracle", function () {
+    it("reports the owner's price and when it was set", async function () {
+      const [, other] = await ethers.getSigners();
+      const oracle = await deployFixed(WAD);
+
+      const setAt = await blockTime(oracle.setPrice(WAD.mul(2)));
+      const [price, updatedAt] = await oracle.latestPrice();
+      expect(price.toString()).to.equal(WAD.mul(2).toString());
+      expect(updatedAt.toNumber()).to.equal(setAt);
+      expect(await oracle.source()).to.equal("Fixed");
+      await expectRevert(oracle.connect(other).setPrice(WAD), "Ownable: caller is not the owner");
+    });
+  });
+
+  describe("ChainlinkOracle", function () {
+    async function deployChainlink(decimals: number, answer: BigNumber) {
+      const aggregator = await (await ethers.getContractFactory("MockAggregatorV3")).deploy(decimals, answer);
+      const oracle = await (await ethers.getContractFactory("ChainlinkOracle")).deploy(aggregator.address);
+      await oracle.deployed();
+      return { aggregator, oracle };
+    }
+
+    it("rescales the answer to 18 decimals and passes the round's timestamp through", async function () {
+      const { aggregator, oracle } = await deployChainlink(8, BigNumber.from("61234567890"));
+
+      let [price] = await oracle.latestPrice();
+      expect(price.toString()).to.equal(ethers.utils.parseEther("612.3456789").toString());
+
+      await aggregator.setRoundData(BigNumber.from("300000000000"), 1_700_000_000);
+      const [, updatedAt] = await oracle.latestPrice();
+      expect(updatedAt.toNumber()).to.equal(1_700_000_000);
+      [price] = await oracle.latestPrice();
+      expect(price.toString()).to.equal(WAD.mul(3000).toString());
+      expect(await oracle.source()).to.equal("Chainlink");
+
+      const { oracle: precise } = await deployChainlink(20, WAD.mul(100).mul(5));
+      expect((await precise.latestPrice())[0].toString()).to.equal(WAD.mul(5).toString());
+    });
+
+    it("reports no price for non-positive answers", async function () {
+      const { aggregator, oracle } = await deployChainlink(8, BigNumber.from(0));
+
+      expect((await oracle.latestPrice())[0].isZero()).to.equal(true);
+      await aggregator.setAnswer(-1);
+      expect((await oracle.latestPrice())[0].isZero()).to.equal(true);
+    });
+  });
+
+  describe("UniswapV2TwapOracle", function () {
+    it("has no price until a full period has been averaged", async function () {
+      const { twap } = await loadFixture(twapFixture);
+
+      const [price, updatedAt] = await twap.latestPrice();
+      expect(price.isZero()).to.equal(true);
+      expect(updatedAt.isZero()).to.equal(true);
+      await expectRevert(twap.update(), "Period not elapsed");
+
+      await time.increase(PERIOD);
+      await twap.update();
+      const [average] = await twap.latestPrice();
+      // Within a wei of the $600 spot after fixed-point rounding
+      expect(WAD.mul(600).sub(average).lte(1)).to.equal(true);
+      expect(await twap.source()).to.equal("Uniswap V2 TWAP");
+    });
+
+    it("weights each spot price by how long it held, so a last-second spike barely moves it", async function () {
+      const fixture = await loadFixture(twapFixture);
+      const { twap } = fixture;
+      await time.increase(PERIOD);
+      const start = await blockTime(twap.update());
+
+      await time.increaseTo(start + PERIOD - 2);
+      const spike = await blockTime(setSpot(fixture, 6000));
+      const end = await blockTime(twap.update());
+
+      const expected = (600 * (spike - start) + 6000 * (end - spike)) / (end - start);
+      const [average, updatedAt] = await twap.latestPrice();
+      expect(Math.abs(Number(ethers.utils.formatEther(average)) - expected)).to.be.lessThan(1e-6);
+      expect(expected).to.be.lessThan(700);
+      expect(updatedAt.toNumber()).to.be.at.most(end);
+    });
+
+    it("values the average through the base oracle and reports the older timestamp", async function () {
+      const { twap, usdtOracle } = await loadFixture(twapFixture);
+      await time.increase(PERIOD);
+      const updated = await blockTime(twap.update());
+
+      const baseSetAt = await usdtOracle.updatedAt();
+      expect((await twap.latestPrice())[1].toNumber()).to.equal(Math.min(updated, baseSetAt.toNumber()));
+
+      const newBaseAt = await blockTime(usdtOracle.setPrice(WAD.mul(2)));
+      const [price, updatedAt] = await twap.latestPrice();
+      expect(WAD.mul(1200).sub(price).lte(2)).to.equal(true);
+      expect(updatedAt.toNumber()).to.equal(Math.min(updated, newBaseAt));
+    });
+
+    it("prices either side of the pair", async function () {
+      const { pair, usdt, wbnb } = await loadFixture(twapFixture);
+      const wbnbOracle = await deployFixed(WAD.mul(600));
+      const Twap = await ethers.getContractFactory("UniswapV2TwapOracle");
+      const twap = await Twap.deploy(pair.address, usdt.address, wbnbOracle.address, PERIOD);
+
+      await time.increase(PERIOD);
+      await twap.update();
+      const [price] = await twap.latestPrice();
+      expect(WAD.sub(price).lte(1)).to.equal(true);
+
+      await expectRevert(Twap.deploy(pair.address, wbnbOracle.address, wbnbOracle.address, PERIOD), "Token not in pair");
+      await expectRevert(Twap.deploy(pair.address, wbnb.address, wbnbOracle.address, 0), "Invalid period");
+    });
+  });
+});
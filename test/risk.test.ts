@@ -0,0 +1,319 @@
+import { expect } from "chai";
+import { BigNumber, constants } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import {
+  RiskParams,
+  RiskPosition,
+  getBorrowCapacity,
+  getTotalDebtUSD,
+  getTotalCollateralUSD,
+  getIndebtedness,
+  getMaxBorrow,
+  getMaxWithdraw,
+  checkBorrow,
+  checkWithdraw,
+  isLiquidatable,
+  getHealthFactor,
+  getLiquidationDistanceUSD,
+  applyAction,
+  previewLiquidation,
+  LiquidationParams,
+  PRECISION,
+  toUSD,
+} from "../src/lib/risk";
+import { decodePoolError } from "../src/lib/poolErrors";
+import { deployPoolFixture, depositAs, fundAs, scalePrice, units, PoolFixture, NATIVE } from "./fixtures";
+import { mulberry32, eventArgs } from "./helpers";
+
+// A random amount between one unit and ~1000 tokens with a non-round tail
+function randomAmount(random: () => number, decimals: number): BigNumber {
+  const one = BigNumber.from(10).pow(decimals);
+  const whole = BigNumber.from(Math.floor(random() * 1000));
+  const fraction = one.mul(Math.floor(random() * 1e6)).div(1e6).add(1);
+  return whole.mul(one).add(fraction);
+}
+
+async function readParams(fixture: PoolFixture): Promise<RiskParams> {
+  return {
+    maxBorrowRatio: (await fixture.pool.MAX_BORROW_RATIO()).toNumber(),
+    liquidationThreshold: (await fixture.pool.LIQUIDATION_THRESHOLD()).toNumber(),
+  };
+}
+
+async function readLiquidationParams(fixture: PoolFixture): Promise<LiquidationParams> {
+  return {
+    closeFactorBps: (await fixture.pool.closeFactorBps()).toNumber(),
+    liquidationBonusBps: (await fixture.pool.liquidationBonusBps()).toNumber(),
+  };
+}
+
+async function readPosition(fixture: PoolFixture, user: string): Promise<RiskPosition> {
+  const account = await fixture.pool.getUserAccountData(user);
+  const position: RiskPosition = { collateral: {}, debt: {}, prices: {}, weights: {}, decimals: {} };
+  for (let i = 0; i < account.tokens.length; i++) {
+    const token = account.tokens[i];
+    position.collateral[token] = account.collateral[i];
+    position.debt[token] = account.debt[i];
+    position.prices[token] = account.prices[i];
+    position.weights[token] = (await fixture.pool.tokenConfigs(token)).weight.toNumber();
+    position.decimals[token] = fixture.decimals[token];
+  }
+  return position;
+}
+
+// The PoolErrorCode the contract reverts with, or null if the call would succeed
+async function contractCode(call: Promise<unknown>) {
+  try {
+    await call;
+    return null;
+  } catch (error) {
+    return decodePoolError(error).code;
+  }
+}
+
+async function expectMatchesContract(fixture: PoolFixture, user: SignerWithAddress, params: RiskParams) {
+  const { pool } = fixture;
+  const position = await readPosition(fixture, user.address);
+  const account = await pool.getUserAccountData(user.address);
+
+  expect(getBorrowCapacity(position).toString()).to.equal((await pool.getBorrowCapacity(user.address)).toString());
+  expect(getTotalDebtUSD(position).toString()).to.equal((await pool.getTotalDebtUSD(user.address)).toString());
+  expect(getIndebtedness(position).toString()).to.equal((await pool.getIndebtedness(user.address)).toString());
+  expect(getTotalCollateralUSD(position).toString()).to.equal(account.totalCollateralUSD.toString());
+
+  for (const token of fixture.supported) {
+    const reserve = await pool.reserves(token);
+
+    // The largest borrow the module allows must pass and one wei more must fail the same way
+    const maxBorrow = getMaxBorrow(position, token, reserve, params);
+    if (!maxBorrow.isZero()) {
+      expect(await contractCode(pool.connect(user).callStatic.borrow(token, maxBorrow))).to.equal(null);
+    }
+    const overBorrow = maxBorrow.add(1);
+    expect(await contractCode(pool.connect(user).callStatic.borrow(token, overBorrow)))
+      .to.equal(checkBorrow(position, token, overBorrow, reserve, params));
+
+    const maxWithdraw = getMaxWithdraw(position, token, params);
+    if (!maxWithdraw.isZero()) {
+      expect(await contractCode(pool.connect(user).callStatic.withdraw(token, maxWithdraw))).to.equal(null);
+    }
+    const overWithdraw = maxWithdraw.add(1);
+    expect(await contractCode(pool.connect(user).callStatic.withdraw(token, overWithdraw)))
+      .to.equal(checkWithdraw(position, token, overWithdraw, params));
+  }
+
+  // Aimed at a token the user owes, so "No debt" only comes from an account without any
+  const debtToken = fixture.supported.find((token) => position.debt[token].gt(0)) || fixture.supported[0];
+  const liquidation = await contractCode(pool.callStatic.liquidate(user.address, debtToken, 1, debtToken));
+  expect(isLiquidatable(position, params)).to.equal(liquidation !== "NO_DEBT" && liquidation !== "HEALTHY");
+}
+
+describe("risk module", function () {
+  it("reads the same constants the contract enforces", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const params = await readParams(fixture);
+
+    expect(params).to.deep.equal({ maxBorrowRatio: 80, liquidationThreshold: 80 });
+    const healthFactor = getHealthFactor(BigNumber.from(params.liquidationThreshold), params);
+    expect(healthFactor!.toString()).to.equal(PRECISION.toString());
+  });
+
+  it("values 6- and 18-decimal tokens per whole token", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, users, tokens } = fixture;
+    const [stableUser, etherUser] = users;
+    const USDT = tokens.USDT.address;
+    const WETH = tokens.WETH.address;
+    expect(fixture.decimals[USDT]).to.equal(6);
+    expect(fixture.decimals[WETH]).to.equal(18);
+
+    // 1,000 USDT is worth $1,000 despite its 6 decimals
+    await depositAs(fixture, stableUser, USDT, units(fixture, USDT, 1_000));
+    const stable = await pool.getUserAccountData(stableUser.address);
+    expect(stable.totalCollateralUSD.toString()).to.equal(PRECISION.mul(1_000).toString());
+
+    // WETH collateral of the same dollar value lands within one unit's rounding of it
+    const wethPrice = await pool.getTokenPrice(WETH);
+    const wethAmount = PRECISION.mul(1_000).mul(PRECISION).div(wethPrice);
+    await depositAs(fixture, etherUser, WETH, wethAmount);
+    const ether = await pool.getUserAccountData(etherUser.address);
+    expect(PRECISION.mul(1_000).sub(ether.totalCollateralUSD).lte(PRECISION.div(1e6))).to.equal(true);
+
+    // And the module values both positions exactly as the contract does
+    expect(toUSD(units(fixture, USDT, 1), PRECISION, 6).toString()).to.equal(PRECISION.toString());
+    for (const user of [stableUser, etherUser]) {
+      const position = await readPosition(fixture, user.address);
+      const account = await pool.getUserAccountData(user.address);
+      expect(getTotalCollateralUSD(position).toString()).to.equal(account.totalCollateralUSD.toString());
+      expect(getBorrowCapacity(position).toString()).to.equal((await pool.getBorrowCapacity(user.address)).toString());
+    }
+  });
+
+  it("matches the contract for random positions", async function () {
+    const random = mulberry32(0x5eed);
+
+    for (let scenario = 0; scenario < 8; scenario++) {
+      const fixture = await loadFixture(deployPoolFixture);
+      const { owner, users, supported } = fixture;
+      const params = await readParams(fixture);
+      const user = users[0];
+
+      for (const token of supported) {
+        // Test accounts hold 10,000 ETH, so native reserves stay smaller
+        await fundAs(fixture, owner, token, units(fixture, token, token === NATIVE ? 1_000 : 1_000_000));
+        if (random() < 0.6) {
+          await depositAs(fixture, user, token, randomAmount(random, fixture.decimals[token]));
+        }
+      }
+      await expectMatchesContract(fixture, user, params);
+
+      // Borrow a random share of what the module says is available, one token at a time
+      for (const token of supported) {
+        if (random() < 0.5) continue;
+        const position = await readPosition(fixture, user.address);
+        const max = getMaxBorrow(position, token, await fixture.pool.reserves(token), params);
+        const amount = max.mul(Math.floor(random() * 100)).div(100);
+        if (amount.isZero()) continue;
+        await fixture.pool.connect(user).borrow(token, amount);
+      }
+      await expectMatchesContract(fixture, user, params);
+    }
+  });
+
+  it("agrees on liquidation once prices move", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, owner, users, tokens } = fixture;
+    const params = await readParams(fixture);
+    const [user] = users;
+    const USDT = tokens.USDT.address;
+
+    await fundAs(fixture, owner, USDT, units(fixture, USDT, 1_000_000));
+    await depositAs(fixture, user, NATIVE, units(fixture, NATIVE, 3));
+
+    const position = await readPosition(fixture, user.address);
+    await pool.connect(user).borrow(USDT, getMaxBorrow(position, USDT, await pool.reserves(USDT), params));
+    await expectMatchesContract(fixture, user, params);
+
+    // The liquidation distance is exactly the extra debt that tips the position over; USDT has
+    // 6 decimals at $1, so the smallest USDT amount worth at least that distance is a ceiling
+    const borrowed = await readPosition(fixture, user.address);
+    const distance = getLiquidationDistanceUSD(borrowed, params);
+    const unitUSD = PRECISION.div(BigNumber.from(10).pow(fixture.decimals[USDT]));
+    const tipping = distance.add(unitUSD).sub(1).div(unitUSD);
+    expect(isLiquidatable(applyAction(borrowed, "borrow", USDT, tipping.sub(1)), params)).to.equal(false);
+    expect(isLiquidatable(applyAction(borrowed, "borrow", USDT, tipping), params)).to.equal(true);
+
+    // Halving the BNB price pushes the position past the threshold
+    await scalePrice(fixture, NATIVE, 1, 2);
+
+    const moved = await readPosition(fixture, user.address);
+    expect(isLiquidatable(moved, params)).to.equal(true);
+    await expectMatchesContract(fixture, user, params);
+  });
+
+  it("previews partial liquidations as the contract executes them", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, owner, users, tokens } = fixture;
+    const params = await readParams(fixture);
+    const liquidationParams = await readLiquidationParams(fixture);
+    const [user, liquidator] = users;
+    const USDT = tokens.USDT.address;
+
+    await fundAs(fixture, owner, USDT, units(fixture, USDT, 1_000_000));
+    await depositAs(fixture, user, NATIVE, units(fixture, NATIVE, 3));
+    const position = await readPosition(fixture, user.address);
+    await pool.connect(user).borrow(USDT, getMaxBorrow(position, USDT, await pool.reserves(USDT), params));
+    await tokens.USDT.mint(liquidator.address, units(fixture, USDT, 1_000_000));
+    await tokens.USDT.connect(liquidator).approve(pool.address, constants.MaxUint256);
+
+    // A healthy position, then a close-factor liquidation, then one the collateral can't cover
+    for (const [numerator, denominator] of [[1, 1], [9, 10], [1, 8]]) {
+      await scalePrice(fixture, NATIVE, numerator, denominator);
+      const preview = previewLiquidation(
+        await readPosition(fixture, user.address), USDT, constants.MaxUint256, NATIVE, params, liquidationParams
+      );
+      const call = pool.connect(liquidator).liquidate(user.address, USDT, constants.MaxUint256, NATIVE);
+      if (preview.error) {
+        expect(await contractCode(call)).to.equal(preview.error);
+        continue;
+      }
+      const args = await eventArgs(call, "Liquidated");
+      expect(args.repaidAmount.toString()).to.equal(preview.repayAmount.toString());
+      expect(args.seizedAmount.toString()).to.equal(preview.seizeAmount.toString());
+      expect(preview.profitUSD.gt(0)).to.equal(true);
+    }
+    expect((await pool.userCollateral(user.address, NATIVE)).isZero()).to.equal(true);
+  });
+
+  it("previews the write-off sweep of collateral worth nothing once weighted", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, owner, users, tokens } = fixture;
+    const params = await readParams(fixture);
+    const liquidationParams = await readLiquidationParams(fixture);
+    const [user, liquidator] = users;
+    const USDT = tokens.USDT.address;
+    const WETH = tokens.WETH.address;
+
+    await fundAs(fixture, owner, USDT, units(fixture, USDT, 1_000_000));
+    await depositAs(fixture, user, NATIVE, units(fixture, NATIVE, 3));
+    await pool.connect(user).borrow(USDT, getMaxBorrow(await readPosition(fixture, user.address), USDT, await pool.reserves(USDT), params));
+    // One wei of WETH at under a dollar adds nothing to the borrow capacity
+    await depositAs(fixture, user, WETH, 1);
+    await scalePrice(fixture, WETH, 1, 10_000);
+    await scalePrice(fixture, NATIVE, 1, 8);
+    await tokens.USDT.mint(liquidator.address, units(fixture, USDT, 1_000_000));
+    await tokens.USDT.connect(liquidator).approve(pool.address, constants.MaxUint256);
+
+    const position = await readPosition(fixture, user.address);
+    const preview = previewLiquidation(position, USDT, constants.MaxUint256, NATIVE, params, liquidationParams);
+    expect(preview.error).to.equal(null);
+    expect(preview.writesOff).to.equal(true);
+    expect(Object.keys(preview.sweptCollateral)).to.deep.equal([WETH]);
+    expect(preview.sweptCollateral[WETH].toNumber()).to.equal(1);
+    expect(preview.sweptUSD.toString()).to.equal(toUSD(BigNumber.from(1), position.prices[WETH], 18).toString());
+    expect(preview.profitUSD.toString()).to.equal(preview.seizeUSD.add(preview.sweptUSD).sub(preview.repayUSD).toString());
+
+    const receipt = await (await pool.connect(liquidator).liquidate(user.address, USDT, constants.MaxUint256, NATIVE)).wait();
+    const seized = (receipt.events || []).filter((event) => event.event === "Liquidated").map((event) => event.args!);
+    expect(seized.map((args) => [args.collateralToken, args.seizedAmount.toString()])).to.deep.equal([
+      [NATIVE, preview.seizeAmount.toString()],
+      [WETH, preview.sweptCollateral[WETH].toString()],
+    ]);
+    expect((receipt.events || []).some((event) => event.event === "BadDebtRecorded")).to.equal(true);
+
+    // A liquidation that leaves capacity behind sweeps nothing
+    const healthy = previewLiquidation(position, USDT, BigNumber.from(1), NATIVE, params, liquidationParams);
+    expect(healthy.writesOff).to.equal(false);
+    expect(healthy.sweptUSD.isZero()).to.equal(true);
+  });
+
+  it("previews writing off a position whose collateral price dropped to zero", async function () {
+    const fixture = await loadFixture(deployPoolFixture);
+    const { pool, owner, users, tokens, feeds } = fixture;
+    const params = await readParams(fixture);
+    const liquidationParams = await readLiquidationParams(fixture);
+    const [user, liquidator] = users;
+    const USDT = tokens.USDT.address;
+
+    await fundAs(fixture, owner, USDT, units(fixture, USDT, 1_000_000));
+    await depositAs(fixture, user, NATIVE, units(fixture, NATIVE, 3));
+    await pool.connect(user).borrow(USDT, units(fixture, USDT, 100));
+    await feeds[NATIVE].setPrice(0);
+
+    const position = await readPosition(fixture, user.address);
+    expect(getBorrowCapacity(position).toString()).to.equal((await pool.getBorrowCapacity(user.address)).toString());
+    expect(getTotalDebtUSD(position).toString()).to.equal((await pool.getTotalDebtUSD(user.address)).toString());
+    expect(isLiquidatable(position, params)).to.equal(true);
+
+    const preview = previewLiquidation(position, USDT, constants.MaxUint256, NATIVE, params, liquidationParams);
+    expect(preview.error).to.equal(null);
+    expect(preview.repayAmount.isZero()).to.equal(true);
+    expect(preview.writesOff).to.equal(true);
+    expect(preview.sweptCollateral[NATIVE].toString()).to.equal(units(fixture, NATIVE, 3).toString());
+
+    const args = await eventArgs(pool.connect(liquidator).liquidate(user.address, USDT, constants.MaxUint256, NATIVE), "Liquidated");
+    expect(args.repaidAmount.toString()).to.equal(preview.repayAmount.toString());
+    expect(args.seizedAmount.toString()).to.equal(preview.sweptCollateral[NATIVE].toString());
+  });
+});
@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { newAccountScan, scanAccounts, rankAtRiskAccounts } from "../src/lib/riskAccounts";
+import { RiskParams, LiquidationParams } from "../src/lib/risk";
+import { deployPoolFixture, depositAs, fundAs, scalePrice, units, PoolFixture, NATIVE } from "./fixtures";
+import { eventArgs } from "./helpers";
+
+const WAD = ethers.constants.WeiPerEther;
+const CHAIN_ID = 31337;
+
+async function readParams(fixture: PoolFixture): Promise<[RiskParams, LiquidationParams]> {
+  const { pool } = fixture;
+  return [
+    {
+      maxBorrowRatio: (await pool.MAX_BORROW_RATIO()).toNumber(),
+      liquidationThreshold: (await pool.LIQUIDATION_THRESHOLD()).toNumber(),
+    },
+    {
+      closeFactorBps: (await pool.closeFactorBps()).toNumber(),
+      liquidationBonusBps: (await pool.liquidationBonusBps()).toNumber(),
+    },
+  ];
+}
+
+// What the registry would list: every supported token with its weight and decimals
+async function registryOf(fixture: PoolFixture) {
+  return Promise.all(
+    fixture.supported.map(async (address) => ({
+      address,
+      weight: (await fixture.pool.tokenConfigs(address)).weight.toNumber(),
+      decimals: fixture.decimals[address],
+    }))
+  );
+}
+
+// Three accounts: a heavy BNB borrower, a light WETH borrower and a depositor who never borrowed
+async function borrowersFixture() {
+  const fixture = await deployPoolFixture();
+  const { pool, owner, users, tokens } = fixture;
+  const [heavy, light, saver] = users;
+  const USDT = tokens.USDT.address;
+
+  await fundAs(fixture, owner, USDT, units(fixture, USDT, 1_000_000));
+  await depositAs(fixture, heavy, NATIVE, WAD.mul(3));
+  await depositAs(fixture, light, tokens.WETH.address, WAD);
+  await depositAs(fixture, saver, USDT, units(fixture, USDT, 100));
+
+  const limit = (await pool.getBorrowCapacity(heavy.address)).mul(80).div(100);
+  await pool.connect(heavy).borrow(USDT, limit.div(10 ** 12));
+  await pool.connect(light).borrow(USDT, units(fixture, USDT, 100));
+  return fixture;
+}
+
+describe("at-risk account discovery", function () {
+  it("finds depositors and borrowers from the logs, reading only new blocks", async function () {
+    const fixture = await loadFixture(borrowersFixture);
+    const { pool, users } = fixture;
+    const [heavy, light, saver, latecomer] = users;
+
+    const scan = await scanAccounts(pool, newAccountScan(0));
+    expect(scan.accounts).to.have.members([heavy.address, light.address, saver.address]);
+    expect(scan.nextBlock).to.equal((await ethers.provider.getBlockNumber()) + 1);
+
+    await depositAs(fixture, latecomer, NATIVE, WAD);
+    const next = await scanAccounts(pool, { accounts: [], nextBlock: scan.nextBlock });
+    expect(next.accounts).to.deep.equal([latecomer.address]);
+  });
+
+  it("ranks the borrowers by indebtedness, with the best liquidation of those past the threshold", async function () {
+    const fixture = await loadFixture(borrowersFixture);
+    const { pool, users, tokens } = fixture;
+    const [heavy, light, saver, liquidator] = users;
+    const USDT = tokens.USDT.address;
+    const [params, liquidation] = await readParams(fixture);
+    const registry = await registryOf(fixture);
+    const accounts = [saver.address, light.address, heavy.address];
+
+    const healthy = await rankAtRiskAccounts(pool, CHAIN_ID, accounts, registry, params, liquidation);
+    expect(healthy.map((account) => account.address)).to.deep.equal([heavy.address, light.address]);
+    expect(healthy.every((account) => account.bestLiquidation === null)).to.equal(true);
+    expect(healthy[0].indebtedness).to.equal((await pool.getIndebtedness(heavy.address)).toNumber());
+
+    await scalePrice(fixture, NATIVE, 9, 10);
+    const [atRisk] = await rankAtRiskAccounts(pool, CHAIN_ID, accounts, registry, params, liquidation);
+    expect(atRisk.address).to.equal(heavy.address);
+    expect(atRisk.totalDebtUSD.toString()).to.equal((await pool.getTotalDebtUSD(heavy.address)).toString());
+    const best = atRisk.bestLiquidation!;
+    expect(best.debtToken).to.equal(USDT);
+    expect(best.collateralToken).to.equal(NATIVE);
+
+    // The estimate is exactly what the liquidation then does
+    await tokens.USDT.mint(liquidator.address, best.repayAmount);
+    await tokens.USDT.connect(liquidator).approve(pool.address, best.repayAmount);
+    const tx = pool.connect(liquidator).liquidate(heavy.address, USDT, ethers.constants.MaxUint256, NATIVE);
+    const args = await eventArgs(tx, "Liquidated");
+    expect(args.repaidAmount.toString()).to.equal(best.repayAmount.toString());
+    expect(args.seizedAmount.toString()).to.equal(best.seizeAmount.toString());
+  });
+
+  it("reads the positions in Multicall batches", async function () {
+    const fixture = await loadFixture(borrowersFixture);
+    const { pool, users } = fixture;
+    const [heavy, light, saver, ...others] = users;
+    const [params, liquidation] = await readParams(fixture);
+    const registry = await registryOf(fixture);
+    // Enough accounts for two batches; the ones that never deposited read as empty positions
+    const accounts = [saver.address, light.address, heavy.address, ...others.map((signer) => signer.address)];
+    for (let i = 0; accounts.length <= 50; i++) accounts.push(ethers.utils.hexZeroPad(ethers.utils.hexlify(i + 1), 20));
+
+    const individually = await rankAtRiskAccounts(pool, CHAIN_ID, accounts, registry, params, liquidation);
+
+    const Multicall = await ethers.getContractFactory("Multicall3");
+    const multicall = await Multicall.deploy();
+    await multicall.deployed();
+    const provider = pool.provider as typeof ethers.provider;
+    const send = provider.call.bind(provider);
+    let calls = 0;
+    provider.call = (...args) => {
+      calls++;
+      return send(...args);
+    };
+    process.env.NEXT_PUBLIC_MULTICALL_ADDRESS = multicall.address;
+    try {
+      const batched = await rankAtRiskAccounts(pool, CHAIN_ID, accounts, registry, params, liquidation);
+      expect(calls).to.equal(2);
+      expect(batched.map((account) => account.address)).to.deep.equal([heavy.address, light.address]);
+      expect(batched.map((account) => account.indebtedness)).to.deep.equal(individually.map((account) => account.indebtedness));
+    } finally {
+      delete process.env.NEXT_PUBLIC_MULTICALL_ADDRESS;
+      delete (provider as { call?: unknown }).call;
+    }
+  });
+});